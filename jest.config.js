@@ -1,5 +1,6 @@
 const { pathsToModuleNameMapper } = require('ts-jest');
-const { compilerOptions } = require('./tsconfig.json');
+// The tests also import db, schema and service modules by alias, which the application itself never does
+const { compilerOptions } = require('./tests/tsconfig.json');
 
 module.exports = {
   preset: 'ts-jest',
@@ -0,0 +1,14 @@
+-- Per-profile log of every watch status change, including rewatches
+CREATE TABLE IF NOT EXISTS watch_history (
+  id INT NOT NULL AUTO_INCREMENT,
+  profile_id INT NOT NULL,
+  content_type ENUM('episode', 'season', 'show', 'movie') NOT NULL,
+  content_id INT NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  is_rewatch TINYINT(1) NOT NULL DEFAULT 0,
+  watched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_watch_history_profile_date (profile_id, watched_at),
+  KEY idx_watch_history_content (content_type, content_id),
+  CONSTRAINT fk_watch_history_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
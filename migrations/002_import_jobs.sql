@@ -0,0 +1,16 @@
+-- Background jobs importing watch history exported from other trackers
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id INT NOT NULL AUTO_INCREMENT,
+  profile_id INT NOT NULL,
+  source ENUM('trakt', 'tvtime', 'letterboxd') NOT NULL,
+  status ENUM('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED') NOT NULL DEFAULT 'QUEUED',
+  total_items INT NOT NULL DEFAULT 0,
+  processed_items INT NOT NULL DEFAULT 0,
+  results JSON NULL,
+  error VARCHAR(500) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL,
+  PRIMARY KEY (id),
+  KEY idx_import_jobs_profile (profile_id, created_at),
+  CONSTRAINT fk_import_jobs_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
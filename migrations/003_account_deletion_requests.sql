@@ -0,0 +1,10 @@
+-- Account deletions waiting out their grace period, during which they can be cancelled
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  account_id INT NOT NULL,
+  revoke_firebase_user TINYINT(1) NOT NULL DEFAULT 0,
+  requested_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  scheduled_for TIMESTAMP NOT NULL,
+  PRIMARY KEY (account_id),
+  KEY idx_account_deletion_requests_scheduled (scheduled_for),
+  CONSTRAINT fk_account_deletion_requests_account FOREIGN KEY (account_id) REFERENCES accounts (account_id) ON DELETE CASCADE
+);
@@ -0,0 +1,17 @@
+-- Shows and movies a profile plans to watch, kept apart from its favorites until they are promoted
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  id INT NOT NULL AUTO_INCREMENT,
+  profile_id INT NOT NULL,
+  content_type ENUM('show', 'movie') NOT NULL,
+  tmdb_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NULL,
+  poster_image VARCHAR(255) NULL,
+  release_date DATE NULL,
+  position INT NOT NULL,
+  added_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_watchlist_items_content (profile_id, content_type, tmdb_id),
+  KEY idx_watchlist_items_position (profile_id, content_type, position),
+  CONSTRAINT fk_watchlist_items_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
@@ -0,0 +1,40 @@
+-- Named lists of shows and movies created by a profile, optionally shared with other profiles on the same account
+CREATE TABLE IF NOT EXISTS custom_lists (
+  id INT NOT NULL AUTO_INCREMENT,
+  profile_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(500) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_custom_lists_profile (profile_id),
+  CONSTRAINT fk_custom_lists_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS custom_list_items (
+  id INT NOT NULL AUTO_INCREMENT,
+  list_id INT NOT NULL,
+  content_type ENUM('show', 'movie') NOT NULL,
+  tmdb_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NULL,
+  poster_image VARCHAR(255) NULL,
+  release_date DATE NULL,
+  note VARCHAR(1000) NULL,
+  position INT NOT NULL,
+  added_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_custom_list_items_content (list_id, content_type, tmdb_id),
+  KEY idx_custom_list_items_position (list_id, position),
+  CONSTRAINT fk_custom_list_items_list FOREIGN KEY (list_id) REFERENCES custom_lists (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS custom_list_shares (
+  list_id INT NOT NULL,
+  profile_id INT NOT NULL,
+  shared_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (list_id, profile_id),
+  KEY idx_custom_list_shares_profile (profile_id),
+  CONSTRAINT fk_custom_list_shares_list FOREIGN KEY (list_id) REFERENCES custom_lists (id) ON DELETE CASCADE,
+  CONSTRAINT fk_custom_list_shares_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
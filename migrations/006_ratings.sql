@@ -0,0 +1,13 @@
+-- A profile's own rating (1-10, or 0.5-5 stars stored doubled) and private review of a show, season, episode or movie
+CREATE TABLE IF NOT EXISTS ratings (
+  profile_id INT NOT NULL,
+  content_type ENUM('show', 'season', 'episode', 'movie') NOT NULL,
+  content_id INT NOT NULL,
+  rating TINYINT UNSIGNED NOT NULL,
+  review TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (profile_id, content_type, content_id),
+  KEY idx_ratings_profile_rating (profile_id, rating),
+  CONSTRAINT fk_ratings_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
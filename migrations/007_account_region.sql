@@ -0,0 +1,2 @@
+-- The ISO 3166-1 country an account watches from, used to look up streaming providers
+ALTER TABLE accounts ADD COLUMN region CHAR(2) NOT NULL DEFAULT 'US';
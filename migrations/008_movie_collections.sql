@@ -0,0 +1,25 @@
+-- TMDB collections (franchises) of movies, keyed by their TMDB collection id, with every movie in release order
+CREATE TABLE IF NOT EXISTS movie_collections (
+  id INT NOT NULL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  poster_image VARCHAR(255) NULL,
+  backdrop_image VARCHAR(255) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS movie_collection_parts (
+  collection_id INT NOT NULL,
+  tmdb_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  release_date DATE NULL,
+  poster_image VARCHAR(255) NULL,
+  position INT NOT NULL,
+  PRIMARY KEY (collection_id, tmdb_id),
+  KEY idx_movie_collection_parts_tmdb (tmdb_id),
+  CONSTRAINT fk_movie_collection_parts_collection FOREIGN KEY (collection_id) REFERENCES movie_collections (id) ON DELETE CASCADE
+);
+
+ALTER TABLE movies
+  ADD COLUMN collection_id INT NULL,
+  ADD CONSTRAINT fk_movies_collection FOREIGN KEY (collection_id) REFERENCES movie_collections (id) ON DELETE SET NULL;
@@ -0,0 +1,20 @@
+-- TMDB people (actors, directors, ...) a profile follows, and the credits already seen for each followed person so
+-- only newly announced shows and movies generate notifications
+CREATE TABLE IF NOT EXISTS person_follows (
+  profile_id INT NOT NULL,
+  person_id INT NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  profile_image VARCHAR(255) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (profile_id, person_id),
+  KEY idx_person_follows_person (person_id),
+  CONSTRAINT fk_person_follows_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS person_known_credits (
+  person_id INT NOT NULL,
+  content_type ENUM('show', 'movie') NOT NULL,
+  tmdb_id INT NOT NULL,
+  first_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (person_id, content_type, tmdb_id)
+);
@@ -0,0 +1,2 @@
+-- When an account read each notification, kept separate from dismissing it
+ALTER TABLE account_notifications ADD COLUMN read_at TIMESTAMP NULL DEFAULT NULL;
@@ -0,0 +1,35 @@
+-- Notifications generated for profiles from their favorites (new episodes, new seasons, movie releases and show
+-- endings): each profile's opt outs by category, the events each profile was already notified about, and the last
+-- seen show statuses and movie streaming services so only changes generate notifications
+
+CREATE TABLE IF NOT EXISTS profile_notification_preferences (
+  profile_id INT NOT NULL,
+  category VARCHAR(20) NOT NULL,
+  enabled TINYINT(1) NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (profile_id, category),
+  CONSTRAINT fk_profile_notification_preferences_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id)
+    ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS profile_notification_events (
+  profile_id INT NOT NULL,
+  event_key VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (profile_id, event_key),
+  CONSTRAINT fk_profile_notification_events_profile FOREIGN KEY (profile_id) REFERENCES profiles (profile_id)
+    ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS show_status_snapshots (
+  show_id INT NOT NULL PRIMARY KEY,
+  status VARCHAR(50) NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS movie_service_snapshots (
+  movie_id INT NOT NULL,
+  streaming_service_id INT NOT NULL,
+  first_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (movie_id, streaming_service_id)
+);
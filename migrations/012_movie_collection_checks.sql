@@ -0,0 +1,4 @@
+-- When each movie was last looked up on TMDB for a collection, so movies saved before collections were linked can be
+-- backfilled once without looking up the movies that are not part of any collection again
+ALTER TABLE movies
+  ADD COLUMN collection_checked_at TIMESTAMP NULL DEFAULT NULL;
@@ -0,0 +1,6 @@
+-- The seasons of favorited shows already seen by the profile notification job, so only seasons added since its last
+-- run are announced
+CREATE TABLE IF NOT EXISTS season_snapshots (
+  season_id INT NOT NULL PRIMARY KEY,
+  first_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
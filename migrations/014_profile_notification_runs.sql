@@ -0,0 +1,6 @@
+-- When each snapshot check of the profile notification job last finished, so a profile is only told about seasons
+-- and streaming services of favorites it already had when the job last ran
+CREATE TABLE IF NOT EXISTS profile_notification_runs (
+  check_name VARCHAR(30) NOT NULL PRIMARY KEY,
+  last_run_at TIMESTAMP NOT NULL
+);
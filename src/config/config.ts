@@ -0,0 +1,64 @@
+const DEFAULT_ACCOUNT_DELETION_GRACE_DAYS = 7;
+const DEFAULT_ACCOUNT_PURGE_SCHEDULE = '0 * * * *';
+
+/**
+ * Number of days a requested account deletion can still be cancelled, 0 deletes accounts straight away
+ */
+export const getAccountDeletionGraceDays = (): number => {
+  const days = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_ACCOUNT_DELETION_GRACE_DAYS;
+};
+
+/**
+ * Cron expression for the job that purges accounts whose grace period has ended
+ */
+export const getAccountPurgeSchedule = (): string => {
+  return process.env.ACCOUNT_PURGE_SCHEDULE || DEFAULT_ACCOUNT_PURGE_SCHEDULE;
+};
+
+const DEFAULT_PERSON_ALERT_SCHEDULE = '0 6 * * *';
+
+/**
+ * Cron expression for the job that notifies accounts about new shows and movies of the people their profiles follow
+ */
+export const getPersonAlertSchedule = (): string => {
+  return process.env.PERSON_ALERT_SCHEDULE || DEFAULT_PERSON_ALERT_SCHEDULE;
+};
+
+const DEFAULT_SOCKET_TOKEN_CHECK_MINUTES = 5;
+
+/**
+ * Minutes between checks that a connected socket's token has not been revoked
+ */
+export const getSocketTokenCheckMinutes = (): number => {
+  const minutes = parseInt(process.env.SOCKET_TOKEN_CHECK_MINUTES ?? '', 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_SOCKET_TOKEN_CHECK_MINUTES;
+};
+
+const DEFAULT_NOTIFICATION_PUSH_SCHEDULE = '* * * * *';
+
+/**
+ * Cron expression for the job that pushes newly active notifications to connected sockets
+ */
+export const getNotificationPushSchedule = (): string => {
+  return process.env.NOTIFICATION_PUSH_SCHEDULE || DEFAULT_NOTIFICATION_PUSH_SCHEDULE;
+};
+
+const DEFAULT_PROFILE_NOTIFICATION_SCHEDULE = '0 7 * * *';
+
+/**
+ * Cron expression for the job that notifies profiles about new episodes, new seasons, movie releases and show
+ * endings of their favorites
+ */
+export const getProfileNotificationSchedule = (): string => {
+  return process.env.PROFILE_NOTIFICATION_SCHEDULE || DEFAULT_PROFILE_NOTIFICATION_SCHEDULE;
+};
+
+const DEFAULT_COLLECTION_BACKFILL_SCHEDULE = '30 3 * * *';
+
+/**
+ * Cron expression for the job that links favorited movies saved before collections were tracked to their collections
+ */
+export const getCollectionBackfillSchedule = (): string => {
+  return process.env.COLLECTION_BACKFILL_SCHEDULE || DEFAULT_COLLECTION_BACKFILL_SCHEDULE;
+};
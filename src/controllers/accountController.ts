@@ -1,3 +1,8 @@
+import { AccountDeletionQuery, AccountExportQuery, AccountRegionBody } from '../schema/accountSchema';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { accountExportService } from '../services/accountExportService';
+import { accountRegionService } from '../services/accountRegionService';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
 import {
   AccountIdParam,
   AccountLoginBody,
@@ -8,6 +13,8 @@ import {
 import { accountService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 /**
  * Register a new account
@@ -131,22 +138,108 @@ export const logout = asyncHandler(async (req: Request, res: Response, next: Nex
 });
 
 /**
- * Updates an account's details (name and default profile).
+ * Updates an account's details (name, default profile and the region it watches from).
  *
  * @route PUT /api/v1/accounts/:accountId
  */
 export const editAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { accountId } = req.params as unknown as AccountIdParam;
-    const { name, defaultProfileId }: UpdateAccountBody = req.body;
+    const { name, defaultProfileId, region }: UpdateAccountBody & AccountRegionBody = req.body;
 
     const updatedAccount = await accountService.editAccount(accountId, name, defaultProfileId);
+    const accountRegion = await accountRegionService.saveRegion(accountId, region);
 
     res.status(200).json({
       message: `Updated account ${accountId}`,
-      result: updatedAccount,
+      result: { ...updatedAccount, region: accountRegion },
     });
   } catch (error) {
     next(error);
   }
 });
+
+/**
+ * Export everything stored for an account as a JSON or CSV download
+ *
+ * The export is streamed as it is read, so once the download has started a failure can only
+ * end the response early rather than return an error payload
+ *
+ * @route GET /api/v1/accounts/:accountId/export
+ */
+export const exportAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { accountId } = req.params as unknown as AccountIdParam;
+  try {
+    const { format = 'json' } = req.query as unknown as AccountExportQuery;
+    const accountExport = await accountExportService.createExport(accountId, format);
+
+    res.status(200);
+    res.setHeader('Content-Type', accountExport.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${accountExport.fileName}"`);
+    await pipeline(Readable.from(accountExport.content), res);
+  } catch (error) {
+    if (res.headersSent) {
+      appLogger.error('Account export failed after the download started', { error, accountId });
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * Delete an account, its profiles and everything stored for them
+ *
+ * With a grace period configured the account is purged once it ends and the deletion can be
+ * cancelled until then, otherwise it is purged straight away
+ *
+ * @route DELETE /api/v1/accounts/:accountId
+ * @returns {Response} 202 when the deletion is scheduled, 200 when the account has been deleted
+ */
+export const deleteAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const { revokeFirebaseUser } = req.query as unknown as AccountDeletionQuery;
+
+    const deletion = await accountDeletionService.requestDeletion(accountId, revokeFirebaseUser === 'true');
+
+    if (deletion.status === 'SCHEDULED') {
+      res.status(202).json({ message: `Scheduled the deletion of account ${accountId}`, deletion });
+    } else {
+      res.status(200).json({ message: `Deleted account ${accountId}`, deletion });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the pending deletion of an account
+ *
+ * @route GET /api/v1/accounts/:accountId/deletion
+ */
+export const getAccountDeletion = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const deletion = await accountDeletionService.getPendingDeletion(accountId);
+
+    res.status(200).json({ message: 'Retrieved the pending deletion of the account', deletion });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Cancel the pending deletion of an account
+ *
+ * @route POST /api/v1/accounts/:accountId/deletion/cancel
+ */
+export const cancelAccountDeletion = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    await accountDeletionService.cancelDeletion(accountId);
+
+    res.status(200).json({ message: `Cancelled the deletion of account ${accountId}` });
+  } catch (error) {
+    next(error);
+  }
+});
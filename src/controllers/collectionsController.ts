@@ -0,0 +1,38 @@
+import { CollectionParams } from '../schema/collectionSchema';
+import { collectionsService } from '../services/collectionsService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get a profile's progress through every movie collection it has favorited a movie from
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/collections
+ */
+export async function getCollections(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+
+    const collections = await collectionsService.getCollections(profileId);
+
+    res.status(200).json({ message: 'Successfully retrieved collections for a profile', collections });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add every movie in a collection to a profile's favorites
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/collections/:collectionId/favorites
+ */
+export async function favoriteCollection(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, collectionId } = req.params as unknown as CollectionParams;
+
+    const collection = await collectionsService.favoriteCollection(profileId, collectionId);
+
+    res.status(200).json({ message: 'Successfully saved the collection as a favorite', collection });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,3 +1,5 @@
+import { DiscoverFilterQuery } from '../schema/discoverSchema';
+import { discoverService } from '../services/discoverService';
 import {
   DiscoverChangesQuery,
   DiscoverTopQuery,
@@ -38,3 +40,14 @@ export const discoverTrendingContent = async (req: Request, res: Response, next:
     next(error);
   }
 };
+
+// GET /api/v1/discover/filter
+export const discoverFilteredContent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filters = req.query as unknown as DiscoverFilterQuery;
+    const filteredContent = await discoverService.discoverFilteredContent(filters);
+    res.status(200).json(filteredContent);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,3 +1,9 @@
+import { BulkEpisodeWatchStatusBody } from '../schema/episodeSchema';
+import { ratingsService } from '../services/ratingsService';
+import { socketEventService } from '../services/socketEventService';
+import { watchHistoryService } from '../services/watchHistoryService';
+import { watchProgressService } from '../services/watchProgressService';
+import { withProfileRatings } from '../utils/ratingUtility';
 import {
   AccountAndProfileIdsParams,
   EpisodeWatchStatusBody,
@@ -13,7 +19,15 @@ export const updateEpisodeWatchStatus = async (req: Request, res: Response, next
     const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { episodeId, status } = req.body as EpisodeWatchStatusBody;
 
-    const episodes = await episodesService.updateEpisodeWatchStatus(accountId, profileId, episodeId, status);
+    const episodes = await watchHistoryService.trackStatusChange(profileId, 'episode', episodeId, status, () =>
+      episodesService.updateEpisodeWatchStatus(accountId, profileId, episodeId, status),
+    );
+    socketEventService.emitToProfile(profileId, 'episodes:statusChanged', {
+      profileId,
+      episodeIds: [episodeId],
+      status,
+      nextUnwatchedEpisodes: episodes,
+    });
 
     res.status(200).json({
       message: 'Successfully updated the episode watch status',
@@ -30,14 +44,17 @@ export const updateNextEpisodeWatchStatus = async (req: Request, res: Response,
     const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { showId, seasonId, episodeId, status } = req.body as NextEpisodeWatchStatusBody;
 
-    const episodes = await episodesService.updateNextEpisodeWatchStatus(
-      accountId,
+    const episodes = await watchHistoryService.trackStatusChange(profileId, 'episode', episodeId, status, () =>
+      episodesService.updateNextEpisodeWatchStatus(accountId, profileId, showId, seasonId, episodeId, status),
+    );
+    socketEventService.emitToProfile(profileId, 'episodes:statusChanged', {
       profileId,
       showId,
       seasonId,
-      episodeId,
+      episodeIds: [episodeId],
       status,
-    );
+      nextUnwatchedEpisodes: episodes,
+    });
 
     res.status(200).json({
       message: 'Successfully updated the episode watch status',
@@ -48,16 +65,42 @@ export const updateNextEpisodeWatchStatus = async (req: Request, res: Response,
   }
 };
 
+// PUT /api/v1/accounts/:accountId/profiles/${profileId}/episodes/watchStatus/bulk
+export const bulkUpdateEpisodeWatchStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { status, ...selection } = req.body as BulkEpisodeWatchStatusBody;
+
+    const episodes = await watchProgressService.bulkUpdateEpisodeWatchStatus(profileId, selection, status);
+    socketEventService.emitToProfile(profileId, 'episodes:statusChanged', {
+      profileId,
+      ...selection,
+      status,
+      nextUnwatchedEpisodes: episodes,
+    });
+
+    res.status(200).json({
+      message: 'Successfully updated the episode watch statuses',
+      nextUnwatchedEpisodes: episodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // GET /api/v1/accounts/:accountId/profiles/:profileId/seasons/:seasonId/episodes
 export const getEpisodesForSeason = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { profileId, seasonId } = req.params as unknown as ProfileSeasonIdsParams;
 
-    const episodes = await episodesService.getEpisodesForSeason(profileId, seasonId);
+    const [episodes, ratings] = await Promise.all([
+      episodesService.getEpisodesForSeason(profileId, seasonId),
+      ratingsService.getSeasonEpisodeRatings(profileId, seasonId),
+    ]);
 
     res.status(200).json({
       message: 'Successfully retrieved episodes for the season',
-      results: episodes,
+      results: withProfileRatings(episodes, 'episode_id', ratings),
     });
   } catch (error) {
     next(error);
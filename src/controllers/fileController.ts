@@ -1,4 +1,6 @@
-import uploadFileMiddleware from '../middleware/uploadMiddleware';
+import uploadFileMiddleware, { uploadImportFileMiddleware } from '../middleware/uploadMiddleware';
+import { ImportJobParams, ImportQuery } from '../schema/importSchema';
+import { importService } from '../services/importService';
 import { BadRequestError } from '@ajgifford/keepwatching-common-server';
 import { getUploadDirectory } from '@ajgifford/keepwatching-common-server/config';
 import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
@@ -89,3 +91,32 @@ export const uploadProfileImage = asyncHandler(async (req: Request, res: Respons
     next(error);
   }
 });
+
+// POST /api/v1/upload/accounts/:accountId/profiles/:profileId/import
+export const importWatchHistory = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
+  try {
+    await uploadImportFileMiddleware(req, res);
+
+    if (req.file == undefined) {
+      res.status(400).send({ message: 'Please upload a file!' });
+    } else {
+      const { source } = req.query as unknown as ImportQuery;
+      const job = await importService.startImport(accountId, profileId, source, req.file.buffer.toString('utf-8'));
+      res.status(202).send({ message: `Started importing the ${source} export`, job });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/upload/accounts/:accountId/profiles/:profileId/import/:jobId
+export const getImportStatus = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { profileId, jobId } = req.params as unknown as ImportJobParams;
+  try {
+    const job = await importService.getImportStatus(profileId, jobId);
+    res.status(200).send({ message: 'Retrieved the status of the import', job });
+  } catch (error) {
+    next(error);
+  }
+});
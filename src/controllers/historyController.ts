@@ -0,0 +1,46 @@
+import { RewatchBody, WatchHistoryQueryParams } from '../schema/historySchema';
+import { watchHistoryService } from '../services/watchHistoryService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get a page of the watch history for a profile, optionally filtered by date range and content type
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/history
+ */
+export async function getWatchHistory(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { from, to, contentType, page = 1, limit = 50 } = req.query as unknown as WatchHistoryQueryParams;
+
+    const { history, pagination } = await watchHistoryService.getHistory(profileId, {
+      from,
+      to,
+      contentType,
+      page,
+      limit,
+    });
+
+    res.status(200).json({ message: 'Successfully retrieved the watch history for a profile', history, pagination });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Log a rewatch of an already watched episode or movie without changing its watch status
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/history/rewatch
+ */
+export async function logRewatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { contentType, contentId }: RewatchBody = req.body;
+
+    await watchHistoryService.logRewatch(profileId, contentType, contentId);
+
+    res.status(201).json({ message: `Successfully logged a rewatch of the ${contentType}` });
+  } catch (error) {
+    next(error);
+  }
+}
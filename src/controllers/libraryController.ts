@@ -0,0 +1,27 @@
+import { LibrarySearchQuery } from '../schema/librarySchema';
+import { librarySearchService } from '../services/librarySearchService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Search the shows and movies in a profile's library
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/library/search
+ */
+export async function searchLibrary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { page = 1, limit = 20, sortBy = 'title', ...filters } = req.query as unknown as LibrarySearchQuery;
+
+    const { results, pagination } = await librarySearchService.searchLibrary(profileId, {
+      ...filters,
+      sortBy,
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.status(200).json({ message: 'Successfully searched the library for a profile', results, pagination });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  ListBody,
+  ListItemBody,
+  ListItemNoteBody,
+  ListItemParams,
+  ListOrderBody,
+  ListParams,
+  ListShareBody,
+} from '../schema/listSchema';
+import { listsService } from '../services/listsService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get the lists a profile created along with the lists shared with it
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/lists
+ */
+export async function getLists(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const lists = await listsService.getLists(profileId);
+    res.status(200).json({ message: 'Successfully retrieved the lists for a profile', lists });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a list for a profile
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/lists
+ */
+export async function createList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { name, description }: ListBody = req.body;
+    const list = await listsService.createList(accountId, profileId, { name, description });
+    res.status(201).json({ message: 'Successfully created the list', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a list with its items
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId
+ */
+export async function getList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, listId } = req.params as unknown as ListParams;
+    const list = await listsService.getList(profileId, listId);
+    res.status(200).json({ message: 'Successfully retrieved the list', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Rename a list and replace its description
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId
+ */
+export async function updateList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId } = req.params as unknown as ListParams;
+    const { name, description }: ListBody = req.body;
+    const list = await listsService.updateList(accountId, profileId, listId, { name, description });
+    res.status(200).json({ message: 'Successfully updated the list', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a list and its items
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId
+ */
+export async function deleteList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId } = req.params as unknown as ListParams;
+    await listsService.deleteList(accountId, profileId, listId);
+    res.status(200).json({ message: 'Successfully deleted the list' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Share a list with other profiles on the same account
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/shares
+ */
+export async function shareList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId } = req.params as unknown as ListParams;
+    const { profileIds }: ListShareBody = req.body;
+    const list = await listsService.shareList(accountId, profileId, listId, profileIds);
+    res.status(200).json({ message: 'Successfully updated who the list is shared with', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add a show or movie to the end of a list
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items
+ */
+export async function addListItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId } = req.params as unknown as ListParams;
+    const { contentType, tmdbId, note }: ListItemBody = req.body;
+    const list = await listsService.addItem(accountId, profileId, listId, contentType, tmdbId, note);
+    res.status(200).json({ message: `Successfully added the ${contentType} to the list`, list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Reorder the items of a list
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/order
+ */
+export async function reorderListItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId } = req.params as unknown as ListParams;
+    const { itemIds }: ListOrderBody = req.body;
+    const list = await listsService.reorderItems(accountId, profileId, listId, itemIds);
+    res.status(200).json({ message: 'Successfully reordered the list', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replace the note of a list item
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/:itemId
+ */
+export async function updateListItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId, itemId } = req.params as unknown as ListItemParams;
+    const { note }: ListItemNoteBody = req.body;
+    const list = await listsService.updateItemNote(accountId, profileId, listId, itemId, note);
+    res.status(200).json({ message: 'Successfully updated the list item', list });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove an item from a list
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/:itemId
+ */
+export async function removeListItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, listId, itemId } = req.params as unknown as ListItemParams;
+    const list = await listsService.removeItem(accountId, profileId, listId, itemId);
+    res.status(200).json({ message: 'Successfully removed the item from the list', list });
+  } catch (error) {
+    next(error);
+  }
+}
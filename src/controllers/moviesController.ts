@@ -1,3 +1,14 @@
+import { LibraryListQuery } from '../schema/librarySchema';
+import { MovieParams } from '../schema/movieSchema';
+import { AddMovieToWatchlistBody, WatchlistItemParams, WatchlistOrderBody } from '../schema/watchlistSchema';
+import { collectionsService } from '../services/collectionsService';
+import { libraryListService } from '../services/libraryListService';
+import { movieDetailsService } from '../services/movieDetailsService';
+import { movieRecommendationsService } from '../services/movieRecommendationsService';
+import { ratingsService } from '../services/ratingsService';
+import { watchHistoryService } from '../services/watchHistoryService';
+import { watchlistService } from '../services/watchlistService';
+import { withProfileRatings } from '../utils/ratingUtility';
 import {
   AccountAndProfileIdsParams,
   AddMovieFavoriteBody,
@@ -8,17 +19,35 @@ import { moviesService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 
 /**
- * Get all movies for a specific profile
+ * Get the movies for a specific profile, optionally sorted, paged and trimmed to the requested fields
  *
  * @route GET /api/v1/accounts/:accountId/profiles/:profileId/movies
  */
 export async function getMovies(req: Request, res: Response, next: NextFunction) {
   try {
     const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { sortBy, sortOrder, fields, page, limit } = req.query as unknown as LibraryListQuery;
 
-    const results = await moviesService.getMoviesForProfile(profileId);
+    const { items, pagination } = await libraryListService.getPage(
+      profileId,
+      'movie',
+      () => moviesService.getMoviesForProfile(profileId),
+      'movie_id',
+      {
+        sortBy,
+        sortOrder,
+        fields,
+        page: page && Number(page),
+        limit: limit && Number(limit),
+      },
+      () => ratingsService.getMovieRatings(profileId),
+    );
 
-    res.status(200).json({ message: 'Successfully retrieved movies for a profile', results });
+    res.status(200).json({
+      message: 'Successfully retrieved movies for a profile',
+      results: items,
+      pagination,
+    });
   } catch (error) {
     next(error);
   }
@@ -28,7 +57,8 @@ export async function getMovies(req: Request, res: Response, next: NextFunction)
  * Add a movie to a profile's favorites
  *
  * If the movie doesn't exist in the system, it will fetch details from TMDB
- * and create it before adding it to favorites
+ * and create it before adding it to favorites. The movie is then linked to
+ * its TMDB collection
  *
  * @route POST /api/v1/accounts/:accountId/profiles/:profileId/movies/favorites
  */
@@ -38,6 +68,8 @@ export async function addFavorite(req: Request, res: Response, next: NextFunctio
     const { movieTMDBId }: AddMovieFavoriteBody = req.body;
 
     const result = await moviesService.addMovieToFavorites(profileId, movieTMDBId);
+    await collectionsService.linkMovieToCollection(movieTMDBId);
+    await watchlistService.removeFavoritedItem(profileId, 'movie', movieTMDBId);
 
     res.status(200).json({
       message: `Successfully saved movie as a favorite`,
@@ -80,7 +112,9 @@ export async function updateMovieWatchStatus(req: Request, res: Response, next:
     const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { movieId, status }: MovieWatchStatusBody = req.body;
 
-    await moviesService.updateMovieWatchStatus(profileId, movieId, status);
+    await watchHistoryService.trackStatusChange(profileId, 'movie', movieId, status, () =>
+      moviesService.updateMovieWatchStatus(profileId, movieId, status),
+    );
 
     res.status(200).json({ message: `Successfully updated the watch status to '${status}'` });
   } catch (error) {
@@ -108,3 +142,150 @@ export async function getRecentUpcomingForProfile(req: Request, res: Response, n
     next(error);
   }
 }
+
+/**
+ * Get the movies a profile plans to watch, in watchlist order
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist
+ */
+export async function getMovieWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+
+    const watchlist = await watchlistService.getWatchlist(profileId, 'movie');
+
+    res.status(200).json({ message: 'Successfully retrieved the movie watchlist for a profile', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add a movie to the end of a profile's watchlist
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist
+ */
+export async function addMovieToWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { movieTMDBId }: AddMovieToWatchlistBody = req.body;
+
+    const watchlist = await watchlistService.addToWatchlist(profileId, 'movie', movieTMDBId);
+
+    res.status(200).json({ message: 'Successfully added the movie to the watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove a movie from a profile's watchlist
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/:tmdbId
+ */
+export async function removeMovieFromWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, tmdbId } = req.params as unknown as WatchlistItemParams;
+
+    const watchlist = await watchlistService.removeFromWatchlist(profileId, 'movie', tmdbId);
+
+    res.status(200).json({ message: 'Successfully removed the movie from the watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Reorder a profile's movie watchlist
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/order
+ */
+export async function reorderMovieWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { tmdbIds }: WatchlistOrderBody = req.body;
+
+    const watchlist = await watchlistService.reorderWatchlist(profileId, 'movie', tmdbIds);
+
+    res.status(200).json({ message: 'Successfully reordered the movie watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Move a movie from a profile's watchlist into its favorites
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/:tmdbId/promote
+ */
+export async function promoteMovieFromWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, tmdbId } = req.params as unknown as WatchlistItemParams;
+
+    const result = await watchlistService.promoteMovie(profileId, tmdbId);
+    await collectionsService.linkMovieToCollection(tmdbId);
+
+    res.status(200).json({
+      message: 'Successfully moved the movie from the watchlist to favorites',
+      favoritedMovie: result.favoritedMovie,
+      recentUpcomingMovies: result.recentUpcomingMovies,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a movie and all its details for a specific profile
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/details
+ */
+export async function getMovieDetails(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, movieId } = req.params as unknown as MovieParams;
+    const [movie, ratings] = await Promise.all([
+      movieDetailsService.getMovieDetails(accountId, profileId, movieId),
+      ratingsService.getMovieRatings(profileId),
+    ]);
+    res.status(200).json({
+      message: 'Successfully retrieved a movie and its details',
+      movie: withProfileRatings([movie], 'id', ratings)[0],
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the movies TMDB recommends to viewers of a movie
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/recommendations
+ */
+export async function getMovieRecommendations(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, movieId } = req.params as unknown as MovieParams;
+
+    const movies = await movieRecommendationsService.getMovieRecommendations(profileId, movieId);
+
+    res.status(200).json({ message: 'Successfully retrieved movie recommendations', movies });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the movies TMDB considers similar to a movie
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/similar
+ */
+export async function getSimilarMovies(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, movieId } = req.params as unknown as MovieParams;
+
+    const movies = await movieRecommendationsService.getSimilarMovies(profileId, movieId);
+
+    res.status(200).json({ message: 'Successfully retrieved similar movies', movies });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,4 +1,11 @@
-import { AccountIdParam, DismissParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NotificationHistoryQueryParams, ProfileNotificationPreferencesBody } from '../schema/notificationSchema';
+import { accountNotificationsService } from '../services/accountNotificationsService';
+import { profileNotificationsService } from '../services/profileNotificationsService';
+import {
+  AccountAndProfileIdsParams,
+  AccountIdParam,
+  DismissParams,
+} from '@ajgifford/keepwatching-common-server/schema';
 import { notificationsService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
@@ -26,9 +33,128 @@ export const getNotifications = asyncHandler(async (req: Request, res: Response,
 export const dismissNotification = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { accountId, notificationId } = req.params as unknown as DismissParams;
-    const notifications = await notificationsService.dismissNotification(notificationId, accountId);
+    const notifications = await accountNotificationsService.dismiss(accountId, notificationId);
     res.status(200).json({ message: 'Dismissed notification for account', notifications });
   } catch (error) {
     next(error);
   }
 });
+
+/**
+ * Get the number of unread notifications for an account
+ *
+ * @route GET /api/v1/accounts/:accountId/notifications/unreadCount
+ */
+export const getUnreadCount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const unreadCount = await accountNotificationsService.getUnreadCount(accountId);
+    res.status(200).json({ message: 'Retrieved the unread notification count for an account', unreadCount });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a page of the notification history for an account, optionally including dismissed and expired notifications
+ *
+ * @route GET /api/v1/accounts/:accountId/notifications/history
+ */
+export const getNotificationHistory = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const {
+      includeDismissed,
+      includeExpired,
+      page = 1,
+      limit = 20,
+    } = req.query as unknown as NotificationHistoryQueryParams;
+
+    const { notifications, pagination } = await accountNotificationsService.getHistory(accountId, {
+      includeDismissed: includeDismissed === 'true',
+      includeExpired: includeExpired === 'true',
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.status(200).json({ message: 'Retrieved notification history for an account', notifications, pagination });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Mark a notification as read for an account
+ *
+ * @route POST /api/v1/accounts/:accountId/notifications/read/:notificationId
+ */
+export const markNotificationRead = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId, notificationId } = req.params as unknown as DismissParams;
+    const unreadCount = await accountNotificationsService.markRead(accountId, notificationId);
+    res.status(200).json({ message: 'Marked notification as read for account', unreadCount });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Mark every active notification as read for an account
+ *
+ * @route POST /api/v1/accounts/:accountId/notifications/read
+ */
+export const markAllNotificationsRead = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const unreadCount = await accountNotificationsService.markAllRead(accountId);
+    res.status(200).json({ message: 'Marked all notifications as read for account', unreadCount });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Dismiss every active notification for an account
+ *
+ * @route POST /api/v1/accounts/:accountId/notifications/dismiss
+ */
+export const dismissAllNotifications = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const { dismissedCount, notifications } = await accountNotificationsService.dismissAll(accountId);
+    res.status(200).json({ message: 'Dismissed all notifications for account', dismissedCount, notifications });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get whether each category of notifications generated from a profile's favorites is enabled for the profile
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/notifications/preferences
+ */
+export const getNotificationPreferences = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const preferences = await profileNotificationsService.getPreferences(profileId);
+    res.status(200).json({ message: 'Retrieved notification preferences for a profile', preferences });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Opt a profile in or out of categories of notifications generated from its favorites
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/notifications/preferences
+ */
+export const updateNotificationPreferences = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const changes = req.body as ProfileNotificationPreferencesBody;
+    const preferences = await profileNotificationsService.updatePreferences(profileId, changes);
+    res.status(200).json({ message: 'Updated notification preferences for a profile', preferences });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,72 @@
+import { PersonParams } from '../schema/personSchema';
+import { peopleService } from '../services/peopleService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get a person with their filmography, each credit marked in or out of the profile's library
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/people/:personId
+ */
+export async function getPerson(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, personId } = req.params as unknown as PersonParams;
+
+    const person = await peopleService.getPerson(profileId, personId);
+
+    res.status(200).json({ message: 'Successfully retrieved a person and their credits', person });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the people a profile follows
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/people/following
+ */
+export async function getFollowedPeople(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+
+    const people = await peopleService.getFollowedPeople(profileId);
+
+    res.status(200).json({ message: 'Successfully retrieved followed people for a profile', people });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Follow a person to be notified when they have a new show or movie announced
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/people/:personId/follow
+ */
+export async function followPerson(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, personId } = req.params as unknown as PersonParams;
+
+    const people = await peopleService.followPerson(profileId, personId);
+
+    res.status(200).json({ message: 'Successfully followed the person', people });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Stop following a person
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/people/:personId/follow
+ */
+export async function unfollowPerson(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, personId } = req.params as unknown as PersonParams;
+
+    const people = await peopleService.unfollowPerson(profileId, personId);
+
+    res.status(200).json({ message: 'Successfully unfollowed the person', people });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,74 @@
+import { RatingBody, RatingParams, RatingsQuery } from '../schema/ratingSchema';
+import { ratingsService } from '../services/ratingsService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get every rating a profile has given, optionally only of shows, seasons, episodes or movies
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/ratings
+ */
+export async function getRatings(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { contentType } = req.query as unknown as RatingsQuery;
+
+    const ratings = await ratingsService.getRatings(profileId, contentType);
+
+    res.status(200).json({ message: 'Successfully retrieved the ratings for a profile', ratings });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a profile's rating and review of a show, season, episode or movie
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId
+ */
+export async function getRating(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, contentType, contentId } = req.params as unknown as RatingParams;
+
+    const rating = await ratingsService.getRating(profileId, contentType, contentId);
+
+    res.status(200).json({ message: `Successfully retrieved the rating of the ${contentType}`, rating });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Rate and optionally review a show, season, episode or movie on a 1-10 or half-star scale
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId
+ */
+export async function rateContent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, contentType, contentId } = req.params as unknown as RatingParams;
+    const { rating, scale, review }: RatingBody = req.body;
+
+    const savedRating = await ratingsService.rateContent(profileId, contentType, contentId, { rating, scale, review });
+
+    res.status(200).json({ message: `Successfully rated the ${contentType}`, rating: savedRating });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove a profile's rating and review of a show, season, episode or movie
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId
+ */
+export async function removeRating(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, contentType, contentId } = req.params as unknown as RatingParams;
+
+    await ratingsService.removeRating(profileId, contentType, contentId);
+
+    res.status(200).json({ message: `Successfully removed the rating of the ${contentType}` });
+  } catch (error) {
+    next(error);
+  }
+}
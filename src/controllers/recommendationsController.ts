@@ -0,0 +1,26 @@
+import { RecommendationsQuery } from '../schema/recommendationSchema';
+import { recommendationsService } from '../services/recommendationsService';
+import { AccountAndProfileIdsParams } from '@ajgifford/keepwatching-common-server/schema';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Get show and movie recommendations drawn from everything in a profile's favorites, each with the titles
+ * that led to it
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/recommendations
+ */
+export async function getRecommendations(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { contentType, limit = 20 } = req.query as unknown as RecommendationsQuery;
+
+    const recommendations = await recommendationsService.getRecommendations(profileId, {
+      contentType,
+      limit: Number(limit),
+    });
+
+    res.status(200).json({ message: 'Successfully retrieved recommendations for a profile', recommendations });
+  } catch (error) {
+    next(error);
+  }
+}
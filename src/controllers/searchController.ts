@@ -1,8 +1,31 @@
+import { MultiSearchQuery } from '../schema/searchSchema';
+import { peopleService } from '../services/peopleService';
+import { searchService } from '../services/searchService';
 import { SearchQuery } from '@ajgifford/keepwatching-common-server/schema';
 import { contentDiscoveryService } from '@ajgifford/keepwatching-common-server/services';
 import { MediaType } from '@ajgifford/keepwatching-types';
 import { NextFunction, Request, Response } from 'express';
 
+/**
+ * Search shows, movies and people at once, ranked into a single list
+ *
+ * @route GET /api/v1/search
+ */
+export const multiSearch = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { q, year, page = 1, profileId } = req.query as unknown as MultiSearchQuery;
+    const searchResults = await searchService.multiSearch({
+      query: q,
+      year,
+      page: Number(page),
+      profileId: profileId ? Number(profileId) : undefined,
+    });
+    res.status(200).json(searchResults);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Search for shows
  *
@@ -32,3 +55,18 @@ export const searchMovies = async (req: Request, res: Response, next: NextFuncti
     next(error);
   }
 };
+
+/**
+ * Search for people (actors, directors, writers, ...)
+ *
+ * @route GET /api/v1/search/people
+ */
+export const searchPeople = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { searchString, page = 1 } = req.query as unknown as SearchQuery;
+    const searchResults = await peopleService.searchPeople(searchString, Number(page));
+    res.status(200).json(searchResults);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,3 +1,9 @@
+import { ratingsService } from '../services/ratingsService';
+import { runtimeService } from '../services/runtimeService';
+import { socketEventService } from '../services/socketEventService';
+import { watchProgressService } from '../services/watchProgressService';
+import { withSeasonRatings } from '../utils/ratingUtility';
+import { withSeasonRuntimes } from '../utils/runtimeUtility';
 import {
   AccountAndProfileIdsParams,
   SeasonWatchStatusBody,
@@ -16,7 +22,8 @@ export const updateSeasonWatchStatus = async (req: Request, res: Response, next:
     const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { seasonId, status, recursive = false } = req.body as SeasonWatchStatusBody;
 
-    await seasonsService.updateSeasonWatchStatus(accountId, profileId, seasonId, status, recursive);
+    await watchProgressService.updateSeasonWatchStatus(accountId, profileId, seasonId, status, recursive);
+    socketEventService.emitToProfile(profileId, 'seasons:updated', { profileId, seasonId, status, recursive });
 
     res.status(200).json({ message: 'Successfully updated the season watch status' });
   } catch (error) {
@@ -33,11 +40,15 @@ export const getSeasonsForShow = async (req: Request, res: Response, next: NextF
   try {
     const { profileId, showId } = req.params as unknown as ShowParams;
 
-    const seasons = await seasonsService.getSeasonsForShow(profileId, showId);
+    const [seasons, runtime, ratings] = await Promise.all([
+      seasonsService.getSeasonsForShow(profileId, showId),
+      runtimeService.getShowRuntime(profileId, showId),
+      ratingsService.getShowRatings(profileId, showId),
+    ]);
 
     res.status(200).json({
       message: 'Successfully retrieved seasons for the show',
-      results: seasons,
+      results: withSeasonRatings(withSeasonRuntimes(seasons, runtime.seasons), ratings.seasons, ratings.episodes),
     });
   } catch (error) {
     next(error);
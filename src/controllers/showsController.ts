@@ -1,3 +1,14 @@
+import { LibraryListQuery } from '../schema/librarySchema';
+import { ShowWatchedUpToEpisodeBody } from '../schema/showSchema';
+import { AddShowToWatchlistBody, WatchlistItemParams, WatchlistOrderBody } from '../schema/watchlistSchema';
+import { libraryListService } from '../services/libraryListService';
+import { ratingsService } from '../services/ratingsService';
+import { runtimeService } from '../services/runtimeService';
+import { socketEventService } from '../services/socketEventService';
+import { watchProgressService } from '../services/watchProgressService';
+import { watchlistService } from '../services/watchlistService';
+import { withSeasonRatings } from '../utils/ratingUtility';
+import { withSeasonRuntimes } from '../utils/runtimeUtility';
 import {
   AccountAndProfileIdsParams,
   AddShowFavoriteBody,
@@ -8,15 +19,30 @@ import { showService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 
 /**
- * Get all shows for a specific profile
+ * Get the shows for a specific profile, optionally sorted, paged and trimmed to the requested fields
  *
  * @route GET /api/v1/accounts/:accountId/profiles/:profileId/shows
  */
 export async function getShows(req: Request, res: Response, next: NextFunction) {
   try {
     const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
-    const shows = await showService.getShowsForProfile(profileId);
-    res.status(200).json({ message: 'Successfully retrieved shows for a profile', shows });
+    const { sortBy, sortOrder, fields, page, limit } = req.query as unknown as LibraryListQuery;
+
+    const { items: shows, pagination } = await libraryListService.getPage(
+      profileId,
+      'show',
+      () => showService.getShowsForProfile(profileId),
+      'show_id',
+      {
+        sortBy,
+        sortOrder,
+        fields,
+        page: page && Number(page),
+        limit: limit && Number(limit),
+      },
+    );
+
+    res.status(200).json({ message: 'Successfully retrieved shows for a profile', shows, pagination });
   } catch (error) {
     next(error);
   }
@@ -30,8 +56,40 @@ export async function getShows(req: Request, res: Response, next: NextFunction)
 export async function getShowDetails(req: Request, res: Response, next: NextFunction) {
   try {
     const { profileId, showId } = req.params as unknown as ShowParams;
-    const show = await showService.getShowDetailsForProfile(profileId, showId);
-    res.status(200).json({ message: 'Successfully retrieved a show and its details', show });
+    const [show, runtime, ratings] = await Promise.all([
+      showService.getShowDetailsForProfile(profileId, showId),
+      runtimeService.getShowRuntime(profileId, showId),
+      ratingsService.getShowRatings(profileId, showId),
+    ]);
+    const { totalRuntime, watchedRuntime, remainingRuntime } = runtime;
+    res.status(200).json({
+      message: 'Successfully retrieved a show and its details',
+      show: {
+        ...show,
+        totalRuntime,
+        watchedRuntime,
+        remainingRuntime,
+        profileRating: ratings.show,
+        seasons:
+          show.seasons &&
+          withSeasonRatings(withSeasonRuntimes(show.seasons, runtime.seasons), ratings.seasons, ratings.episodes),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get how far a profile is through a show and an estimated finish date based on its recent pace
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/shows/:showId/progress
+ */
+export async function getShowProgress(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, showId } = req.params as unknown as ShowParams;
+    const progress = await runtimeService.getShowProgress(profileId, showId);
+    res.status(200).json({ message: 'Successfully retrieved the progress of a show', progress });
   } catch (error) {
     next(error);
   }
@@ -65,6 +123,8 @@ export async function addFavorite(req: Request, res: Response, next: NextFunctio
     const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { showTMDBId }: AddShowFavoriteBody = req.body;
     const result = await showService.addShowToFavorites(accountId, profileId, showTMDBId);
+    await watchlistService.removeFavoritedItem(profileId, 'show', showTMDBId);
+    socketEventService.emitToProfile(profileId, 'shows:favorited', { profileId, show: result.favoritedShow });
     res.status(200).json({
       message: `Successfully saved show as a favorite`,
       addedShow: result.favoritedShow,
@@ -104,7 +164,7 @@ export async function updateShowWatchStatus(req: Request, res: Response, next: N
     const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
     const { showId, status, recursive = false } = req.body as ShowWatchStatusBody;
 
-    const nextUnwatchedEpisodes = await showService.updateShowWatchStatus(
+    const nextUnwatchedEpisodes = await watchProgressService.updateShowWatchStatus(
       accountId,
       profileId,
       showId,
@@ -118,6 +178,34 @@ export async function updateShowWatchStatus(req: Request, res: Response, next: N
   }
 }
 
+/**
+ * Mark every episode of a show before the chosen episode as watched
+ *
+ * Updates the status of every affected season and the show itself in a single transaction
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/shows/watchstatus/upToEpisode
+ */
+export async function markShowWatchedUpToEpisode(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { showId, episodeId }: ShowWatchedUpToEpisodeBody = req.body;
+
+    const { showStatus, nextUnwatchedEpisodes } = await watchProgressService.markShowWatchedUpToEpisode(
+      profileId,
+      showId,
+      episodeId,
+    );
+
+    res.status(200).json({
+      message: 'Successfully marked the earlier episodes as watched',
+      showStatus,
+      nextUnwatchedEpisodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Get recommended shows based on a specific show
  *
@@ -155,3 +243,84 @@ export async function getSimilarShows(req: Request, res: Response, next: NextFun
     next(error);
   }
 }
+
+/**
+ * Get the shows a profile plans to watch, in watchlist order
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist
+ */
+export async function getShowWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const watchlist = await watchlistService.getWatchlist(profileId, 'show');
+    res.status(200).json({ message: 'Successfully retrieved the show watchlist for a profile', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add a show to the end of a profile's watchlist, without loading its episodes
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist
+ */
+export async function addShowToWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { showTMDBId }: AddShowToWatchlistBody = req.body;
+    const watchlist = await watchlistService.addToWatchlist(profileId, 'show', showTMDBId);
+    res.status(200).json({ message: 'Successfully added the show to the watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove a show from a profile's watchlist
+ *
+ * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/:tmdbId
+ */
+export async function removeShowFromWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId, tmdbId } = req.params as unknown as WatchlistItemParams;
+    const watchlist = await watchlistService.removeFromWatchlist(profileId, 'show', tmdbId);
+    res.status(200).json({ message: 'Successfully removed the show from the watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Reorder a profile's show watchlist
+ *
+ * @route PUT /api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/order
+ */
+export async function reorderShowWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { tmdbIds }: WatchlistOrderBody = req.body;
+    const watchlist = await watchlistService.reorderWatchlist(profileId, 'show', tmdbIds);
+    res.status(200).json({ message: 'Successfully reordered the show watchlist', watchlist });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Move a show from a profile's watchlist into its favorites, loading the show and its episodes
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/:tmdbId/promote
+ */
+export async function promoteShowFromWatchlist(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accountId, profileId, tmdbId } = req.params as unknown as WatchlistItemParams;
+    const result = await watchlistService.promoteShow(accountId, profileId, tmdbId);
+    res.status(200).json({
+      message: 'Successfully moved the show from the watchlist to favorites',
+      addedShow: result.favoritedShow,
+      episodes: result.episodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,3 +1,7 @@
+import { ActivityQuery } from '../schema/statisticsSchema';
+import { activityStatisticsService } from '../services/activityStatisticsService';
+import { ratingsService } from '../services/ratingsService';
+import { runtimeService } from '../services/runtimeService';
 import { AccountAndProfileIdsParams, AccountIdParam } from '@ajgifford/keepwatching-common-server/schema';
 import { statisticsService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
@@ -22,17 +26,41 @@ export async function getAccountStatistics(req: Request, res: Response, next: Ne
 }
 
 /**
- * Get statistics (shows, movies and watch progress) for a profile
+ * Get statistics (shows, movies, watch progress, runtime and ratings) for a profile
  *
  * @route GET /api/v1/accounts/:accountId/profiles/:profileId/statistics
  */
 export async function getProfileStatistics(req: Request, res: Response, next: NextFunction) {
   try {
     const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
-    const results = await statisticsService.getProfileStatistics(profileId);
+    const [statistics, runtimeStatistics, ratingStatistics] = await Promise.all([
+      statisticsService.getProfileStatistics(profileId),
+      runtimeService.getProfileRuntime(profileId),
+      ratingsService.getRatingStatistics(profileId),
+    ]);
 
     res.status(200).json({
       message: 'Successfully retrieved profile statistics',
+      results: { ...statistics, runtimeStatistics, ratingStatistics },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get watch activity over time (episodes and minutes per period, streaks, busiest weekday and hour) for a profile
+ *
+ * @route GET /api/v1/accounts/:accountId/profiles/:profileId/statistics/activity
+ */
+export async function getProfileActivity(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { granularity = 'day', from, to } = req.query as unknown as ActivityQuery;
+    const results = await activityStatisticsService.getProfileActivity(profileId, granularity, from, to);
+
+    res.status(200).json({
+      message: 'Successfully retrieved profile watch activity',
       results,
     });
   } catch (error) {
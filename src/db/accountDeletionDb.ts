@@ -0,0 +1,83 @@
+import { getDbPool } from '../utils/db';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export interface AccountDeletionRequest {
+  accountId: number;
+  revokeFirebaseUser: boolean;
+  requestedAt: Date;
+  scheduledFor: Date;
+}
+
+interface AccountDeletionRequestRow extends RowDataPacket {
+  account_id: number;
+  revoke_firebase_user: number;
+  requested_at: Date;
+  scheduled_for: Date;
+}
+
+function transformDeletionRequestRow(row: AccountDeletionRequestRow): AccountDeletionRequest {
+  return {
+    accountId: row.account_id,
+    revokeFirebaseUser: Boolean(row.revoke_firebase_user),
+    requestedAt: row.requested_at,
+    scheduledFor: row.scheduled_for,
+  };
+}
+
+/**
+ * Schedule the deletion of an account, replacing any deletion already scheduled for it
+ */
+export async function saveDeletionRequest(
+  accountId: number,
+  scheduledFor: Date,
+  revokeFirebaseUser: boolean,
+): Promise<void> {
+  const query = `INSERT INTO account_deletion_requests (account_id, revoke_firebase_user, scheduled_for) VALUES (?, ?, ?)
+    ON DUPLICATE KEY UPDATE revoke_firebase_user = VALUES(revoke_firebase_user), scheduled_for = VALUES(scheduled_for),
+    requested_at = CURRENT_TIMESTAMP`;
+  await getDbPool().execute(query, [accountId, revokeFirebaseUser ? 1 : 0, scheduledFor]);
+}
+
+/**
+ * Get the pending deletion of an account, or null when none is scheduled
+ */
+export async function getDeletionRequest(accountId: number): Promise<AccountDeletionRequest | null> {
+  const query = `SELECT * FROM account_deletion_requests WHERE account_id = ?`;
+  const [rows] = await getDbPool().execute<AccountDeletionRequestRow[]>(query, [accountId]);
+  return rows.length > 0 ? transformDeletionRequestRow(rows[0]) : null;
+}
+
+/**
+ * Remove the pending deletion of an account
+ *
+ * @returns whether a pending deletion was removed
+ */
+export async function removeDeletionRequest(accountId: number): Promise<boolean> {
+  const query = `DELETE FROM account_deletion_requests WHERE account_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [accountId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Get every pending deletion whose grace period has ended
+ */
+export async function getDueDeletionRequests(): Promise<AccountDeletionRequest[]> {
+  const query = `SELECT * FROM account_deletion_requests WHERE scheduled_for <= CURRENT_TIMESTAMP ORDER BY scheduled_for`;
+  const [rows] = await getDbPool().execute<AccountDeletionRequestRow[]>(query);
+  return rows.map(transformDeletionRequestRow);
+}
+
+/**
+ * Delete an account's notification dismissals and the notifications sent only to it
+ */
+export async function deleteAccountNotifications(accountId: number): Promise<void> {
+  await getDbPool().execute(`DELETE FROM account_notifications WHERE account_id = ?`, [accountId]);
+  await getDbPool().execute(`DELETE FROM notifications WHERE account_id = ?`, [accountId]);
+}
+
+/**
+ * Delete an account, anything still referencing it is removed by cascade
+ */
+export async function deleteAccount(accountId: number): Promise<void> {
+  await getDbPool().execute(`DELETE FROM accounts WHERE account_id = ?`, [accountId]);
+}
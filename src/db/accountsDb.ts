@@ -0,0 +1,26 @@
+import { getDbPool } from '../utils/db';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface AccountRegionRow extends RowDataPacket {
+  region: string;
+}
+
+/**
+ * Get the region an account watches from, or null when there is no account with that id
+ */
+export async function getAccountRegion(accountId: number): Promise<string | null> {
+  const [rows] = await getDbPool().execute<AccountRegionRow[]>(`SELECT region FROM accounts WHERE account_id = ?`, [
+    accountId,
+  ]);
+  return rows.length > 0 ? rows[0].region : null;
+}
+
+/**
+ * Set the region an account watches from
+ */
+export async function updateAccountRegion(accountId: number, region: string): Promise<void> {
+  await getDbPool().execute<ResultSetHeader>(`UPDATE accounts SET region = ? WHERE account_id = ?`, [
+    region,
+    accountId,
+  ]);
+}
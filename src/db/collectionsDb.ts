@@ -0,0 +1,164 @@
+import { getDbPool } from '../utils/db';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export interface MovieCollectionRecord {
+  id: number;
+  name: string;
+  posterImage: string | null;
+  backdropImage: string | null;
+}
+
+export interface NewCollectionPart {
+  tmdbId: number;
+  title: string;
+  releaseDate: string | null;
+  posterImage: string | null;
+}
+
+export interface ProfileCollectionPart extends NewCollectionPart {
+  collectionId: number;
+  position: number;
+  movieId: number | null;
+  watchStatus: string | null;
+}
+
+interface MovieCollectionRow extends RowDataPacket {
+  id: number;
+  name: string;
+  poster_image: string | null;
+  backdrop_image: string | null;
+}
+
+interface ProfileCollectionPartRow extends RowDataPacket {
+  collection_id: number;
+  tmdb_id: number;
+  title: string;
+  release_date: string | null;
+  poster_image: string | null;
+  position: number;
+  movie_id: number | null;
+  watch_status: string | null;
+}
+
+function transformCollectionRow(row: MovieCollectionRow): MovieCollectionRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    posterImage: row.poster_image,
+    backdropImage: row.backdrop_image,
+  };
+}
+
+function transformCollectionPartRow(row: ProfileCollectionPartRow): ProfileCollectionPart {
+  return {
+    collectionId: row.collection_id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    releaseDate: row.release_date,
+    posterImage: row.poster_image,
+    position: row.position,
+    movieId: row.movie_id,
+    watchStatus: row.watch_status,
+  };
+}
+
+/**
+ * Save a collection and replace its movies, which are stored in the given order
+ */
+export async function saveCollection(
+  connection: PoolConnection,
+  collection: MovieCollectionRecord,
+  parts: NewCollectionPart[],
+): Promise<void> {
+  await connection.execute(
+    `INSERT INTO movie_collections (id, name, poster_image, backdrop_image) VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE name = VALUES(name), poster_image = VALUES(poster_image), backdrop_image = VALUES(backdrop_image)`,
+    [collection.id, collection.name, collection.posterImage, collection.backdropImage],
+  );
+  await connection.execute(`DELETE FROM movie_collection_parts WHERE collection_id = ?`, [collection.id]);
+  if (parts.length > 0) {
+    const values = parts.map((part, index) => [
+      collection.id,
+      part.tmdbId,
+      part.title,
+      part.releaseDate,
+      part.posterImage,
+      index + 1,
+    ]);
+    await connection.query(
+      `INSERT INTO movie_collection_parts (collection_id, tmdb_id, title, release_date, poster_image, position) VALUES ?`,
+      [values],
+    );
+  }
+}
+
+/**
+ * Link every stored movie in a collection to it
+ */
+export async function linkCollectionMovies(connection: PoolConnection, collectionId: number): Promise<void> {
+  await connection.execute(
+    `UPDATE movies m JOIN movie_collection_parts p ON p.tmdb_id = m.tmdb_id AND p.collection_id = ?
+    SET m.collection_id = p.collection_id`,
+    [collectionId],
+  );
+}
+
+/**
+ * Record that a movie was looked up for its collection, whether or not it belongs to one
+ */
+export async function markCollectionChecked(movieTMDBId: number): Promise<void> {
+  await getDbPool().execute(`UPDATE movies SET collection_checked_at = NOW() WHERE tmdb_id = ?`, [movieTMDBId]);
+}
+
+/**
+ * Get the TMDB ids of favorited movies that have never been looked up for their collection
+ */
+export async function getUncheckedFavoriteMovies(limit: number): Promise<number[]> {
+  const query = `SELECT m.tmdb_id FROM movies m
+    WHERE m.collection_id IS NULL AND m.collection_checked_at IS NULL
+    AND EXISTS (SELECT 1 FROM movie_watch_status mws WHERE mws.movie_id = m.id)
+    ORDER BY m.id
+    LIMIT ?`;
+  const [rows] = await getDbPool().query<RowDataPacket[]>(query, [limit]);
+  return rows.map((row) => row.tmdb_id);
+}
+
+/**
+ * Get a collection, or null when it has not been saved
+ */
+export async function getCollection(collectionId: number): Promise<MovieCollectionRecord | null> {
+  const [rows] = await getDbPool().execute<MovieCollectionRow[]>(`SELECT * FROM movie_collections WHERE id = ?`, [
+    collectionId,
+  ]);
+  return rows.length > 0 ? transformCollectionRow(rows[0]) : null;
+}
+
+/**
+ * Get the collections that include at least one movie in a profile's favorites, by name
+ */
+export async function getProfileCollections(profileId: number): Promise<MovieCollectionRecord[]> {
+  const query = `SELECT DISTINCT c.* FROM movie_collections c
+    JOIN movies m ON m.collection_id = c.id
+    JOIN movie_watch_status mws ON mws.movie_id = m.id
+    WHERE mws.profile_id = ?
+    ORDER BY c.name`;
+  const [rows] = await getDbPool().execute<MovieCollectionRow[]>(query, [profileId]);
+  return rows.map(transformCollectionRow);
+}
+
+/**
+ * Get the movies of the given collections in collection order, with the profile's watch status for each movie
+ * in its favorites
+ */
+export async function getCollectionParts(profileId: number, collectionIds: number[]): Promise<ProfileCollectionPart[]> {
+  if (collectionIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT p.*, m.id AS movie_id, mws.status AS watch_status FROM movie_collection_parts p
+    LEFT JOIN movies m ON m.tmdb_id = p.tmdb_id
+    LEFT JOIN movie_watch_status mws ON mws.movie_id = m.id AND mws.profile_id = ?
+    WHERE p.collection_id IN (?)
+    ORDER BY p.collection_id, p.position`;
+  const [rows] = await getDbPool().query<ProfileCollectionPartRow[]>(query, [profileId, collectionIds]);
+  return rows.map(transformCollectionPartRow);
+}
@@ -0,0 +1,83 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface EpisodeStatusExport {
+  episodeId: number;
+  showId: number;
+  showTitle: string;
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string;
+  status: string;
+}
+
+export interface NotificationDismissalExport {
+  notificationId: number;
+  message: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+interface EpisodeStatusExportRow extends RowDataPacket {
+  episode_id: number;
+  show_id: number;
+  show_title: string;
+  season_number: number;
+  episode_number: number;
+  title: string;
+  status: string;
+}
+
+interface NotificationDismissalRow extends RowDataPacket {
+  notification_id: number;
+  message: string;
+  start_date: Date;
+  end_date: Date;
+}
+
+/**
+ * Get a page of a profile's episode watch statuses, ordered by episode id and starting after
+ * the given episode id so large libraries can be read in batches
+ */
+export async function getEpisodeStatusesPage(
+  profileId: number,
+  afterEpisodeId: number,
+  limit: number,
+): Promise<EpisodeStatusExport[]> {
+  const query = `SELECT e.id AS episode_id, e.show_id, s.title AS show_title, e.season_number, e.episode_number,
+    e.title, ews.status
+    FROM episode_watch_status ews
+    JOIN episodes e ON e.id = ews.episode_id
+    JOIN shows s ON s.id = e.show_id
+    WHERE ews.profile_id = ? AND e.id > ?
+    ORDER BY e.id
+    LIMIT ?`;
+  const [rows] = await getDbPool().query<EpisodeStatusExportRow[]>(query, [profileId, afterEpisodeId, limit]);
+  return rows.map((row) => ({
+    episodeId: row.episode_id,
+    showId: row.show_id,
+    showTitle: row.show_title,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    title: row.title,
+    status: row.status,
+  }));
+}
+
+/**
+ * Get the notifications an account has dismissed
+ */
+export async function getNotificationDismissals(accountId: number): Promise<NotificationDismissalExport[]> {
+  const query = `SELECT n.notification_id, n.message, n.start_date, n.end_date
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE an.account_id = ? AND an.dismissed = 1
+    ORDER BY n.start_date`;
+  const [rows] = await getDbPool().execute<NotificationDismissalRow[]>(query, [accountId]);
+  return rows.map((row) => ({
+    notificationId: row.notification_id,
+    message: row.message,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  }));
+}
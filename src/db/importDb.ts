@@ -0,0 +1,120 @@
+import { getDbPool } from '../utils/db';
+import { EpisodePosition, ImportSource } from '../utils/importUtility';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type ImportJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface ImportJob<TResults = unknown> {
+  id: number;
+  profileId: number;
+  source: ImportSource;
+  status: ImportJobStatus;
+  totalItems: number;
+  processedItems: number;
+  results: TResults | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+interface ImportJobRow extends RowDataPacket {
+  id: number;
+  profile_id: number;
+  source: ImportSource;
+  status: ImportJobStatus;
+  total_items: number;
+  processed_items: number;
+  results: unknown;
+  error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Create a queued import job for a profile
+ *
+ * @returns the id of the new job
+ */
+export async function createImportJob(profileId: number, source: ImportSource, totalItems: number): Promise<number> {
+  const query = `INSERT INTO import_jobs (profile_id, source, total_items) VALUES (?, ?, ?)`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [profileId, source, totalItems]);
+  return result.insertId;
+}
+
+/**
+ * Update the status and progress of a running import job
+ */
+export async function updateImportJobProgress(
+  jobId: number,
+  status: ImportJobStatus,
+  processedItems: number,
+): Promise<void> {
+  const query = `UPDATE import_jobs SET status = ?, processed_items = ? WHERE id = ?`;
+  await getDbPool().execute(query, [status, processedItems, jobId]);
+}
+
+/**
+ * Mark an import job as finished, storing its results or the error that stopped it
+ */
+export async function finishImportJob(
+  jobId: number,
+  status: 'COMPLETED' | 'FAILED',
+  results: unknown,
+  error: string | null = null,
+): Promise<void> {
+  const query = `UPDATE import_jobs SET status = ?, results = ?, error = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?`;
+  await getDbPool().execute(query, [status, JSON.stringify(results), error, jobId]);
+}
+
+/**
+ * Mark every import job that was queued or running as failed, for use at startup when no job can still be running
+ *
+ * @returns the number of jobs marked as failed
+ */
+export async function failUnfinishedImportJobs(error: string): Promise<number> {
+  const query = `UPDATE import_jobs SET status = 'FAILED', error = ?, completed_at = CURRENT_TIMESTAMP
+    WHERE status IN ('QUEUED', 'RUNNING')`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [error]);
+  return result.affectedRows;
+}
+
+/**
+ * Get an import job of a profile, or null when the profile has no job with that id
+ */
+export async function getImportJob<TResults>(profileId: number, jobId: number): Promise<ImportJob<TResults> | null> {
+  const query = `SELECT * FROM import_jobs WHERE id = ? AND profile_id = ?`;
+  const [rows] = await getDbPool().execute<ImportJobRow[]>(query, [jobId, profileId]);
+  if (rows.length === 0) {
+    return null;
+  }
+  const row = rows[0];
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    source: row.source,
+    status: row.status,
+    totalItems: row.total_items,
+    processedItems: row.processed_items,
+    results: (typeof row.results === 'string' ? JSON.parse(row.results) : row.results) as TResults | null,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Find a show's episodes at the given season and episode numbers, positions without an episode are left out
+ */
+export async function findEpisodesByPosition(
+  showId: number,
+  positions: EpisodePosition[],
+): Promise<(EpisodePosition & { id: number })[]> {
+  if (positions.length === 0) {
+    return [];
+  }
+  const pairs = positions.map((position) => [position.seasonNumber, position.episodeNumber]);
+  const query = `SELECT id, season_number, episode_number FROM episodes
+    WHERE show_id = ? AND (season_number, episode_number) IN (?) ORDER BY id`;
+  const [rows] = await getDbPool().query<RowDataPacket[]>(query, [showId, pairs]);
+  return rows.map((row) => ({ id: row.id, seasonNumber: row.season_number, episodeNumber: row.episode_number }));
+}
@@ -0,0 +1,225 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export type LibraryContentType = 'show' | 'movie';
+export type LibrarySortField = 'title' | 'addedAt' | 'releaseDate' | 'status';
+
+export interface LibraryFilters {
+  text?: string;
+  contentType?: LibraryContentType;
+  genreIds?: number[];
+  statuses?: string[];
+  serviceIds?: number[];
+  addedFrom?: string;
+  addedTo?: string;
+}
+
+export interface LibrarySort {
+  field: LibrarySortField;
+  order: 'asc' | 'desc';
+}
+
+export interface LibraryItem {
+  contentType: LibraryContentType;
+  contentId: number;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+  watchStatus: string;
+  genres: string[];
+  addedAt: Date;
+}
+
+interface LibraryItemRow extends RowDataPacket {
+  content_type: LibraryContentType;
+  content_id: number;
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  poster_image: string | null;
+  release_date: string | null;
+  status: string;
+  genres: string | null;
+  added_at: Date;
+}
+
+const SORT_COLUMNS: Record<LibrarySortField, string> = {
+  title: 'title',
+  addedAt: 'added_at',
+  releaseDate: 'release_date',
+  status: 'status',
+};
+
+// The tables and columns for the shows and movies in a profile's library
+const LIBRARY_SOURCES: Record<
+  LibraryContentType,
+  { statusTable: string; contentTable: string; idColumn: string; genreTable: string; serviceTable: string }
+> = {
+  show: {
+    statusTable: 'show_watch_status',
+    contentTable: 'shows',
+    idColumn: 'show_id',
+    genreTable: 'show_genres',
+    serviceTable: 'show_services',
+  },
+  movie: {
+    statusTable: 'movie_watch_status',
+    contentTable: 'movies',
+    idColumn: 'movie_id',
+    genreTable: 'movie_genres',
+    serviceTable: 'movie_services',
+  },
+};
+
+function transformLibraryItemRow(row: LibraryItemRow): LibraryItem {
+  return {
+    contentType: row.content_type,
+    contentId: row.content_id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    description: row.description,
+    posterImage: row.poster_image,
+    releaseDate: row.release_date,
+    watchStatus: row.status,
+    genres: row.genres ? row.genres.split(',') : [],
+    addedAt: row.added_at,
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
+function buildSourceQuery(contentType: LibraryContentType, profileId: number, filters: LibraryFilters) {
+  const { statusTable, contentTable, idColumn, genreTable, serviceTable } = LIBRARY_SOURCES[contentType];
+  const conditions = ['ws.profile_id = ?'];
+  const params: (number | string | number[] | string[])[] = [profileId];
+  if (filters.text) {
+    conditions.push('c.title LIKE ?');
+    params.push(`%${escapeLike(filters.text)}%`);
+  }
+  if (filters.statuses?.length) {
+    conditions.push('ws.status IN (?)');
+    params.push(filters.statuses);
+  }
+  if (filters.genreIds?.length) {
+    conditions.push(`EXISTS (SELECT 1 FROM ${genreTable} g WHERE g.${idColumn} = c.id AND g.genre_id IN (?))`);
+    params.push(filters.genreIds);
+  }
+  if (filters.serviceIds?.length) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM ${serviceTable} ss WHERE ss.${idColumn} = c.id AND ss.streaming_service_id IN (?))`,
+    );
+    params.push(filters.serviceIds);
+  }
+  if (filters.addedFrom) {
+    conditions.push('ws.created_at >= ?');
+    params.push(filters.addedFrom);
+  }
+  if (filters.addedTo) {
+    conditions.push('ws.created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+    params.push(filters.addedTo);
+  }
+
+  const query = `SELECT '${contentType}' AS content_type, c.id AS content_id, c.tmdb_id, c.title, c.description,
+      c.poster_image, c.release_date, ws.status, ws.created_at AS added_at,
+      (SELECT GROUP_CONCAT(gn.genre ORDER BY gn.genre) FROM ${genreTable} g JOIN genres gn ON gn.id = g.genre_id
+        WHERE g.${idColumn} = c.id) AS genres
+    FROM ${statusTable} ws
+    JOIN ${contentTable} c ON c.id = ws.${idColumn}
+    WHERE ${conditions.join(' AND ')}`;
+  return { query, params };
+}
+
+function buildLibraryQuery(profileId: number, filters: LibraryFilters) {
+  const contentTypes: LibraryContentType[] = filters.contentType ? [filters.contentType] : ['show', 'movie'];
+  const sources = contentTypes.map((contentType) => buildSourceQuery(contentType, profileId, filters));
+  return {
+    query: sources.map((source) => source.query).join('\n    UNION ALL\n    '),
+    params: sources.flatMap((source) => source.params),
+  };
+}
+
+/**
+ * Search the shows and movies in a profile's favorites
+ */
+export async function searchLibrary(
+  profileId: number,
+  filters: LibraryFilters,
+  sort: LibrarySort,
+  limit: number,
+  offset: number,
+): Promise<LibraryItem[]> {
+  const { query, params } = buildLibraryQuery(profileId, filters);
+  const direction = sort.order === 'desc' ? 'DESC' : 'ASC';
+  const sortedQuery = `SELECT * FROM (${query}) library
+    ORDER BY ${SORT_COLUMNS[sort.field]} ${direction}, title, content_type, content_id
+    LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<LibraryItemRow[]>(sortedQuery, [...params, limit, offset]);
+  return rows.map(transformLibraryItemRow);
+}
+
+/**
+ * Count the shows and movies in a profile's favorites matching the filters
+ */
+export async function countLibrary(profileId: number, filters: LibraryFilters): Promise<number> {
+  const { query, params } = buildLibraryQuery(profileId, filters);
+  const [rows] = await getDbPool().query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM (${query}) library`, params);
+  return Number(rows[0].total);
+}
+
+export type LibraryListSortField = 'title' | 'addedAt' | 'lastWatched' | 'airDate';
+
+export interface LibraryListSort {
+  field: LibraryListSortField;
+  order: 'asc' | 'desc';
+}
+
+// When a profile last watched each show or movie in its favorites. A show was last watched when one of its
+// episodes, seasons or the whole show was
+const LAST_WATCHED_COLUMNS: Record<LibraryContentType, string> = {
+  show: `(SELECT MAX(wh.watched_at) FROM watch_history wh
+      LEFT JOIN episodes e ON wh.content_type = 'episode' AND e.id = wh.content_id
+      LEFT JOIN seasons se ON wh.content_type = 'season' AND se.id = wh.content_id
+      WHERE wh.profile_id = ws.profile_id AND wh.status = 'WATCHED'
+      AND (e.show_id = c.id OR se.show_id = c.id OR (wh.content_type = 'show' AND wh.content_id = c.id)))`,
+  movie: `(SELECT MAX(wh.watched_at) FROM watch_history wh
+      WHERE wh.profile_id = ws.profile_id AND wh.content_type = 'movie' AND wh.status = 'WATCHED'
+      AND wh.content_id = c.id)`,
+};
+
+function listSortColumn(contentType: LibraryContentType, field: LibraryListSortField): string {
+  switch (field) {
+    case 'title':
+      return 'c.title';
+    case 'addedAt':
+      return 'ws.created_at';
+    case 'lastWatched':
+      return LAST_WATCHED_COLUMNS[contentType];
+    case 'airDate':
+      return 'c.release_date';
+  }
+}
+
+/**
+ * Get one page of the shows or movies in a profile's favorites as library items. Items without a value to sort on
+ * (never watched, no air date) always go last, whichever the order, and ties are broken by title
+ */
+export async function getLibraryPage(
+  profileId: number,
+  contentType: LibraryContentType,
+  sort: LibraryListSort,
+  limit: number,
+  offset: number,
+): Promise<LibraryItem[]> {
+  const { query, params } = buildSourceQuery(contentType, profileId, {});
+  const column = listSortColumn(contentType, sort.field);
+  const direction = sort.order === 'desc' ? 'DESC' : 'ASC';
+  const pageQuery = `${query}
+    ORDER BY ${column} IS NULL, ${column} ${direction}, c.title, c.id
+    LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<LibraryItemRow[]>(pageQuery, [...params, limit, offset]);
+  return rows.map(transformLibraryItemRow);
+}
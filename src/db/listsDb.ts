@@ -0,0 +1,253 @@
+import { getDbPool } from '../utils/db';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type ListContentType = 'show' | 'movie';
+
+export interface CustomList {
+  id: number;
+  profileId: number;
+  name: string;
+  description: string | null;
+  itemCount: number;
+  sharedWithProfileIds: number[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CustomListItem {
+  id: number;
+  listId: number;
+  contentType: ListContentType;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+  note: string | null;
+  position: number;
+  addedAt: Date;
+}
+
+export interface NewListItem {
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+}
+
+interface CustomListRow extends RowDataPacket {
+  id: number;
+  profile_id: number;
+  name: string;
+  description: string | null;
+  item_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CustomListItemRow extends RowDataPacket {
+  id: number;
+  list_id: number;
+  content_type: ListContentType;
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  poster_image: string | null;
+  release_date: string | null;
+  note: string | null;
+  position: number;
+  added_at: Date;
+}
+
+interface ListShareRow extends RowDataPacket {
+  list_id: number;
+  profile_id: number;
+}
+
+const LIST_COLUMNS = `l.id, l.profile_id, l.name, l.description, l.created_at, l.updated_at,
+    (SELECT COUNT(*) FROM custom_list_items i WHERE i.list_id = l.id) AS item_count`;
+
+function transformListItemRow(row: CustomListItemRow): CustomListItem {
+  return {
+    id: row.id,
+    listId: row.list_id,
+    contentType: row.content_type,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    description: row.description,
+    posterImage: row.poster_image,
+    releaseDate: row.release_date,
+    note: row.note,
+    position: row.position,
+    addedAt: row.added_at,
+  };
+}
+
+async function withShares(rows: CustomListRow[]): Promise<CustomList[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+  const query = `SELECT list_id, profile_id FROM custom_list_shares WHERE list_id IN (?) ORDER BY profile_id`;
+  const [shares] = await getDbPool().query<ListShareRow[]>(query, [rows.map((row) => row.id)]);
+  return rows.map((row) => ({
+    id: row.id,
+    profileId: row.profile_id,
+    name: row.name,
+    description: row.description,
+    itemCount: Number(row.item_count),
+    sharedWithProfileIds: shares.filter((share) => share.list_id === row.id).map((share) => share.profile_id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Get the lists a profile created along with the lists shared with it, ordered by name
+ */
+export async function getListsForProfile(profileId: number): Promise<CustomList[]> {
+  const query = `SELECT ${LIST_COLUMNS}
+    FROM custom_lists l
+    WHERE l.profile_id = ? OR l.id IN (SELECT list_id FROM custom_list_shares WHERE profile_id = ?)
+    ORDER BY l.name, l.id`;
+  const [rows] = await getDbPool().execute<CustomListRow[]>(query, [profileId, profileId]);
+  return withShares(rows);
+}
+
+/**
+ * Get a list, or null when there is no list with that id
+ */
+export async function getList(listId: number): Promise<CustomList | null> {
+  const query = `SELECT ${LIST_COLUMNS} FROM custom_lists l WHERE l.id = ?`;
+  const [rows] = await getDbPool().execute<CustomListRow[]>(query, [listId]);
+  const [list] = await withShares(rows);
+  return list ?? null;
+}
+
+/**
+ * Create a list for a profile
+ *
+ * @returns the id of the new list
+ */
+export async function createList(profileId: number, name: string, description: string | null): Promise<number> {
+  const query = `INSERT INTO custom_lists (profile_id, name, description) VALUES (?, ?, ?)`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [profileId, name, description]);
+  return result.insertId;
+}
+
+/**
+ * Rename a list and replace its description
+ */
+export async function updateList(listId: number, name: string, description: string | null): Promise<void> {
+  const query = `UPDATE custom_lists SET name = ?, description = ? WHERE id = ?`;
+  await getDbPool().execute(query, [name, description, listId]);
+}
+
+/**
+ * Delete a list along with its items and shares
+ */
+export async function deleteList(listId: number): Promise<void> {
+  await getDbPool().execute(`DELETE FROM custom_lists WHERE id = ?`, [listId]);
+}
+
+/**
+ * Replace the profiles a list is shared with
+ */
+export async function replaceListShares(
+  connection: PoolConnection,
+  listId: number,
+  profileIds: number[],
+): Promise<void> {
+  await connection.execute(`DELETE FROM custom_list_shares WHERE list_id = ?`, [listId]);
+  if (profileIds.length > 0) {
+    const values = profileIds.map((profileId) => [listId, profileId]);
+    await connection.query(`INSERT INTO custom_list_shares (list_id, profile_id) VALUES ?`, [values]);
+  }
+}
+
+/**
+ * Get the items of a list in list order
+ */
+export async function getListItems(listId: number): Promise<CustomListItem[]> {
+  const query = `SELECT * FROM custom_list_items WHERE list_id = ? ORDER BY position, id`;
+  const [rows] = await getDbPool().execute<CustomListItemRow[]>(query, [listId]);
+  return rows.map(transformListItemRow);
+}
+
+/**
+ * Check whether a show or movie is already on a list
+ */
+export async function hasListItem(listId: number, contentType: ListContentType, tmdbId: number): Promise<boolean> {
+  const query = `SELECT 1 FROM custom_list_items WHERE list_id = ? AND content_type = ? AND tmdb_id = ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [listId, contentType, tmdbId]);
+  return rows.length > 0;
+}
+
+/**
+ * Add a show or movie to the end of a list within an open transaction. The list's row is locked while its last
+ * position is read, so concurrent adds to the same list queue up rather than sharing a position
+ *
+ * @returns the id of the new list item
+ */
+export async function addListItem(
+  connection: PoolConnection,
+  listId: number,
+  contentType: ListContentType,
+  item: NewListItem,
+  note: string | null,
+): Promise<number> {
+  await connection.execute(`SELECT id FROM custom_lists WHERE id = ? FOR UPDATE`, [listId]);
+  const positionQuery = `SELECT COALESCE(MAX(position), 0) AS last_position FROM custom_list_items WHERE list_id = ?`;
+  const [positions] = await connection.execute<RowDataPacket[]>(positionQuery, [listId]);
+
+  const query = `INSERT INTO custom_list_items (list_id, content_type, tmdb_id, title, description, poster_image, release_date, note, position)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+  const [result] = await connection.execute<ResultSetHeader>(query, [
+    listId,
+    contentType,
+    item.tmdbId,
+    item.title,
+    item.description,
+    item.posterImage,
+    item.releaseDate,
+    note,
+    Number(positions[0].last_position) + 1,
+  ]);
+  return result.insertId;
+}
+
+/**
+ * Replace the note of a list item
+ *
+ * @returns whether the list has an item with that id
+ */
+export async function updateListItemNote(listId: number, itemId: number, note: string | null): Promise<boolean> {
+  const query = `UPDATE custom_list_items SET note = ? WHERE id = ? AND list_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [note, itemId, listId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Remove an item from a list
+ *
+ * @returns whether the list had an item with that id
+ */
+export async function removeListItem(listId: number, itemId: number): Promise<boolean> {
+  const query = `DELETE FROM custom_list_items WHERE id = ? AND list_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [itemId, listId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Set the position of each item of a list to its index in the given order
+ */
+export async function updateListItemPositions(
+  connection: PoolConnection,
+  listId: number,
+  orderedItemIds: number[],
+): Promise<void> {
+  const query = `UPDATE custom_list_items SET position = ? WHERE id = ? AND list_id = ?`;
+  for (const [index, itemId] of orderedItemIds.entries()) {
+    await connection.execute(query, [index + 1, itemId, listId]);
+  }
+}
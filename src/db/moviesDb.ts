@@ -0,0 +1,154 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface ProfileMovie {
+  id: number;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  releaseDate: string | null;
+  runtime: number | null;
+  posterImage: string | null;
+  backdropImage: string | null;
+  userRating: number | null;
+  mpaRating: string | null;
+  genres: string[];
+  watchStatus: string | null;
+}
+
+export interface ProfileMovieStatus {
+  movieId: number;
+  tmdbId: number;
+  watchStatus: string | null;
+}
+
+export interface UpdatedMovieFollower {
+  profileId: number;
+  movieId: number;
+}
+
+interface MovieTMDBIdRow extends RowDataPacket {
+  tmdb_id: number;
+}
+
+interface ProfileMovieRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  release_date: string | null;
+  runtime: number | null;
+  poster_image: string | null;
+  backdrop_image: string | null;
+  user_rating: number | null;
+  mpa_rating: string | null;
+  genres: string | null;
+  watch_status: string | null;
+}
+
+interface ProfileMovieStatusRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  watch_status: string | null;
+}
+
+interface UpdatedMovieFollowerRow extends RowDataPacket {
+  profile_id: number;
+  movie_id: number;
+}
+
+function transformProfileMovieRow(row: ProfileMovieRow): ProfileMovie {
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    description: row.description,
+    releaseDate: row.release_date,
+    runtime: row.runtime,
+    posterImage: row.poster_image,
+    backdropImage: row.backdrop_image,
+    userRating: row.user_rating,
+    mpaRating: row.mpa_rating,
+    genres: row.genres ? row.genres.split(',') : [],
+    watchStatus: row.watch_status,
+  };
+}
+
+/**
+ * Get the TMDB id of a movie, or null when there is no movie with that id
+ */
+export async function getMovieTMDBId(movieId: number): Promise<number | null> {
+  const [rows] = await getDbPool().execute<MovieTMDBIdRow[]>(`SELECT tmdb_id FROM movies WHERE id = ?`, [movieId]);
+  return rows.length > 0 ? rows[0].tmdb_id : null;
+}
+
+/**
+ * Find the id of a movie by its TMDB id, or null when it has never been added
+ */
+export async function findMovieIdByTMDBId(tmdbId: number): Promise<number | null> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(`SELECT id FROM movies WHERE tmdb_id = ?`, [tmdbId]);
+  return rows.length > 0 ? (rows[0].id as number) : null;
+}
+
+/**
+ * Check whether a movie is in a profile's favorites
+ */
+export async function isMovieFavorited(profileId: number, movieId: number): Promise<boolean> {
+  const query = `SELECT 1 FROM movie_watch_status WHERE profile_id = ? AND movie_id = ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [profileId, movieId]);
+  return rows.length > 0;
+}
+
+/**
+ * Find which of the given TMDB ids belong to movies in a profile's favorites
+ */
+export async function findFavoritedMovieTMDBIds(profileId: number, tmdbIds: number[]): Promise<number[]> {
+  if (tmdbIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT m.tmdb_id FROM movie_watch_status mws
+    JOIN movies m ON m.id = mws.movie_id
+    WHERE mws.profile_id = ? AND m.tmdb_id IN (?)`;
+  const [rows] = await getDbPool().query<MovieTMDBIdRow[]>(query, [profileId, tmdbIds]);
+  return rows.map((row) => row.tmdb_id);
+}
+
+/**
+ * Get a movie with its genres and a profile's watch status, which is null when the movie is not in its favorites
+ */
+export async function getMovieForProfile(profileId: number, movieId: number): Promise<ProfileMovie | null> {
+  const query = `SELECT m.id, m.tmdb_id, m.title, m.description, m.release_date, m.runtime, m.poster_image,
+      m.backdrop_image, m.user_rating, m.mpa_rating, mws.status AS watch_status,
+      (SELECT GROUP_CONCAT(g.genre ORDER BY g.genre) FROM movie_genres mg JOIN genres g ON g.id = mg.genre_id
+        WHERE mg.movie_id = m.id) AS genres
+    FROM movies m
+    LEFT JOIN movie_watch_status mws ON mws.movie_id = m.id AND mws.profile_id = ?
+    WHERE m.id = ?`;
+  const [rows] = await getDbPool().execute<ProfileMovieRow[]>(query, [profileId, movieId]);
+  return rows.length > 0 ? transformProfileMovieRow(rows[0]) : null;
+}
+
+/**
+ * Get the movies in the system with the given TMDB ids and a profile's watch status for each
+ */
+export async function getProfileMovieStatuses(profileId: number, tmdbIds: number[]): Promise<ProfileMovieStatus[]> {
+  if (tmdbIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT m.id, m.tmdb_id, mws.status AS watch_status FROM movies m
+    LEFT JOIN movie_watch_status mws ON mws.movie_id = m.id AND mws.profile_id = ?
+    WHERE m.tmdb_id IN (?)`;
+  const [rows] = await getDbPool().query<ProfileMovieStatusRow[]>(query, [profileId, tmdbIds]);
+  return rows.map((row) => ({ movieId: row.id, tmdbId: row.tmdb_id, watchStatus: row.watch_status }));
+}
+
+/**
+ * Get the movies changed since a time, once for each profile with the movie in its favorites
+ */
+export async function getUpdatedMovieFollowers(since: Date): Promise<UpdatedMovieFollower[]> {
+  const query = `SELECT mws.profile_id, m.id AS movie_id FROM movies m
+    JOIN movie_watch_status mws ON mws.movie_id = m.id
+    WHERE m.updated_at >= ?`;
+  const [rows] = await getDbPool().execute<UpdatedMovieFollowerRow[]>(query, [since]);
+  return rows.map((row) => ({ profileId: row.profile_id, movieId: row.movie_id }));
+}
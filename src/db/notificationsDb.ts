@@ -0,0 +1,203 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface AccountNotification {
+  id: number;
+  message: string;
+  startDate: Date;
+  endDate: Date;
+  type: string | null;
+}
+
+export interface NotificationHistoryItem extends AccountNotification {
+  isRead: boolean;
+  readAt: Date | null;
+  isDismissed: boolean;
+  isExpired: boolean;
+}
+
+export interface NotificationHistoryFilters {
+  includeDismissed: boolean;
+  includeExpired: boolean;
+}
+
+export interface DeliverableNotification {
+  accountId: number;
+  notification: AccountNotification;
+}
+
+interface NotificationRow extends RowDataPacket {
+  notification_id: number;
+  message: string;
+  start_date: Date;
+  end_date: Date;
+  type: string | null;
+}
+
+interface DeliverableNotificationRow extends NotificationRow {
+  account_id: number;
+}
+
+interface NotificationHistoryRow extends NotificationRow {
+  read_at: Date | null;
+  dismissed: number;
+  expired: number;
+}
+
+// Notifications an account can see right now: started, not ended and not dismissed
+const ACTIVE_CONDITIONS = `an.dismissed = 0 AND n.start_date <= CURRENT_TIMESTAMP AND n.end_date > CURRENT_TIMESTAMP`;
+
+function transformNotificationRow(row: NotificationRow): AccountNotification {
+  return {
+    id: row.notification_id,
+    message: row.message,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    type: row.type,
+  };
+}
+
+function transformNotificationHistoryRow(row: NotificationHistoryRow): NotificationHistoryItem {
+  return {
+    ...transformNotificationRow(row),
+    isRead: row.read_at !== null,
+    readAt: row.read_at,
+    isDismissed: Boolean(row.dismissed),
+    isExpired: Boolean(row.expired),
+  };
+}
+
+function buildHistoryFilterClause(accountId: number, filters: NotificationHistoryFilters) {
+  const conditions = ['an.account_id = ?', 'n.start_date <= CURRENT_TIMESTAMP'];
+  if (!filters.includeDismissed) {
+    conditions.push('an.dismissed = 0');
+  }
+  if (!filters.includeExpired) {
+    conditions.push('n.end_date > CURRENT_TIMESTAMP');
+  }
+  return { where: conditions.join(' AND '), params: [accountId] };
+}
+
+/**
+ * Get the id of the newest notification, 0 when there are none
+ */
+export async function getLatestNotificationId(): Promise<number> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    `SELECT COALESCE(MAX(notification_id), 0) AS latest FROM notifications`,
+  );
+  return Number(rows[0].latest);
+}
+
+/**
+ * Get the active notifications of every account that became visible since the last check: ones created after the
+ * given notification id, and older ones whose start date has passed since the given time
+ */
+export async function getNewlyActiveNotifications(
+  afterNotificationId: number,
+  startedAfter: Date,
+): Promise<DeliverableNotification[]> {
+  const query = `SELECT an.account_id, n.notification_id, n.message, n.start_date, n.end_date, n.type
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE ${ACTIVE_CONDITIONS} AND (n.notification_id > ? OR n.start_date > ?)
+    ORDER BY n.notification_id`;
+  const [rows] = await getDbPool().execute<DeliverableNotificationRow[]>(query, [afterNotificationId, startedAfter]);
+  return rows.map((row) => ({ accountId: row.account_id, notification: transformNotificationRow(row) }));
+}
+
+/**
+ * Get an account's active notifications, oldest first
+ */
+export async function getActiveNotifications(accountId: number): Promise<AccountNotification[]> {
+  const query = `SELECT n.notification_id, n.message, n.start_date, n.end_date, n.type
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE an.account_id = ? AND ${ACTIVE_CONDITIONS}
+    ORDER BY n.notification_id`;
+  const [rows] = await getDbPool().execute<NotificationRow[]>(query, [accountId]);
+  return rows.map(transformNotificationRow);
+}
+
+/**
+ * Count an account's active notifications it has not read
+ */
+export async function countUnreadNotifications(accountId: number): Promise<number> {
+  const query = `SELECT COUNT(*) AS unread
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE an.account_id = ? AND ${ACTIVE_CONDITIONS} AND an.read_at IS NULL`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [accountId]);
+  return Number(rows[0].unread);
+}
+
+/**
+ * Whether a notification was sent to an account
+ */
+export async function hasAccountNotification(accountId: number, notificationId: number): Promise<boolean> {
+  const query = `SELECT 1 FROM account_notifications WHERE account_id = ? AND notification_id = ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [accountId, notificationId]);
+  return rows.length > 0;
+}
+
+/**
+ * Get the ids of an account's active notifications, optionally only the unread ones
+ */
+export async function getActiveNotificationIds(accountId: number, unreadOnly: boolean): Promise<number[]> {
+  const query = `SELECT an.notification_id
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE an.account_id = ? AND ${ACTIVE_CONDITIONS}${unreadOnly ? ' AND an.read_at IS NULL' : ''}
+    ORDER BY an.notification_id`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [accountId]);
+  return rows.map((row) => row.notification_id);
+}
+
+/**
+ * Mark notifications as read for an account, ones already read keep the time they were first read
+ */
+export async function markNotificationsRead(accountId: number, notificationIds: number[]): Promise<void> {
+  if (notificationIds.length === 0) {
+    return;
+  }
+  const query = `UPDATE account_notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+    WHERE account_id = ? AND notification_id IN (?)`;
+  await getDbPool().query(query, [accountId, notificationIds]);
+}
+
+/**
+ * Get a page of an account's notification history, newest first. Notifications that have not started yet are
+ * never included
+ */
+export async function getNotificationHistory(
+  accountId: number,
+  filters: NotificationHistoryFilters,
+  limit: number,
+  offset: number,
+): Promise<NotificationHistoryItem[]> {
+  const { where, params } = buildHistoryFilterClause(accountId, filters);
+  const query = `SELECT n.notification_id, n.message, n.start_date, n.end_date, n.type, an.read_at, an.dismissed,
+      n.end_date <= CURRENT_TIMESTAMP AS expired
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE ${where}
+    ORDER BY n.start_date DESC, n.notification_id DESC
+    LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<NotificationHistoryRow[]>(query, [...params, limit, offset]);
+  return rows.map(transformNotificationHistoryRow);
+}
+
+/**
+ * Count the notifications in an account's history
+ */
+export async function countNotificationHistory(
+  accountId: number,
+  filters: NotificationHistoryFilters,
+): Promise<number> {
+  const { where, params } = buildHistoryFilterClause(accountId, filters);
+  const query = `SELECT COUNT(*) AS total
+    FROM account_notifications an
+    JOIN notifications n ON n.notification_id = an.notification_id
+    WHERE ${where}`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, params);
+  return Number(rows[0].total);
+}
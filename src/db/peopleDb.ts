@@ -0,0 +1,158 @@
+import { getDbPool } from '../utils/db';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type CreditContentType = 'show' | 'movie';
+
+export interface FollowedPerson {
+  personId: number;
+  name: string;
+  profileImage: string | null;
+  followedAt: Date;
+}
+
+export interface PersonFollower {
+  accountId: number;
+  profileId: number;
+}
+
+export interface KnownCredit {
+  contentType: CreditContentType;
+  tmdbId: number;
+}
+
+interface FollowedPersonRow extends RowDataPacket {
+  person_id: number;
+  name: string;
+  profile_image: string | null;
+  created_at: Date;
+}
+
+interface PersonIdRow extends RowDataPacket {
+  person_id: number;
+}
+
+interface PersonFollowerRow extends RowDataPacket {
+  account_id: number;
+  profile_id: number;
+}
+
+interface KnownCreditRow extends RowDataPacket {
+  content_type: CreditContentType;
+  tmdb_id: number;
+}
+
+function transformFollowedPersonRow(row: FollowedPersonRow): FollowedPerson {
+  return {
+    personId: row.person_id,
+    name: row.name,
+    profileImage: row.profile_image,
+    followedAt: row.created_at,
+  };
+}
+
+/**
+ * Get the people a profile follows, by name
+ */
+export async function getFollowedPeople(profileId: number): Promise<FollowedPerson[]> {
+  const query = `SELECT * FROM person_follows WHERE profile_id = ? ORDER BY name`;
+  const [rows] = await getDbPool().execute<FollowedPersonRow[]>(query, [profileId]);
+  return rows.map(transformFollowedPersonRow);
+}
+
+/**
+ * Check whether a profile follows a person
+ */
+export async function isFollowing(profileId: number, personId: number): Promise<boolean> {
+  const query = `SELECT person_id FROM person_follows WHERE profile_id = ? AND person_id = ?`;
+  const [rows] = await getDbPool().execute<PersonIdRow[]>(query, [profileId, personId]);
+  return rows.length > 0;
+}
+
+/**
+ * Follow a person, refreshing the stored name and image when the profile already follows them
+ */
+export async function followPerson(
+  profileId: number,
+  personId: number,
+  name: string,
+  profileImage: string | null,
+): Promise<void> {
+  const query = `INSERT INTO person_follows (profile_id, person_id, name, profile_image) VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE name = VALUES(name), profile_image = VALUES(profile_image)`;
+  await getDbPool().execute(query, [profileId, personId, name, profileImage]);
+}
+
+/**
+ * Stop following a person
+ *
+ * @returns whether the profile was following the person
+ */
+export async function unfollowPerson(profileId: number, personId: number): Promise<boolean> {
+  const query = `DELETE FROM person_follows WHERE profile_id = ? AND person_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [profileId, personId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Get every person followed by at least one profile
+ */
+export async function getAllFollowedPersonIds(): Promise<number[]> {
+  const [rows] = await getDbPool().execute<PersonIdRow[]>(`SELECT DISTINCT person_id FROM person_follows`);
+  return rows.map((row) => row.person_id);
+}
+
+/**
+ * Get whether any profile follows a person
+ */
+export async function hasFollowers(personId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    `SELECT 1 FROM person_follows WHERE person_id = ? LIMIT 1`,
+    [personId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Get the profiles, with their accounts, that follow a person
+ */
+export async function getPersonFollowers(personId: number): Promise<PersonFollower[]> {
+  const query = `SELECT p.account_id, pf.profile_id FROM person_follows pf
+    JOIN profiles p ON p.profile_id = pf.profile_id
+    WHERE pf.person_id = ?`;
+  const [rows] = await getDbPool().execute<PersonFollowerRow[]>(query, [personId]);
+  return rows.map((row) => ({ accountId: row.account_id, profileId: row.profile_id }));
+}
+
+/**
+ * Get the credits already seen for a person
+ */
+export async function getKnownCredits(personId: number): Promise<KnownCredit[]> {
+  const query = `SELECT content_type, tmdb_id FROM person_known_credits WHERE person_id = ?`;
+  const [rows] = await getDbPool().execute<KnownCreditRow[]>(query, [personId]);
+  return rows.map((row) => ({ contentType: row.content_type, tmdbId: row.tmdb_id }));
+}
+
+/**
+ * Record credits as seen for a person, ignoring any that already are
+ */
+export async function addKnownCredits(personId: number, credits: KnownCredit[]): Promise<void> {
+  if (credits.length === 0) {
+    return;
+  }
+  const values = credits.map((credit) => [personId, credit.contentType, credit.tmdbId]);
+  await getDbPool().query(`INSERT IGNORE INTO person_known_credits (person_id, content_type, tmdb_id) VALUES ?`, [
+    values,
+  ]);
+}
+
+/**
+ * Find which of the given people a profile follows
+ */
+export async function findFollowedPersonIds(profileId: number, personIds: number[]): Promise<number[]> {
+  if (personIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT person_id FROM person_follows WHERE profile_id = ? AND person_id IN (?)`;
+  const [rows] = await getDbPool().query<PersonIdRow[]>(query, [profileId, personIds]);
+  return rows.map((row) => row.person_id);
+}
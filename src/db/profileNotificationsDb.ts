@@ -0,0 +1,393 @@
+import { getDbPool } from '../utils/db';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type ProfileNotificationCategory = 'newEpisodes' | 'newSeasons' | 'movieReleases' | 'showEndings';
+
+export type ProfileNotificationCheck = 'newSeasons' | 'streamingArrivals';
+
+export interface ProfileNotificationPreference {
+  category: ProfileNotificationCategory;
+  enabled: boolean;
+}
+
+export interface ProfileCategoryOptOut {
+  profileId: number;
+  category: ProfileNotificationCategory;
+}
+
+export interface ProfileRecipient {
+  accountId: number;
+  profileId: number;
+  profileName: string;
+}
+
+export interface AiringEpisode extends ProfileRecipient {
+  showId: number;
+  showTitle: string;
+  episodeId: number;
+  seasonNumber: number;
+  episodeNumber: number;
+  episodeTitle: string | null;
+  airDate: string;
+}
+
+export interface UnseenSeason {
+  showId: number;
+  showTitle: string;
+  seasonId: number;
+  seasonNumber: number;
+  releaseDate: string | null;
+  upcoming: boolean;
+}
+
+export interface ReleasingMovie extends ProfileRecipient {
+  movieId: number;
+  title: string;
+}
+
+export interface ContentFollower extends ProfileRecipient {
+  contentId: number;
+}
+
+export interface ShowStatusChange {
+  showId: number;
+  title: string;
+  status: string | null;
+  previousStatus: string | null;
+  isKnown: boolean;
+}
+
+export interface MovieService {
+  movieId: number;
+  title: string;
+  streamingServiceId: number;
+  serviceName: string;
+}
+
+interface PreferenceRow extends RowDataPacket {
+  profile_id: number;
+  category: ProfileNotificationCategory;
+  enabled: number;
+}
+
+interface AiringEpisodeRow extends RowDataPacket {
+  account_id: number;
+  profile_id: number;
+  profile_name: string;
+  show_id: number;
+  show_title: string;
+  episode_id: number;
+  season_number: number;
+  episode_number: number;
+  episode_title: string | null;
+  air_date: string;
+}
+
+interface UnseenSeasonRow extends RowDataPacket {
+  show_id: number;
+  show_title: string;
+  season_id: number;
+  season_number: number;
+  release_date: string | null;
+  upcoming: number;
+}
+
+interface ReleasingMovieRow extends RowDataPacket {
+  account_id: number;
+  profile_id: number;
+  profile_name: string;
+  movie_id: number;
+  title: string;
+}
+
+interface ContentFollowerRow extends RowDataPacket {
+  account_id: number;
+  profile_id: number;
+  profile_name: string;
+  content_id: number;
+}
+
+interface ShowStatusChangeRow extends RowDataPacket {
+  show_id: number;
+  title: string;
+  status: string | null;
+  previous_status: string | null;
+  is_known: number;
+}
+
+interface MovieServiceRow extends RowDataPacket {
+  movie_id: number;
+  title: string;
+  streaming_service_id: number;
+  service_name: string;
+}
+
+// Favorited content is whatever has a watch status row for the profile, joined to its account
+const SHOW_FOLLOWERS = `show_watch_status sws JOIN profiles p ON p.profile_id = sws.profile_id`;
+const MOVIE_FOLLOWERS = `movie_watch_status mws JOIN profiles p ON p.profile_id = mws.profile_id`;
+
+function transformContentFollowerRow(row: ContentFollowerRow): ContentFollower {
+  return {
+    accountId: row.account_id,
+    profileId: row.profile_id,
+    profileName: row.profile_name,
+    contentId: row.content_id,
+  };
+}
+
+/**
+ * Get the notification categories a profile has set a preference for, categories without one are enabled
+ */
+export async function getPreferences(profileId: number): Promise<ProfileNotificationPreference[]> {
+  const query = `SELECT profile_id, category, enabled FROM profile_notification_preferences WHERE profile_id = ?`;
+  const [rows] = await getDbPool().execute<PreferenceRow[]>(query, [profileId]);
+  return rows.map((row) => ({ category: row.category, enabled: Boolean(row.enabled) }));
+}
+
+/**
+ * Save a profile's preferences for the given notification categories, leaving the others as they are
+ */
+export async function savePreferences(profileId: number, preferences: ProfileNotificationPreference[]): Promise<void> {
+  if (preferences.length === 0) {
+    return;
+  }
+  const values = preferences.map(({ category, enabled }) => [profileId, category, enabled ? 1 : 0]);
+  const query = `INSERT INTO profile_notification_preferences (profile_id, category, enabled) VALUES ?
+    ON DUPLICATE KEY UPDATE enabled = VALUES(enabled)`;
+  await getDbPool().query(query, [values]);
+}
+
+/**
+ * Get every notification category any profile has opted out of
+ */
+export async function getOptOuts(): Promise<ProfileCategoryOptOut[]> {
+  const query = `SELECT profile_id, category, enabled FROM profile_notification_preferences WHERE enabled = 0`;
+  const [rows] = await getDbPool().execute<PreferenceRow[]>(query);
+  return rows.map((row) => ({ profileId: row.profile_id, category: row.category }));
+}
+
+/**
+ * Get the episodes airing today of every profile's favorited shows
+ */
+export async function getEpisodesAiringToday(): Promise<AiringEpisode[]> {
+  const query = `SELECT p.account_id, sws.profile_id, p.name AS profile_name, s.id AS show_id, s.title AS show_title,
+      e.id AS episode_id, e.season_number, e.episode_number, e.title AS episode_title,
+      DATE_FORMAT(e.air_date, '%Y-%m-%d') AS air_date
+    FROM ${SHOW_FOLLOWERS}
+    JOIN shows s ON s.id = sws.show_id
+    JOIN episodes e ON e.show_id = s.id
+    WHERE e.air_date = CURDATE() AND e.season_number > 0
+    ORDER BY sws.profile_id, s.id, e.season_number, e.episode_number`;
+  const [rows] = await getDbPool().execute<AiringEpisodeRow[]>(query);
+  return rows.map((row) => ({
+    accountId: row.account_id,
+    profileId: row.profile_id,
+    profileName: row.profile_name,
+    showId: row.show_id,
+    showTitle: row.show_title,
+    episodeId: row.episode_id,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    episodeTitle: row.episode_title,
+    airDate: row.air_date,
+  }));
+}
+
+/**
+ * Get when a snapshot check of the notification job last ran, null before its first run
+ */
+export async function getLastRun(check: ProfileNotificationCheck): Promise<Date | null> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    `SELECT last_run_at FROM profile_notification_runs WHERE check_name = ?`,
+    [check],
+  );
+  return rows.length > 0 ? (rows[0].last_run_at as Date) : null;
+}
+
+/**
+ * Record when a snapshot check of the notification job ran
+ */
+export async function saveLastRun(check: ProfileNotificationCheck, ranAt: Date): Promise<void> {
+  await getDbPool().execute(
+    `INSERT INTO profile_notification_runs (check_name, last_run_at) VALUES (?, ?)
+      ON DUPLICATE KEY UPDATE last_run_at = VALUES(last_run_at)`,
+    [check, ranAt],
+  );
+}
+
+/**
+ * Get the seasons of favorited shows that have not been recorded as seen yet. A season is upcoming when it comes
+ * after the first and has no premiere date yet or premieres today or later
+ */
+export async function getUnseenSeasons(): Promise<UnseenSeason[]> {
+  const query = `SELECT s.id AS show_id, s.title AS show_title, se.id AS season_id, se.season_number,
+      DATE_FORMAT(se.release_date, '%Y-%m-%d') AS release_date,
+      se.season_number > 1 AND (se.release_date IS NULL OR se.release_date >= CURDATE()) AS upcoming
+    FROM seasons se
+    JOIN shows s ON s.id = se.show_id
+    LEFT JOIN season_snapshots snap ON snap.season_id = se.id
+    WHERE snap.season_id IS NULL AND EXISTS (SELECT 1 FROM show_watch_status sws WHERE sws.show_id = s.id)
+    ORDER BY s.id, se.season_number`;
+  const [rows] = await getDbPool().execute<UnseenSeasonRow[]>(query);
+  return rows.map((row) => ({
+    showId: row.show_id,
+    showTitle: row.show_title,
+    seasonId: row.season_id,
+    seasonNumber: row.season_number,
+    releaseDate: row.release_date,
+    upcoming: Boolean(row.upcoming),
+  }));
+}
+
+/**
+ * Record seasons as seen, ignoring any that already are
+ */
+export async function saveSeasons(seasonIds: number[]): Promise<void> {
+  if (seasonIds.length === 0) {
+    return;
+  }
+  await getDbPool().query(`INSERT IGNORE INTO season_snapshots (season_id) VALUES ?`, [
+    seasonIds.map((seasonId) => [seasonId]),
+  ]);
+}
+
+/**
+ * Get the movies releasing today of every profile's favorited movies
+ */
+export async function getMoviesReleasingToday(): Promise<ReleasingMovie[]> {
+  const query = `SELECT p.account_id, mws.profile_id, p.name AS profile_name, m.id AS movie_id, m.title
+    FROM ${MOVIE_FOLLOWERS}
+    JOIN movies m ON m.id = mws.movie_id
+    WHERE m.release_date = CURDATE()
+    ORDER BY mws.profile_id, m.title`;
+  const [rows] = await getDbPool().execute<ReleasingMovieRow[]>(query);
+  return rows.map((row) => ({
+    accountId: row.account_id,
+    profileId: row.profile_id,
+    profileName: row.profile_name,
+    movieId: row.movie_id,
+    title: row.title,
+  }));
+}
+
+/**
+ * Get the profiles, with their accounts, that have any of the given shows as favorites, optionally only the ones
+ * that added them before a time
+ */
+export async function getShowFollowers(showIds: number[], favoritedBefore?: Date): Promise<ContentFollower[]> {
+  if (showIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT p.account_id, sws.profile_id, p.name AS profile_name, sws.show_id AS content_id
+    FROM ${SHOW_FOLLOWERS}
+    WHERE sws.show_id IN (?)${favoritedBefore ? ' AND sws.created_at < ?' : ''}`;
+  const params = favoritedBefore ? [showIds, favoritedBefore] : [showIds];
+  const [rows] = await getDbPool().query<ContentFollowerRow[]>(query, params);
+  return rows.map(transformContentFollowerRow);
+}
+
+/**
+ * Get the profiles, with their accounts, that added any of the given movies to their favorites before a time and
+ * have not watched them
+ */
+export async function getUnwatchedMovieFollowers(
+  movieIds: number[],
+  favoritedBefore: Date,
+): Promise<ContentFollower[]> {
+  if (movieIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT p.account_id, mws.profile_id, p.name AS profile_name, mws.movie_id AS content_id
+    FROM ${MOVIE_FOLLOWERS}
+    WHERE mws.movie_id IN (?) AND mws.status <> 'WATCHED' AND mws.created_at < ?`;
+  const [rows] = await getDbPool().query<ContentFollowerRow[]>(query, [movieIds, favoritedBefore]);
+  return rows.map(transformContentFollowerRow);
+}
+
+/**
+ * Get the shows whose status differs from the last recorded one, including shows without a recorded status yet
+ */
+export async function getShowStatusChanges(): Promise<ShowStatusChange[]> {
+  const query = `SELECT s.id AS show_id, s.title, s.status, snap.status AS previous_status,
+      snap.show_id IS NOT NULL AS is_known
+    FROM shows s
+    LEFT JOIN show_status_snapshots snap ON snap.show_id = s.id
+    WHERE snap.show_id IS NULL OR NOT (snap.status <=> s.status)`;
+  const [rows] = await getDbPool().execute<ShowStatusChangeRow[]>(query);
+  return rows.map((row) => ({
+    showId: row.show_id,
+    title: row.title,
+    status: row.status,
+    previousStatus: row.previous_status,
+    isKnown: Boolean(row.is_known),
+  }));
+}
+
+/**
+ * Record the current status of shows as the last seen one
+ */
+export async function saveShowStatuses(changes: ShowStatusChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+  const values = changes.map((change) => [change.showId, change.status]);
+  const query = `INSERT INTO show_status_snapshots (show_id, status) VALUES ?
+    ON DUPLICATE KEY UPDATE status = VALUES(status)`;
+  await getDbPool().query(query, [values]);
+}
+
+/**
+ * Get the streaming services movies are on that have not been recorded as seen yet
+ */
+export async function getUnseenMovieServices(): Promise<MovieService[]> {
+  const query = `SELECT ms.movie_id, m.title, ms.streaming_service_id, ss.name AS service_name
+    FROM movie_services ms
+    JOIN movies m ON m.id = ms.movie_id
+    JOIN streaming_services ss ON ss.id = ms.streaming_service_id
+    LEFT JOIN movie_service_snapshots snap
+      ON snap.movie_id = ms.movie_id AND snap.streaming_service_id = ms.streaming_service_id
+    WHERE snap.movie_id IS NULL`;
+  const [rows] = await getDbPool().execute<MovieServiceRow[]>(query);
+  return rows.map((row) => ({
+    movieId: row.movie_id,
+    title: row.title,
+    streamingServiceId: row.streaming_service_id,
+    serviceName: row.service_name,
+  }));
+}
+
+/**
+ * Record movie streaming services as seen, ignoring any that already are
+ */
+export async function saveMovieServices(services: MovieService[]): Promise<void> {
+  if (services.length === 0) {
+    return;
+  }
+  const values = services.map((service) => [service.movieId, service.streamingServiceId]);
+  await getDbPool().query(`INSERT IGNORE INTO movie_service_snapshots (movie_id, streaming_service_id) VALUES ?`, [
+    values,
+  ]);
+}
+
+/**
+ * Record that profiles were notified about an event, skipping the ones that already were
+ *
+ * @returns the ids of the profiles that had not been notified about the event before
+ */
+export async function recordProfileEvents(
+  connection: PoolConnection,
+  profileIds: number[],
+  eventKey: string,
+): Promise<number[]> {
+  const recorded: number[] = [];
+  for (const profileId of profileIds) {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT IGNORE INTO profile_notification_events (profile_id, event_key) VALUES (?, ?)`,
+      [profileId, eventKey],
+    );
+    if (result.affectedRows > 0) {
+      recorded.push(profileId);
+    }
+  }
+  return recorded;
+}
@@ -0,0 +1,187 @@
+import { getDbPool } from '../utils/db';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type RatingContentType = 'show' | 'season' | 'episode' | 'movie';
+
+export interface Rating {
+  contentType: RatingContentType;
+  contentId: number;
+  rating: number;
+  review: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RatingCount {
+  rating: number;
+  count: number;
+}
+
+export interface GenreRating {
+  genre: string;
+  averageRating: number;
+  ratedCount: number;
+}
+
+interface RatingRow extends RowDataPacket {
+  content_type: RatingContentType;
+  content_id: number;
+  rating: number;
+  review: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface RatingCountRow extends RowDataPacket {
+  rating: number;
+  rating_count: number;
+}
+
+interface GenreRatingRow extends RowDataPacket {
+  genre: string;
+  average_rating: number | string;
+  rated_count: number;
+}
+
+const CONTENT_TABLES: Record<RatingContentType, string> = {
+  show: 'shows',
+  season: 'seasons',
+  episode: 'episodes',
+  movie: 'movies',
+};
+
+function transformRatingRow(row: RatingRow): Rating {
+  return {
+    contentType: row.content_type,
+    contentId: row.content_id,
+    rating: row.rating,
+    review: row.review,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Check whether a show, season, episode or movie exists
+ */
+export async function contentExists(contentType: RatingContentType, contentId: number): Promise<boolean> {
+  const query = `SELECT 1 FROM ${CONTENT_TABLES[contentType]} WHERE id = ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [contentId]);
+  return rows.length > 0;
+}
+
+/**
+ * Get a profile's rating of a show, season, episode or movie, or null when it has not rated it
+ */
+export async function getRating(
+  profileId: number,
+  contentType: RatingContentType,
+  contentId: number,
+): Promise<Rating | null> {
+  const query = `SELECT * FROM ratings WHERE profile_id = ? AND content_type = ? AND content_id = ?`;
+  const [rows] = await getDbPool().execute<RatingRow[]>(query, [profileId, contentType, contentId]);
+  return rows.length > 0 ? transformRatingRow(rows[0]) : null;
+}
+
+/**
+ * Get every rating a profile has given, optionally only of one type of content, most recently updated first
+ */
+export async function getRatingsForProfile(profileId: number, contentType?: RatingContentType): Promise<Rating[]> {
+  const query = `SELECT * FROM ratings WHERE profile_id = ?${contentType ? ' AND content_type = ?' : ''}
+    ORDER BY updated_at DESC`;
+  const params = contentType ? [profileId, contentType] : [profileId];
+  const [rows] = await getDbPool().execute<RatingRow[]>(query, params);
+  return rows.map(transformRatingRow);
+}
+
+/**
+ * Get a profile's ratings of a show and of its seasons and episodes
+ */
+export async function getRatingsForShow(profileId: number, showId: number): Promise<Rating[]> {
+  const query = `SELECT * FROM ratings
+    WHERE profile_id = ? AND (
+      (content_type = 'show' AND content_id = ?)
+      OR (content_type = 'season' AND content_id IN (SELECT id FROM seasons WHERE show_id = ?))
+      OR (content_type = 'episode' AND content_id IN (SELECT id FROM episodes WHERE show_id = ?))
+    )`;
+  const [rows] = await getDbPool().execute<RatingRow[]>(query, [profileId, showId, showId, showId]);
+  return rows.map(transformRatingRow);
+}
+
+/**
+ * Get a profile's ratings of the episodes of a season
+ */
+export async function getRatingsForSeasonEpisodes(profileId: number, seasonId: number): Promise<Rating[]> {
+  const query = `SELECT * FROM ratings
+    WHERE profile_id = ? AND content_type = 'episode'
+    AND content_id IN (SELECT id FROM episodes WHERE season_id = ?)`;
+  const [rows] = await getDbPool().execute<RatingRow[]>(query, [profileId, seasonId]);
+  return rows.map(transformRatingRow);
+}
+
+/**
+ * Save a profile's rating and review of a show, season, episode or movie, replacing any earlier one
+ */
+export async function saveRating(
+  profileId: number,
+  contentType: RatingContentType,
+  contentId: number,
+  rating: number,
+  review: string | null,
+): Promise<void> {
+  const query = `INSERT INTO ratings (profile_id, content_type, content_id, rating, review) VALUES (?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE rating = VALUES(rating), review = VALUES(review)`;
+  await getDbPool().execute(query, [profileId, contentType, contentId, rating, review]);
+}
+
+/**
+ * Remove a profile's rating and review of a show, season, episode or movie
+ *
+ * @returns whether the profile had rated it
+ */
+export async function deleteRating(
+  profileId: number,
+  contentType: RatingContentType,
+  contentId: number,
+): Promise<boolean> {
+  const query = `DELETE FROM ratings WHERE profile_id = ? AND content_type = ? AND content_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [profileId, contentType, contentId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Get how many times a profile gave each rating
+ */
+export async function getRatingCounts(profileId: number): Promise<RatingCount[]> {
+  const query = `SELECT rating, COUNT(*) AS rating_count FROM ratings WHERE profile_id = ? GROUP BY rating ORDER BY rating`;
+  const [rows] = await getDbPool().execute<RatingCountRow[]>(query, [profileId]);
+  return rows.map((row) => ({ rating: row.rating, count: Number(row.rating_count) }));
+}
+
+/**
+ * Get the genres with the highest average rating across the shows and movies a profile rated
+ */
+export async function getTopRatedGenres(profileId: number, limit: number): Promise<GenreRating[]> {
+  const query = `SELECT g.genre, AVG(r.rating) AS average_rating, COUNT(*) AS rated_count
+    FROM (
+      SELECT r.rating, sg.genre_id
+      FROM ratings r
+      JOIN show_genres sg ON sg.show_id = r.content_id
+      WHERE r.profile_id = ? AND r.content_type = 'show'
+      UNION ALL
+      SELECT r.rating, mg.genre_id
+      FROM ratings r
+      JOIN movie_genres mg ON mg.movie_id = r.content_id
+      WHERE r.profile_id = ? AND r.content_type = 'movie'
+    ) r
+    JOIN genres g ON g.id = r.genre_id
+    GROUP BY g.id, g.genre
+    ORDER BY average_rating DESC, rated_count DESC, g.genre
+    LIMIT ?`;
+  const [rows] = await getDbPool().query<GenreRatingRow[]>(query, [profileId, profileId, limit]);
+  return rows.map((row) => ({
+    genre: row.genre,
+    averageRating: Number(row.average_rating),
+    ratedCount: Number(row.rated_count),
+  }));
+}
@@ -0,0 +1,45 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export type RecommendationContentType = 'show' | 'movie';
+
+export interface RecommendationSeed {
+  contentType: RecommendationContentType;
+  tmdbId: number;
+  title: string;
+  status: string;
+  rating: number | null;
+}
+
+interface RecommendationSeedRow extends RowDataPacket {
+  content_type: RecommendationContentType;
+  tmdb_id: number;
+  title: string;
+  status: string;
+  rating: number | null;
+}
+
+/**
+ * Get every show and movie in a profile's favorites with its watch status and the profile's rating
+ */
+export async function getRecommendationSeeds(profileId: number): Promise<RecommendationSeed[]> {
+  const query = `SELECT 'show' AS content_type, s.tmdb_id, s.title, sws.status, r.rating
+    FROM show_watch_status sws
+    JOIN shows s ON s.id = sws.show_id
+    LEFT JOIN ratings r ON r.profile_id = sws.profile_id AND r.content_type = 'show' AND r.content_id = s.id
+    WHERE sws.profile_id = ?
+    UNION ALL
+    SELECT 'movie' AS content_type, m.tmdb_id, m.title, mws.status, r.rating
+    FROM movie_watch_status mws
+    JOIN movies m ON m.id = mws.movie_id
+    LEFT JOIN ratings r ON r.profile_id = mws.profile_id AND r.content_type = 'movie' AND r.content_id = m.id
+    WHERE mws.profile_id = ?`;
+  const [rows] = await getDbPool().execute<RecommendationSeedRow[]>(query, [profileId, profileId]);
+  return rows.map((row) => ({
+    contentType: row.content_type,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    status: row.status,
+    rating: row.rating,
+  }));
+}
@@ -0,0 +1,87 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface SeasonRuntimeCounts {
+  seasonId: number;
+  totalEpisodes: number;
+  watchedEpisodes: number;
+  totalRuntime: number;
+  watchedRuntime: number;
+}
+
+export interface RuntimeCounts {
+  totalRuntime: number;
+  watchedRuntime: number;
+}
+
+interface SeasonRuntimeRow extends RowDataPacket {
+  season_id: number;
+  total_episodes: number;
+  watched_episodes: number | null;
+  total_runtime: number | null;
+  watched_runtime: number | null;
+}
+
+interface RuntimeRow extends RowDataPacket {
+  total_runtime: number | null;
+  watched_runtime: number | null;
+}
+
+function transformRuntimeRow(rows: RuntimeRow[]): RuntimeCounts {
+  const row = rows[0];
+  return {
+    totalRuntime: Number(row?.total_runtime ?? 0),
+    watchedRuntime: Number(row?.watched_runtime ?? 0),
+  };
+}
+
+/**
+ * Get the episode counts and runtime (in minutes) of each season of a show for a profile,
+ * counting only episodes that have aired
+ */
+export async function getSeasonRuntimes(profileId: number, showId: number): Promise<SeasonRuntimeCounts[]> {
+  const query = `SELECT e.season_id,
+    COUNT(*) AS total_episodes,
+    SUM(ews.status = 'WATCHED') AS watched_episodes,
+    SUM(COALESCE(e.runtime, 0)) AS total_runtime,
+    SUM(CASE WHEN ews.status = 'WATCHED' THEN COALESCE(e.runtime, 0) ELSE 0 END) AS watched_runtime
+    FROM episodes e
+    LEFT JOIN episode_watch_status ews ON ews.episode_id = e.id AND ews.profile_id = ?
+    WHERE e.show_id = ? AND e.air_date IS NOT NULL AND e.air_date <= CURDATE()
+    GROUP BY e.season_id`;
+  const [rows] = await getDbPool().execute<SeasonRuntimeRow[]>(query, [profileId, showId]);
+  return rows.map((row) => ({
+    seasonId: row.season_id,
+    totalEpisodes: Number(row.total_episodes),
+    watchedEpisodes: Number(row.watched_episodes ?? 0),
+    totalRuntime: Number(row.total_runtime ?? 0),
+    watchedRuntime: Number(row.watched_runtime ?? 0),
+  }));
+}
+
+/**
+ * Get the runtime (in minutes) of the aired episodes of every show in a profile's favorites
+ */
+export async function getProfileShowRuntime(profileId: number): Promise<RuntimeCounts> {
+  const query = `SELECT SUM(COALESCE(e.runtime, 0)) AS total_runtime,
+    SUM(CASE WHEN ews.status = 'WATCHED' THEN COALESCE(e.runtime, 0) ELSE 0 END) AS watched_runtime
+    FROM show_watch_status sws
+    JOIN episodes e ON e.show_id = sws.show_id
+    LEFT JOIN episode_watch_status ews ON ews.episode_id = e.id AND ews.profile_id = sws.profile_id
+    WHERE sws.profile_id = ? AND e.air_date IS NOT NULL AND e.air_date <= CURDATE()`;
+  const [rows] = await getDbPool().execute<RuntimeRow[]>(query, [profileId]);
+  return transformRuntimeRow(rows);
+}
+
+/**
+ * Get the runtime (in minutes) of every movie in a profile's favorites
+ */
+export async function getProfileMovieRuntime(profileId: number): Promise<RuntimeCounts> {
+  const query = `SELECT SUM(COALESCE(m.runtime, 0)) AS total_runtime,
+    SUM(CASE WHEN mws.status = 'WATCHED' THEN COALESCE(m.runtime, 0) ELSE 0 END) AS watched_runtime
+    FROM movie_watch_status mws
+    JOIN movies m ON m.id = mws.movie_id
+    WHERE mws.profile_id = ?`;
+  const [rows] = await getDbPool().execute<RuntimeRow[]>(query, [profileId]);
+  return transformRuntimeRow(rows);
+}
@@ -0,0 +1,68 @@
+import { getDbPool } from '../utils/db';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface UpdatedShowFollower {
+  profileId: number;
+  showId: number;
+}
+
+export interface UpdatedSeasonFollower extends UpdatedShowFollower {
+  seasonId: number;
+}
+
+interface ShowTMDBIdRow extends RowDataPacket {
+  tmdb_id: number;
+}
+
+interface UpdatedShowFollowerRow extends RowDataPacket {
+  profile_id: number;
+  show_id: number;
+}
+
+interface UpdatedSeasonFollowerRow extends UpdatedShowFollowerRow {
+  season_id: number;
+}
+
+/**
+ * Find the id of a show by its TMDB id, or null when it has never been added
+ */
+export async function findShowIdByTMDBId(tmdbId: number): Promise<number | null> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(`SELECT id FROM shows WHERE tmdb_id = ?`, [tmdbId]);
+  return rows.length > 0 ? (rows[0].id as number) : null;
+}
+
+/**
+ * Find which of the given TMDB ids belong to shows in a profile's favorites
+ */
+export async function findFavoritedShowTMDBIds(profileId: number, tmdbIds: number[]): Promise<number[]> {
+  if (tmdbIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT s.tmdb_id FROM show_watch_status sws
+    JOIN shows s ON s.id = sws.show_id
+    WHERE sws.profile_id = ? AND s.tmdb_id IN (?)`;
+  const [rows] = await getDbPool().query<ShowTMDBIdRow[]>(query, [profileId, tmdbIds]);
+  return rows.map((row) => row.tmdb_id);
+}
+
+/**
+ * Get the shows changed since a time, once for each profile with the show in its favorites
+ */
+export async function getUpdatedShowFollowers(since: Date): Promise<UpdatedShowFollower[]> {
+  const query = `SELECT sws.profile_id, s.id AS show_id FROM shows s
+    JOIN show_watch_status sws ON sws.show_id = s.id
+    WHERE s.updated_at >= ?`;
+  const [rows] = await getDbPool().execute<UpdatedShowFollowerRow[]>(query, [since]);
+  return rows.map((row) => ({ profileId: row.profile_id, showId: row.show_id }));
+}
+
+/**
+ * Get the seasons added or changed since a time, once for each profile with the season's show in its favorites
+ */
+export async function getUpdatedSeasonFollowers(since: Date): Promise<UpdatedSeasonFollower[]> {
+  const query = `SELECT sws.profile_id, se.show_id, se.id AS season_id FROM seasons se
+    JOIN show_watch_status sws ON sws.show_id = se.show_id
+    WHERE se.updated_at >= ?`;
+  const [rows] = await getDbPool().execute<UpdatedSeasonFollowerRow[]>(query, [since]);
+  return rows.map((row) => ({ profileId: row.profile_id, showId: row.show_id, seasonId: row.season_id }));
+}
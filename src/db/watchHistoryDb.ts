@@ -0,0 +1,215 @@
+import { WatchActivity } from '../utils/activityUtility';
+import { getDbPool } from '../utils/db';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export type WatchHistoryContentType = 'episode' | 'season' | 'show' | 'movie';
+
+export interface WatchEvent {
+  profileId: number;
+  contentType: WatchHistoryContentType;
+  contentId: number;
+  status: string;
+  isRewatch?: boolean;
+  watchedAt?: Date;
+}
+
+export interface WatchHistoryFilters {
+  from?: string;
+  to?: string;
+  contentType?: WatchHistoryContentType;
+}
+
+export interface WatchHistoryEntry {
+  id: number;
+  contentType: WatchHistoryContentType;
+  contentId: number;
+  status: string;
+  isRewatch: boolean;
+  watchedAt: Date;
+  title: string | null;
+  showId: number | null;
+  showTitle: string | null;
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  runtime: number | null;
+}
+
+interface WatchHistoryRow extends RowDataPacket {
+  id: number;
+  content_type: WatchHistoryContentType;
+  content_id: number;
+  status: string;
+  is_rewatch: number;
+  watched_at: Date;
+  title: string | null;
+  show_id: number | null;
+  show_title: string | null;
+  season_number: number | null;
+  episode_number: number | null;
+  runtime: number | null;
+}
+
+function transformWatchHistoryRow(row: WatchHistoryRow): WatchHistoryEntry {
+  return {
+    id: row.id,
+    contentType: row.content_type,
+    contentId: row.content_id,
+    status: row.status,
+    isRewatch: Boolean(row.is_rewatch),
+    watchedAt: row.watched_at,
+    title: row.title,
+    showId: row.show_id,
+    showTitle: row.show_title,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    runtime: row.runtime,
+  };
+}
+
+function buildFilterClause(profileId: number, filters: WatchHistoryFilters) {
+  const conditions = ['wh.profile_id = ?'];
+  const params: (number | string)[] = [profileId];
+  if (filters.from) {
+    conditions.push('wh.watched_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('wh.watched_at < DATE_ADD(?, INTERVAL 1 DAY)');
+    params.push(filters.to);
+  }
+  if (filters.contentType) {
+    conditions.push('wh.content_type = ?');
+    params.push(filters.contentType);
+  }
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Record watch events, optionally as part of an open transaction. Events without a time are recorded as happening now
+ */
+export async function insertWatchEvents(events: WatchEvent[], connection?: PoolConnection): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  const values = events.map((event) => [
+    event.profileId,
+    event.contentType,
+    event.contentId,
+    event.status,
+    event.isRewatch ? 1 : 0,
+    event.watchedAt ?? new Date(),
+  ]);
+  const query = `INSERT INTO watch_history (profile_id, content_type, content_id, status, is_rewatch, watched_at) VALUES ?`;
+  await (connection ?? getDbPool()).query(query, [values]);
+}
+
+/**
+ * Get a page of a profile's watch history, newest first
+ */
+export async function getWatchHistory(
+  profileId: number,
+  filters: WatchHistoryFilters,
+  limit: number,
+  offset: number,
+): Promise<WatchHistoryEntry[]> {
+  const { where, params } = buildFilterClause(profileId, filters);
+  const query = `SELECT wh.id, wh.content_type, wh.content_id, wh.status, wh.is_rewatch, wh.watched_at,
+    COALESCE(e.title, se.name, sh.title, m.title) AS title,
+    COALESCE(e.show_id, se.show_id, sh.id) AS show_id,
+    COALESCE(esh.title, ssh.title, sh.title) AS show_title,
+    COALESCE(e.season_number, se.season_number) AS season_number,
+    e.episode_number,
+    COALESCE(e.runtime, m.runtime) AS runtime
+    FROM watch_history wh
+    LEFT JOIN episodes e ON wh.content_type = 'episode' AND e.id = wh.content_id
+    LEFT JOIN shows esh ON esh.id = e.show_id
+    LEFT JOIN seasons se ON wh.content_type = 'season' AND se.id = wh.content_id
+    LEFT JOIN shows ssh ON ssh.id = se.show_id
+    LEFT JOIN shows sh ON wh.content_type = 'show' AND sh.id = wh.content_id
+    LEFT JOIN movies m ON wh.content_type = 'movie' AND m.id = wh.content_id
+    WHERE ${where}
+    ORDER BY wh.watched_at DESC, wh.id DESC
+    LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<WatchHistoryRow[]>(query, [...params, limit, offset]);
+  return rows.map(transformWatchHistoryRow);
+}
+
+/**
+ * Count the watch history entries of a profile matching the filters
+ */
+export async function countWatchHistory(profileId: number, filters: WatchHistoryFilters): Promise<number> {
+  const { where, params } = buildFilterClause(profileId, filters);
+  const query = `SELECT COUNT(*) AS total FROM watch_history wh WHERE ${where}`;
+  const [rows] = await getDbPool().query<RowDataPacket[]>(query, params);
+  return Number(rows[0].total);
+}
+
+/**
+ * Get a profile's current watch status for an episode or movie, or null when it has none
+ */
+export async function getCurrentWatchStatus(
+  profileId: number,
+  contentType: 'episode' | 'movie',
+  contentId: number,
+): Promise<string | null> {
+  const query =
+    contentType === 'episode'
+      ? `SELECT status FROM episode_watch_status WHERE profile_id = ? AND episode_id = ?`
+      : `SELECT status FROM movie_watch_status WHERE profile_id = ? AND movie_id = ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [profileId, contentId]);
+  return rows.length > 0 ? (rows[0].status as string) : null;
+}
+
+const WATCHED_CONTENT = `wh.profile_id = ? AND wh.status = 'WATCHED' AND wh.content_type IN ('episode', 'movie')`;
+
+// Watches are bucketed into UTC days and hours whatever time zone the MySQL session uses
+const WATCHED_AT_UTC = `CONVERT_TZ(wh.watched_at, @@session.time_zone, '+00:00')`;
+
+/**
+ * Get the episode and movie watches of a profile between two UTC days (inclusive), including rewatches, counted and
+ * totalled per UTC day, hour and content type
+ */
+export async function getWatchActivity(profileId: number, from: string, to: string): Promise<WatchActivity[]> {
+  const query = `SELECT DATE_FORMAT(${WATCHED_AT_UTC}, '%Y-%m-%d') AS watch_date, HOUR(${WATCHED_AT_UTC}) AS watch_hour,
+    wh.content_type, COUNT(*) AS watches, COALESCE(SUM(COALESCE(e.runtime, m.runtime)), 0) AS minutes
+    FROM watch_history wh
+    LEFT JOIN episodes e ON wh.content_type = 'episode' AND e.id = wh.content_id
+    LEFT JOIN movies m ON wh.content_type = 'movie' AND m.id = wh.content_id
+    WHERE ${WATCHED_CONTENT}
+      AND wh.watched_at >= CONVERT_TZ(?, '+00:00', @@session.time_zone)
+      AND wh.watched_at < CONVERT_TZ(DATE_ADD(?, INTERVAL 1 DAY), '+00:00', @@session.time_zone)
+    GROUP BY watch_date, watch_hour, wh.content_type
+    ORDER BY watch_date, watch_hour`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [profileId, from, to]);
+  return rows.map((row) => ({
+    date: row.watch_date,
+    hour: Number(row.watch_hour),
+    contentType: row.content_type,
+    watches: Number(row.watches),
+    minutes: Number(row.minutes),
+  }));
+}
+
+/**
+ * Get every UTC day (`YYYY-MM-DD`) a profile watched an episode or movie, oldest first
+ */
+export async function getWatchDays(profileId: number): Promise<string[]> {
+  const query = `SELECT DISTINCT DATE_FORMAT(${WATCHED_AT_UTC}, '%Y-%m-%d') AS watch_date
+    FROM watch_history wh
+    WHERE ${WATCHED_CONTENT}
+    ORDER BY watch_date`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [profileId]);
+  return rows.map((row) => row.watch_date as string);
+}
+
+/**
+ * Get the total runtime (in minutes) of the episodes a profile has watched since the given time, including rewatches
+ */
+export async function getEpisodeMinutesSince(profileId: number, since: Date): Promise<number> {
+  const query = `SELECT COALESCE(SUM(e.runtime), 0) AS minutes
+    FROM watch_history wh
+    JOIN episodes e ON e.id = wh.content_id
+    WHERE wh.profile_id = ? AND wh.status = 'WATCHED' AND wh.content_type = 'episode' AND wh.watched_at >= ?`;
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(query, [profileId, since]);
+  return Number(rows[0].minutes);
+}
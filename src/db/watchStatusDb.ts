@@ -0,0 +1,198 @@
+import { getDbPool } from '../utils/db';
+import { DerivedWatchStatus, EpisodeCounts, deriveWatchStatus } from '../utils/watchStatusUtility';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export type EpisodeWatchStatus = 'NOT_WATCHED' | 'WATCHED';
+
+export interface EpisodeReference {
+  id: number;
+  showId: number;
+  seasonId: number;
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+export type EpisodeScope = { showId: number } | { seasonId: number } | { episodeIds: number[] };
+
+export interface EpisodePosition {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+interface EpisodeReferenceRow extends RowDataPacket {
+  id: number;
+  show_id: number;
+  season_id: number;
+  season_number: number;
+  episode_number: number;
+}
+
+interface SeasonCountsRow extends RowDataPacket {
+  season_id: number;
+  total: number;
+  aired: number | null;
+  watched: number | null;
+}
+
+function transformEpisodeReference(row: EpisodeReferenceRow): EpisodeReference {
+  return {
+    id: row.id,
+    showId: row.show_id,
+    seasonId: row.season_id,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+  };
+}
+
+/**
+ * Find the show, season and position of each of the given episodes
+ */
+export async function findEpisodeReferences(episodeIds: number[]): Promise<EpisodeReference[]> {
+  if (episodeIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT id, show_id, season_id, season_number, episode_number FROM episodes WHERE id IN (?) ORDER BY show_id, season_number, episode_number`;
+  const [rows] = await getDbPool().query<EpisodeReferenceRow[]>(query, [episodeIds]);
+  return rows.map(transformEpisodeReference);
+}
+
+/**
+ * Find every episode of a show between two positions (inclusive), in watch order
+ */
+export async function findEpisodesInRange(
+  showId: number,
+  from: EpisodePosition,
+  to: EpisodePosition,
+): Promise<EpisodeReference[]> {
+  const query = `SELECT id, show_id, season_id, season_number, episode_number FROM episodes
+    WHERE show_id = ?
+    AND (season_number > ? OR (season_number = ? AND episode_number >= ?))
+    AND (season_number < ? OR (season_number = ? AND episode_number <= ?))
+    ORDER BY season_number, episode_number`;
+  const [rows] = await getDbPool().execute<EpisodeReferenceRow[]>(query, [
+    showId,
+    from.seasonNumber,
+    from.seasonNumber,
+    from.episodeNumber,
+    to.seasonNumber,
+    to.seasonNumber,
+    to.episodeNumber,
+  ]);
+  return rows.map(transformEpisodeReference);
+}
+
+/**
+ * Find every regular (non-special) episode of a show that comes before the given position, in watch order
+ */
+export async function findEpisodesBefore(showId: number, position: EpisodePosition): Promise<EpisodeReference[]> {
+  const query = `SELECT id, show_id, season_id, season_number, episode_number FROM episodes
+    WHERE show_id = ?
+    AND season_number > 0
+    AND (season_number < ? OR (season_number = ? AND episode_number < ?))
+    ORDER BY season_number, episode_number`;
+  const [rows] = await getDbPool().execute<EpisodeReferenceRow[]>(query, [
+    showId,
+    position.seasonNumber,
+    position.seasonNumber,
+    position.episodeNumber,
+  ]);
+  return rows.map(transformEpisodeReference);
+}
+
+/**
+ * Get a profile's watch status for every episode of a show, a season or a list, keyed by episode id, optionally as
+ * part of an open transaction. Episodes the profile has no status for are left out
+ */
+export async function getEpisodeWatchStatuses(
+  profileId: number,
+  scope: EpisodeScope,
+  connection?: PoolConnection,
+): Promise<Map<number, string>> {
+  if ('episodeIds' in scope && scope.episodeIds.length === 0) {
+    return new Map();
+  }
+  const [condition, value] =
+    'showId' in scope
+      ? ['e.show_id = ?', scope.showId]
+      : 'seasonId' in scope
+        ? ['e.season_id = ?', scope.seasonId]
+        : ['e.id IN (?)', scope.episodeIds];
+  const query = `SELECT ews.episode_id, ews.status FROM episode_watch_status ews
+    JOIN episodes e ON e.id = ews.episode_id
+    WHERE ews.profile_id = ? AND ${condition}`;
+  const [rows] = await (connection ?? getDbPool()).query<RowDataPacket[]>(query, [profileId, value]);
+  return new Map(rows.map((row) => [row.episode_id as number, row.status as string]));
+}
+
+/**
+ * Of the given shows, return the ids of those a profile has favorited
+ */
+export async function findFavoritedShowIds(profileId: number, showIds: number[]): Promise<number[]> {
+  if (showIds.length === 0) {
+    return [];
+  }
+  const query = `SELECT show_id FROM show_watch_status WHERE profile_id = ? AND show_id IN (?)`;
+  const [rows] = await getDbPool().query<RowDataPacket[]>(query, [profileId, showIds]);
+  return rows.map((row) => row.show_id as number);
+}
+
+/**
+ * Set the watch status of many episodes for a profile
+ */
+export async function updateEpisodeWatchStatuses(
+  connection: PoolConnection,
+  profileId: number,
+  episodeIds: number[],
+  status: EpisodeWatchStatus,
+): Promise<void> {
+  if (episodeIds.length === 0) {
+    return;
+  }
+  const query = `UPDATE episode_watch_status SET status = ? WHERE profile_id = ? AND episode_id IN (?)`;
+  await connection.query(query, [status, profileId, episodeIds]);
+}
+
+/**
+ * Recalculate every season status and the overall show status for a profile from its episode statuses
+ *
+ * @returns the recalculated show status
+ */
+export async function refreshSeasonAndShowStatuses(
+  connection: PoolConnection,
+  profileId: number,
+  showId: number,
+): Promise<DerivedWatchStatus> {
+  const countsQuery = `SELECT e.season_id, COUNT(*) AS total,
+    SUM(e.air_date IS NOT NULL AND e.air_date <= CURDATE()) AS aired,
+    SUM(ews.status = 'WATCHED') AS watched
+    FROM episodes e
+    LEFT JOIN episode_watch_status ews ON ews.episode_id = e.id AND ews.profile_id = ?
+    WHERE e.show_id = ?
+    GROUP BY e.season_id`;
+  const [rows] = await connection.execute<SeasonCountsRow[]>(countsQuery, [profileId, showId]);
+
+  const showCounts: EpisodeCounts = { total: 0, aired: 0, watched: 0 };
+  for (const row of rows) {
+    const seasonCounts: EpisodeCounts = {
+      total: Number(row.total),
+      aired: Number(row.aired ?? 0),
+      watched: Number(row.watched ?? 0),
+    };
+    showCounts.total += seasonCounts.total;
+    showCounts.aired += seasonCounts.aired;
+    showCounts.watched += seasonCounts.watched;
+
+    await connection.execute(
+      `INSERT INTO season_watch_status (profile_id, season_id, status) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE status = VALUES(status)`,
+      [profileId, row.season_id, deriveWatchStatus(seasonCounts)],
+    );
+  }
+
+  const showStatus = deriveWatchStatus(showCounts);
+  await connection.execute(`UPDATE show_watch_status SET status = ? WHERE profile_id = ? AND show_id = ?`, [
+    showStatus,
+    profileId,
+    showId,
+  ]);
+  return showStatus;
+}
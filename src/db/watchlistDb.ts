@@ -0,0 +1,139 @@
+import { getDbPool } from '../utils/db';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+export type WatchlistContentType = 'show' | 'movie';
+
+export interface WatchlistItem {
+  id: number;
+  profileId: number;
+  contentType: WatchlistContentType;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+  position: number;
+  addedAt: Date;
+}
+
+export interface NewWatchlistItem {
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+}
+
+interface WatchlistItemRow extends RowDataPacket {
+  id: number;
+  profile_id: number;
+  content_type: WatchlistContentType;
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  poster_image: string | null;
+  release_date: string | null;
+  position: number;
+  added_at: Date;
+}
+
+function transformWatchlistItemRow(row: WatchlistItemRow): WatchlistItem {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    contentType: row.content_type,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    description: row.description,
+    posterImage: row.poster_image,
+    releaseDate: row.release_date,
+    position: row.position,
+    addedAt: row.added_at,
+  };
+}
+
+/**
+ * Get a profile's watchlist of shows or movies in watchlist order
+ */
+export async function getWatchlistItems(
+  profileId: number,
+  contentType: WatchlistContentType,
+): Promise<WatchlistItem[]> {
+  const query = `SELECT * FROM watchlist_items WHERE profile_id = ? AND content_type = ? ORDER BY position, id`;
+  const [rows] = await getDbPool().execute<WatchlistItemRow[]>(query, [profileId, contentType]);
+  return rows.map(transformWatchlistItemRow);
+}
+
+/**
+ * Get a show or movie on a profile's watchlist, or null when it is not on the watchlist
+ */
+export async function getWatchlistItem(
+  profileId: number,
+  contentType: WatchlistContentType,
+  tmdbId: number,
+): Promise<WatchlistItem | null> {
+  const query = `SELECT * FROM watchlist_items WHERE profile_id = ? AND content_type = ? AND tmdb_id = ?`;
+  const [rows] = await getDbPool().execute<WatchlistItemRow[]>(query, [profileId, contentType, tmdbId]);
+  return rows.length > 0 ? transformWatchlistItemRow(rows[0]) : null;
+}
+
+/**
+ * Add a show or movie to the end of a profile's watchlist within an open transaction. The profile's watchlist rows
+ * are locked while the last position is read, so concurrent adds queue up rather than sharing a position
+ *
+ * @returns the id of the new watchlist item
+ */
+export async function addWatchlistItem(
+  connection: PoolConnection,
+  profileId: number,
+  contentType: WatchlistContentType,
+  item: NewWatchlistItem,
+): Promise<number> {
+  const positionQuery = `SELECT COALESCE(MAX(position), 0) AS last_position FROM watchlist_items
+    WHERE profile_id = ? AND content_type = ? FOR UPDATE`;
+  const [positions] = await connection.execute<RowDataPacket[]>(positionQuery, [profileId, contentType]);
+
+  const query = `INSERT INTO watchlist_items (profile_id, content_type, tmdb_id, title, description, poster_image, release_date, position)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+  const [result] = await connection.execute<ResultSetHeader>(query, [
+    profileId,
+    contentType,
+    item.tmdbId,
+    item.title,
+    item.description,
+    item.posterImage,
+    item.releaseDate,
+    Number(positions[0].last_position) + 1,
+  ]);
+  return result.insertId;
+}
+
+/**
+ * Remove a show or movie from a profile's watchlist
+ *
+ * @returns whether the show or movie was on the watchlist
+ */
+export async function removeWatchlistItem(
+  profileId: number,
+  contentType: WatchlistContentType,
+  tmdbId: number,
+): Promise<boolean> {
+  const query = `DELETE FROM watchlist_items WHERE profile_id = ? AND content_type = ? AND tmdb_id = ?`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [profileId, contentType, tmdbId]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Set the position of each show or movie on a profile's watchlist to its index in the given order
+ */
+export async function updateWatchlistPositions(
+  connection: PoolConnection,
+  profileId: number,
+  contentType: WatchlistContentType,
+  orderedTMDBIds: number[],
+): Promise<void> {
+  const query = `UPDATE watchlist_items SET position = ? WHERE profile_id = ? AND content_type = ? AND tmdb_id = ?`;
+  for (const [index, tmdbId] of orderedTMDBIds.entries()) {
+    await connection.execute(query, [index + 1, profileId, contentType, tmdbId]);
+  }
+}
@@ -3,17 +3,33 @@ import 'module-alias/register';
 import 'dotenv/config';
 
 import { authenticateUser } from './middleware/authenticationMiddleware';
+import { authenticateSocket, enforceSocketTokenLifetime } from './middleware/socketAuthenticationMiddleware';
 import accountRouter from './routes/accountRouter';
+import collectionsRouter from './routes/collectionsRouter';
 import discoverRouter from './routes/discoverRouter';
 import episodesRouter from './routes/episodesRouter';
 import fileRouter from './routes/fileRouter';
+import historyRouter from './routes/historyRouter';
+import libraryRouter from './routes/libraryRouter';
+import listsRouter from './routes/listsRouter';
 import moviesRouter from './routes/moviesRouter';
 import notificationsRouter from './routes/notificationsRouter';
+import peopleRouter from './routes/peopleRouter';
 import profileRouter from './routes/profileRouter';
+import ratingsRouter from './routes/ratingsRouter';
+import recommendationsRouter from './routes/recommendationsRouter';
 import searchRouter from './routes/searchRouter';
 import seasonsRouter from './routes/seasonsRouter';
 import showsRouter from './routes/showsRouter';
 import statisticsRouter from './routes/statisticsRouter';
+import { accountDeletionService } from './services/accountDeletionService';
+import { collectionsService } from './services/collectionsService';
+import { contentUpdateService } from './services/contentUpdateService';
+import { importService } from './services/importService';
+import { notificationDeliveryService } from './services/notificationDeliveryService';
+import { peopleService } from './services/peopleService';
+import { profileNotificationsService } from './services/profileNotificationsService';
+import { socketEventService } from './services/socketEventService';
 import { errorHandler } from '@ajgifford/keepwatching-common-server';
 import {
   getAppVersion,
@@ -47,6 +63,7 @@ import admin from 'firebase-admin';
 import fs from 'fs';
 import helmet from 'helmet';
 import https from 'https';
+import { ScheduledTask } from 'node-cron';
 import { Server } from 'socket.io';
 
 const KEY_PATH = getCertsKeyPath();
@@ -70,6 +87,12 @@ declare global {
   }
 }
 
+let accountPurgeTask: ScheduledTask | undefined;
+let personAlertTask: ScheduledTask | undefined;
+let notificationPushTask: ScheduledTask | undefined;
+let profileNotificationTask: ScheduledTask | undefined;
+let collectionBackfillTask: ScheduledTask | undefined;
+
 GlobalErrorHandler.initialize();
 
 function ensureSecure(req: Request, res: Response, next: NextFunction) {
@@ -175,6 +198,13 @@ app.use(authenticateUser, moviesRouter);
 app.use(authenticateUser, fileRouter);
 app.use(authenticateUser, notificationsRouter);
 app.use(authenticateUser, statisticsRouter);
+app.use(authenticateUser, historyRouter);
+app.use(authenticateUser, listsRouter);
+app.use(authenticateUser, ratingsRouter);
+app.use(authenticateUser, recommendationsRouter);
+app.use(authenticateUser, collectionsRouter);
+app.use(authenticateUser, peopleRouter);
+app.use(authenticateUser, libraryRouter);
 
 const server = https.createServer(credentials, app);
 const io = new Server(server, {
@@ -185,36 +215,23 @@ const io = new Server(server, {
   },
 });
 
-io.use(async (socket, next) => {
-  try {
-    const token = socket.handshake.auth?.token;
-    if (!token) {
-      return next(new Error('Authentication error: No token provided'));
-    }
-    const account_id = socket.handshake.auth?.account_id;
-    if (!account_id) {
-      return next(new Error('Authentication error: No account id provided'));
-    }
-
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    socket.data.userId = decodedToken.uid;
-    socket.data.email = decodedToken.email;
-    socket.data.accountId = account_id;
-    next();
-  } catch (error) {
-    GlobalErrorHandler.logError(error as Error, 'WebSocket Auth Failed');
-    next(new Error('Authentication error'));
-  }
-});
+io.use(authenticateSocket);
 
 // Initialize the socket service with our socket.io instance
 socketService.initialize(io);
+socketEventService.initialize(io);
+io.on('connection', (socket) => {
+  enforceSocketTokenLifetime(socket);
+  socketEventService.handleConnection(socket);
+  notificationDeliveryService.handleConnection(socket);
+});
 
 const startServer = async () => {
   try {
     cliLogger.info('Fetching initial data from the database...');
     await loadStreamingService();
     cliLogger.info('Data fetched and cached successfully.');
+    await importService.failInterruptedImports();
 
     if (isEmailEnabled()) {
       const emailValidation = validateEmailConfig();
@@ -237,9 +254,20 @@ const startServer = async () => {
     }
 
     initScheduledJobs(
-      () => socketService.notifyShowsUpdate(),
-      () => socketService.notifyMoviesUpdate(),
+      () => {
+        contentUpdateService.notifyShowUpdates();
+        notificationDeliveryService.pushNewNotifications();
+      },
+      () => {
+        contentUpdateService.notifyMovieUpdates();
+        notificationDeliveryService.pushNewNotifications();
+      },
     );
+    accountPurgeTask = accountDeletionService.startScheduledPurge();
+    personAlertTask = peopleService.startScheduledAlerts();
+    notificationPushTask = notificationDeliveryService.startScheduledPush();
+    profileNotificationTask = profileNotificationsService.startScheduledNotifications();
+    collectionBackfillTask = collectionsService.startScheduledBackfill();
 
     server.listen(port, () => {
       cliLogger.info(`Server is running on https://localhost:${port}`);
@@ -262,6 +290,11 @@ const gracefulShutdown = (signal: string) => {
     cliLogger.info('HTTP server closed');
 
     shutdownJobs();
+    accountPurgeTask?.stop();
+    personAlertTask?.stop();
+    notificationPushTask?.stop();
+    profileNotificationTask?.stop();
+    collectionBackfillTask?.stop();
 
     try {
       await databaseService.shutdown();
@@ -33,3 +33,34 @@ export const authorizeAccountAccess = async (req: Request, res: Response, next:
     next(error);
   }
 };
+
+/**
+ * Authorize an optional `profileId` query parameter with the same rule as {@link authorizeAccountAccess}: the profile
+ * must belong to the authenticated user's account. Requests without a profile pass through
+ */
+export const authorizeProfileQueryAccess = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const profileId = req.query.profileId as unknown as number | undefined;
+    if (!profileId) {
+      next();
+      return;
+    }
+
+    const authenticatedUid = req.user?.uid;
+    if (!authenticatedUid) {
+      next(new UnauthorizedError('Authentication required'));
+      return;
+    }
+
+    const accountId = await accountService.findAccountIdByProfileId(profileId);
+    const account = accountId ? await accountService.findAccountById(accountId) : null;
+    if (!account || account.uid !== authenticatedUid) {
+      next(new ForbiddenError('Access forbidden to this profile, it does not belong to your account'));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,106 @@
+import { getSocketTokenCheckMinutes } from '../config/config';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService } from '@ajgifford/keepwatching-common-server/services';
+import { GlobalErrorHandler } from '@ajgifford/keepwatching-common-server/utils';
+import admin from 'firebase-admin';
+import { ExtendedError, Socket } from 'socket.io';
+
+type SessionEndReason = 'expired' | 'revoked';
+type RefreshAck = (response: { refreshed: boolean; error?: string }) => void;
+
+const MINUTE_IN_MS = 60 * 1000;
+
+/**
+ * Whether a failed token check means the session is over, rather than Firebase being unreachable
+ */
+function isTokenRejected(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  return typeof code === 'string' && code.startsWith('auth/');
+}
+
+function endSession(socket: Socket, reason: SessionEndReason) {
+  socket.emit('auth:sessionEnded', { reason });
+  socket.disconnect(true);
+}
+
+/**
+ * Authenticate a socket during the handshake. The Firebase token must be valid and not revoked, and the
+ * `account_id` sent with it must belong to the token's user, the same rule `authorizeAccountAccess` applies to
+ * requests
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: ExtendedError) => void): Promise<void> => {
+  try {
+    const token = socket.handshake.auth?.token;
+    if (!token) {
+      return next(new Error('Authentication error: No token provided'));
+    }
+    const accountId = Number(socket.handshake.auth?.account_id);
+    if (!accountId) {
+      return next(new Error('Authentication error: No account id provided'));
+    }
+
+    const decodedToken = await admin.auth().verifyIdToken(token, true);
+    const account = await accountService.findAccountById(accountId);
+    if (!account || account.uid !== decodedToken.uid) {
+      return next(new Error('Authentication error: You do not have permission to access this account'));
+    }
+
+    socket.data.userId = decodedToken.uid;
+    socket.data.email = decodedToken.email;
+    socket.data.accountId = account.id;
+    socket.data.token = token;
+    socket.data.tokenExpiresAt = decodedToken.exp * 1000;
+    next();
+  } catch (error) {
+    GlobalErrorHandler.logError(error as Error, 'WebSocket Auth Failed');
+    next(new Error('Authentication error'));
+  }
+};
+
+/**
+ * Tie a connected socket's session to its token. The socket is disconnected when the token expires, unless the
+ * client sends a fresh token for the same user with `auth:refresh`, and the token is re-checked on an interval so
+ * revoking it also ends the session. An `auth:sessionEnded` event with the reason is sent before disconnecting
+ */
+export const enforceSocketTokenLifetime = (socket: Socket): void => {
+  let expiryTimer: NodeJS.Timeout | undefined;
+  const scheduleExpiry = () => {
+    clearTimeout(expiryTimer);
+    expiryTimer = setTimeout(() => endSession(socket, 'expired'), Math.max(socket.data.tokenExpiresAt - Date.now(), 0));
+  };
+
+  const revocationCheck = setInterval(async () => {
+    try {
+      await admin.auth().verifyIdToken(socket.data.token, true);
+    } catch (error) {
+      if (isTokenRejected(error)) {
+        endSession(socket, (error as { code: string }).code === 'auth/id-token-expired' ? 'expired' : 'revoked');
+      } else {
+        appLogger.error('Failed to check the token of a socket', { error, accountId: socket.data.accountId });
+      }
+    }
+  }, getSocketTokenCheckMinutes() * MINUTE_IN_MS);
+
+  socket.on('auth:refresh', async (payload: { token?: string }, ack?: RefreshAck) => {
+    try {
+      const decodedToken = await admin.auth().verifyIdToken(payload?.token ?? '', true);
+      if (decodedToken.uid !== socket.data.userId) {
+        ack?.({ refreshed: false, error: 'The token belongs to a different user' });
+        return;
+      }
+      socket.data.token = payload.token;
+      socket.data.tokenExpiresAt = decodedToken.exp * 1000;
+      scheduleExpiry();
+      ack?.({ refreshed: true });
+    } catch {
+      ack?.({ refreshed: false, error: 'Invalid token' });
+    }
+  });
+
+  socket.on('disconnect', () => {
+    clearTimeout(expiryTimer);
+    clearInterval(revocationCheck);
+  });
+
+  scheduleExpiry();
+};
@@ -50,3 +50,13 @@ const uploadFile = multer({
 
 const uploadFileMiddleware = util.promisify(uploadFile);
 export default uploadFileMiddleware;
+
+const maxImportSize: number = 20 * 1024 * 1024;
+
+// Import files are parsed straight away, so they are kept in memory rather than saved
+const uploadImportFile = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxImportSize },
+}).single('file');
+
+export const uploadImportFileMiddleware = util.promisify(uploadImportFile);
@@ -1,6 +1,17 @@
-import { editAccount, googleLogin, login, logout, register } from '../controllers/accountController';
+import {
+  cancelAccountDeletion,
+  deleteAccount,
+  editAccount,
+  exportAccount,
+  getAccountDeletion,
+  googleLogin,
+  login,
+  logout,
+  register,
+} from '../controllers/accountController';
 import { authenticateUser } from '../middleware/authenticationMiddleware';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { accountDeletionQuerySchema, accountExportQuerySchema, accountRegionBodySchema } from '../schema/accountSchema';
 import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
 import {
   accountIdParamSchema,
@@ -23,7 +34,38 @@ router.put(
   authenticateUser,
   authorizeAccountAccess,
   validateRequest(updateAccountBodySchema),
+  validateSchema(accountRegionBodySchema),
   editAccount,
 );
+router.get(
+  '/api/v1/accounts/:accountId/export',
+  validateSchema(accountIdParamSchema, 'params'),
+  authenticateUser,
+  authorizeAccountAccess,
+  validateSchema(accountExportQuerySchema, 'query'),
+  exportAccount,
+);
+router.delete(
+  '/api/v1/accounts/:accountId',
+  validateSchema(accountIdParamSchema, 'params'),
+  authenticateUser,
+  authorizeAccountAccess,
+  validateSchema(accountDeletionQuerySchema, 'query'),
+  deleteAccount,
+);
+router.get(
+  '/api/v1/accounts/:accountId/deletion',
+  validateSchema(accountIdParamSchema, 'params'),
+  authenticateUser,
+  authorizeAccountAccess,
+  getAccountDeletion,
+);
+router.post(
+  '/api/v1/accounts/:accountId/deletion/cancel',
+  validateSchema(accountIdParamSchema, 'params'),
+  authenticateUser,
+  authorizeAccountAccess,
+  cancelAccountDeletion,
+);
 
 export default router;
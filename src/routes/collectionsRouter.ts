@@ -0,0 +1,23 @@
+import { favoriteCollection, getCollections } from '../controllers/collectionsController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { collectionParamsSchema } from '../schema/collectionSchema';
+import { validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/collections',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getCollections,
+);
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/collections/:collectionId/favorites',
+  validateSchema(collectionParamsSchema, 'params'),
+  authorizeAccountAccess,
+  favoriteCollection,
+);
+
+export default router;
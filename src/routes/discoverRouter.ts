@@ -1,4 +1,10 @@
-import { discoverChangesContent, discoverTopContent, discoverTrendingContent } from '../controllers/discoverController';
+import {
+  discoverChangesContent,
+  discoverFilteredContent,
+  discoverTopContent,
+  discoverTrendingContent,
+} from '../controllers/discoverController';
+import { discoverFilterQuerySchema } from '../schema/discoverSchema';
 import { validateSchema } from '@ajgifford/keepwatching-common-server';
 import {
   discoverChangesQuerySchema,
@@ -12,5 +18,6 @@ const router = express.Router();
 router.get('/api/v1/discover/top', validateSchema(discoverTopQuerySchema, 'query'), discoverTopContent);
 router.get('/api/v1/discover/changes', validateSchema(discoverChangesQuerySchema, 'query'), discoverChangesContent);
 router.get('/api/v1/discover/trending', validateSchema(discoverTrendingQuerySchema, 'query'), discoverTrendingContent);
+router.get('/api/v1/discover/filter', validateSchema(discoverFilterQuerySchema, 'query'), discoverFilteredContent);
 
 export default router;
@@ -1,4 +1,5 @@
 import {
+  bulkUpdateEpisodeWatchStatus,
   getEpisodesForSeason,
   getRecentEpisodes,
   getUpcomingEpisodes,
@@ -6,6 +7,7 @@ import {
   updateNextEpisodeWatchStatus,
 } from '../controllers/episodesController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { bulkEpisodeWatchStatusBodySchema } from '../schema/episodeSchema';
 import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
 import {
   accountAndProfileIdsParamSchema,
@@ -24,6 +26,14 @@ router.put(
   updateEpisodeWatchStatus,
 );
 
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/episodes/watchStatus/bulk',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(bulkEpisodeWatchStatusBodySchema),
+  bulkUpdateEpisodeWatchStatus,
+);
+
 router.put(
   '/api/v1/accounts/:accountId/profiles/:profileId/episodes/nextWatchStatus',
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
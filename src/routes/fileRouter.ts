@@ -1,5 +1,11 @@
-import { uploadAccountImage, uploadProfileImage } from '../controllers/fileController';
+import {
+  getImportStatus,
+  importWatchHistory,
+  uploadAccountImage,
+  uploadProfileImage,
+} from '../controllers/fileController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { importJobParamsSchema, importQuerySchema } from '../schema/importSchema';
 import { validateSchema } from '@ajgifford/keepwatching-common-server';
 import { accountAndProfileIdsParamSchema, accountIdParamSchema } from '@ajgifford/keepwatching-common-server/schema';
 import express from 'express';
@@ -20,4 +26,19 @@ router.post(
   uploadProfileImage,
 );
 
+router.post(
+  '/api/v1/upload/accounts/:accountId/profiles/:profileId/import',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(importQuerySchema, 'query'),
+  importWatchHistory,
+);
+
+router.get(
+  '/api/v1/upload/accounts/:accountId/profiles/:profileId/import/:jobId',
+  validateSchema(importJobParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getImportStatus,
+);
+
 export default router;
@@ -0,0 +1,26 @@
+import { getWatchHistory, logRewatch } from '../controllers/historyController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { rewatchBodySchema, watchHistoryQuerySchema } from '../schema/historySchema';
+import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/history',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(watchHistoryQuerySchema, 'query'),
+  getWatchHistory,
+);
+
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/history/rewatch',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(rewatchBodySchema),
+  logRewatch,
+);
+
+export default router;
@@ -0,0 +1,18 @@
+import { searchLibrary } from '../controllers/libraryController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { librarySearchQuerySchema } from '../schema/librarySchema';
+import { validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/library/search',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(librarySearchQuerySchema, 'query'),
+  searchLibrary,
+);
+
+export default router;
@@ -0,0 +1,105 @@
+import {
+  addListItem,
+  createList,
+  deleteList,
+  getList,
+  getLists,
+  removeListItem,
+  reorderListItems,
+  shareList,
+  updateList,
+  updateListItem,
+} from '../controllers/listsController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import {
+  listBodySchema,
+  listItemBodySchema,
+  listItemNoteBodySchema,
+  listItemParamsSchema,
+  listOrderBodySchema,
+  listParamsSchema,
+  listShareBodySchema,
+} from '../schema/listSchema';
+import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getLists,
+);
+
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listBodySchema),
+  createList,
+);
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getList,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listBodySchema),
+  updateList,
+);
+
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  deleteList,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/shares',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listShareBodySchema),
+  shareList,
+);
+
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listItemBodySchema),
+  addListItem,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/order',
+  validateSchema(listParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listOrderBodySchema),
+  reorderListItems,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/:itemId',
+  validateSchema(listItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(listItemNoteBodySchema),
+  updateListItem,
+);
+
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/lists/:listId/items/:itemId',
+  validateSchema(listItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  removeListItem,
+);
+
+export default router;
@@ -1,11 +1,26 @@
 import {
   addFavorite,
+  addMovieToWatchlist,
+  getMovieDetails,
+  getMovieRecommendations,
+  getMovieWatchlist,
   getMovies,
   getRecentUpcomingForProfile,
+  getSimilarMovies,
+  promoteMovieFromWatchlist,
   removeFavorite,
+  removeMovieFromWatchlist,
+  reorderMovieWatchlist,
   updateMovieWatchStatus,
 } from '../controllers/moviesController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { libraryListQuerySchema } from '../schema/librarySchema';
+import { movieParamsSchema } from '../schema/movieSchema';
+import {
+  addMovieToWatchlistBodySchema,
+  watchlistItemParamsSchema,
+  watchlistOrderBodySchema,
+} from '../schema/watchlistSchema';
 import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
 import {
   accountAndProfileIdsParamSchema,
@@ -21,6 +36,7 @@ router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/movies',
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   authorizeAccountAccess,
+  validateSchema(libraryListQuerySchema, 'query'),
   getMovies,
 );
 router.post(
@@ -49,5 +65,55 @@ router.get(
   authorizeAccountAccess,
   getRecentUpcomingForProfile,
 );
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getMovieWatchlist,
+);
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(addMovieToWatchlistBodySchema),
+  addMovieToWatchlist,
+);
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/order',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(watchlistOrderBodySchema),
+  reorderMovieWatchlist,
+);
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/:tmdbId',
+  validateSchema(watchlistItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  removeMovieFromWatchlist,
+);
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/watchlist/:tmdbId/promote',
+  validateSchema(watchlistItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  promoteMovieFromWatchlist,
+);
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/details',
+  validateSchema(movieParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getMovieDetails,
+);
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/recommendations',
+  validateSchema(movieParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getMovieRecommendations,
+);
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/movies/:movieId/similar',
+  validateSchema(movieParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getSimilarMovies,
+);
 
 export default router;
@@ -1,7 +1,22 @@
-import { dismissNotification, getNotifications } from '../controllers/notificationsController';
+import {
+  dismissAllNotifications,
+  dismissNotification,
+  getNotificationHistory,
+  getNotificationPreferences,
+  getNotifications,
+  getUnreadCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  updateNotificationPreferences,
+} from '../controllers/notificationsController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
-import { validateSchema } from '@ajgifford/keepwatching-common-server';
-import { accountIdParamSchema, dismissParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import { notificationHistoryQuerySchema, profileNotificationPreferencesBodySchema } from '../schema/notificationSchema';
+import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
+import {
+  accountAndProfileIdsParamSchema,
+  accountIdParamSchema,
+  dismissParamSchema,
+} from '@ajgifford/keepwatching-common-server/schema';
 import express from 'express';
 
 const router = express.Router();
@@ -12,11 +27,55 @@ router.get(
   authorizeAccountAccess,
   getNotifications,
 );
+router.get(
+  '/api/v1/accounts/:accountId/notifications/unreadCount',
+  validateSchema(accountIdParamSchema, 'params'),
+  authorizeAccountAccess,
+  getUnreadCount,
+);
+router.get(
+  '/api/v1/accounts/:accountId/notifications/history',
+  validateSchema(accountIdParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(notificationHistoryQuerySchema, 'query'),
+  getNotificationHistory,
+);
+router.post(
+  '/api/v1/accounts/:accountId/notifications/read',
+  validateSchema(accountIdParamSchema, 'params'),
+  authorizeAccountAccess,
+  markAllNotificationsRead,
+);
+router.post(
+  '/api/v1/accounts/:accountId/notifications/read/:notificationId',
+  validateSchema(dismissParamSchema, 'params'),
+  authorizeAccountAccess,
+  markNotificationRead,
+);
+router.post(
+  '/api/v1/accounts/:accountId/notifications/dismiss',
+  validateSchema(accountIdParamSchema, 'params'),
+  authorizeAccountAccess,
+  dismissAllNotifications,
+);
 router.post(
   '/api/v1/accounts/:accountId/notifications/dismiss/:notificationId',
   validateSchema(dismissParamSchema, 'params'),
   authorizeAccountAccess,
   dismissNotification,
 );
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/notifications/preferences',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getNotificationPreferences,
+);
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/notifications/preferences',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(profileNotificationPreferencesBodySchema),
+  updateNotificationPreferences,
+);
 
 export default router;
@@ -0,0 +1,35 @@
+import { followPerson, getFollowedPeople, getPerson, unfollowPerson } from '../controllers/peopleController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { personParamsSchema } from '../schema/personSchema';
+import { validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/people/following',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getFollowedPeople,
+);
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/people/:personId',
+  validateSchema(personParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getPerson,
+);
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/people/:personId/follow',
+  validateSchema(personParamsSchema, 'params'),
+  authorizeAccountAccess,
+  followPerson,
+);
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/people/:personId/follow',
+  validateSchema(personParamsSchema, 'params'),
+  authorizeAccountAccess,
+  unfollowPerson,
+);
+
+export default router;
@@ -0,0 +1,40 @@
+import { getRating, getRatings, rateContent, removeRating } from '../controllers/ratingsController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { ratingBodySchema, ratingParamsSchema, ratingsQuerySchema } from '../schema/ratingSchema';
+import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/ratings',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(ratingsQuerySchema, 'query'),
+  getRatings,
+);
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId',
+  validateSchema(ratingParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getRating,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId',
+  validateSchema(ratingParamsSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(ratingBodySchema),
+  rateContent,
+);
+
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/ratings/:contentType/:contentId',
+  validateSchema(ratingParamsSchema, 'params'),
+  authorizeAccountAccess,
+  removeRating,
+);
+
+export default router;
@@ -0,0 +1,18 @@
+import { getRecommendations } from '../controllers/recommendationsController';
+import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { recommendationsQuerySchema } from '../schema/recommendationSchema';
+import { validateSchema } from '@ajgifford/keepwatching-common-server';
+import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
+import express from 'express';
+
+const router = express.Router();
+
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/recommendations',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(recommendationsQuerySchema, 'query'),
+  getRecommendations,
+);
+
+export default router;
@@ -1,14 +1,28 @@
 import {
   addFavorite,
+  addShowToWatchlist,
   getProfileEpisodes,
   getShowDetails,
+  getShowProgress,
   getShowRecommendations,
+  getShowWatchlist,
   getShows,
   getSimilarShows,
+  markShowWatchedUpToEpisode,
+  promoteShowFromWatchlist,
   removeFavorite,
+  removeShowFromWatchlist,
+  reorderShowWatchlist,
   updateShowWatchStatus,
 } from '../controllers/showsController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { libraryListQuerySchema } from '../schema/librarySchema';
+import { showWatchedUpToEpisodeBodySchema } from '../schema/showSchema';
+import {
+  addShowToWatchlistBodySchema,
+  watchlistItemParamsSchema,
+  watchlistOrderBodySchema,
+} from '../schema/watchlistSchema';
 import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
 import {
   accountAndProfileIdsParamSchema,
@@ -24,6 +38,7 @@ router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/shows',
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   authorizeAccountAccess,
+  validateSchema(libraryListQuerySchema, 'query'),
   getShows,
 );
 
@@ -50,6 +65,14 @@ router.put(
   updateShowWatchStatus,
 );
 
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchstatus/upToEpisode',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(showWatchedUpToEpisodeBodySchema),
+  markShowWatchedUpToEpisode,
+);
+
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/shows/:showId/details',
   validateSchema(showParamsSchema, 'params'),
@@ -57,6 +80,13 @@ router.get(
   getShowDetails,
 );
 
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/:showId/progress',
+  validateSchema(showParamsSchema, 'params'),
+  authorizeAccountAccess,
+  getShowProgress,
+);
+
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/episodes',
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
@@ -78,4 +108,41 @@ router.get(
   getSimilarShows,
 );
 
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  getShowWatchlist,
+);
+
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(addShowToWatchlistBodySchema),
+  addShowToWatchlist,
+);
+
+router.put(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/order',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateRequest(watchlistOrderBodySchema),
+  reorderShowWatchlist,
+);
+
+router.delete(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/:tmdbId',
+  validateSchema(watchlistItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  removeShowFromWatchlist,
+);
+
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/shows/watchlist/:tmdbId/promote',
+  validateSchema(watchlistItemParamsSchema, 'params'),
+  authorizeAccountAccess,
+  promoteShowFromWatchlist,
+);
+
 export default router;
@@ -1,5 +1,6 @@
-import { getAccountStatistics, getProfileStatistics } from '../controllers/statisticsController';
+import { getAccountStatistics, getProfileActivity, getProfileStatistics } from '../controllers/statisticsController';
 import { authorizeAccountAccess } from '../middleware/authorizationMiddleware';
+import { activityQuerySchema } from '../schema/statisticsSchema';
 import { validateSchema } from '@ajgifford/keepwatching-common-server';
 import { accountAndProfileIdsParamSchema, accountIdParamSchema } from '@ajgifford/keepwatching-common-server/schema';
 import express from 'express';
@@ -20,4 +21,12 @@ router.get(
   getProfileStatistics,
 );
 
+router.get(
+  '/api/v1/accounts/:accountId/profiles/:profileId/statistics/activity',
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  authorizeAccountAccess,
+  validateSchema(activityQuerySchema, 'query'),
+  getProfileActivity,
+);
+
 export default router;
@@ -0,0 +1,23 @@
+import { regionSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const accountExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export type AccountExportQuery = z.infer<typeof accountExportQuerySchema>;
+
+export const accountDeletionQuerySchema = z.object({
+  revokeFirebaseUser: z.enum(['true', 'false']).optional(),
+});
+
+export type AccountDeletionQuery = z.infer<typeof accountDeletionQuerySchema>;
+
+// Checked alongside the common account update body, so its other fields are passed through untouched
+export const accountRegionBodySchema = z
+  .object({
+    region: regionSchema.optional(),
+  })
+  .passthrough();
+
+export type AccountRegionBody = z.infer<typeof accountRegionBodySchema>;
@@ -0,0 +1,10 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const collectionParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  collectionId: idParamSchema,
+});
+
+export type CollectionParams = z.infer<typeof collectionParamsSchema>;
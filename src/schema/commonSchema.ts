@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const idSchema = z.number().int().positive();
+
+export const idParamSchema = z.coerce.number().int().positive();
+
+export const idListSchema = z.string().regex(/^\d+(,\d+)*$/, 'Must be a comma separated list of ids');
+
+export const regionSchema = z.string().regex(/^[A-Z]{2}$/, 'Region must be an ISO 3166-1 country code');
@@ -0,0 +1,41 @@
+import { idListSchema, regionSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const discoverFilterQuerySchema = z
+  .object({
+    showType: z.enum(['movie', 'series']),
+    genres: idListSchema.optional(),
+    networks: idListSchema.optional(),
+    services: idListSchema.optional(),
+    region: regionSchema.default('US'),
+    language: z
+      .string()
+      .regex(/^[a-z]{2}$/, 'Language must be an ISO 639-1 code')
+      .optional(),
+    runtimeMin: z.coerce.number().int().min(0).max(1000).optional(),
+    runtimeMax: z.coerce.number().int().min(0).max(1000).optional(),
+    minRating: z.coerce.number().min(0).max(10).optional(),
+    releasedFrom: z.string().date().optional(),
+    releasedTo: z.string().date().optional(),
+    status: z.enum(['returning', 'ended', 'cancelled']).optional(),
+    sortBy: z.enum(['popularity', 'rating', 'releaseDate', 'title']).default('popularity'),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    page: z.coerce.number().int().positive().max(500).default(1),
+  })
+  .refine(
+    (query) => query.runtimeMin === undefined || query.runtimeMax === undefined || query.runtimeMin <= query.runtimeMax,
+    {
+      message: 'runtimeMin must not be greater than runtimeMax',
+      path: ['runtimeMin'],
+    },
+  )
+  .refine((query) => !query.releasedFrom || !query.releasedTo || query.releasedFrom <= query.releasedTo, {
+    message: 'releasedFrom must be on or before releasedTo',
+    path: ['releasedFrom'],
+  })
+  .refine((query) => query.showType === 'series' || (!query.networks && !query.status), {
+    message: 'networks and status only apply to series',
+    path: ['showType'],
+  });
+
+export type DiscoverFilterQuery = z.infer<typeof discoverFilterQuerySchema>;
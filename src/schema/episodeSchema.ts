@@ -0,0 +1,22 @@
+import { idSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const episodeWatchStatusSchema = z.enum(['NOT_WATCHED', 'WATCHED']);
+
+export const bulkEpisodeWatchStatusBodySchema = z.union([
+  z
+    .object({
+      episodeIds: z.array(idSchema).min(1, 'At least one episode id is required').max(1000),
+      status: episodeWatchStatusSchema,
+    })
+    .strict(),
+  z
+    .object({
+      fromEpisodeId: idSchema,
+      toEpisodeId: idSchema,
+      status: episodeWatchStatusSchema,
+    })
+    .strict(),
+]);
+
+export type BulkEpisodeWatchStatusBody = z.infer<typeof bulkEpisodeWatchStatusBodySchema>;
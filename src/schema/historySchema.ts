@@ -0,0 +1,25 @@
+import { idSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const watchHistoryQuerySchema = z
+  .object({
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+    contentType: z.enum(['episode', 'season', 'show', 'movie']).optional(),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(200).default(50),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+export const rewatchBodySchema = z
+  .object({
+    contentType: z.enum(['episode', 'movie']),
+    contentId: idSchema,
+  })
+  .strict();
+
+export type WatchHistoryQueryParams = z.infer<typeof watchHistoryQuerySchema>;
+export type RewatchBody = z.infer<typeof rewatchBodySchema>;
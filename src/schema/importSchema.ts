@@ -0,0 +1,15 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const importQuerySchema = z.object({
+  source: z.enum(['trakt', 'tvtime', 'letterboxd']),
+});
+
+export const importJobParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  jobId: idParamSchema,
+});
+
+export type ImportQuery = z.infer<typeof importQuerySchema>;
+export type ImportJobParams = z.infer<typeof importJobParamsSchema>;
@@ -0,0 +1,44 @@
+import { idListSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const LIBRARY_WATCH_STATUSES = ['NOT_WATCHED', 'WATCHING', 'WATCHED', 'UP_TO_DATE', 'UNAIRED'] as const;
+
+const statusListSchema = z
+  .string()
+  .refine(
+    (value) => value.split(',').every((status) => (LIBRARY_WATCH_STATUSES as readonly string[]).includes(status)),
+    { message: `Must be a comma separated list of ${LIBRARY_WATCH_STATUSES.join(', ')}` },
+  );
+
+export const librarySearchQuerySchema = z
+  .object({
+    q: z.string().trim().max(100).optional(),
+    contentType: z.enum(['show', 'movie']).optional(),
+    genres: idListSchema.optional(),
+    statuses: statusListSchema.optional(),
+    services: idListSchema.optional(),
+    addedFrom: z.string().date().optional(),
+    addedTo: z.string().date().optional(),
+    sortBy: z.enum(['title', 'addedAt', 'releaseDate', 'status']).default('title'),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+  })
+  .refine((query) => !query.addedFrom || !query.addedTo || query.addedFrom <= query.addedTo, {
+    message: 'addedFrom must be on or before addedTo',
+    path: ['addedFrom'],
+  });
+
+export const libraryListQuerySchema = z.object({
+  sortBy: z.enum(['title', 'addedAt', 'lastWatched', 'airDate']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  fields: z
+    .string()
+    .regex(/^\w+(,\w+)*$/, { message: 'Must be a comma separated list of field names' })
+    .optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(200).optional(),
+});
+
+export type LibrarySearchQuery = z.infer<typeof librarySearchQuerySchema>;
+export type LibraryListQuery = z.infer<typeof libraryListQuerySchema>;
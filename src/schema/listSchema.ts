@@ -0,0 +1,53 @@
+import { idParamSchema, idSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const listBodySchema = z
+  .object({
+    name: z.string().trim().min(1, 'List name is required').max(100, 'List name must be 100 characters or less'),
+    description: z.string().trim().max(500, 'Description must be 500 characters or less').nullable().optional(),
+  })
+  .strict();
+
+export const listShareBodySchema = z
+  .object({
+    profileIds: z.array(idSchema),
+  })
+  .strict();
+
+export const listItemBodySchema = z
+  .object({
+    contentType: z.enum(['show', 'movie']),
+    tmdbId: idSchema,
+    note: z.string().trim().max(1000, 'Note must be 1000 characters or less').nullable().optional(),
+  })
+  .strict();
+
+export const listItemNoteBodySchema = z
+  .object({
+    note: z.string().trim().max(1000, 'Note must be 1000 characters or less').nullable(),
+  })
+  .strict();
+
+export const listOrderBodySchema = z
+  .object({
+    itemIds: z.array(idSchema).min(1),
+  })
+  .strict();
+
+export const listParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  listId: idParamSchema,
+});
+
+export const listItemParamsSchema = listParamsSchema.extend({
+  itemId: idParamSchema,
+});
+
+export type ListBody = z.infer<typeof listBodySchema>;
+export type ListShareBody = z.infer<typeof listShareBodySchema>;
+export type ListItemBody = z.infer<typeof listItemBodySchema>;
+export type ListItemNoteBody = z.infer<typeof listItemNoteBodySchema>;
+export type ListOrderBody = z.infer<typeof listOrderBodySchema>;
+export type ListParams = z.infer<typeof listParamsSchema>;
+export type ListItemParams = z.infer<typeof listItemParamsSchema>;
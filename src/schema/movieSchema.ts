@@ -0,0 +1,10 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const movieParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  movieId: idParamSchema,
+});
+
+export type MovieParams = z.infer<typeof movieParamsSchema>;
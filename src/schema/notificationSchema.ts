@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const notificationHistoryQuerySchema = z.object({
+  includeDismissed: z.enum(['true', 'false']).optional(),
+  includeExpired: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type NotificationHistoryQueryParams = z.infer<typeof notificationHistoryQuerySchema>;
+
+export const profileNotificationPreferencesBodySchema = z
+  .object({
+    newEpisodes: z.boolean().optional(),
+    newSeasons: z.boolean().optional(),
+    movieReleases: z.boolean().optional(),
+    showEndings: z.boolean().optional(),
+  })
+  .strict()
+  .refine((preferences) => Object.keys(preferences).length > 0, {
+    message: 'At least one notification category preference is required',
+  });
+
+export type ProfileNotificationPreferencesBody = z.infer<typeof profileNotificationPreferencesBodySchema>;
@@ -0,0 +1,10 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const personParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  personId: idParamSchema,
+});
+
+export type PersonParams = z.infer<typeof personParamsSchema>;
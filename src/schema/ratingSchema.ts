@@ -0,0 +1,43 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+const ratingContentTypeSchema = z.enum(['show', 'season', 'episode', 'movie']);
+
+export const ratingBodySchema = z
+  .object({
+    rating: z.number(),
+    scale: z.enum(['points', 'stars']).optional(),
+    review: z.string().trim().max(5000, 'Review must be 5000 characters or less').nullable().optional(),
+  })
+  .strict()
+  .superRefine(({ rating, scale = 'points' }, context) => {
+    const isValid =
+      scale === 'stars'
+        ? rating >= 0.5 && rating <= 5 && Number.isInteger(rating * 2)
+        : rating >= 1 && rating <= 10 && Number.isInteger(rating);
+    if (!isValid) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          scale === 'stars'
+            ? 'Star ratings must be between 0.5 and 5 in half stars'
+            : 'Ratings must be whole numbers between 1 and 10',
+        path: ['rating'],
+      });
+    }
+  });
+
+export const ratingParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  contentType: ratingContentTypeSchema,
+  contentId: idParamSchema,
+});
+
+export const ratingsQuerySchema = z.object({
+  contentType: ratingContentTypeSchema.optional(),
+});
+
+export type RatingBody = z.infer<typeof ratingBodySchema>;
+export type RatingParams = z.infer<typeof ratingParamsSchema>;
+export type RatingsQuery = z.infer<typeof ratingsQuerySchema>;
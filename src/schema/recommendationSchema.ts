@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const recommendationsQuerySchema = z.object({
+  contentType: z.enum(['show', 'movie']).optional(),
+  limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+export type RecommendationsQuery = z.infer<typeof recommendationsQuerySchema>;
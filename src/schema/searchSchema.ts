@@ -0,0 +1,14 @@
+import { idParamSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const multiSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(100),
+  year: z
+    .string()
+    .regex(/^\d{4}$/, 'Year must be in YYYY format')
+    .optional(),
+  page: z.coerce.number().int().positive().default(1),
+  profileId: idParamSchema.optional(),
+});
+
+export type MultiSearchQuery = z.infer<typeof multiSearchQuerySchema>;
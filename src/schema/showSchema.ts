@@ -0,0 +1,11 @@
+import { idSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const showWatchedUpToEpisodeBodySchema = z
+  .object({
+    showId: idSchema,
+    episodeId: idSchema,
+  })
+  .strict();
+
+export type ShowWatchedUpToEpisodeBody = z.infer<typeof showWatchedUpToEpisodeBodySchema>;
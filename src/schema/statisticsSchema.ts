@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const activityQuerySchema = z
+  .object({
+    granularity: z.enum(['day', 'week', 'month']).default('day'),
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
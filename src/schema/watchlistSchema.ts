@@ -0,0 +1,31 @@
+import { idParamSchema, idSchema } from './commonSchema';
+import { z } from 'zod';
+
+export const addShowToWatchlistBodySchema = z
+  .object({
+    showTMDBId: idSchema,
+  })
+  .strict();
+
+export const addMovieToWatchlistBodySchema = z
+  .object({
+    movieTMDBId: idSchema,
+  })
+  .strict();
+
+export const watchlistOrderBodySchema = z
+  .object({
+    tmdbIds: z.array(idSchema).min(1),
+  })
+  .strict();
+
+export const watchlistItemParamsSchema = z.object({
+  accountId: idParamSchema,
+  profileId: idParamSchema,
+  tmdbId: idParamSchema,
+});
+
+export type AddShowToWatchlistBody = z.infer<typeof addShowToWatchlistBodySchema>;
+export type AddMovieToWatchlistBody = z.infer<typeof addMovieToWatchlistBodySchema>;
+export type WatchlistOrderBody = z.infer<typeof watchlistOrderBodySchema>;
+export type WatchlistItemParams = z.infer<typeof watchlistItemParamsSchema>;
@@ -0,0 +1,154 @@
+import { getAccountDeletionGraceDays, getAccountPurgeSchedule } from '../config/config';
+import * as accountDeletionDb from '../db/accountDeletionDb';
+import { addDays } from '../utils/dateUtility';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { getUploadDirectory } from '@ajgifford/keepwatching-common-server/config';
+import { appLogger, cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, profileService } from '@ajgifford/keepwatching-common-server/services';
+import admin from 'firebase-admin';
+import fs from 'fs';
+import cron, { ScheduledTask } from 'node-cron';
+
+/**
+ * Service for deleting accounts and everything stored for them, after a grace period during which
+ * the deletion can be cancelled
+ */
+export class AccountDeletionService {
+  /**
+   * Request the deletion of an account. With a grace period the account is purged once it ends,
+   * without one it is purged straight away
+   *
+   * @param revokeFirebaseUser - whether to also delete the account's Firebase user when it is purged
+   * @throws {NotFoundError} when the account does not exist
+   */
+  public async requestDeletion(accountId: number, revokeFirebaseUser: boolean) {
+    const account = await accountService.findAccountById(accountId);
+    if (!account) {
+      throw new NotFoundError('Account not found');
+    }
+
+    const graceDays = getAccountDeletionGraceDays();
+    if (graceDays === 0) {
+      await this.purgeAccount(accountId, revokeFirebaseUser);
+      return { accountId, status: 'DELETED', revokeFirebaseUser, scheduledFor: null };
+    }
+
+    const scheduledFor = addDays(new Date(), graceDays);
+    await accountDeletionDb.saveDeletionRequest(accountId, scheduledFor, revokeFirebaseUser);
+    return { accountId, status: 'SCHEDULED', revokeFirebaseUser, scheduledFor };
+  }
+
+  /**
+   * Get the pending deletion of an account
+   *
+   * @throws {NotFoundError} when no deletion is pending for the account
+   */
+  public async getPendingDeletion(accountId: number) {
+    const deletion = await accountDeletionDb.getDeletionRequest(accountId);
+    if (!deletion) {
+      throw new NotFoundError('No deletion is pending for this account');
+    }
+    return deletion;
+  }
+
+  /**
+   * Cancel the pending deletion of an account
+   *
+   * @throws {NotFoundError} when no deletion is pending for the account
+   */
+  public async cancelDeletion(accountId: number): Promise<void> {
+    const removed = await accountDeletionDb.removeDeletionRequest(accountId);
+    if (!removed) {
+      throw new NotFoundError('No deletion is pending for this account');
+    }
+  }
+
+  /**
+   * Purge every account whose grace period has ended, a failure is logged and retried on the next run
+   *
+   * @returns the number of accounts purged
+   */
+  public async purgeDueAccounts(): Promise<number> {
+    const dueDeletions = await accountDeletionDb.getDueDeletionRequests();
+    let purged = 0;
+    for (const deletion of dueDeletions) {
+      try {
+        await this.purgeAccount(deletion.accountId, deletion.revokeFirebaseUser);
+        purged++;
+      } catch (error) {
+        appLogger.error('Failed to purge a deleted account', { error, accountId: deletion.accountId });
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Schedule the job that purges accounts whose grace period has ended
+   */
+  public startScheduledPurge(): ScheduledTask {
+    return cron.schedule(getAccountPurgeSchedule(), async () => {
+      try {
+        const purged = await this.purgeDueAccounts();
+        if (purged > 0) {
+          cliLogger.info(`Purged ${purged} deleted account(s)`);
+        }
+      } catch (error) {
+        appLogger.error('Account purge job failed', { error });
+      }
+    });
+  }
+
+  /**
+   * Delete an account's profiles (with all their data), uploaded images, notifications, cached
+   * data and the account itself, optionally along with its Firebase user
+   */
+  private async purgeAccount(accountId: number, revokeFirebaseUser: boolean): Promise<void> {
+    const account = await accountService.findAccountById(accountId);
+    if (!account) {
+      await accountDeletionDb.removeDeletionRequest(accountId);
+      return;
+    }
+
+    const profiles = await profileService.getProfilesByAccountId(accountId);
+    for (const profile of profiles) {
+      await profileService.deleteProfile(profile.id);
+      profileService.invalidateProfileCache(profile.id);
+      await this.deleteUploadedImage('profiles', profile.image);
+    }
+    await this.deleteUploadedImage('accounts', account.image);
+
+    // The Firebase user goes before the account row, which takes the pending deletion with it, so a failure is retried
+    if (revokeFirebaseUser) {
+      await this.deleteFirebaseUser(account.uid);
+    }
+
+    await accountDeletionDb.deleteAccountNotifications(accountId);
+    await accountDeletionDb.deleteAccount(accountId);
+    appLogger.info('Purged a deleted account', { accountId, profiles: profiles.length, revokeFirebaseUser });
+  }
+
+  private async deleteUploadedImage(folder: 'accounts' | 'profiles', image?: string | null): Promise<void> {
+    if (!image) {
+      return;
+    }
+    try {
+      await fs.promises.unlink(`${getUploadDirectory()}/${folder}/${image}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        appLogger.info('Unexpected exception when attempting to delete', error);
+      }
+    }
+  }
+
+  private async deleteFirebaseUser(uid: string): Promise<void> {
+    try {
+      await admin.auth().deleteUser(uid);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'auth/user-not-found') {
+        throw error;
+      }
+    }
+  }
+}
+
+export const accountDeletionService = new AccountDeletionService();
@@ -0,0 +1,93 @@
+import * as exportDb from '../db/exportDb';
+import { EpisodeStatusExport } from '../db/exportDb';
+import {
+  ExportAccount,
+  ExportFormat,
+  ExportFormatter,
+  ExportProfile,
+  createExportFormatter,
+} from '../utils/exportUtility';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import {
+  accountService,
+  moviesService,
+  profileService,
+  showService,
+} from '@ajgifford/keepwatching-common-server/services';
+
+const EPISODE_BATCH_SIZE = 500;
+
+export interface AccountExport {
+  fileName: string;
+  contentType: string;
+  content: AsyncGenerator<string>;
+}
+
+/**
+ * Service for exporting everything stored for an account
+ */
+export class AccountExportService {
+  /**
+   * Prepare an export of an account, its profiles, their favorited shows and movies with watch
+   * statuses, their episode statuses and the account's notification dismissals
+   *
+   * The account is looked up straight away, the rest is read as the content is consumed so the
+   * export never has to be held in memory
+   *
+   * @throws {NotFoundError} when the account does not exist
+   */
+  public async createExport(accountId: number, format: ExportFormat): Promise<AccountExport> {
+    const account = await accountService.findAccountById(accountId);
+    if (!account) {
+      throw new NotFoundError('Account not found');
+    }
+
+    const formatter = createExportFormatter(format);
+    const exportedAt = new Date();
+
+    return {
+      fileName: `keepwatching-account-${accountId}-${exportedAt.toISOString().slice(0, 10)}.${formatter.extension}`,
+      contentType: formatter.contentType,
+      content: this.generateContent(account, formatter, exportedAt),
+    };
+  }
+
+  private async *generateContent(
+    account: ExportAccount,
+    formatter: ExportFormatter,
+    exportedAt: Date,
+  ): AsyncGenerator<string> {
+    yield formatter.start(account, exportedAt);
+
+    const profiles: ExportProfile[] = await profileService.getProfilesByAccountId(account.id);
+    for (const profile of profiles) {
+      const [shows, movies] = await Promise.all([
+        showService.getShowsForProfile(profile.id),
+        moviesService.getMoviesForProfile(profile.id),
+      ]);
+      yield formatter.profile(profile, shows, movies);
+
+      for await (const episodes of this.readEpisodeStatuses(profile.id)) {
+        yield formatter.episodes(profile, episodes);
+      }
+      yield formatter.endProfile();
+    }
+
+    const dismissals = await exportDb.getNotificationDismissals(account.id);
+    yield formatter.end(dismissals);
+  }
+
+  private async *readEpisodeStatuses(profileId: number) {
+    let afterEpisodeId = 0;
+    let episodes: EpisodeStatusExport[];
+    do {
+      episodes = await exportDb.getEpisodeStatusesPage(profileId, afterEpisodeId, EPISODE_BATCH_SIZE);
+      if (episodes.length > 0) {
+        yield episodes;
+        afterEpisodeId = episodes[episodes.length - 1].episodeId;
+      }
+    } while (episodes.length === EPISODE_BATCH_SIZE);
+  }
+}
+
+export const accountExportService = new AccountExportService();
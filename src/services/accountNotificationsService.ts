@@ -0,0 +1,106 @@
+import * as notificationsDb from '../db/notificationsDb';
+import { NotificationHistoryFilters } from '../db/notificationsDb';
+import { notificationDeliveryService } from './notificationDeliveryService';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { notificationsService } from '@ajgifford/keepwatching-common-server/services';
+
+export interface NotificationHistoryQuery extends NotificationHistoryFilters {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Service for an account's read and dismissed notifications and its notification history. Dismissing goes through
+ * the common notifications service so the notification lists it serves stay current, while read state, which it does
+ * not track, is kept here. Every change is also sent to the account's other devices
+ */
+export class AccountNotificationsService {
+  /**
+   * Get the number of active notifications an account has not read
+   */
+  public async getUnreadCount(accountId: number): Promise<number> {
+    return notificationsDb.countUnreadNotifications(accountId);
+  }
+
+  /**
+   * Get a page of an account's notification history, newest first
+   */
+  public async getHistory(accountId: number, { page, limit, ...filters }: NotificationHistoryQuery) {
+    const offset = (page - 1) * limit;
+    const [notifications, total] = await Promise.all([
+      notificationsDb.getNotificationHistory(accountId, filters, limit, offset),
+      notificationsDb.countNotificationHistory(accountId, filters),
+    ]);
+
+    return {
+      notifications,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Mark a notification as read
+   *
+   * @returns the account's new unread count
+   * @throws {NotFoundError} when the notification was not sent to the account
+   */
+  public async markRead(accountId: number, notificationId: number): Promise<number> {
+    if (!(await notificationsDb.hasAccountNotification(accountId, notificationId))) {
+      throw new NotFoundError('Notification not found');
+    }
+    await notificationsDb.markNotificationsRead(accountId, [notificationId]);
+    await notificationDeliveryService.notifyRead(accountId, [notificationId]);
+    return notificationsDb.countUnreadNotifications(accountId);
+  }
+
+  /**
+   * Mark every active notification as read
+   *
+   * @returns the account's new unread count
+   */
+  public async markAllRead(accountId: number): Promise<number> {
+    const notificationIds = await notificationsDb.getActiveNotificationIds(accountId, true);
+    if (notificationIds.length > 0) {
+      await notificationsDb.markNotificationsRead(accountId, notificationIds);
+      await notificationDeliveryService.notifyRead(accountId, notificationIds);
+    }
+    return notificationsDb.countUnreadNotifications(accountId);
+  }
+
+  /**
+   * Dismiss a notification
+   *
+   * @returns the account's remaining notifications
+   */
+  public async dismiss(accountId: number, notificationId: number) {
+    const notifications = await notificationsService.dismissNotification(notificationId, accountId);
+    await notificationDeliveryService.notifyDismissed(accountId, [notificationId]);
+    return notifications;
+  }
+
+  /**
+   * Dismiss every active notification
+   *
+   * @returns the number of notifications dismissed and the account's remaining notifications
+   */
+  public async dismissAll(accountId: number) {
+    const notificationIds = await notificationsDb.getActiveNotificationIds(accountId, false);
+    if (notificationIds.length === 0) {
+      return { dismissedCount: 0, notifications: await notificationsService.getNotifications(accountId) };
+    }
+
+    let notifications;
+    for (const notificationId of notificationIds) {
+      notifications = await notificationsService.dismissNotification(notificationId, accountId);
+    }
+    await notificationDeliveryService.notifyDismissed(accountId, notificationIds);
+    return { dismissedCount: notificationIds.length, notifications };
+  }
+}
+
+export const accountNotificationsService = new AccountNotificationsService();
@@ -0,0 +1,20 @@
+import * as accountsDb from '../db/accountsDb';
+
+/**
+ * Service for the region an account watches from, which decides the streaming providers shown for its movies
+ */
+export class AccountRegionService {
+  /**
+   * Set the region an account watches from when one is given
+   *
+   * @returns the account's region, or null when there is no account with that id
+   */
+  public async saveRegion(accountId: number, region?: string): Promise<string | null> {
+    if (region) {
+      await accountsDb.updateAccountRegion(accountId, region);
+    }
+    return accountsDb.getAccountRegion(accountId);
+  }
+}
+
+export const accountRegionService = new AccountRegionService();
@@ -0,0 +1,87 @@
+import * as watchHistoryDb from '../db/watchHistoryDb';
+import {
+  ActivityGranularity,
+  buildActivitySeries,
+  calculateStreaks,
+  findBusiestHour,
+  findBusiestWeekday,
+  listPeriods,
+  toDateKey,
+} from '../utils/activityUtility';
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+
+const DEFAULT_PERIODS: Record<ActivityGranularity, number> = { day: 30, week: 12, month: 12 };
+const MAX_PERIODS: Record<ActivityGranularity, number> = { day: 366, week: 260, month: 120 };
+
+function defaultFrom(to: Date, granularity: ActivityGranularity): Date {
+  const from = new Date(to);
+  const periods = DEFAULT_PERIODS[granularity] - 1;
+  if (granularity === 'day') {
+    from.setUTCDate(from.getUTCDate() - periods);
+  } else if (granularity === 'week') {
+    from.setUTCDate(from.getUTCDate() - periods * 7);
+  } else {
+    from.setUTCDate(1);
+    from.setUTCMonth(from.getUTCMonth() - periods);
+  }
+  return from;
+}
+
+/**
+ * Service for viewing statistics over time, built from the watch history
+ */
+export class ActivityStatisticsService {
+  /**
+   * Get the watch activity of a profile over a date range
+   *
+   * All dates and hours are in UTC. Streaks cover the profile's whole history, every other figure
+   * covers only the requested range.
+   *
+   * @param profileId - id of the profile
+   * @param granularity - size of each period in the series
+   * @param from - first day of the range (`YYYY-MM-DD`), defaults to a window ending on `to`
+   * @param to - last day of the range (`YYYY-MM-DD`), defaults to today
+   * @throws {BadRequestError} when the range holds too many periods for the granularity
+   */
+  public async getProfileActivity(profileId: number, granularity: ActivityGranularity, from?: string, to?: string) {
+    const now = new Date();
+    const toDate = to ? new Date(to) : new Date(toDateKey(now));
+    const fromDate = from ? new Date(from) : defaultFrom(toDate, granularity);
+
+    if (listPeriods(fromDate, toDate, granularity).length > MAX_PERIODS[granularity]) {
+      throw new BadRequestError(
+        `A range can hold at most ${MAX_PERIODS[granularity]} periods when grouped by ${granularity}`,
+      );
+    }
+
+    const fromKey = toDateKey(fromDate);
+    const toKey = toDateKey(toDate);
+    const [activity, watchDays] = await Promise.all([
+      watchHistoryDb.getWatchActivity(profileId, fromKey, toKey),
+      watchHistoryDb.getWatchDays(profileId),
+    ]);
+
+    const series = buildActivitySeries(activity, granularity, fromDate, toDate);
+    const totals = series.reduce(
+      (sum, period) => ({
+        episodesWatched: sum.episodesWatched + period.episodesWatched,
+        moviesWatched: sum.moviesWatched + period.moviesWatched,
+        minutesWatched: sum.minutesWatched + period.minutesWatched,
+      }),
+      { episodesWatched: 0, moviesWatched: 0, minutesWatched: 0 },
+    );
+
+    return {
+      granularity,
+      from: fromKey,
+      to: toKey,
+      series,
+      totals,
+      streaks: calculateStreaks(watchDays, now),
+      busiestWeekday: findBusiestWeekday(activity),
+      busiestHour: findBusiestHour(activity),
+    };
+  }
+}
+
+export const activityStatisticsService = new ActivityStatisticsService();
@@ -0,0 +1,138 @@
+import { getCollectionBackfillSchedule } from '../config/config';
+import * as collectionsDb from '../db/collectionsDb';
+import { MovieCollectionRecord, NewCollectionPart } from '../db/collectionsDb';
+import { CollectionProgress, buildCollectionProgress } from '../utils/collectionUtility';
+import { withTransaction } from '../utils/db';
+import { watchlistService } from './watchlistService';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger, cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getTMDBService, moviesService } from '@ajgifford/keepwatching-common-server/services';
+import cron, { ScheduledTask } from 'node-cron';
+
+// Movies looked up on TMDB per backfill run
+const BACKFILL_BATCH_SIZE = 100;
+
+interface TMDBCollectionPart {
+  id: number;
+  title: string;
+  release_date?: string;
+  poster_path?: string | null;
+}
+
+/**
+ * Service for the TMDB collections (franchises) movies belong to and how far a profile is through each of them
+ */
+export class CollectionsService {
+  /**
+   * Link a movie to its TMDB collection, saving the collection with all its movies. A movie that is not part of a
+   * collection is left unlinked. Either way the movie is recorded as checked so the backfill skips it. Failures are
+   * logged rather than thrown so they never fail favoriting the movie, and leave the movie for the backfill to retry
+   */
+  public async linkMovieToCollection(movieTMDBId: number): Promise<void> {
+    try {
+      const movie = await getTMDBService().getMovieDetails(movieTMDBId);
+      const collectionId: number | undefined = movie.belongs_to_collection?.id;
+      if (collectionId) {
+        await this.saveCollection(collectionId);
+      }
+      await collectionsDb.markCollectionChecked(movieTMDBId);
+    } catch (error) {
+      appLogger.error('Failed to link movie to its collection', { error, movieTMDBId });
+    }
+  }
+
+  /**
+   * Link a batch of favorited movies that have never been looked up, such as those favorited before collections were
+   * tracked, to their collections
+   *
+   * @returns the number of movies looked up
+   */
+  public async backfillCollections(): Promise<number> {
+    const movieTMDBIds = await collectionsDb.getUncheckedFavoriteMovies(BACKFILL_BATCH_SIZE);
+    for (const movieTMDBId of movieTMDBIds) {
+      await this.linkMovieToCollection(movieTMDBId);
+    }
+    return movieTMDBIds.length;
+  }
+
+  /**
+   * Schedule the job that links favorited movies to their collections a batch at a time
+   */
+  public startScheduledBackfill(): ScheduledTask {
+    return cron.schedule(getCollectionBackfillSchedule(), async () => {
+      try {
+        const checked = await this.backfillCollections();
+        if (checked > 0) {
+          cliLogger.info(`Looked up the collections of ${checked} movie(s)`);
+        }
+      } catch (error) {
+        appLogger.error('Collection backfill job failed', { error });
+      }
+    });
+  }
+
+  /**
+   * Get a profile's progress through every collection with at least one movie in its favorites
+   */
+  public async getCollections(profileId: number): Promise<CollectionProgress[]> {
+    const collections = await collectionsDb.getProfileCollections(profileId);
+    const parts = await collectionsDb.getCollectionParts(
+      profileId,
+      collections.map((collection) => collection.id),
+    );
+    return collections.map((collection) =>
+      buildCollectionProgress(
+        collection,
+        parts.filter((part) => part.collectionId === collection.id),
+      ),
+    );
+  }
+
+  /**
+   * Add every movie in a collection that is not already in a profile's favorites, in collection order
+   *
+   * @throws {NotFoundError} when TMDB has no collection with that id
+   */
+  public async favoriteCollection(profileId: number, collectionId: number): Promise<CollectionProgress> {
+    const collection = (await collectionsDb.getCollection(collectionId)) ?? (await this.saveCollection(collectionId));
+    const parts = await collectionsDb.getCollectionParts(profileId, [collectionId]);
+
+    for (const part of parts.filter((part) => part.watchStatus === null)) {
+      await moviesService.addMovieToFavorites(profileId, part.tmdbId);
+      await watchlistService.removeFavoritedItem(profileId, 'movie', part.tmdbId);
+    }
+    await withTransaction((connection) => collectionsDb.linkCollectionMovies(connection, collectionId));
+
+    return buildCollectionProgress(collection, await collectionsDb.getCollectionParts(profileId, [collectionId]));
+  }
+
+  private async saveCollection(collectionId: number): Promise<MovieCollectionRecord> {
+    const details = await getTMDBService().getCollectionDetails(collectionId);
+    if (!details) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    const collection: MovieCollectionRecord = {
+      id: details.id,
+      name: details.name,
+      posterImage: details.poster_path ?? null,
+      backdropImage: details.backdrop_path ?? null,
+    };
+    const parts: NewCollectionPart[] = [...((details.parts ?? []) as TMDBCollectionPart[])]
+      .sort((a, b) => (a.release_date || '9999').localeCompare(b.release_date || '9999'))
+      .map((part) => ({
+        tmdbId: part.id,
+        title: part.title,
+        releaseDate: part.release_date || null,
+        posterImage: part.poster_path ?? null,
+      }));
+
+    await withTransaction(async (connection) => {
+      await collectionsDb.saveCollection(connection, collection, parts);
+      await collectionsDb.linkCollectionMovies(connection, collection.id);
+    });
+    return collection;
+  }
+}
+
+export const collectionsService = new CollectionsService();
@@ -0,0 +1,43 @@
+import { getTMDBService } from '@ajgifford/keepwatching-common-server/services';
+
+export type ContentType = 'show' | 'movie';
+
+export interface ContentSummary {
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  releaseDate: string | null;
+}
+
+interface TMDBSummary {
+  name?: string;
+  title?: string;
+  overview?: string;
+  poster_path?: string | null;
+  first_air_date?: string;
+  release_date?: string;
+}
+
+/**
+ * Service for the few TMDB details needed to list a show or movie that has not been added to the system
+ */
+export class ContentSummaryService {
+  /**
+   * Get the title, description, poster and release date of a show or movie from TMDB
+   */
+  public async getSummary(contentType: ContentType, tmdbId: number): Promise<ContentSummary> {
+    const tmdbService = getTMDBService();
+    const details: TMDBSummary =
+      contentType === 'show' ? await tmdbService.getShowDetails(tmdbId) : await tmdbService.getMovieDetails(tmdbId);
+    return {
+      tmdbId,
+      title: details.name ?? details.title ?? '',
+      description: details.overview || null,
+      posterImage: details.poster_path ?? null,
+      releaseDate: (contentType === 'show' ? details.first_air_date : details.release_date) || null,
+    };
+  }
+}
+
+export const contentSummaryService = new ContentSummaryService();
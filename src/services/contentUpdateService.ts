@@ -0,0 +1,59 @@
+import * as moviesDb from '../db/moviesDb';
+import * as showsDb from '../db/showsDb';
+import { socketEventService } from './socketEventService';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+/**
+ * Service for telling the profiles that favorite a show or movie when the scheduled content updates change it, so
+ * only the devices showing those profiles refresh
+ */
+export class ContentUpdateService {
+  private showsCheckedAt = new Date();
+  private moviesCheckedAt = new Date();
+
+  /**
+   * Send `shows:updated` and `seasons:updated` to the rooms of the profiles that favorite each show or season
+   * changed since the last check. Failures are logged rather than thrown
+   */
+  public async notifyShowUpdates(): Promise<void> {
+    const since = this.showsCheckedAt;
+    try {
+      const checkedAt = new Date();
+      const [shows, seasons] = await Promise.all([
+        showsDb.getUpdatedShowFollowers(since),
+        showsDb.getUpdatedSeasonFollowers(since),
+      ]);
+      this.showsCheckedAt = checkedAt;
+
+      for (const { profileId, showId } of shows) {
+        socketEventService.emitToProfile(profileId, 'shows:updated', { profileId, showId });
+      }
+      for (const { profileId, showId, seasonId } of seasons) {
+        socketEventService.emitToProfile(profileId, 'seasons:updated', { profileId, showId, seasonId });
+      }
+    } catch (error) {
+      appLogger.error('Failed to send show updates', { error, since });
+    }
+  }
+
+  /**
+   * Send `movies:updated` to the rooms of the profiles that favorite each movie changed since the last check.
+   * Failures are logged rather than thrown
+   */
+  public async notifyMovieUpdates(): Promise<void> {
+    const since = this.moviesCheckedAt;
+    try {
+      const checkedAt = new Date();
+      const movies = await moviesDb.getUpdatedMovieFollowers(since);
+      this.moviesCheckedAt = checkedAt;
+
+      for (const { profileId, movieId } of movies) {
+        socketEventService.emitToProfile(profileId, 'movies:updated', { profileId, movieId });
+      }
+    } catch (error) {
+      appLogger.error('Failed to send movie updates', { error, since });
+    }
+  }
+}
+
+export const contentUpdateService = new ContentUpdateService();
@@ -0,0 +1,28 @@
+import { DiscoverFilterQuery } from '../schema/discoverSchema';
+import { TMDBDiscoverResult, buildDiscoverParams, toDiscoverContent } from '../utils/discoverUtility';
+import { getTMDBService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for browsing TMDB with filters, with or without a search string
+ */
+export class DiscoverService {
+  /**
+   * Find movies or series matching the filters in the selected order
+   */
+  public async discoverFilteredContent(filters: DiscoverFilterQuery) {
+    const params = buildDiscoverParams(filters);
+    const tmdbService = getTMDBService();
+    const response =
+      filters.showType === 'movie' ? await tmdbService.discoverMovies(params) : await tmdbService.discoverShows(params);
+
+    return {
+      message: `Found ${filters.showType} matching the filters`,
+      results: ((response?.results ?? []) as TMDBDiscoverResult[]).map(toDiscoverContent),
+      total_results: response?.total_results ?? 0,
+      total_pages: response?.total_pages ?? 0,
+      current_page: params.page,
+    };
+  }
+}
+
+export const discoverService = new DiscoverService();
@@ -0,0 +1,344 @@
+import * as importDb from '../db/importDb';
+import * as moviesDb from '../db/moviesDb';
+import * as showsDb from '../db/showsDb';
+import * as watchStatusDb from '../db/watchStatusDb';
+import {
+  EpisodePosition,
+  ImportItem,
+  ImportSource,
+  MatchCandidate,
+  MatchResult,
+  WatchedEpisode,
+  matchTitle,
+  parseImportFile,
+} from '../utils/importUtility';
+import { watchHistoryService } from './watchHistoryService';
+import { watchProgressService } from './watchProgressService';
+import { watchlistService } from './watchlistService';
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger, cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import {
+  contentDiscoveryService,
+  moviesService,
+  profileService,
+  showService,
+} from '@ajgifford/keepwatching-common-server/services';
+import { MediaType } from '@ajgifford/keepwatching-types';
+
+const MAX_IMPORT_ITEMS = 5000;
+const PROGRESS_INTERVAL = 25;
+const EPISODE_RETRY_ATTEMPTS = 5;
+const EPISODE_RETRY_DELAY_MS = 30 * 1000;
+
+interface SearchResultLike {
+  id: string | number;
+  title?: string;
+  name?: string;
+  premiered?: string;
+  release_date?: string;
+  first_air_date?: string;
+}
+
+export interface ImportItemResult {
+  type: ImportItem['type'];
+  title: string;
+  year: number | null;
+  tmdbId?: number;
+  contentId?: number | null;
+  favorited?: boolean;
+  watched?: boolean;
+  episodesMarked?: number;
+  episodesNotFound?: number;
+  candidates?: MatchCandidate[];
+  error?: string;
+}
+
+type AppliedItem = Pick<
+  ImportItemResult,
+  'contentId' | 'favorited' | 'watched' | 'episodesMarked' | 'episodesNotFound'
+> & { missingEpisodes?: WatchedEpisode[] };
+
+/**
+ * Watched episodes of a show new to the system that were not loaded yet when it was favorited
+ */
+interface PendingEpisodes {
+  result: ImportItemResult;
+  showId: number;
+  episodes: WatchedEpisode[];
+}
+
+export interface ImportResults {
+  matched: ImportItemResult[];
+  unmatched: ImportItemResult[];
+  ambiguous: ImportItemResult[];
+  failed: ImportItemResult[];
+}
+
+function positionKey({ seasonNumber, episodeNumber }: EpisodePosition): string {
+  return `${seasonNumber}:${episodeNumber}`;
+}
+
+function toCandidate(result: SearchResultLike): MatchCandidate {
+  const date = result.premiered ?? result.release_date ?? result.first_air_date;
+  const year = date ? parseInt(date.slice(0, 4), 10) : NaN;
+  return {
+    tmdbId: Number(result.id),
+    title: result.title ?? result.name ?? '',
+    year: Number.isFinite(year) ? year : null,
+  };
+}
+
+/**
+ * Service for importing watch history exported from other trackers (Trakt, TV Time and Letterboxd)
+ */
+export class ImportService {
+  /**
+   * Parse an import file and start a background job that matches its titles to TMDB, favorites
+   * them and applies their watch statuses
+   *
+   * @throws {BadRequestError} when the file cannot be parsed or holds no (or too many) titles
+   */
+  public async startImport(accountId: number, profileId: number, source: ImportSource, content: string) {
+    let items: ImportItem[];
+    try {
+      items = parseImportFile(source, content);
+    } catch (error) {
+      throw new BadRequestError(error instanceof Error ? error.message : 'The import file could not be read');
+    }
+    if (items.length === 0) {
+      throw new BadRequestError('The import file does not contain any shows or movies');
+    }
+    if (items.length > MAX_IMPORT_ITEMS) {
+      throw new BadRequestError(`An import can hold at most ${MAX_IMPORT_ITEMS} shows and movies`);
+    }
+
+    const jobId = await importDb.createImportJob(profileId, source, items.length);
+    void this.runImport(jobId, accountId, profileId, items);
+
+    return { jobId, status: 'QUEUED', totalItems: items.length };
+  }
+
+  /**
+   * Fail the import jobs a previous run of the server left queued or running, since their work stopped with it
+   */
+  public async failInterruptedImports(): Promise<void> {
+    try {
+      const failed = await importDb.failUnfinishedImportJobs('The import was interrupted by a server restart');
+      if (failed > 0) {
+        cliLogger.warn(`Marked ${failed} interrupted import job(s) as failed`);
+      }
+    } catch (error) {
+      appLogger.error('Failed to mark interrupted import jobs as failed', { error });
+    }
+  }
+
+  /**
+   * Get the status of an import job, with what matched, what didn't and what was ambiguous once it has finished
+   *
+   * @throws {NotFoundError} when the profile has no import job with the id
+   */
+  public async getImportStatus(profileId: number, jobId: number) {
+    const job = await importDb.getImportJob<ImportResults>(profileId, jobId);
+    if (!job) {
+      throw new NotFoundError('Import job not found');
+    }
+
+    const { results, ...status } = job;
+    return {
+      ...status,
+      summary: results && {
+        matched: results.matched.length,
+        unmatched: results.unmatched.length,
+        ambiguous: results.ambiguous.length,
+        failed: results.failed.length,
+      },
+      results,
+    };
+  }
+
+  private async runImport(jobId: number, accountId: number, profileId: number, items: ImportItem[]): Promise<void> {
+    try {
+      await importDb.updateImportJobProgress(jobId, 'RUNNING', 0);
+      const results: ImportResults = { matched: [], unmatched: [], ambiguous: [], failed: [] };
+      const pending: PendingEpisodes[] = [];
+
+      for (const [index, item] of items.entries()) {
+        const itemResult: ImportItemResult = { type: item.type, title: item.title, year: item.year };
+        try {
+          const match = await this.matchItem(item);
+          if (match.outcome === 'matched') {
+            const { missingEpisodes, ...applied } = await this.applyItem(
+              accountId,
+              profileId,
+              item,
+              match.candidate.tmdbId,
+            );
+            const matched = { ...itemResult, tmdbId: match.candidate.tmdbId, ...applied };
+            results.matched.push(matched);
+            if (missingEpisodes && missingEpisodes.length > 0 && applied.contentId) {
+              pending.push({ result: matched, showId: applied.contentId, episodes: missingEpisodes });
+            }
+          } else if (match.outcome === 'ambiguous') {
+            results.ambiguous.push({ ...itemResult, candidates: match.candidates });
+          } else {
+            results.unmatched.push(itemResult);
+          }
+        } catch (error) {
+          results.failed.push({ ...itemResult, error: error instanceof Error ? error.message : String(error) });
+        }
+
+        if ((index + 1) % PROGRESS_INTERVAL === 0) {
+          await importDb.updateImportJobProgress(jobId, 'RUNNING', index + 1);
+        }
+      }
+
+      await this.retryPendingEpisodes(profileId, pending);
+      await importDb.updateImportJobProgress(jobId, 'RUNNING', items.length);
+      await importDb.finishImportJob(jobId, 'COMPLETED', results);
+      await profileService.invalidateProfileCache(profileId);
+    } catch (error) {
+      appLogger.error('Import job failed', { error, jobId, profileId });
+      try {
+        await importDb.finishImportJob(jobId, 'FAILED', null, error instanceof Error ? error.message : String(error));
+      } catch (finishError) {
+        appLogger.error('Failed to record the failure of an import job', { error: finishError, jobId });
+      }
+    }
+  }
+
+  private async matchItem(item: ImportItem): Promise<MatchResult> {
+    if (item.tmdbId) {
+      return { outcome: 'matched', candidate: { tmdbId: item.tmdbId, title: item.title, year: item.year } };
+    }
+    const mediaType = item.type === 'show' ? MediaType.SHOW : MediaType.MOVIE;
+    const response = await contentDiscoveryService.searchMedia(
+      mediaType,
+      item.title,
+      item.year ? String(item.year) : undefined,
+      1,
+    );
+    const candidates = ((response.results ?? []) as SearchResultLike[]).map(toCandidate);
+    return matchTitle(item.title, item.year, candidates);
+  }
+
+  private async applyItem(
+    accountId: number,
+    profileId: number,
+    item: ImportItem,
+    tmdbId: number,
+  ): Promise<AppliedItem> {
+    return item.type === 'show'
+      ? this.applyShow(accountId, profileId, item, tmdbId)
+      : this.applyMovie(profileId, item, tmdbId);
+  }
+
+  private async applyShow(accountId: number, profileId: number, item: ImportItem, tmdbId: number) {
+    const knownShowId = await showsDb.findShowIdByTMDBId(tmdbId);
+    const isFavorited =
+      knownShowId !== null && (await watchStatusDb.findFavoritedShowIds(profileId, [knownShowId])).length > 0;
+    let showId = knownShowId;
+    if (!isFavorited) {
+      await showService.addShowToFavorites(accountId, profileId, tmdbId);
+      await watchlistService.removeFavoritedItem(profileId, 'show', tmdbId);
+      showId = showId ?? (await showsDb.findShowIdByTMDBId(tmdbId));
+    }
+
+    const missingEpisodes = showId ? await this.markEpisodesWatched(profileId, showId, item.episodes) : item.episodes;
+
+    return {
+      contentId: showId,
+      favorited: !isFavorited,
+      episodesMarked: item.episodes.length - missingEpisodes.length,
+      episodesNotFound: missingEpisodes.length,
+      // Episodes of a show that is new to the system may still be loading from TMDB, so they are tried again later
+      missingEpisodes: knownShowId === null ? missingEpisodes : undefined,
+    };
+  }
+
+  /**
+   * Mark the episodes of a show as watched in one transaction, recording them in the watch history at the time they
+   * were watched when the import file says. The profile is refreshed once when the whole import finishes
+   *
+   * @returns the episodes the show does not have (yet)
+   */
+  private async markEpisodesWatched(
+    profileId: number,
+    showId: number,
+    episodes: WatchedEpisode[],
+  ): Promise<WatchedEpisode[]> {
+    const found = await importDb.findEpisodesByPosition(showId, episodes);
+    if (found.length === 0) {
+      return episodes;
+    }
+
+    const imported = new Map(episodes.map((episode) => [positionKey(episode), episode]));
+    const watchedAt = new Map<number, Date>();
+    for (const episode of found) {
+      const time = imported.get(positionKey(episode))?.watchedAt;
+      if (time) {
+        watchedAt.set(episode.id, new Date(time));
+      }
+    }
+    await watchProgressService.updateEpisodeWatchStatuses(
+      profileId,
+      { episodeIds: found.map((episode) => episode.id) },
+      'WATCHED',
+      watchedAt,
+    );
+
+    const foundKeys = new Set(found.map(positionKey));
+    return episodes.filter((episode) => !foundKeys.has(positionKey(episode)));
+  }
+
+  /**
+   * Try again to mark the episodes that were not loaded yet when their shows were favorited, waiting between attempts
+   * and giving up on whatever is still missing after the last one
+   */
+  private async retryPendingEpisodes(profileId: number, pending: PendingEpisodes[]) {
+    let remaining = pending;
+    for (let attempt = 0; attempt < EPISODE_RETRY_ATTEMPTS && remaining.length > 0; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, EPISODE_RETRY_DELAY_MS));
+
+      const stillMissing: PendingEpisodes[] = [];
+      for (const entry of remaining) {
+        try {
+          const missing = await this.markEpisodesWatched(profileId, entry.showId, entry.episodes);
+          entry.result.episodesMarked = (entry.result.episodesMarked ?? 0) + entry.episodes.length - missing.length;
+          entry.result.episodesNotFound = missing.length;
+          if (missing.length > 0) {
+            stillMissing.push({ ...entry, episodes: missing });
+          }
+        } catch (error) {
+          appLogger.error('Failed to mark imported episodes as watched', { error, profileId, showId: entry.showId });
+        }
+      }
+      remaining = stillMissing;
+    }
+  }
+
+  private async applyMovie(profileId: number, item: ImportItem, tmdbId: number) {
+    let movieId = await moviesDb.findMovieIdByTMDBId(tmdbId);
+    const isFavorited = movieId !== null && (await moviesDb.isMovieFavorited(profileId, movieId));
+    if (!isFavorited) {
+      await moviesService.addMovieToFavorites(profileId, tmdbId);
+      await watchlistService.removeFavoritedItem(profileId, 'movie', tmdbId);
+      movieId = movieId ?? (await moviesDb.findMovieIdByTMDBId(tmdbId));
+    }
+
+    if (item.watched && movieId) {
+      const watchedMovieId = movieId;
+      await watchHistoryService.trackStatusChange(
+        profileId,
+        'movie',
+        watchedMovieId,
+        'WATCHED',
+        () => moviesService.updateMovieWatchStatus(profileId, watchedMovieId, 'WATCHED'),
+        item.watchedAt ? new Date(item.watchedAt) : undefined,
+      );
+    }
+
+    return { contentId: movieId, favorited: !isFavorited, watched: item.watched && movieId !== null };
+  }
+}
+
+export const importService = new ImportService();
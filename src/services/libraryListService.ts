@@ -0,0 +1,64 @@
+import * as libraryDb from '../db/libraryDb';
+import { LibraryListQuery } from '../schema/librarySchema';
+import { selectFields } from '../utils/libraryUtility';
+import { ProfileRating, withProfileRatings } from '../utils/ratingUtility';
+
+const DEFAULT_PAGE_LIMIT = 50;
+
+/**
+ * Service for paging through, sorting and trimming the shows and movies a profile has favorited
+ */
+export class LibraryListService {
+  /**
+   * Get one page of a profile's shows or movies. Without a sort key, page or limit every item is loaded in its usual
+   * form and order. Otherwise the page is sorted, paged and loaded as library items in the database, so only the
+   * items on it are read. Paging without a sort key sorts by title
+   *
+   * @param loadItems - loads all of the profile's shows or movies
+   * @param idKey - the field holding each loaded item's show or movie id
+   * @param loadRatings - loads the profile's ratings of the items, when each item should carry its `profileRating`
+   */
+  public async getPage<K extends string, T extends Record<K, number>>(
+    profileId: number,
+    contentType: libraryDb.LibraryContentType,
+    loadItems: () => Promise<T[]>,
+    idKey: K,
+    { sortBy, sortOrder, fields, page, limit }: LibraryListQuery,
+    loadRatings?: () => Promise<Map<number, ProfileRating>>,
+  ) {
+    const fieldNames = fields?.split(',');
+    const rate = async <R extends string, I extends Record<R, number>>(items: I[], key: R) =>
+      loadRatings ? withProfileRatings(items, key, await loadRatings()) : items;
+
+    if (!sortBy && page === undefined && limit === undefined) {
+      const items = await rate(await loadItems(), idKey);
+      const total = items.length;
+      return {
+        items: fieldNames ? items.map((item) => selectFields(item, fieldNames, idKey)) : items,
+        pagination: { page: 1, limit: total, total, totalPages: total > 0 ? 1 : 0 },
+      };
+    }
+
+    const field = sortBy ?? 'title';
+    const sort: libraryDb.LibraryListSort = { field, order: sortOrder ?? (field === 'title' ? 'asc' : 'desc') };
+    const pageNumber = page ?? 1;
+    const total = await libraryDb.countLibrary(profileId, { contentType });
+    const pageLimit = limit ?? (page ? DEFAULT_PAGE_LIMIT : total);
+    const items = await rate(
+      await libraryDb.getLibraryPage(profileId, contentType, sort, pageLimit, (pageNumber - 1) * pageLimit),
+      'contentId',
+    );
+
+    return {
+      items: fieldNames ? items.map((item) => selectFields(item, fieldNames, 'contentId')) : items,
+      pagination: {
+        page: pageNumber,
+        limit: pageLimit,
+        total,
+        totalPages: pageLimit > 0 ? Math.ceil(total / pageLimit) : 0,
+      },
+    };
+  }
+}
+
+export const libraryListService = new LibraryListService();
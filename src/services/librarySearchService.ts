@@ -0,0 +1,46 @@
+import * as libraryDb from '../db/libraryDb';
+import { LibrarySearchQuery } from '../schema/librarySchema';
+
+const toIds = (list: string | undefined) => list?.split(',').map(Number);
+
+/**
+ * Service for searching the shows and movies in a profile's own library
+ */
+export class LibrarySearchService {
+  /**
+   * Get a page of the shows and movies in a profile's favorites matching the filters. Titles sort ascending and
+   * everything else descending unless an order is given
+   */
+  public async searchLibrary(profileId: number, { page, limit, sortBy, sortOrder, ...query }: LibrarySearchQuery) {
+    const filters: libraryDb.LibraryFilters = {
+      text: query.q || undefined,
+      contentType: query.contentType,
+      genreIds: toIds(query.genres),
+      statuses: query.statuses?.split(','),
+      serviceIds: toIds(query.services),
+      addedFrom: query.addedFrom,
+      addedTo: query.addedTo,
+    };
+    const sort: libraryDb.LibrarySort = {
+      field: sortBy,
+      order: sortOrder ?? (sortBy === 'title' ? 'asc' : 'desc'),
+    };
+
+    const [results, total] = await Promise.all([
+      libraryDb.searchLibrary(profileId, filters, sort, limit, (page - 1) * limit),
+      libraryDb.countLibrary(profileId, filters),
+    ]);
+
+    return {
+      results,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export const librarySearchService = new LibrarySearchService();
@@ -0,0 +1,209 @@
+import * as listsDb from '../db/listsDb';
+import { CustomList, ListContentType } from '../db/listsDb';
+import { isDuplicateEntryError, withTransaction } from '../utils/db';
+import { contentSummaryService } from './contentSummaryService';
+import { socketEventService } from './socketEventService';
+import { BadRequestError, ForbiddenError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { profileService } from '@ajgifford/keepwatching-common-server/services';
+
+export interface ListDetails {
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * Service for the named lists of shows and movies a profile creates. A list can be shared with
+ * other profiles on the same account, who can then manage its items, while only the profile that
+ * created it can rename, share or delete it. Every change is sent to the account's sockets
+ */
+export class ListsService {
+  /**
+   * Get the lists a profile created along with the lists shared with it
+   */
+  public async getLists(profileId: number) {
+    return listsDb.getListsForProfile(profileId);
+  }
+
+  /**
+   * Get a list with its items
+   *
+   * @throws {NotFoundError} when the profile has no access to the list
+   */
+  public async getList(profileId: number, listId: number) {
+    const list = await this.requireAccessibleList(profileId, listId);
+    return this.withItems(list);
+  }
+
+  /**
+   * Create an empty list for a profile
+   */
+  public async createList(accountId: number, profileId: number, details: ListDetails) {
+    const listId = await listsDb.createList(profileId, details.name, details.description ?? null);
+    const list = await this.getList(profileId, listId);
+    socketEventService.emitToAccount(accountId, 'lists:created', { profileId, list });
+    return list;
+  }
+
+  /**
+   * Rename a list and replace its description
+   *
+   * @throws {NotFoundError} when the profile has no access to the list
+   * @throws {ForbiddenError} when the profile did not create the list
+   */
+  public async updateList(accountId: number, profileId: number, listId: number, details: ListDetails) {
+    await this.requireOwnedList(profileId, listId);
+    await listsDb.updateList(listId, details.name, details.description ?? null);
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  /**
+   * Delete a list and its items
+   *
+   * @throws {NotFoundError} when the profile has no access to the list
+   * @throws {ForbiddenError} when the profile did not create the list
+   */
+  public async deleteList(accountId: number, profileId: number, listId: number): Promise<void> {
+    await this.requireOwnedList(profileId, listId);
+    await listsDb.deleteList(listId);
+    socketEventService.emitToAccount(accountId, 'lists:deleted', { profileId, listId });
+  }
+
+  /**
+   * Share a list with other profiles on the same account, replacing the profiles it was shared with
+   *
+   * @throws {NotFoundError} when the profile has no access to the list
+   * @throws {ForbiddenError} when the profile did not create the list
+   * @throws {BadRequestError} when a profile does not belong to the account
+   */
+  public async shareList(accountId: number, profileId: number, listId: number, profileIds: number[]) {
+    await this.requireOwnedList(profileId, listId);
+    const accountProfileIds = new Set(
+      (await profileService.getProfilesByAccountId(accountId)).map((profile: { id: number }) => profile.id),
+    );
+    if (!profileIds.every((sharedProfileId) => accountProfileIds.has(sharedProfileId))) {
+      throw new BadRequestError('A list can only be shared with profiles on the same account');
+    }
+
+    const sharedProfileIds = [...new Set(profileIds)].filter((sharedProfileId) => sharedProfileId !== profileId);
+    await withTransaction((connection) => listsDb.replaceListShares(connection, listId, sharedProfileIds));
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  /**
+   * Add a show or movie to the end of a list
+   *
+   * @throws {NotFoundError} when the profile has no access to the list
+   * @throws {BadRequestError} when the show or movie is already on the list
+   */
+  public async addItem(
+    accountId: number,
+    profileId: number,
+    listId: number,
+    contentType: ListContentType,
+    tmdbId: number,
+    note?: string | null,
+  ) {
+    await this.requireAccessibleList(profileId, listId);
+    if (await listsDb.hasListItem(listId, contentType, tmdbId)) {
+      throw new BadRequestError(`The ${contentType} is already on the list`);
+    }
+
+    const item = await contentSummaryService.getSummary(contentType, tmdbId);
+    try {
+      await withTransaction((connection) => listsDb.addListItem(connection, listId, contentType, item, note ?? null));
+    } catch (error) {
+      // Another request added the same item since the check above
+      if (isDuplicateEntryError(error)) {
+        throw new BadRequestError(`The ${contentType} is already on the list`);
+      }
+      throw error;
+    }
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  /**
+   * Replace the note of a list item
+   *
+   * @throws {NotFoundError} when the profile has no access to the list or the list has no such item
+   */
+  public async updateItemNote(
+    accountId: number,
+    profileId: number,
+    listId: number,
+    itemId: number,
+    note: string | null,
+  ) {
+    await this.requireAccessibleList(profileId, listId);
+    const updated = await listsDb.updateListItemNote(listId, itemId, note);
+    if (!updated) {
+      throw new NotFoundError('List item not found');
+    }
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  /**
+   * Remove an item from a list
+   *
+   * @throws {NotFoundError} when the profile has no access to the list or the list has no such item
+   */
+  public async removeItem(accountId: number, profileId: number, listId: number, itemId: number) {
+    await this.requireAccessibleList(profileId, listId);
+    const removed = await listsDb.removeListItem(listId, itemId);
+    if (!removed) {
+      throw new NotFoundError('List item not found');
+    }
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  /**
+   * Reorder the items of a list
+   *
+   * @param orderedItemIds - the ids of every item on the list, in their new order
+   * @throws {NotFoundError} when the profile has no access to the list
+   * @throws {BadRequestError} when the ids are not exactly the items on the list
+   */
+  public async reorderItems(accountId: number, profileId: number, listId: number, orderedItemIds: number[]) {
+    await this.requireAccessibleList(profileId, listId);
+    const items = await listsDb.getListItems(listId);
+    const currentIds = new Set(items.map((item) => item.id));
+    const isSameItems =
+      orderedItemIds.length === currentIds.size &&
+      new Set(orderedItemIds).size === currentIds.size &&
+      orderedItemIds.every((itemId) => currentIds.has(itemId));
+    if (!isSameItems) {
+      throw new BadRequestError('The new order must list every item on the list exactly once');
+    }
+
+    await withTransaction((connection) => listsDb.updateListItemPositions(connection, listId, orderedItemIds));
+    return this.emitListUpdated(accountId, profileId, listId);
+  }
+
+  private async emitListUpdated(accountId: number, profileId: number, listId: number) {
+    const list = await this.getList(profileId, listId);
+    socketEventService.emitToAccount(accountId, 'lists:updated', { profileId, list });
+    return list;
+  }
+
+  private async withItems(list: CustomList) {
+    const items = await listsDb.getListItems(list.id);
+    return { ...list, items };
+  }
+
+  private async requireAccessibleList(profileId: number, listId: number): Promise<CustomList> {
+    const list = await listsDb.getList(listId);
+    if (!list || (list.profileId !== profileId && !list.sharedWithProfileIds.includes(profileId))) {
+      throw new NotFoundError('List not found');
+    }
+    return list;
+  }
+
+  private async requireOwnedList(profileId: number, listId: number): Promise<CustomList> {
+    const list = await this.requireAccessibleList(profileId, listId);
+    if (list.profileId !== profileId) {
+      throw new ForbiddenError('Only the profile that created the list can change it');
+    }
+    return list;
+  }
+}
+
+export const listsService = new ListsService();
@@ -0,0 +1,114 @@
+import * as accountsDb from '../db/accountsDb';
+import * as moviesDb from '../db/moviesDb';
+import { ProfileMovie } from '../db/moviesDb';
+import {
+  CastMember,
+  CrewMember,
+  TMDBCastMember,
+  TMDBCrewMember,
+  WatchProviders,
+  toCastMembers,
+  toCrewMembers,
+  toWatchProviders,
+} from '../utils/movieDetailsUtility';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { getTMDBService } from '@ajgifford/keepwatching-common-server/services';
+
+const DEFAULT_REGION = 'US';
+
+interface TMDBCollectionPart {
+  id: number;
+  title: string;
+  release_date?: string;
+  poster_path?: string | null;
+}
+
+export interface MovieCollectionEntry {
+  tmdbId: number;
+  movieId: number | null;
+  title: string;
+  releaseDate: string | null;
+  posterImage: string | null;
+  watchStatus: string | null;
+}
+
+export interface MovieCollection {
+  id: number;
+  name: string;
+  posterImage: string | null;
+  backdropImage: string | null;
+  movies: MovieCollectionEntry[];
+}
+
+export interface MovieDetails extends ProfileMovie {
+  cast: CastMember[];
+  crew: CrewMember[];
+  collection: MovieCollection | null;
+  watchProviders: WatchProviders;
+}
+
+/**
+ * Service for a movie's full details as seen by a profile, combining the stored movie with its TMDB credits,
+ * collection and streaming providers
+ */
+export class MovieDetailsService {
+  /**
+   * Get a movie with the profile's watch status, its cast and key crew, the other movies in its collection with
+   * the profile's status for each, and where it can be watched in the account's region
+   *
+   * @throws {NotFoundError} when the movie does not exist
+   */
+  public async getMovieDetails(accountId: number, profileId: number, movieId: number): Promise<MovieDetails> {
+    const movie = await moviesDb.getMovieForProfile(profileId, movieId);
+    if (!movie) {
+      throw new NotFoundError('Movie not found');
+    }
+
+    const tmdbService = getTMDBService();
+    const [tmdbMovie, credits, region] = await Promise.all([
+      tmdbService.getMovieDetails(movie.tmdbId),
+      tmdbService.getMovieCredits(movie.tmdbId),
+      accountsDb.getAccountRegion(accountId),
+    ]);
+    const collectionId: number | undefined = tmdbMovie.belongs_to_collection?.id;
+
+    return {
+      ...movie,
+      cast: toCastMembers((credits?.cast ?? []) as TMDBCastMember[]),
+      crew: toCrewMembers((credits?.crew ?? []) as TMDBCrewMember[]),
+      collection: collectionId ? await this.getCollection(profileId, collectionId, movie.tmdbId) : null,
+      watchProviders: toWatchProviders(tmdbMovie['watch/providers']?.results, region ?? DEFAULT_REGION),
+    };
+  }
+
+  private async getCollection(profileId: number, collectionId: number, tmdbId: number): Promise<MovieCollection> {
+    const collection = await getTMDBService().getCollectionDetails(collectionId);
+    const parts: TMDBCollectionPart[] = (collection.parts ?? [])
+      .filter((part: TMDBCollectionPart) => part.id !== tmdbId)
+      .sort((a: TMDBCollectionPart, b: TMDBCollectionPart) =>
+        (a.release_date || '9999').localeCompare(b.release_date || '9999'),
+      );
+    const statuses = await moviesDb.getProfileMovieStatuses(
+      profileId,
+      parts.map((part) => part.id),
+    );
+    const statusesByTMDBId = new Map(statuses.map((status) => [status.tmdbId, status]));
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      posterImage: collection.poster_path ?? null,
+      backdropImage: collection.backdrop_path ?? null,
+      movies: parts.map((part) => ({
+        tmdbId: part.id,
+        movieId: statusesByTMDBId.get(part.id)?.movieId ?? null,
+        title: part.title,
+        releaseDate: part.release_date || null,
+        posterImage: part.poster_path ?? null,
+        watchStatus: statusesByTMDBId.get(part.id)?.watchStatus ?? null,
+      })),
+    };
+  }
+}
+
+export const movieDetailsService = new MovieDetailsService();
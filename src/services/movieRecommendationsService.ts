@@ -0,0 +1,89 @@
+import * as moviesDb from '../db/moviesDb';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { getTMDBService } from '@ajgifford/keepwatching-common-server/services';
+import { generateGenreArrayFromIds } from '@ajgifford/keepwatching-common-server/utils';
+
+interface TMDBMovieResult {
+  id: number;
+  title: string;
+  overview?: string;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  release_date?: string;
+  genre_ids?: number[];
+  vote_average?: number;
+  popularity?: number;
+}
+
+export interface SimilarOrRecommendedMovie {
+  id: number;
+  title: string;
+  description: string;
+  poster_url: string | null;
+  backdrop_url: string | null;
+  release_date: string | null;
+  genres: string[];
+  tmdb_id: number;
+  averageRating: number;
+  popularity: number;
+  inFavorites: boolean;
+}
+
+/**
+ * Service for the movies TMDB recommends alongside, or considers similar to, a movie in the system
+ */
+export class MovieRecommendationsService {
+  /**
+   * Get the movies TMDB recommends to viewers of a movie, flagging those in the profile's favorites
+   *
+   * @throws {NotFoundError} when the movie does not exist
+   */
+  public async getMovieRecommendations(profileId: number, movieId: number): Promise<SimilarOrRecommendedMovie[]> {
+    const tmdbId = await this.requireTMDBId(movieId);
+    const response = await getTMDBService().getMovieRecommendations(tmdbId);
+    return this.toMovies(profileId, response?.results ?? []);
+  }
+
+  /**
+   * Get the movies TMDB considers similar to a movie, flagging those in the profile's favorites
+   *
+   * @throws {NotFoundError} when the movie does not exist
+   */
+  public async getSimilarMovies(profileId: number, movieId: number): Promise<SimilarOrRecommendedMovie[]> {
+    const tmdbId = await this.requireTMDBId(movieId);
+    const response = await getTMDBService().getSimilarMovies(tmdbId);
+    return this.toMovies(profileId, response?.results ?? []);
+  }
+
+  private async requireTMDBId(movieId: number): Promise<number> {
+    const tmdbId = await moviesDb.getMovieTMDBId(movieId);
+    if (tmdbId === null) {
+      throw new NotFoundError('Movie not found');
+    }
+    return tmdbId;
+  }
+
+  private async toMovies(profileId: number, results: TMDBMovieResult[]): Promise<SimilarOrRecommendedMovie[]> {
+    const favoritedTMDBIds = new Set(
+      await moviesDb.findFavoritedMovieTMDBIds(
+        profileId,
+        results.map((result) => result.id),
+      ),
+    );
+    return results.map((result) => ({
+      id: result.id,
+      title: result.title,
+      description: result.overview ?? '',
+      poster_url: result.poster_path ?? null,
+      backdrop_url: result.backdrop_path ?? null,
+      release_date: result.release_date || null,
+      genres: generateGenreArrayFromIds(result.genre_ids ?? []),
+      tmdb_id: result.id,
+      averageRating: result.vote_average ?? 0,
+      popularity: result.popularity ?? 0,
+      inFavorites: favoritedTMDBIds.has(result.id),
+    }));
+  }
+}
+
+export const movieRecommendationsService = new MovieRecommendationsService();
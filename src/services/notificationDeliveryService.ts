@@ -0,0 +1,153 @@
+import { getNotificationPushSchedule } from '../config/config';
+import * as notificationsDb from '../db/notificationsDb';
+import { socketEventService } from './socketEventService';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import cron, { ScheduledTask } from 'node-cron';
+import { Socket } from 'socket.io';
+
+type CatchUpAck = (catchUp: NotificationCatchUp) => void;
+
+export interface NotificationCatchUp {
+  notifications: notificationsDb.AccountNotification[];
+  activeNotificationIds: number[];
+  unreadCount: number;
+  cursor: number;
+}
+
+/**
+ * Service for delivering notifications to connected sockets as they become active, keeping every device on an
+ * account in step when one reads or dismisses notifications, and catching up devices that were offline
+ */
+export class NotificationDeliveryService {
+  private lastNotificationId: number | null = null;
+  private lastCheckedAt = new Date();
+  private pendingPush: Promise<number> | null = null;
+
+  /**
+   * Push the notifications that became active since the last push to their accounts, followed by each account's
+   * new unread count. The first push only records where to start from. Failures are logged rather than thrown and
+   * overlapping calls share one push
+   *
+   * @returns the number of notifications pushed
+   */
+  public pushNewNotifications(): Promise<number> {
+    this.pendingPush ??= this.push()
+      .catch((error) => {
+        appLogger.error('Failed to push new notifications', { error });
+        return 0;
+      })
+      .finally(() => {
+        this.pendingPush = null;
+      });
+    return this.pendingPush;
+  }
+
+  /**
+   * Tell every device on an account that notifications were dismissed, and send the new unread count
+   */
+  public async notifyDismissed(accountId: number, notificationIds: number[]): Promise<void> {
+    socketEventService.emitToAccount(accountId, 'notifications:dismissed', {
+      notificationIds: notificationIds.map(Number),
+    });
+    await this.sendUnreadCount(accountId);
+  }
+
+  /**
+   * Tell every device on an account that notifications were read, and send the new unread count
+   */
+  public async notifyRead(accountId: number, notificationIds: number[]): Promise<void> {
+    socketEventService.emitToAccount(accountId, 'notifications:read', { notificationIds: notificationIds.map(Number) });
+    await this.sendUnreadCount(accountId);
+  }
+
+  /**
+   * Send an account's unread notification count to its devices. Failures are logged rather than thrown
+   */
+  public async sendUnreadCount(accountId: number): Promise<void> {
+    try {
+      const count = await notificationsDb.countUnreadNotifications(accountId);
+      socketEventService.emitToAccount(accountId, 'notifications:unreadCount', { count });
+    } catch (error) {
+      appLogger.error('Failed to send the unread notification count', { error, accountId });
+    }
+  }
+
+  /**
+   * Get what a device missed since the newest notification it has seen: the active notifications after that one,
+   * the ids of every active notification so it can drop ones dismissed elsewhere, the unread count and the cursor
+   * to send next time
+   */
+  public async getCatchUp(accountId: number, lastSeenNotificationId: number): Promise<NotificationCatchUp> {
+    const [active, unreadCount] = await Promise.all([
+      notificationsDb.getActiveNotifications(accountId),
+      notificationsDb.countUnreadNotifications(accountId),
+    ]);
+    const activeNotificationIds = active.map((notification) => notification.id);
+    return {
+      notifications: active.filter((notification) => notification.id > lastSeenNotificationId),
+      activeNotificationIds,
+      unreadCount,
+      cursor: Math.max(lastSeenNotificationId, ...activeNotificationIds),
+    };
+  }
+
+  /**
+   * Catch up a newly connected socket from the `lastNotificationId` sent in its handshake, and answer its later
+   * `notifications:sync` requests. Catch ups are sent as a `notifications:sync` event, or to the acknowledgement
+   * callback when the request has one
+   */
+  public handleConnection(socket: Socket): void {
+    const accountId = Number(socket.data.accountId);
+    const sync = async (lastSeenNotificationId: unknown, ack?: CatchUpAck) => {
+      try {
+        const catchUp = await this.getCatchUp(accountId, Number(lastSeenNotificationId) || 0);
+        if (ack) {
+          ack(catchUp);
+        } else {
+          socket.emit('notifications:sync', catchUp);
+        }
+      } catch (error) {
+        appLogger.error('Failed to catch up a socket on its notifications', { error, accountId });
+      }
+    };
+
+    socket.on('notifications:sync', (payload: { lastNotificationId?: unknown }, ack?: CatchUpAck) =>
+      sync(payload?.lastNotificationId, ack),
+    );
+    sync(socket.handshake.auth?.lastNotificationId);
+  }
+
+  /**
+   * Schedule the job that pushes newly active notifications, including ones created outside this server
+   */
+  public startScheduledPush(): ScheduledTask {
+    this.pushNewNotifications();
+    return cron.schedule(getNotificationPushSchedule(), () => this.pushNewNotifications());
+  }
+
+  private async push(): Promise<number> {
+    const checkedAt = new Date();
+    const latestNotificationId = await notificationsDb.getLatestNotificationId();
+    if (this.lastNotificationId === null) {
+      this.lastNotificationId = latestNotificationId;
+      this.lastCheckedAt = checkedAt;
+      return 0;
+    }
+
+    const deliverable = await notificationsDb.getNewlyActiveNotifications(this.lastNotificationId, this.lastCheckedAt);
+    this.lastNotificationId = Math.max(latestNotificationId, ...deliverable.map(({ notification }) => notification.id));
+    this.lastCheckedAt = checkedAt;
+
+    const accountIds = new Set<number>();
+    for (const { accountId, notification } of deliverable) {
+      socketEventService.emitToAccount(accountId, 'notifications:created', { notification });
+      accountIds.add(accountId);
+    }
+    for (const accountId of accountIds) {
+      await this.sendUnreadCount(accountId);
+    }
+    return deliverable.length;
+  }
+}
+
+export const notificationDeliveryService = new NotificationDeliveryService();
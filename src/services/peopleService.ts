@@ -0,0 +1,215 @@
+import { getPersonAlertSchedule } from '../config/config';
+import * as moviesDb from '../db/moviesDb';
+import * as peopleDb from '../db/peopleDb';
+import * as showsDb from '../db/showsDb';
+import { addDays } from '../utils/dateUtility';
+import { PersonCredit, findNewCredits, formatNewCreditMessage, toPersonCredits } from '../utils/personUtility';
+import { notificationDeliveryService } from './notificationDeliveryService';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger, cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getTMDBService, notificationsService } from '@ajgifford/keepwatching-common-server/services';
+import cron, { ScheduledTask } from 'node-cron';
+
+const NOTIFICATION_DAYS = 7;
+
+interface TMDBPersonResult {
+  id: number;
+  name: string;
+  profile_path?: string | null;
+  known_for_department?: string;
+  popularity?: number;
+  known_for?: { name?: string; title?: string }[];
+}
+
+/**
+ * Service for the people (actors, directors, writers, ...) behind shows and movies: searching for them, their
+ * filmographies and the people a profile follows, whose newly announced shows and movies generate notifications
+ */
+export class PeopleService {
+  /**
+   * Search TMDB for people by name
+   */
+  public async searchPeople(searchString: string, page: number) {
+    const response = await getTMDBService().searchPeople(searchString, page);
+    return {
+      results: ((response?.results ?? []) as TMDBPersonResult[]).map((person) => ({
+        id: person.id,
+        name: person.name,
+        profileImage: person.profile_path ?? null,
+        knownForDepartment: person.known_for_department ?? null,
+        knownFor: (person.known_for ?? []).map((credit) => credit.name ?? credit.title ?? ''),
+        popularity: person.popularity ?? 0,
+      })),
+      totalResults: response?.total_results ?? 0,
+      totalPages: response?.total_pages ?? 0,
+      currentPage: page,
+    };
+  }
+
+  /**
+   * Get a person with their filmography, marking each credit in or out of the profile's favorites
+   *
+   * @throws {NotFoundError} when TMDB has no person with that id
+   */
+  public async getPerson(profileId: number, personId: number) {
+    const tmdbService = getTMDBService();
+    const [person, combinedCredits] = await Promise.all([
+      tmdbService.getPersonDetails(personId),
+      tmdbService.getPersonCombinedCredits(personId),
+    ]);
+    if (!person) {
+      throw new NotFoundError('Person not found');
+    }
+
+    const credits = toPersonCredits(combinedCredits?.cast ?? [], combinedCredits?.crew ?? []);
+    const tmdbIdsOf = (contentType: 'show' | 'movie') =>
+      credits.filter((credit) => credit.contentType === contentType).map((credit) => credit.tmdbId);
+    const [favoritedShowIds, favoritedMovieIds, isFollowed] = await Promise.all([
+      showsDb.findFavoritedShowTMDBIds(profileId, tmdbIdsOf('show')),
+      moviesDb.findFavoritedMovieTMDBIds(profileId, tmdbIdsOf('movie')),
+      peopleDb.isFollowing(profileId, personId),
+    ]);
+    const library = { show: new Set(favoritedShowIds), movie: new Set(favoritedMovieIds) };
+
+    return {
+      id: person.id,
+      name: person.name,
+      biography: person.biography || null,
+      birthday: person.birthday ?? null,
+      deathday: person.deathday ?? null,
+      placeOfBirth: person.place_of_birth ?? null,
+      profileImage: person.profile_path ?? null,
+      knownForDepartment: person.known_for_department ?? null,
+      isFollowed,
+      credits: credits.map((credit) => ({ ...credit, inLibrary: library[credit.contentType].has(credit.tmdbId) })),
+    };
+  }
+
+  /**
+   * Get the people a profile follows
+   */
+  public async getFollowedPeople(profileId: number) {
+    return peopleDb.getFollowedPeople(profileId);
+  }
+
+  /**
+   * Follow a person. The person's current credits are recorded as already seen whenever the person has no other
+   * followers, including after everyone stopped following them, so only shows and movies announced from now on
+   * generate notifications
+   *
+   * @throws {NotFoundError} when TMDB has no person with that id
+   */
+  public async followPerson(profileId: number, personId: number) {
+    const tmdbService = getTMDBService();
+    const person = await tmdbService.getPersonDetails(personId);
+    if (!person) {
+      throw new NotFoundError('Person not found');
+    }
+
+    if (!(await peopleDb.hasFollowers(personId))) {
+      const combinedCredits = await tmdbService.getPersonCombinedCredits(personId);
+      await peopleDb.addKnownCredits(
+        personId,
+        toPersonCredits(combinedCredits?.cast ?? [], combinedCredits?.crew ?? []),
+      );
+    }
+    await peopleDb.followPerson(profileId, personId, person.name, person.profile_path ?? null);
+    return peopleDb.getFollowedPeople(profileId);
+  }
+
+  /**
+   * Stop following a person
+   *
+   * @throws {NotFoundError} when the profile does not follow the person
+   */
+  public async unfollowPerson(profileId: number, personId: number) {
+    const removed = await peopleDb.unfollowPerson(profileId, personId);
+    if (!removed) {
+      throw new NotFoundError('The profile does not follow this person');
+    }
+    return peopleDb.getFollowedPeople(profileId);
+  }
+
+  /**
+   * Look for newly announced shows and movies of every followed person and notify the accounts of the profiles
+   * that follow them, once per account
+   *
+   * @returns the number of notifications created
+   */
+  public async checkFollowedPeople(): Promise<number> {
+    let created = 0;
+    for (const personId of await peopleDb.getAllFollowedPersonIds()) {
+      try {
+        created += await this.checkPerson(personId);
+      } catch (error) {
+        appLogger.error('Failed to check a followed person for new credits', { error, personId });
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Schedule the job that notifies accounts about new shows and movies of the people their profiles follow
+   */
+  public startScheduledAlerts(): ScheduledTask {
+    return cron.schedule(getPersonAlertSchedule(), async () => {
+      try {
+        const created = await this.checkFollowedPeople();
+        if (created > 0) {
+          cliLogger.info(`Created ${created} followed person notification(s)`);
+          await notificationDeliveryService.pushNewNotifications();
+        }
+      } catch (error) {
+        appLogger.error('Followed person alert job failed', { error });
+      }
+    });
+  }
+
+  private async checkPerson(personId: number): Promise<number> {
+    const tmdbService = getTMDBService();
+    const [person, combinedCredits, knownCredits] = await Promise.all([
+      tmdbService.getPersonDetails(personId),
+      tmdbService.getPersonCombinedCredits(personId),
+      peopleDb.getKnownCredits(personId),
+    ]);
+    const newCredits = findNewCredits(
+      toPersonCredits(combinedCredits?.cast ?? [], combinedCredits?.crew ?? []),
+      knownCredits,
+    );
+    if (newCredits.length === 0) {
+      return 0;
+    }
+
+    // Recorded as seen before anyone is notified, so a failed or repeated run never announces a credit twice
+    await peopleDb.addKnownCredits(personId, newCredits);
+
+    const followers = await peopleDb.getPersonFollowers(personId);
+    const accountIds = [...new Set(followers.map((follower) => follower.accountId))];
+    let created = 0;
+    for (const accountId of accountIds) {
+      for (const credit of newCredits) {
+        try {
+          await this.notify(accountId, person.name, credit);
+          created++;
+        } catch (error) {
+          appLogger.error('Failed to notify an account about a new credit', { error, personId, accountId });
+        }
+      }
+    }
+    return created;
+  }
+
+  private async notify(accountId: number, personName: string, credit: PersonCredit) {
+    const startDate = new Date();
+    await notificationsService.addNotification({
+      message: formatNewCreditMessage(personName, credit),
+      startDate: startDate.toISOString(),
+      endDate: addDays(startDate, NOTIFICATION_DAYS).toISOString(),
+      sendToAll: false,
+      accountId,
+      type: credit.contentType === 'show' ? 'tv' : 'movie',
+    });
+  }
+}
+
+export const peopleService = new PeopleService();
@@ -0,0 +1,210 @@
+import { getProfileNotificationSchedule } from '../config/config';
+import * as profileNotificationsDb from '../db/profileNotificationsDb';
+import { ProfileNotificationCategory } from '../db/profileNotificationsDb';
+import { addDays } from '../utils/dateUtility';
+import { withTransaction } from '../utils/db';
+import {
+  PROFILE_NOTIFICATION_CATEGORIES,
+  ProfileNotificationCandidate,
+  ProfileNotificationPreferences,
+  buildEpisodeNotifications,
+  buildMovieReleaseNotification,
+  buildSeasonNotifications,
+  buildShowEndingNotifications,
+  buildStreamingArrivalNotifications,
+  filterOptedOut,
+  findEndedShows,
+  groupByAccountEvent,
+  nameProfiles,
+  toPreferences,
+} from '../utils/profileNotificationUtility';
+import { notificationDeliveryService } from './notificationDeliveryService';
+import { appLogger, cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { notificationsService } from '@ajgifford/keepwatching-common-server/services';
+import cron, { ScheduledTask } from 'node-cron';
+
+// Episodes airing today are only news for a day, everything else stays up for a week
+const NOTIFICATION_DAYS: Record<ProfileNotificationCategory, number> = {
+  newEpisodes: 1,
+  newSeasons: 7,
+  movieReleases: 7,
+  showEndings: 7,
+};
+
+/**
+ * Service for the notifications generated for a single profile from its favorites: episodes airing today, newly
+ * announced seasons, movies releasing or arriving on streaming and shows that have ended or been cancelled. Each
+ * profile can opt out of any of these categories
+ */
+export class ProfileNotificationsService {
+  /**
+   * Get whether each notification category is enabled for a profile
+   */
+  public async getPreferences(profileId: number): Promise<ProfileNotificationPreferences> {
+    return toPreferences(await profileNotificationsDb.getPreferences(profileId));
+  }
+
+  /**
+   * Opt a profile in or out of notification categories, categories left out keep their current preference
+   */
+  public async updatePreferences(
+    profileId: number,
+    changes: Partial<ProfileNotificationPreferences>,
+  ): Promise<ProfileNotificationPreferences> {
+    const preferences = PROFILE_NOTIFICATION_CATEGORIES.filter((category) => changes[category] !== undefined).map(
+      (category) => ({ category, enabled: Boolean(changes[category]) }),
+    );
+    await profileNotificationsDb.savePreferences(profileId, preferences);
+    return this.getPreferences(profileId);
+  }
+
+  /**
+   * Look for news about every profile's favorites and notify the profiles that have not opted out of its category.
+   * Profiles on the same account share one notification about the same event, naming them. A profile is only ever
+   * notified once about the same episode day, season, release, streaming service or ending, and a category that
+   * fails to load is logged without stopping the others
+   *
+   * @returns the number of notifications created
+   */
+  public async generateNotifications(): Promise<number> {
+    const candidates = [
+      ...(await this.collect('newEpisodes', async () =>
+        buildEpisodeNotifications(await profileNotificationsDb.getEpisodesAiringToday()),
+      )),
+      ...(await this.collect('newSeasons', () => this.findAnnouncedSeasons())),
+      ...(await this.collect('movieReleases', async () => [
+        ...(await profileNotificationsDb.getMoviesReleasingToday()).map(buildMovieReleaseNotification),
+        ...(await this.findStreamingArrivals()),
+      ])),
+      ...(await this.collect('showEndings', () => this.findShowEndings())),
+    ];
+
+    let created = 0;
+    for (const group of groupByAccountEvent(filterOptedOut(candidates, await profileNotificationsDb.getOptOuts()))) {
+      try {
+        if (await this.notify(group)) {
+          created++;
+        }
+      } catch (error) {
+        appLogger.error('Failed to create a profile notification', {
+          error,
+          accountId: group[0].accountId,
+          eventKey: group[0].eventKey,
+        });
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Schedule the job that generates notifications for each profile from its favorites
+   */
+  public startScheduledNotifications(): ScheduledTask {
+    return cron.schedule(getProfileNotificationSchedule(), async () => {
+      try {
+        const created = await this.generateNotifications();
+        if (created > 0) {
+          cliLogger.info(`Created ${created} profile notification(s)`);
+          await notificationDeliveryService.pushNewNotifications();
+        }
+      } catch (error) {
+        appLogger.error('Profile notification job failed', { error });
+      }
+    });
+  }
+
+  private async collect(
+    category: ProfileNotificationCategory,
+    load: () => Promise<ProfileNotificationCandidate[]>,
+  ): Promise<ProfileNotificationCandidate[]> {
+    try {
+      return await load();
+    } catch (error) {
+      appLogger.error('Failed to look for profile notifications', { error, category });
+      return [];
+    }
+  }
+
+  /**
+   * Upcoming seasons not seen before, for the profiles that had the show as a favorite when the check last ran, so
+   * favoriting a show does not announce the seasons it already had. The first run only remembers the seasons
+   */
+  private async findAnnouncedSeasons(): Promise<ProfileNotificationCandidate[]> {
+    const startedAt = new Date();
+    const [lastRun, seasons] = await Promise.all([
+      profileNotificationsDb.getLastRun('newSeasons'),
+      profileNotificationsDb.getUnseenSeasons(),
+    ]);
+
+    const showIds = [...new Set(seasons.filter(({ upcoming }) => upcoming).map(({ showId }) => showId))];
+    const followers = lastRun ? await profileNotificationsDb.getShowFollowers(showIds, lastRun) : [];
+    await profileNotificationsDb.saveSeasons(seasons.map(({ seasonId }) => seasonId));
+    await profileNotificationsDb.saveLastRun('newSeasons', startedAt);
+    return buildSeasonNotifications(seasons, followers);
+  }
+
+  /**
+   * Movies on streaming services not seen before, for the profiles that had them as favorites when the check last
+   * ran, so favoriting a movie that is already streaming does not announce it. The first run only remembers the
+   * services
+   */
+  private async findStreamingArrivals(): Promise<ProfileNotificationCandidate[]> {
+    const startedAt = new Date();
+    const [lastRun, services] = await Promise.all([
+      profileNotificationsDb.getLastRun('streamingArrivals'),
+      profileNotificationsDb.getUnseenMovieServices(),
+    ]);
+
+    const movieIds = [...new Set(services.map(({ movieId }) => movieId))];
+    const followers = lastRun ? await profileNotificationsDb.getUnwatchedMovieFollowers(movieIds, lastRun) : [];
+    await profileNotificationsDb.saveMovieServices(services);
+    await profileNotificationsDb.saveLastRun('streamingArrivals', startedAt);
+    return buildStreamingArrivalNotifications(services, followers);
+  }
+
+  private async findShowEndings(): Promise<ProfileNotificationCandidate[]> {
+    const changes = await profileNotificationsDb.getShowStatusChanges();
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const endedShows = findEndedShows(changes);
+    const followers = await profileNotificationsDb.getShowFollowers(endedShows.map(({ showId }) => showId));
+    await profileNotificationsDb.saveShowStatuses(changes);
+    return buildShowEndingNotifications(endedShows, followers);
+  }
+
+  /**
+   * Send one notification to an account for the profiles in the group not yet notified about its event. The
+   * profiles are only recorded as notified once the notification is created
+   */
+  private async notify(group: ProfileNotificationCandidate[]): Promise<boolean> {
+    const [{ accountId, category, eventKey, message, type }] = group;
+    return withTransaction(async (connection) => {
+      const profileIds = await profileNotificationsDb.recordProfileEvents(
+        connection,
+        group.map(({ profileId }) => profileId),
+        eventKey,
+      );
+      if (profileIds.length === 0) {
+        return false;
+      }
+
+      const profileNames = group
+        .filter(({ profileId }) => profileIds.includes(profileId))
+        .map(({ profileName }) => profileName);
+      const startDate = new Date();
+      await notificationsService.addNotification({
+        message: nameProfiles(message, profileNames),
+        startDate: startDate.toISOString(),
+        endDate: addDays(startDate, NOTIFICATION_DAYS[category]).toISOString(),
+        sendToAll: false,
+        accountId,
+        type,
+      });
+      return true;
+    });
+  }
+}
+
+export const profileNotificationsService = new ProfileNotificationsService();
@@ -0,0 +1,134 @@
+import * as ratingsDb from '../db/ratingsDb';
+import { RatingContentType } from '../db/ratingsDb';
+import {
+  ProfileRating,
+  RatingScale,
+  buildRatingDistribution,
+  toProfileRating,
+  toRatingMap,
+  toStoredRating,
+} from '../utils/ratingUtility';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+
+const TOP_RATED_GENRE_LIMIT = 5;
+
+export interface RatingInput {
+  rating: number;
+  scale?: RatingScale;
+  review?: string | null;
+}
+
+export interface ShowRatings {
+  show: ProfileRating | null;
+  seasons: Map<number, ProfileRating>;
+  episodes: Map<number, ProfileRating>;
+}
+
+/**
+ * Service for a profile's own ratings (1-10, or half stars) and private reviews of shows, seasons,
+ * episodes and movies
+ */
+export class RatingsService {
+  /**
+   * Get a profile's rating of a show, season, episode or movie
+   *
+   * @throws {NotFoundError} when the profile has not rated it
+   */
+  public async getRating(profileId: number, contentType: RatingContentType, contentId: number) {
+    const rating = await ratingsDb.getRating(profileId, contentType, contentId);
+    if (!rating) {
+      throw new NotFoundError(`The ${contentType} has not been rated`);
+    }
+    return { contentType, contentId, ...toProfileRating(rating) };
+  }
+
+  /**
+   * Get every rating a profile has given, optionally only of one type of content
+   */
+  public async getRatings(profileId: number, contentType?: RatingContentType) {
+    const ratings = await ratingsDb.getRatingsForProfile(profileId, contentType);
+    return ratings.map((rating) => ({
+      contentType: rating.contentType,
+      contentId: rating.contentId,
+      ...toProfileRating(rating),
+    }));
+  }
+
+  /**
+   * Rate and optionally review a show, season, episode or movie, replacing any earlier rating
+   *
+   * @throws {NotFoundError} when the content does not exist
+   */
+  public async rateContent(
+    profileId: number,
+    contentType: RatingContentType,
+    contentId: number,
+    { rating, scale = 'points', review }: RatingInput,
+  ) {
+    if (!(await ratingsDb.contentExists(contentType, contentId))) {
+      throw new NotFoundError(`The ${contentType} does not exist`);
+    }
+    await ratingsDb.saveRating(profileId, contentType, contentId, toStoredRating(rating, scale), review ?? null);
+    return this.getRating(profileId, contentType, contentId);
+  }
+
+  /**
+   * Remove a profile's rating and review of a show, season, episode or movie
+   *
+   * @throws {NotFoundError} when the profile has not rated it
+   */
+  public async removeRating(profileId: number, contentType: RatingContentType, contentId: number): Promise<void> {
+    const removed = await ratingsDb.deleteRating(profileId, contentType, contentId);
+    if (!removed) {
+      throw new NotFoundError(`The ${contentType} has not been rated`);
+    }
+  }
+
+  /**
+   * Get a profile's ratings of a show and of its seasons and episodes, seasons and episodes keyed by id
+   */
+  public async getShowRatings(profileId: number, showId: number): Promise<ShowRatings> {
+    const ratings = await ratingsDb.getRatingsForShow(profileId, showId);
+    const showRating = ratings.find((rating) => rating.contentType === 'show');
+    return {
+      show: showRating ? toProfileRating(showRating) : null,
+      seasons: toRatingMap(ratings, 'season'),
+      episodes: toRatingMap(ratings, 'episode'),
+    };
+  }
+
+  /**
+   * Get a profile's ratings of the episodes of a season keyed by episode id
+   */
+  public async getSeasonEpisodeRatings(profileId: number, seasonId: number): Promise<Map<number, ProfileRating>> {
+    const ratings = await ratingsDb.getRatingsForSeasonEpisodes(profileId, seasonId);
+    return toRatingMap(ratings, 'episode');
+  }
+
+  /**
+   * Get a profile's ratings of movies keyed by movie id
+   */
+  public async getMovieRatings(profileId: number): Promise<Map<number, ProfileRating>> {
+    const ratings = await ratingsDb.getRatingsForProfile(profileId, 'movie');
+    return toRatingMap(ratings, 'movie');
+  }
+
+  /**
+   * Get how a profile's ratings are distributed across 1-10 and the genres it rates highest
+   */
+  public async getRatingStatistics(profileId: number) {
+    const [counts, topRatedGenres] = await Promise.all([
+      ratingsDb.getRatingCounts(profileId),
+      ratingsDb.getTopRatedGenres(profileId, TOP_RATED_GENRE_LIMIT),
+    ]);
+    return {
+      ...buildRatingDistribution(counts),
+      topRatedGenres: topRatedGenres.map((genre) => ({
+        ...genre,
+        averageRating: Math.round(genre.averageRating * 10) / 10,
+      })),
+    };
+  }
+}
+
+export const ratingsService = new RatingsService();
@@ -0,0 +1,83 @@
+import * as recommendationsDb from '../db/recommendationsDb';
+import { RecommendationContentType, RecommendationSeed } from '../db/recommendationsDb';
+import * as watchlistDb from '../db/watchlistDb';
+import {
+  SeedRecommendations,
+  TMDBRecommendation,
+  calculateSeedWeight,
+  mergeRecommendations,
+} from '../utils/recommendationUtility';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getTMDBService } from '@ajgifford/keepwatching-common-server/services';
+
+const MAX_SEEDS_PER_TYPE = 10;
+
+export interface RecommendationOptions {
+  contentType?: RecommendationContentType;
+  limit: number;
+}
+
+/**
+ * Service for recommendations drawn from everything in a profile's favorites rather than a single show or movie
+ */
+export class RecommendationsService {
+  /**
+   * Merge the TMDB recommendations of a profile's most relevant favorites, weighted by watch status and rating,
+   * leaving out anything already in its favorites or on its watchlist
+   */
+  public async getRecommendations(profileId: number, { contentType, limit }: RecommendationOptions) {
+    const contentTypes: RecommendationContentType[] = contentType ? [contentType] : ['show', 'movie'];
+    const seeds = await recommendationsDb.getRecommendationSeeds(profileId);
+    const watchlists = await Promise.all(contentTypes.map((type) => watchlistDb.getWatchlistItems(profileId, type)));
+
+    const excludedTMDBIds: Record<RecommendationContentType, Set<number>> = { show: new Set(), movie: new Set() };
+    for (const seed of seeds) {
+      excludedTMDBIds[seed.contentType].add(seed.tmdbId);
+    }
+    for (const item of watchlists.flat()) {
+      excludedTMDBIds[item.contentType].add(item.tmdbId);
+    }
+
+    const weightedSeeds = contentTypes.flatMap((type) => this.selectSeeds(seeds, type));
+    const seedRecommendations = await this.fetchSeedRecommendations(weightedSeeds);
+    return mergeRecommendations(seedRecommendations, excludedTMDBIds, limit);
+  }
+
+  private selectSeeds(seeds: RecommendationSeed[], contentType: RecommendationContentType) {
+    return seeds
+      .filter((seed) => seed.contentType === contentType)
+      .map((seed) => ({ seed, weight: calculateSeedWeight(seed) }))
+      .filter(({ weight }) => weight > 0)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_SEEDS_PER_TYPE);
+  }
+
+  private async fetchSeedRecommendations(
+    weightedSeeds: { seed: RecommendationSeed; weight: number }[],
+  ): Promise<SeedRecommendations[]> {
+    const tmdbService = getTMDBService();
+    const responses = await Promise.allSettled(
+      weightedSeeds.map(({ seed }) =>
+        seed.contentType === 'show'
+          ? tmdbService.getShowRecommendations(seed.tmdbId)
+          : tmdbService.getMovieRecommendations(seed.tmdbId),
+      ),
+    );
+
+    return weightedSeeds.flatMap(({ seed, weight }, index) => {
+      const response = responses[index];
+      if (response.status === 'rejected') {
+        appLogger.error('Failed to get TMDB recommendations', {
+          error: response.reason,
+          contentType: seed.contentType,
+          tmdbId: seed.tmdbId,
+        });
+        return [];
+      }
+      const results: TMDBRecommendation[] = response.value?.results ?? [];
+      return [{ seed, weight, results }];
+    });
+  }
+}
+
+export const recommendationsService = new RecommendationsService();
@@ -0,0 +1,100 @@
+import * as runtimeDb from '../db/runtimeDb';
+import * as watchHistoryDb from '../db/watchHistoryDb';
+import * as watchStatusDb from '../db/watchStatusDb';
+import { addDays } from '../utils/dateUtility';
+import {
+  RuntimeTotals,
+  calculatePercentComplete,
+  estimateFinishDate,
+  sumRuntimeTotals,
+  toRuntimeTotals,
+} from '../utils/runtimeUtility';
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+
+const PACE_WINDOW_DAYS = 30;
+
+export interface SeasonRuntime extends RuntimeTotals {
+  seasonId: number;
+  totalEpisodes: number;
+  watchedEpisodes: number;
+}
+
+export interface ShowRuntime extends RuntimeTotals {
+  totalEpisodes: number;
+  watchedEpisodes: number;
+  seasons: SeasonRuntime[];
+}
+
+/**
+ * Service for total, watched and remaining runtime (in minutes) of a profile's shows and movies
+ */
+export class RuntimeService {
+  /**
+   * Get the runtime of a show and each of its seasons for a profile, counting only aired episodes
+   */
+  public async getShowRuntime(profileId: number, showId: number): Promise<ShowRuntime> {
+    const seasonCounts = await runtimeDb.getSeasonRuntimes(profileId, showId);
+    const seasons = seasonCounts.map(({ seasonId, totalEpisodes, watchedEpisodes, totalRuntime, watchedRuntime }) => ({
+      seasonId,
+      totalEpisodes,
+      watchedEpisodes,
+      ...toRuntimeTotals(totalRuntime, watchedRuntime),
+    }));
+
+    return {
+      ...sumRuntimeTotals(seasons),
+      totalEpisodes: seasons.reduce((sum, season) => sum + season.totalEpisodes, 0),
+      watchedEpisodes: seasons.reduce((sum, season) => sum + season.watchedEpisodes, 0),
+      seasons,
+    };
+  }
+
+  /**
+   * Get the runtime of every show and movie in a profile's favorites, combined and separately
+   */
+  public async getProfileRuntime(profileId: number) {
+    const [showCounts, movieCounts] = await Promise.all([
+      runtimeDb.getProfileShowRuntime(profileId),
+      runtimeDb.getProfileMovieRuntime(profileId),
+    ]);
+    const shows = toRuntimeTotals(showCounts.totalRuntime, showCounts.watchedRuntime);
+    const movies = toRuntimeTotals(movieCounts.totalRuntime, movieCounts.watchedRuntime);
+
+    return { ...sumRuntimeTotals([shows, movies]), shows, movies };
+  }
+
+  /**
+   * Get how far a profile is through a show and when it should finish the aired episodes,
+   * going by the episode runtime it watched over the last 30 days
+   *
+   * @throws {NotFoundError} when the show is not in the profile's favorites
+   */
+  public async getShowProgress(profileId: number, showId: number) {
+    const favoritedShowIds = await watchStatusDb.findFavoritedShowIds(profileId, [showId]);
+    if (favoritedShowIds.length === 0) {
+      throw new NotFoundError('The show is not in the profile favorites');
+    }
+
+    const now = new Date();
+    const [runtime, recentMinutes] = await Promise.all([
+      this.getShowRuntime(profileId, showId),
+      watchHistoryDb.getEpisodeMinutesSince(profileId, addDays(now, -PACE_WINDOW_DAYS)),
+    ]);
+
+    const minutesPerDay = Math.round((recentMinutes / PACE_WINDOW_DAYS) * 10) / 10;
+
+    return {
+      showId,
+      totalEpisodes: runtime.totalEpisodes,
+      watchedEpisodes: runtime.watchedEpisodes,
+      percentComplete: calculatePercentComplete(runtime.watchedEpisodes, runtime.totalEpisodes),
+      totalRuntime: runtime.totalRuntime,
+      watchedRuntime: runtime.watchedRuntime,
+      remainingRuntime: runtime.remainingRuntime,
+      pace: { days: PACE_WINDOW_DAYS, minutesPerDay },
+      estimatedFinishDate: estimateFinishDate(runtime.remainingRuntime, minutesPerDay, now),
+    };
+  }
+}
+
+export const runtimeService = new RuntimeService();
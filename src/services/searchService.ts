@@ -0,0 +1,98 @@
+import * as moviesDb from '../db/moviesDb';
+import * as peopleDb from '../db/peopleDb';
+import * as showsDb from '../db/showsDb';
+import {
+  MediaSearchResultLike,
+  SearchResult,
+  SearchResultType,
+  rankSearchResults,
+  toMediaSearchResult,
+  toPersonSearchResult,
+} from '../utils/searchUtility';
+import { peopleService } from './peopleService';
+import { contentDiscoveryService } from '@ajgifford/keepwatching-common-server/services';
+import { DiscoverAndSearchResponse, MediaType } from '@ajgifford/keepwatching-types';
+
+export interface MultiSearchOptions {
+  query: string;
+  year?: string;
+  page: number;
+  profileId?: number;
+}
+
+interface SearchPage {
+  results: SearchResult[];
+  totalResults: number;
+  totalPages: number;
+}
+
+/**
+ * Service for searching shows, movies and people at once
+ */
+export class SearchService {
+  /**
+   * Search shows, movies and people for the same page of each and rank them into one list. People have no release
+   * year, so a search with a year only covers shows and movies, and the response lists the types searched.
+   * With a profile, each result is flagged when the show or movie is in its favorites or it follows the person
+   */
+  public async multiSearch({ query, year, page, profileId }: MultiSearchOptions) {
+    const searchedTypes: SearchResultType[] = year ? ['show', 'movie'] : ['show', 'movie', 'person'];
+    const pages = await Promise.all(
+      searchedTypes.map((type) =>
+        type === 'person' ? this.searchPeople(query, page) : this.searchMedia(type, query, year, page),
+      ),
+    );
+    const results = pages.flatMap((searchPage) => searchPage.results);
+    if (profileId) {
+      await this.flagLibrary(profileId, results);
+    }
+
+    return {
+      results: rankSearchResults(query, results),
+      totalResults: pages.reduce((sum, searchPage) => sum + searchPage.totalResults, 0),
+      totalPages: Math.max(...pages.map((searchPage) => searchPage.totalPages)),
+      currentPage: page,
+      searchedTypes,
+    };
+  }
+
+  private async searchMedia(
+    type: 'show' | 'movie',
+    query: string,
+    year: string | undefined,
+    page: number,
+  ): Promise<SearchPage> {
+    const mediaType = type === 'show' ? MediaType.SHOW : MediaType.MOVIE;
+    const response: DiscoverAndSearchResponse = await contentDiscoveryService.searchMedia(mediaType, query, year, page);
+    return {
+      results: response.results.map((result: MediaSearchResultLike) => toMediaSearchResult(type, result)),
+      totalResults: response.totalResults,
+      totalPages: response.totalPages,
+    };
+  }
+
+  private async searchPeople(query: string, page: number): Promise<SearchPage> {
+    const response = await peopleService.searchPeople(query, page);
+    return {
+      results: response.results.map(toPersonSearchResult),
+      totalResults: response.totalResults,
+      totalPages: response.totalPages,
+    };
+  }
+
+  private async flagLibrary(profileId: number, results: SearchResult[]) {
+    const idsOf = (type: SearchResult['type']) =>
+      results.filter((result) => result.type === type).map((result) => result.tmdbId);
+    const [showIds, movieIds, personIds] = await Promise.all([
+      showsDb.findFavoritedShowTMDBIds(profileId, idsOf('show')),
+      moviesDb.findFavoritedMovieTMDBIds(profileId, idsOf('movie')),
+      peopleDb.findFollowedPersonIds(profileId, idsOf('person')),
+    ]);
+    const library = { show: new Set(showIds), movie: new Set(movieIds), person: new Set(personIds) };
+    for (const result of results) {
+      result.inLibrary = library[result.type].has(result.tmdbId);
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,69 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService } from '@ajgifford/keepwatching-common-server/services';
+import { Server, Socket } from 'socket.io';
+
+type JoinProfileAck = (response: { joined: boolean; error?: string }) => void;
+
+export const accountRoom = (accountId: number) => `account:${accountId}`;
+export const profileRoom = (profileId: number) => `profile:${profileId}`;
+
+/**
+ * Service for sending change events to just the sockets affected by them. Every socket joins a room for its
+ * account when it connects and can join a room for each of the account's profiles it is showing, so a change
+ * made on one device shows up live on the others
+ */
+export class SocketEventService {
+  private io: Server | null = null;
+
+  /**
+   * Initialize the service with the Socket.IO server
+   */
+  public initialize(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * Join a newly connected, authenticated socket to its account's room and listen for it joining and leaving
+   * profile rooms. A socket can only join the rooms of profiles that belong to its own account
+   */
+  public handleConnection(socket: Socket): void {
+    const accountId = Number(socket.data.accountId);
+    socket.join(accountRoom(accountId));
+
+    socket.on('profiles:join', async (payload: { profileId?: unknown }, ack?: JoinProfileAck) => {
+      const profileId = Number(payload?.profileId);
+      try {
+        const profilesAccountId = profileId ? await accountService.findAccountIdByProfileId(profileId) : null;
+        if (!profilesAccountId || Number(profilesAccountId) !== accountId) {
+          ack?.({ joined: false, error: 'Access forbidden to this profile, it does not belong to your account' });
+          return;
+        }
+        socket.join(profileRoom(profileId));
+        ack?.({ joined: true });
+      } catch (error) {
+        appLogger.error('Failed to join a profile room', { error, accountId, profileId });
+        ack?.({ joined: false, error: 'Failed to join the profile' });
+      }
+    });
+
+    socket.on('profiles:leave', (payload: { profileId?: unknown }) => {
+      socket.leave(profileRoom(Number(payload?.profileId)));
+    });
+  }
+
+  /**
+   * Send an event to every socket connected for an account, does nothing before the server is initialized
+   */
+  public emitToAccount(accountId: number, event: string, payload: unknown): void {
+    this.io?.to(accountRoom(Number(accountId))).emit(event, payload);
+  }
+
+  /**
+   * Send an event to every socket that has joined a profile's room, does nothing before the server is initialized
+   */
+  public emitToProfile(profileId: number, event: string, payload: unknown): void {
+    this.io?.to(profileRoom(Number(profileId))).emit(event, payload);
+  }
+}
+
+export const socketEventService = new SocketEventService();
@@ -0,0 +1,108 @@
+import * as watchHistoryDb from '../db/watchHistoryDb';
+import { WatchEvent, WatchHistoryContentType, WatchHistoryFilters } from '../db/watchHistoryDb';
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+export interface WatchHistoryQuery extends WatchHistoryFilters {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Service for the per-profile log of watch status changes
+ */
+export class WatchHistoryService {
+  /**
+   * Record a status change made through one of the watch status endpoints, or imported with the time it was watched
+   *
+   * The status change itself has already been applied, so a failure to record it is
+   * logged rather than failing the request
+   */
+  public async recordStatusChange(
+    profileId: number,
+    contentType: WatchHistoryContentType,
+    contentId: number,
+    status: string,
+    watchedAt?: Date,
+  ): Promise<void> {
+    try {
+      await watchHistoryDb.insertWatchEvents([{ profileId, contentType, contentId, status, watchedAt }]);
+    } catch (error) {
+      appLogger.error('Failed to record watch history', { error, profileId, contentType, contentId, status });
+    }
+  }
+
+  /**
+   * Apply a status change to an episode or movie and record it, only when the status actually changed. Setting the
+   * status it already has records nothing, a repeat watch is logged through {@link logRewatch} instead
+   *
+   * @param update - applies the status change
+   * @param watchedAt - when it was watched, for imported watches
+   * @returns the result of the update
+   */
+  public async trackStatusChange<T>(
+    profileId: number,
+    contentType: 'episode' | 'movie',
+    contentId: number,
+    status: string,
+    update: () => Promise<T>,
+    watchedAt?: Date,
+  ): Promise<T> {
+    const previousStatus = await watchHistoryDb.getCurrentWatchStatus(profileId, contentType, contentId);
+    const result = await update();
+    if ((previousStatus ?? 'NOT_WATCHED') !== status) {
+      await this.recordStatusChange(profileId, contentType, contentId, status, watchedAt);
+    }
+    return result;
+  }
+
+  /**
+   * Record several status changes at once, such as the episodes of a bulk update
+   *
+   * The status changes have already been applied, so a failure to record them is
+   * logged rather than failing the request
+   */
+  public async recordStatusChanges(events: WatchEvent[]): Promise<void> {
+    try {
+      await watchHistoryDb.insertWatchEvents(events);
+    } catch (error) {
+      appLogger.error('Failed to record watch history', { error, count: events.length });
+    }
+  }
+
+  /**
+   * Get a page of a profile's watch history, newest first
+   */
+  public async getHistory(profileId: number, { page, limit, ...filters }: WatchHistoryQuery) {
+    const offset = (page - 1) * limit;
+    const [history, total] = await Promise.all([
+      watchHistoryDb.getWatchHistory(profileId, filters, limit, offset),
+      watchHistoryDb.countWatchHistory(profileId, filters),
+    ]);
+
+    return {
+      history,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Log a rewatch of an episode or movie the profile has already watched, without changing its status
+   *
+   * @throws {BadRequestError} when the content is not currently marked as watched
+   */
+  public async logRewatch(profileId: number, contentType: 'episode' | 'movie', contentId: number): Promise<void> {
+    const currentStatus = await watchHistoryDb.getCurrentWatchStatus(profileId, contentType, contentId);
+    if (currentStatus !== 'WATCHED') {
+      throw new BadRequestError(`Only a watched ${contentType} can be logged as a rewatch`);
+    }
+    await watchHistoryDb.insertWatchEvents([{ profileId, contentType, contentId, status: 'WATCHED', isRewatch: true }]);
+  }
+}
+
+export const watchHistoryService = new WatchHistoryService();
@@ -0,0 +1,239 @@
+import * as watchHistoryDb from '../db/watchHistoryDb';
+import * as watchStatusDb from '../db/watchStatusDb';
+import { EpisodeScope, EpisodeWatchStatus } from '../db/watchStatusDb';
+import { withTransaction } from '../utils/db';
+import { DerivedWatchStatus } from '../utils/watchStatusUtility';
+import { watchHistoryService } from './watchHistoryService';
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { profileService, seasonsService, showService } from '@ajgifford/keepwatching-common-server/services';
+
+export type EpisodeSelection = { episodeIds: number[] } | { fromEpisodeId: number; toEpisodeId: number };
+
+/**
+ * Service for watch status changes that touch many episodes, seasons or shows at once
+ */
+export class WatchProgressService {
+  /**
+   * Update the watch status of a season through the common seasons service, recording the season and every episode
+   * whose status changed in the watch history
+   */
+  public async updateSeasonWatchStatus(
+    accountId: number,
+    profileId: number,
+    seasonId: number,
+    status: string,
+    recursive: boolean,
+  ): Promise<void> {
+    await this.trackEpisodeChanges(profileId, { seasonId }, () =>
+      seasonsService.updateSeasonWatchStatus(accountId, profileId, seasonId, status, recursive),
+    );
+    await watchHistoryService.recordStatusChange(profileId, 'season', seasonId, status);
+  }
+
+  /**
+   * Update the watch status of a show through the common show service, recording the show and every episode whose
+   * status changed in the watch history
+   *
+   * @returns the next unwatched episodes for the profile
+   */
+  public async updateShowWatchStatus(
+    accountId: number,
+    profileId: number,
+    showId: number,
+    status: string,
+    recursive: boolean,
+  ) {
+    const nextUnwatchedEpisodes = await this.trackEpisodeChanges(profileId, { showId }, () =>
+      showService.updateShowWatchStatus(accountId, profileId, showId, status, recursive),
+    );
+    await watchHistoryService.recordStatusChange(profileId, 'show', showId, status);
+    return nextUnwatchedEpisodes;
+  }
+
+  /**
+   * Update the watch status of a list or range of episodes in a single transaction, recording each one that changed
+   * in the watch history
+   *
+   * @param profileId - id of the profile the statuses belong to
+   * @param selection - either explicit episode ids or the first and last episode of a range
+   * @param status - the status to apply to every selected episode
+   * @returns the recomputed next unwatched episodes for the profile
+   * @throws {BadRequestError} when a range spans shows or a show is not in the profile's favorites
+   * @throws {NotFoundError} when a selected episode does not exist
+   */
+  public async bulkUpdateEpisodeWatchStatus(
+    profileId: number,
+    selection: EpisodeSelection,
+    status: EpisodeWatchStatus,
+  ) {
+    await this.updateEpisodeWatchStatuses(profileId, selection, status);
+    return this.getNextUnwatchedEpisodes(profileId);
+  }
+
+  /**
+   * Update the watch status of a list or range of episodes in a single transaction like a bulk update, without
+   * recomputing the next unwatched episodes. For callers that update many shows and refresh the profile once at the
+   * end, such as imports
+   *
+   * @param watchedAt - when each episode was watched, by episode id, for history imported from elsewhere
+   * @throws {BadRequestError} when a range spans shows or a show is not in the profile's favorites
+   * @throws {NotFoundError} when a selected episode does not exist
+   */
+  public async updateEpisodeWatchStatuses(
+    profileId: number,
+    selection: EpisodeSelection,
+    status: EpisodeWatchStatus,
+    watchedAt?: Map<number, Date>,
+  ): Promise<void> {
+    const episodes = await this.resolveEpisodeSelection(selection);
+    await this.verifyShowsFavorited(profileId, [...new Set(episodes.map((episode) => episode.showId))]);
+    await this.updateEpisodes(profileId, episodes, status, watchedAt);
+  }
+
+  /**
+   * Mark every episode of a show before the chosen episode as watched, across all earlier seasons, in a single
+   * transaction
+   *
+   * @param profileId - id of the profile the statuses belong to
+   * @param showId - id of the show being caught up on
+   * @param episodeId - id of the first episode that should remain untouched
+   * @returns the recalculated show status and the next unwatched episodes for the profile
+   * @throws {NotFoundError} when the episode does not exist
+   * @throws {BadRequestError} when the episode is a special, is not part of the show or the show is not in the
+   * profile's favorites
+   */
+  public async markShowWatchedUpToEpisode(profileId: number, showId: number, episodeId: number) {
+    const [episode] = await watchStatusDb.findEpisodeReferences([episodeId]);
+    if (!episode) {
+      throw new NotFoundError(`Episode not found: ${episodeId}`);
+    }
+    if (episode.showId !== showId) {
+      throw new BadRequestError('The episode does not belong to the show');
+    }
+    if (episode.seasonNumber === 0) {
+      throw new BadRequestError('Specials have no place in the watch order, choose a regular episode');
+    }
+    await this.verifyShowsFavorited(profileId, [showId]);
+
+    const earlierEpisodes = await watchStatusDb.findEpisodesBefore(showId, episode);
+    const showStatuses = await this.updateEpisodes(profileId, earlierEpisodes, 'WATCHED');
+    const nextUnwatchedEpisodes = await this.getNextUnwatchedEpisodes(profileId);
+    return { showStatus: showStatuses.get(showId) ?? null, nextUnwatchedEpisodes };
+  }
+
+  /**
+   * Set the status of episodes, refresh the status of their seasons and shows once and record each episode whose
+   * status changed in the watch history, all in one transaction. Changes are recorded as happening now unless a time
+   * is given for the episode
+   *
+   * @returns the refreshed status of each show, by show id
+   */
+  private async updateEpisodes(
+    profileId: number,
+    episodes: watchStatusDb.EpisodeReference[],
+    status: EpisodeWatchStatus,
+    watchedAt?: Map<number, Date>,
+  ): Promise<Map<number, DerivedWatchStatus>> {
+    if (episodes.length === 0) {
+      return new Map();
+    }
+
+    const episodeIds = episodes.map((episode) => episode.id);
+    const showIds = [...new Set(episodes.map((episode) => episode.showId))];
+    return withTransaction(async (connection) => {
+      const before = await watchStatusDb.getEpisodeWatchStatuses(profileId, { episodeIds }, connection);
+      await watchStatusDb.updateEpisodeWatchStatuses(connection, profileId, episodeIds, status);
+
+      const showStatuses = new Map<number, DerivedWatchStatus>();
+      for (const showId of showIds) {
+        showStatuses.set(showId, await watchStatusDb.refreshSeasonAndShowStatuses(connection, profileId, showId));
+      }
+
+      const changedIds = episodeIds.filter((episodeId) => before.has(episodeId) && before.get(episodeId) !== status);
+      await watchHistoryDb.insertWatchEvents(
+        changedIds.map((episodeId) => ({
+          profileId,
+          contentType: 'episode',
+          contentId: episodeId,
+          status,
+          watchedAt: watchedAt?.get(episodeId),
+        })),
+        connection,
+      );
+      return showStatuses;
+    });
+  }
+
+  /**
+   * Run a status update and record a watch history event for each episode in scope whose status it changed, so
+   * statistics built on episode history also see season and show updates. Episodes without a status count as not
+   * watched
+   */
+  private async trackEpisodeChanges<T>(profileId: number, scope: EpisodeScope, update: () => Promise<T>): Promise<T> {
+    const before = await watchStatusDb.getEpisodeWatchStatuses(profileId, scope);
+    const result = await update();
+    const after = await watchStatusDb.getEpisodeWatchStatuses(profileId, scope);
+
+    const changes = [...after].filter(([episodeId, status]) => (before.get(episodeId) ?? 'NOT_WATCHED') !== status);
+    await watchHistoryService.recordStatusChanges(
+      changes.map(([episodeId, status]) => ({
+        profileId,
+        contentType: 'episode',
+        contentId: episodeId,
+        status,
+      })),
+    );
+    return result;
+  }
+
+  private async resolveEpisodeSelection(selection: EpisodeSelection): Promise<watchStatusDb.EpisodeReference[]> {
+    if ('episodeIds' in selection) {
+      const uniqueIds = [...new Set(selection.episodeIds)];
+      const episodes = await watchStatusDb.findEpisodeReferences(uniqueIds);
+      if (episodes.length !== uniqueIds.length) {
+        const found = new Set(episodes.map((episode) => episode.id));
+        const missing = uniqueIds.filter((id) => !found.has(id));
+        throw new NotFoundError(`Episodes not found: ${missing.join(', ')}`);
+      }
+      return episodes;
+    }
+
+    const [first, last] = await this.findRangeBoundaries(selection.fromEpisodeId, selection.toEpisodeId);
+    return watchStatusDb.findEpisodesInRange(first.showId, first, last);
+  }
+
+  private async findRangeBoundaries(fromEpisodeId: number, toEpisodeId: number) {
+    const boundaries = await watchStatusDb.findEpisodeReferences([fromEpisodeId, toEpisodeId]);
+    const from = boundaries.find((episode) => episode.id === fromEpisodeId);
+    const to = boundaries.find((episode) => episode.id === toEpisodeId);
+    if (!from || !to) {
+      throw new NotFoundError('The start or end episode of the range was not found');
+    }
+    if (from.showId !== to.showId) {
+      throw new BadRequestError('An episode range cannot span different shows');
+    }
+
+    const isReversed =
+      from.seasonNumber > to.seasonNumber ||
+      (from.seasonNumber === to.seasonNumber && from.episodeNumber > to.episodeNumber);
+    if (isReversed) {
+      throw new BadRequestError('The start of an episode range must not come after its end');
+    }
+    return [from, to];
+  }
+
+  private async verifyShowsFavorited(profileId: number, showIds: number[]) {
+    const favoritedShowIds = await watchStatusDb.findFavoritedShowIds(profileId, showIds);
+    if (favoritedShowIds.length !== showIds.length) {
+      throw new BadRequestError('All episodes must belong to shows in the profile favorites');
+    }
+  }
+
+  private async getNextUnwatchedEpisodes(profileId: number) {
+    profileService.invalidateProfileCache(profileId);
+    const { nextUnwatchedEpisodes } = await showService.getEpisodesForProfile(profileId);
+    return nextUnwatchedEpisodes;
+  }
+}
+
+export const watchProgressService = new WatchProgressService();
@@ -0,0 +1,136 @@
+import * as moviesDb from '../db/moviesDb';
+import * as showsDb from '../db/showsDb';
+import * as watchlistDb from '../db/watchlistDb';
+import { WatchlistContentType } from '../db/watchlistDb';
+import { isDuplicateEntryError, withTransaction } from '../utils/db';
+import { contentSummaryService } from './contentSummaryService';
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { moviesService, profileService, showService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for the shows and movies a profile plans to watch. Items on the watchlist only hold
+ * enough TMDB details to be listed, the show or movie (and its episodes) is only loaded once
+ * it is promoted into the profile's favorites
+ */
+export class WatchlistService {
+  /**
+   * Get a profile's watchlist of shows or movies in watchlist order
+   */
+  public async getWatchlist(profileId: number, contentType: WatchlistContentType) {
+    return watchlistDb.getWatchlistItems(profileId, contentType);
+  }
+
+  /**
+   * Add a show or movie to the end of a profile's watchlist
+   *
+   * @throws {BadRequestError} when it is already on the watchlist or in the profile's favorites
+   */
+  public async addToWatchlist(profileId: number, contentType: WatchlistContentType, tmdbId: number) {
+    if (await watchlistDb.getWatchlistItem(profileId, contentType, tmdbId)) {
+      throw new BadRequestError(`The ${contentType} is already on the watchlist`);
+    }
+    if (await this.isFavorited(profileId, contentType, tmdbId)) {
+      throw new BadRequestError(`The ${contentType} is already in the profile's favorites`);
+    }
+
+    const item = await contentSummaryService.getSummary(contentType, tmdbId);
+    try {
+      await withTransaction((connection) => watchlistDb.addWatchlistItem(connection, profileId, contentType, item));
+    } catch (error) {
+      // Another request added the same item since the check above
+      if (isDuplicateEntryError(error)) {
+        throw new BadRequestError(`The ${contentType} is already on the watchlist`);
+      }
+      throw error;
+    }
+    return watchlistDb.getWatchlistItems(profileId, contentType);
+  }
+
+  /**
+   * Remove a show or movie from a profile's watchlist
+   *
+   * @throws {NotFoundError} when it is not on the watchlist
+   */
+  public async removeFromWatchlist(profileId: number, contentType: WatchlistContentType, tmdbId: number) {
+    const removed = await watchlistDb.removeWatchlistItem(profileId, contentType, tmdbId);
+    if (!removed) {
+      throw new NotFoundError(`The ${contentType} is not on the watchlist`);
+    }
+    return watchlistDb.getWatchlistItems(profileId, contentType);
+  }
+
+  /**
+   * Take a show or movie off a profile's watchlist once it has been added to its favorites some other way than
+   * promoting it, does nothing when it was not on the watchlist
+   */
+  public async removeFavoritedItem(profileId: number, contentType: WatchlistContentType, tmdbId: number) {
+    await watchlistDb.removeWatchlistItem(profileId, contentType, tmdbId);
+  }
+
+  /**
+   * Reorder a profile's watchlist of shows or movies
+   *
+   * @param orderedTMDBIds - the TMDB ids of every item on the watchlist, in their new order
+   * @throws {BadRequestError} when the ids are not exactly the items on the watchlist
+   */
+  public async reorderWatchlist(profileId: number, contentType: WatchlistContentType, orderedTMDBIds: number[]) {
+    const items = await watchlistDb.getWatchlistItems(profileId, contentType);
+    const currentIds = new Set(items.map((item) => item.tmdbId));
+    const isSameItems =
+      orderedTMDBIds.length === currentIds.size &&
+      new Set(orderedTMDBIds).size === currentIds.size &&
+      orderedTMDBIds.every((tmdbId) => currentIds.has(tmdbId));
+    if (!isSameItems) {
+      throw new BadRequestError('The new order must list every item on the watchlist exactly once');
+    }
+
+    await withTransaction((connection) =>
+      watchlistDb.updateWatchlistPositions(connection, profileId, contentType, orderedTMDBIds),
+    );
+    return watchlistDb.getWatchlistItems(profileId, contentType);
+  }
+
+  /**
+   * Move a show from a profile's watchlist into its favorites, which loads the show and its episodes
+   *
+   * @throws {NotFoundError} when the show is not on the watchlist
+   */
+  public async promoteShow(accountId: number, profileId: number, tmdbId: number) {
+    await this.requireWatchlistItem(profileId, 'show', tmdbId);
+    const result = await showService.addShowToFavorites(accountId, profileId, tmdbId);
+    await watchlistDb.removeWatchlistItem(profileId, 'show', tmdbId);
+    profileService.invalidateProfileCache(profileId);
+    return result;
+  }
+
+  /**
+   * Move a movie from a profile's watchlist into its favorites
+   *
+   * @throws {NotFoundError} when the movie is not on the watchlist
+   */
+  public async promoteMovie(profileId: number, tmdbId: number) {
+    await this.requireWatchlistItem(profileId, 'movie', tmdbId);
+    const result = await moviesService.addMovieToFavorites(profileId, tmdbId);
+    await watchlistDb.removeWatchlistItem(profileId, 'movie', tmdbId);
+    profileService.invalidateProfileCache(profileId);
+    return result;
+  }
+
+  private async requireWatchlistItem(profileId: number, contentType: WatchlistContentType, tmdbId: number) {
+    const item = await watchlistDb.getWatchlistItem(profileId, contentType, tmdbId);
+    if (!item) {
+      throw new NotFoundError(`The ${contentType} is not on the watchlist`);
+    }
+    return item;
+  }
+
+  private async isFavorited(profileId: number, contentType: WatchlistContentType, tmdbId: number): Promise<boolean> {
+    const favoritedIds =
+      contentType === 'show'
+        ? await showsDb.findFavoritedShowTMDBIds(profileId, [tmdbId])
+        : await moviesDb.findFavoritedMovieTMDBIds(profileId, [tmdbId]);
+    return favoritedIds.length > 0;
+  }
+}
+
+export const watchlistService = new WatchlistService();
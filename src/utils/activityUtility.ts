@@ -0,0 +1,181 @@
+import { DAY_IN_MS } from './dateUtility';
+
+export type ActivityGranularity = 'day' | 'week' | 'month';
+
+/**
+ * The episodes or movies watched within one hour of one day (UTC), with their total runtime in minutes
+ */
+export interface WatchActivity {
+  date: string;
+  hour: number;
+  contentType: 'episode' | 'movie';
+  watches: number;
+  minutes: number;
+}
+
+export interface ActivityPeriod {
+  period: string;
+  episodesWatched: number;
+  moviesWatched: number;
+  minutesWatched: number;
+}
+
+export interface Streak {
+  days: number;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Format a date as a UTC `YYYY-MM-DD` key
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfPeriod(date: Date, granularity: ActivityGranularity): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === 'week') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  } else if (granularity === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Get the key of the period a date falls in: the day (`YYYY-MM-DD`), the Monday starting its
+ * week (`YYYY-MM-DD`) or its month (`YYYY-MM`)
+ */
+export function getPeriodKey(date: Date, granularity: ActivityGranularity): string {
+  const key = toDateKey(startOfPeriod(date, granularity));
+  return granularity === 'month' ? key.slice(0, 7) : key;
+}
+
+/**
+ * List the keys of every period between two dates (inclusive)
+ */
+export function listPeriods(from: Date, to: Date, granularity: ActivityGranularity): string[] {
+  const periods: string[] = [];
+  const cursor = startOfPeriod(from, granularity);
+  while (cursor <= to) {
+    periods.push(getPeriodKey(cursor, granularity));
+    if (granularity === 'day') {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    } else if (granularity === 'week') {
+      cursor.setUTCDate(cursor.getUTCDate() + 7);
+    } else {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+  }
+  return periods;
+}
+
+/**
+ * Total the episodes, movies and minutes watched in each period between two dates (inclusive),
+ * periods without activity are included with zero totals
+ */
+export function buildActivitySeries(
+  activity: WatchActivity[],
+  granularity: ActivityGranularity,
+  from: Date,
+  to: Date,
+): ActivityPeriod[] {
+  const series = new Map<string, ActivityPeriod>(
+    listPeriods(from, to, granularity).map((period) => [
+      period,
+      { period, episodesWatched: 0, moviesWatched: 0, minutesWatched: 0 },
+    ]),
+  );
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+
+  for (const { date, contentType, watches, minutes } of activity) {
+    if (date < fromKey || date > toKey) {
+      continue;
+    }
+    const period = series.get(getPeriodKey(new Date(date), granularity));
+    if (!period) {
+      continue;
+    }
+    if (contentType === 'episode') {
+      period.episodesWatched += watches;
+    } else {
+      period.moviesWatched += watches;
+    }
+    period.minutesWatched += minutes;
+  }
+
+  return [...series.values()];
+}
+
+/**
+ * Find the longest run of consecutive days with any watch activity, and the run that is still
+ * going (its last day is today or yesterday)
+ *
+ * @param days - the distinct days (`YYYY-MM-DD`) with watch activity, oldest first
+ */
+export function calculateStreaks(days: string[], today: Date): { longest: Streak; current: Streak } {
+  const emptyStreak: Streak = { days: 0, startDate: null, endDate: null };
+
+  let longest = emptyStreak;
+  let run = emptyStreak;
+  for (const day of days) {
+    const isConsecutive =
+      run.endDate !== null && new Date(day).getTime() - new Date(run.endDate).getTime() === DAY_IN_MS;
+    run = isConsecutive ? { ...run, days: run.days + 1, endDate: day } : { days: 1, startDate: day, endDate: day };
+    if (run.days > longest.days) {
+      longest = run;
+    }
+  }
+
+  const todayKey = toDateKey(today);
+  const yesterdayKey = toDateKey(new Date(today.getTime() - DAY_IN_MS));
+  const current = run.endDate === todayKey || run.endDate === yesterdayKey ? run : emptyStreak;
+
+  return { longest, current };
+}
+
+function findBusiest<T>(
+  activity: WatchActivity[],
+  bucket: (activity: WatchActivity) => number,
+  label: (index: number) => T,
+) {
+  if (activity.length === 0) {
+    return null;
+  }
+  const counts = new Map<number, number>();
+  for (const entry of activity) {
+    const index = bucket(entry);
+    counts.set(index, (counts.get(index) ?? 0) + entry.watches);
+  }
+  const [index, count] = [...counts.entries()].reduce((busiest, entry) => (entry[1] > busiest[1] ? entry : busiest));
+  return { value: label(index), count };
+}
+
+/**
+ * Find the day of the week with the most watch activity
+ */
+export function findBusiestWeekday(activity: WatchActivity[]): { weekday: string; count: number } | null {
+  const busiest = findBusiest(
+    activity,
+    ({ date }) => new Date(date).getUTCDay(),
+    (day) => WEEKDAYS[day],
+  );
+  return busiest && { weekday: busiest.value, count: busiest.count };
+}
+
+/**
+ * Find the hour of the day (0-23) with the most watch activity
+ */
+export function findBusiestHour(activity: WatchActivity[]): { hour: number; count: number } | null {
+  const busiest = findBusiest(
+    activity,
+    ({ hour }) => hour,
+    (hour) => hour,
+  );
+  return busiest && { hour: busiest.value, count: busiest.count };
+}
@@ -0,0 +1,59 @@
+import { MovieCollectionRecord, ProfileCollectionPart } from '../db/collectionsDb';
+import { calculatePercentComplete } from './runtimeUtility';
+
+export interface CollectionMovie {
+  tmdbId: number;
+  movieId: number | null;
+  title: string;
+  releaseDate: string | null;
+  posterImage: string | null;
+  released: boolean;
+  inFavorites: boolean;
+  watchStatus: string | null;
+}
+
+export interface CollectionProgress extends MovieCollectionRecord {
+  totalMovies: number;
+  releasedMovies: number;
+  favoritedMovies: number;
+  watchedMovies: number;
+  percentComplete: number;
+  nextMovie: CollectionMovie | null;
+  movies: CollectionMovie[];
+}
+
+/**
+ * Build a profile's progress through a collection. Progress counts only the movies released so far, and the next
+ * movie is the first released movie, in collection order, the profile has not watched
+ */
+export function buildCollectionProgress(
+  collection: MovieCollectionRecord,
+  parts: ProfileCollectionPart[],
+  now: Date = new Date(),
+): CollectionProgress {
+  const movies: CollectionMovie[] = [...parts]
+    .sort((a, b) => a.position - b.position)
+    .map((part) => ({
+      tmdbId: part.tmdbId,
+      movieId: part.movieId,
+      title: part.title,
+      releaseDate: part.releaseDate,
+      posterImage: part.posterImage,
+      released: part.releaseDate !== null && new Date(part.releaseDate) <= now,
+      inFavorites: part.watchStatus !== null,
+      watchStatus: part.watchStatus,
+    }));
+  const released = movies.filter((movie) => movie.released);
+  const watchedMovies = released.filter((movie) => movie.watchStatus === 'WATCHED').length;
+
+  return {
+    ...collection,
+    totalMovies: movies.length,
+    releasedMovies: released.length,
+    favoritedMovies: movies.filter((movie) => movie.inFavorites).length,
+    watchedMovies,
+    percentComplete: calculatePercentComplete(watchedMovies, released.length),
+    nextMovie: released.find((movie) => movie.watchStatus !== 'WATCHED') ?? null,
+    movies,
+  };
+}
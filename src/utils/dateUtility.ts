@@ -0,0 +1,8 @@
+export const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the time a number of whole days (24 hours each) after a date, negative days count backwards
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_IN_MS);
+}
@@ -0,0 +1,40 @@
+import { databaseService } from '@ajgifford/keepwatching-common-server/services';
+import { Pool, PoolConnection } from 'mysql2/promise';
+
+/**
+ * Get the shared connection pool managed by the common database service
+ */
+export function getDbPool(): Pool {
+  return databaseService.getPool();
+}
+
+/**
+ * Check whether a query failed because it would have duplicated a unique key
+ */
+export function isDuplicateEntryError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'ER_DUP_ENTRY';
+}
+
+/**
+ * Run a unit of work inside a single database transaction
+ *
+ * The transaction is committed when the work resolves and rolled back if it throws,
+ * the connection is always released back to the pool
+ *
+ * @param work - callback that performs its queries on the provided connection
+ * @returns the value resolved by the work callback
+ */
+export async function withTransaction<T>(work: (connection: PoolConnection) => Promise<T>): Promise<T> {
+  const connection = await getDbPool().getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
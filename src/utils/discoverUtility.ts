@@ -0,0 +1,89 @@
+import { DiscoverFilterQuery } from '../schema/discoverSchema';
+
+export type DiscoverParams = Record<string, string | number>;
+
+export interface TMDBDiscoverResult {
+  id: number;
+  title?: string;
+  name?: string;
+  overview?: string;
+  release_date?: string;
+  first_air_date?: string;
+  vote_average?: number;
+  popularity?: number;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+// TMDB's numeric show statuses
+const SHOW_STATUSES: Record<NonNullable<DiscoverFilterQuery['status']>, number> = {
+  returning: 0,
+  ended: 3,
+  cancelled: 4,
+};
+
+// Ratings from only a handful of votes would crowd out well known titles when sorting by rating
+const MIN_VOTES_FOR_RATING_SORT = 50;
+
+function toIdList(ids: string | undefined): string | undefined {
+  return ids?.split(',').join('|');
+}
+
+function toSortBy(showType: DiscoverFilterQuery['showType'], sortBy: DiscoverFilterQuery['sortBy'], order: string) {
+  const isMovie = showType === 'movie';
+  const fields: Record<DiscoverFilterQuery['sortBy'], string> = {
+    popularity: 'popularity',
+    rating: 'vote_average',
+    releaseDate: isMovie ? 'primary_release_date' : 'first_air_date',
+    title: isMovie ? 'title' : 'name',
+  };
+  return `${fields[sortBy]}.${order}`;
+}
+
+/**
+ * Translate discover filters to TMDB discover parameters. Lists of genres, networks and services match titles with
+ * any of them. Titles sort ascending by title and descending otherwise unless an order is given
+ */
+export function buildDiscoverParams(filters: DiscoverFilterQuery): DiscoverParams {
+  const isMovie = filters.showType === 'movie';
+  const sortBy = filters.sortBy ?? 'popularity';
+  const order = filters.sortOrder ?? (sortBy === 'title' ? 'asc' : 'desc');
+  const dateField = isMovie ? 'primary_release_date' : 'first_air_date';
+  const params: Record<string, string | number | undefined> = {
+    page: Number(filters.page ?? 1),
+    sort_by: toSortBy(filters.showType, sortBy, order),
+    with_genres: toIdList(filters.genres),
+    with_networks: isMovie ? undefined : toIdList(filters.networks),
+    with_watch_providers: toIdList(filters.services),
+    watch_region: filters.services ? (filters.region ?? 'US') : undefined,
+    with_original_language: filters.language,
+    'with_runtime.gte': filters.runtimeMin === undefined ? undefined : Number(filters.runtimeMin),
+    'with_runtime.lte': filters.runtimeMax === undefined ? undefined : Number(filters.runtimeMax),
+    'vote_average.gte': filters.minRating === undefined ? undefined : Number(filters.minRating),
+    'vote_count.gte': sortBy === 'rating' ? MIN_VOTES_FOR_RATING_SORT : undefined,
+    [`${dateField}.gte`]: filters.releasedFrom,
+    [`${dateField}.lte`]: filters.releasedTo,
+    with_status: !isMovie && filters.status ? SHOW_STATUSES[filters.status] : undefined,
+  };
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as DiscoverParams;
+}
+
+/**
+ * Convert a TMDB discover result to the content shape of the other discover endpoints
+ */
+export function toDiscoverContent(result: TMDBDiscoverResult) {
+  return {
+    id: String(result.id),
+    title: result.title ?? result.name ?? '',
+    overview: result.overview ?? '',
+    release_date: result.release_date ?? result.first_air_date ?? null,
+    vote_average: result.vote_average ?? 0,
+    popularity: result.popularity ?? 0,
+    poster_path: result.poster_path ?? null,
+    backdrop_path: result.backdrop_path ?? null,
+    genre_ids: result.genre_ids ?? [],
+    original_language: result.original_language ?? null,
+  };
+}
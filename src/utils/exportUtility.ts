@@ -0,0 +1,197 @@
+import { EpisodeStatusExport, NotificationDismissalExport } from '../db/exportDb';
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface ExportAccount {
+  id: number;
+  name: string;
+  email: string;
+  image?: string;
+  defaultProfileId?: number;
+}
+
+export interface ExportProfile {
+  id: number;
+  name: string;
+  image?: string;
+}
+
+export interface ExportShow {
+  show_id: number;
+  tmdb_id: number;
+  title: string;
+  watchStatus: string;
+}
+
+export interface ExportMovie {
+  movie_id: number;
+  tmdb_id: number;
+  title: string;
+  watchStatus: string;
+}
+
+/**
+ * Turns the parts of an account export into chunks of output, in the order they are read:
+ * the account, then each profile followed by its episode statuses in batches, then the
+ * notification dismissals
+ */
+export interface ExportFormatter {
+  readonly contentType: string;
+  readonly extension: string;
+  start(account: ExportAccount, exportedAt: Date): string;
+  profile(profile: ExportProfile, shows: ExportShow[], movies: ExportMovie[]): string;
+  episodes(profile: ExportProfile, episodes: EpisodeStatusExport[]): string;
+  endProfile(): string;
+  end(dismissals: NotificationDismissalExport[]): string;
+}
+
+export const CSV_COLUMNS = [
+  'record_type',
+  'profile_id',
+  'id',
+  'tmdb_id',
+  'name',
+  'detail',
+  'season_number',
+  'episode_number',
+  'status',
+];
+
+type CsvValue = string | number | null | undefined;
+
+/**
+ * Format a value as a CSV field, quoting it when it holds a comma, quote or line break
+ */
+export function toCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(values: Record<string, CsvValue>): string {
+  return CSV_COLUMNS.map((column) => toCsvField(values[column])).join(',') + '\n';
+}
+
+/**
+ * Writes the export as a single JSON document
+ */
+export class JsonExportFormatter implements ExportFormatter {
+  readonly contentType = 'application/json';
+  readonly extension = 'json';
+  private profileCount = 0;
+  private episodeCount = 0;
+
+  start(account: ExportAccount, exportedAt: Date): string {
+    const { id, name, email, image, defaultProfileId } = account;
+    const header = JSON.stringify({ exportedAt, account: { id, name, email, image, defaultProfileId } });
+    return `${header.slice(0, -1)},"profiles":[`;
+  }
+
+  profile(profile: ExportProfile, shows: ExportShow[], movies: ExportMovie[]): string {
+    const separator = this.profileCount++ > 0 ? ',' : '';
+    this.episodeCount = 0;
+    const { id, name, image } = profile;
+    const body = JSON.stringify({ profile: { id, name, image }, shows, movies });
+    return `${separator}${body.slice(0, -1)},"episodes":[`;
+  }
+
+  episodes(_profile: ExportProfile, episodes: EpisodeStatusExport[]): string {
+    if (episodes.length === 0) {
+      return '';
+    }
+    const separator = this.episodeCount > 0 ? ',' : '';
+    this.episodeCount += episodes.length;
+    return separator + episodes.map((episode) => JSON.stringify(episode)).join(',');
+  }
+
+  endProfile(): string {
+    return ']}';
+  }
+
+  end(dismissals: NotificationDismissalExport[]): string {
+    return `],"notificationDismissals":${JSON.stringify(dismissals)}}`;
+  }
+}
+
+/**
+ * Writes the export as one CSV table, each row tagged with the kind of record it holds
+ */
+export class CsvExportFormatter implements ExportFormatter {
+  readonly contentType = 'text/csv; charset=utf-8';
+  readonly extension = 'csv';
+
+  start(account: ExportAccount): string {
+    return (
+      CSV_COLUMNS.join(',') +
+      '\n' +
+      toCsvRow({ record_type: 'account', id: account.id, name: account.name, detail: account.email })
+    );
+  }
+
+  profile(profile: ExportProfile, shows: ExportShow[], movies: ExportMovie[]): string {
+    const rows = [toCsvRow({ record_type: 'profile', profile_id: profile.id, id: profile.id, name: profile.name })];
+    for (const show of shows) {
+      rows.push(
+        toCsvRow({
+          record_type: 'show',
+          profile_id: profile.id,
+          id: show.show_id,
+          tmdb_id: show.tmdb_id,
+          name: show.title,
+          status: show.watchStatus,
+        }),
+      );
+    }
+    for (const movie of movies) {
+      rows.push(
+        toCsvRow({
+          record_type: 'movie',
+          profile_id: profile.id,
+          id: movie.movie_id,
+          tmdb_id: movie.tmdb_id,
+          name: movie.title,
+          status: movie.watchStatus,
+        }),
+      );
+    }
+    return rows.join('');
+  }
+
+  episodes(profile: ExportProfile, episodes: EpisodeStatusExport[]): string {
+    return episodes
+      .map((episode) =>
+        toCsvRow({
+          record_type: 'episode',
+          profile_id: profile.id,
+          id: episode.episodeId,
+          name: episode.title,
+          detail: episode.showTitle,
+          season_number: episode.seasonNumber,
+          episode_number: episode.episodeNumber,
+          status: episode.status,
+        }),
+      )
+      .join('');
+  }
+
+  endProfile(): string {
+    return '';
+  }
+
+  end(dismissals: NotificationDismissalExport[]): string {
+    return dismissals
+      .map((dismissal) =>
+        toCsvRow({ record_type: 'notification_dismissal', id: dismissal.notificationId, detail: dismissal.message }),
+      )
+      .join('');
+  }
+}
+
+/**
+ * Create the formatter for an export format
+ */
+export function createExportFormatter(format: ExportFormat): ExportFormatter {
+  return format === 'csv' ? new CsvExportFormatter() : new JsonExportFormatter();
+}
@@ -0,0 +1,322 @@
+export type ImportSource = 'trakt' | 'tvtime' | 'letterboxd';
+export type ImportMediaType = 'show' | 'movie';
+
+export interface EpisodePosition {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+/**
+ * An episode the profile watched, with when it was first watched (ISO 8601) when the file says
+ */
+export interface WatchedEpisode extends EpisodePosition {
+  watchedAt?: string;
+}
+
+/**
+ * A show or movie read from an import file, with everything the file says the profile watched
+ */
+export interface ImportItem {
+  type: ImportMediaType;
+  title: string;
+  year: number | null;
+  tmdbId: number | null;
+  watched: boolean;
+  watchedAt?: string;
+  episodes: WatchedEpisode[];
+}
+
+export interface MatchCandidate {
+  tmdbId: number;
+  title: string;
+  year: number | null;
+}
+
+export type MatchResult =
+  | { outcome: 'matched'; candidate: MatchCandidate }
+  | { outcome: 'unmatched' }
+  | { outcome: 'ambiguous'; candidates: MatchCandidate[] };
+
+const MAX_AMBIGUOUS_CANDIDATES = 5;
+
+/**
+ * Parse CSV content into one record per row, keyed by the (trimmed) header of each column
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((values) => values.some((value) => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((column) => column.trim());
+  return records.map((values) =>
+    Object.fromEntries(columns.map((column, index) => [column, (values[index] ?? '').trim()])),
+  );
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toTimestamp(value: unknown): string | undefined {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function earliest(first?: string, second?: string): string | undefined {
+  if (!first || !second) {
+    return first ?? second;
+  }
+  return first < second ? first : second;
+}
+
+function itemKey(item: Pick<ImportItem, 'type' | 'title' | 'year' | 'tmdbId'>): string {
+  return item.tmdbId
+    ? `${item.type}:tmdb:${item.tmdbId}`
+    : `${item.type}:${normalizeTitle(item.title)}:${item.year ?? ''}`;
+}
+
+/**
+ * Collects import entries, merging repeated entries for the same show or movie and keeping the first time each was
+ * watched
+ */
+class ImportItemCollector {
+  private items = new Map<string, ImportItem>();
+
+  add(entry: Omit<ImportItem, 'episodes'> & { episodes?: WatchedEpisode[] }) {
+    const key = itemKey(entry);
+    const existing = this.items.get(key);
+    if (!existing) {
+      this.items.set(key, { ...entry, episodes: (entry.episodes ?? []).map((episode) => ({ ...episode })) });
+      return;
+    }
+    existing.watched = existing.watched || entry.watched;
+    existing.watchedAt = earliest(existing.watchedAt, entry.watchedAt);
+    for (const episode of entry.episodes ?? []) {
+      const known = existing.episodes.find(
+        ({ seasonNumber, episodeNumber }) =>
+          seasonNumber === episode.seasonNumber && episodeNumber === episode.episodeNumber,
+      );
+      if (known) {
+        known.watchedAt = earliest(known.watchedAt, episode.watchedAt);
+      } else {
+        existing.episodes.push({ ...episode });
+      }
+    }
+  }
+
+  list(): ImportItem[] {
+    return [...this.items.values()];
+  }
+}
+
+interface TraktMedia {
+  title?: string;
+  year?: number;
+  ids?: { tmdb?: number | null };
+}
+
+interface TraktEntry {
+  type?: string;
+  watched_at?: string;
+  last_watched_at?: string;
+  plays?: number;
+  show?: TraktMedia;
+  movie?: TraktMedia;
+  episode?: { season?: number; number?: number };
+  seasons?: { number?: number; episodes?: { number?: number; last_watched_at?: string }[] }[];
+}
+
+/**
+ * Parse a Trakt JSON export: the history, watched shows, watched movies or watchlist file.
+ * Trakt includes TMDB ids, so its entries usually need no title matching, and the time each
+ * episode or movie was watched is kept for the watch history
+ */
+export function parseTraktExport(content: string): ImportItem[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content);
+  } catch {
+    throw new Error('The Trakt export is not valid JSON');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('The Trakt export must be a JSON array');
+  }
+
+  const collector = new ImportItemCollector();
+  for (const entry of entries as TraktEntry[]) {
+    const media = entry.show ?? entry.movie;
+    if (!media?.title) {
+      continue;
+    }
+    const wasWatched = Boolean(entry.watched_at || entry.last_watched_at || entry.plays);
+    const watchedAt = toTimestamp(entry.watched_at ?? entry.last_watched_at);
+    const base = {
+      title: media.title,
+      year: toNumber(media.year),
+      tmdbId: toNumber(media.ids?.tmdb),
+    };
+
+    if (entry.show) {
+      const episodes: WatchedEpisode[] = [];
+      if (entry.episode && wasWatched) {
+        const seasonNumber = toNumber(entry.episode.season);
+        const episodeNumber = toNumber(entry.episode.number);
+        if (seasonNumber !== null && episodeNumber !== null) {
+          episodes.push({ seasonNumber, episodeNumber, watchedAt });
+        }
+      }
+      for (const season of entry.seasons ?? []) {
+        const seasonNumber = toNumber(season.number);
+        for (const episode of season.episodes ?? []) {
+          const episodeNumber = toNumber(episode.number);
+          if (seasonNumber !== null && episodeNumber !== null) {
+            episodes.push({
+              seasonNumber,
+              episodeNumber,
+              watchedAt: toTimestamp(episode.last_watched_at) ?? watchedAt,
+            });
+          }
+        }
+      }
+      collector.add({ ...base, type: 'show', watched: false, episodes });
+    } else {
+      collector.add({ ...base, type: 'movie', watched: wasWatched, watchedAt: wasWatched ? watchedAt : undefined });
+    }
+  }
+  return collector.list();
+}
+
+/**
+ * Parse a TV Time CSV export of followed shows or watched episodes, rows with a season and
+ * episode number are treated as watched episodes
+ */
+export function parseTvTimeExport(content: string): ImportItem[] {
+  const records = parseCsv(content);
+  if (records.length > 0 && !('tv_show_name' in records[0]) && !('series_name' in records[0])) {
+    throw new Error('The TV Time export must have a tv_show_name or series_name column');
+  }
+
+  const collector = new ImportItemCollector();
+  for (const record of records) {
+    const title = record.tv_show_name || record.series_name;
+    if (!title) {
+      continue;
+    }
+    const seasonNumber = toNumber(record.episode_season_number ?? record.season_number);
+    const episodeNumber = toNumber(record.episode_number);
+    collector.add({
+      type: 'show',
+      title,
+      year: null,
+      tmdbId: null,
+      watched: false,
+      episodes: seasonNumber !== null && episodeNumber !== null ? [{ seasonNumber, episodeNumber }] : [],
+    });
+  }
+  return collector.list();
+}
+
+/**
+ * Parse a Letterboxd CSV export of watched films or the diary, every film is treated as watched
+ */
+export function parseLetterboxdExport(content: string): ImportItem[] {
+  const records = parseCsv(content);
+  if (records.length > 0 && !('Name' in records[0])) {
+    throw new Error('The Letterboxd export must have a Name column');
+  }
+
+  const collector = new ImportItemCollector();
+  for (const record of records) {
+    if (!record.Name) {
+      continue;
+    }
+    collector.add({ type: 'movie', title: record.Name, year: toNumber(record.Year), tmdbId: null, watched: true });
+  }
+  return collector.list();
+}
+
+/**
+ * Parse an import file from one of the supported sources
+ */
+export function parseImportFile(source: ImportSource, content: string): ImportItem[] {
+  switch (source) {
+    case 'trakt':
+      return parseTraktExport(content);
+    case 'tvtime':
+      return parseTvTimeExport(content);
+    case 'letterboxd':
+      return parseLetterboxdExport(content);
+  }
+}
+
+/**
+ * Normalize a title for comparison: lower case, without accents, punctuation or a leading article
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+/**
+ * Match an imported title against search results: a single result with the same title (and
+ * year, when known) is a match, no results at all is unmatched, anything else is ambiguous
+ */
+export function matchTitle(title: string, year: number | null, candidates: MatchCandidate[]): MatchResult {
+  if (candidates.length === 0) {
+    return { outcome: 'unmatched' };
+  }
+  const normalized = normalizeTitle(title);
+  const sameTitle = candidates.filter((candidate) => normalizeTitle(candidate.title) === normalized);
+  const exact = year === null ? sameTitle : sameTitle.filter((candidate) => candidate.year === year);
+  if (exact.length === 1) {
+    return { outcome: 'matched', candidate: exact[0] };
+  }
+  const shortlist = exact.length > 1 ? exact : sameTitle.length > 0 ? sameTitle : candidates;
+  return { outcome: 'ambiguous', candidates: shortlist.slice(0, MAX_AMBIGUOUS_CANDIDATES) };
+}
@@ -0,0 +1,8 @@
+/**
+ * Keep only the requested fields of an item. The id field is always kept so the client can match items up, and
+ * unknown field names are ignored
+ */
+export function selectFields<T extends object>(item: T, fields: string[], idKey: keyof T): Partial<T> {
+  const keys = new Set<keyof T>([idKey, ...(fields as (keyof T)[])]);
+  return Object.fromEntries(Object.entries(item).filter(([key]) => keys.has(key as keyof T))) as Partial<T>;
+}
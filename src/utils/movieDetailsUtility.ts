@@ -0,0 +1,117 @@
+export interface TMDBCastMember {
+  id: number;
+  name: string;
+  character?: string;
+  profile_path?: string | null;
+  order?: number;
+}
+
+export interface TMDBCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department?: string;
+  profile_path?: string | null;
+}
+
+export interface TMDBWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path?: string | null;
+  display_priority?: number;
+}
+
+export interface TMDBRegionWatchProviders {
+  link?: string;
+  flatrate?: TMDBWatchProvider[];
+  rent?: TMDBWatchProvider[];
+  buy?: TMDBWatchProvider[];
+}
+
+export interface CastMember {
+  personId: number;
+  name: string;
+  character: string | null;
+  profileImage: string | null;
+  order: number;
+}
+
+export interface CrewMember {
+  personId: number;
+  name: string;
+  job: string;
+  department: string | null;
+  profileImage: string | null;
+}
+
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logo: string | null;
+}
+
+export interface WatchProviders {
+  region: string;
+  link: string | null;
+  flatrate: WatchProvider[];
+  rent: WatchProvider[];
+  buy: WatchProvider[];
+}
+
+const MAX_CAST_MEMBERS = 20;
+const KEY_CREW_JOBS = ['Director', 'Screenplay', 'Writer', 'Novel', 'Producer', 'Original Music Composer'];
+
+/**
+ * Get the top billed cast of a movie in billing order
+ */
+export function toCastMembers(cast: TMDBCastMember[]): CastMember[] {
+  return [...cast]
+    .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+    .slice(0, MAX_CAST_MEMBERS)
+    .map((member, index) => ({
+      personId: member.id,
+      name: member.name,
+      character: member.character || null,
+      profileImage: member.profile_path ?? null,
+      order: member.order ?? index,
+    }));
+}
+
+/**
+ * Get the crew members with a key job (director, writers, producers and composer), ordered by job
+ */
+export function toCrewMembers(crew: TMDBCrewMember[]): CrewMember[] {
+  return crew
+    .filter((member) => KEY_CREW_JOBS.includes(member.job))
+    .sort((a, b) => KEY_CREW_JOBS.indexOf(a.job) - KEY_CREW_JOBS.indexOf(b.job))
+    .map((member) => ({
+      personId: member.id,
+      name: member.name,
+      job: member.job,
+      department: member.department ?? null,
+      profileImage: member.profile_path ?? null,
+    }));
+}
+
+function toWatchProviderList(providers: TMDBWatchProvider[] = []): WatchProvider[] {
+  return [...providers]
+    .sort((a, b) => (a.display_priority ?? 0) - (b.display_priority ?? 0))
+    .map((provider) => ({ id: provider.provider_id, name: provider.provider_name, logo: provider.logo_path ?? null }));
+}
+
+/**
+ * Get the streaming, rental and purchase providers of a movie for a region from TMDB's results for every region
+ */
+export function toWatchProviders(
+  results: Record<string, TMDBRegionWatchProviders> | undefined,
+  region: string,
+): WatchProviders {
+  const providers = results?.[region] ?? {};
+  return {
+    region,
+    link: providers.link ?? null,
+    flatrate: toWatchProviderList(providers.flatrate),
+    rent: toWatchProviderList(providers.rent),
+    buy: toWatchProviderList(providers.buy),
+  };
+}
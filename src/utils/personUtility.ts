@@ -0,0 +1,72 @@
+import { CreditContentType, KnownCredit } from '../db/peopleDb';
+
+export interface TMDBPersonCredit {
+  id: number;
+  media_type: 'tv' | 'movie';
+  name?: string;
+  title?: string;
+  character?: string;
+  job?: string;
+  first_air_date?: string;
+  release_date?: string;
+  poster_path?: string | null;
+  popularity?: number;
+}
+
+export interface PersonCredit {
+  contentType: CreditContentType;
+  tmdbId: number;
+  title: string;
+  roles: string[];
+  releaseDate: string | null;
+  posterImage: string | null;
+  popularity: number;
+}
+
+/**
+ * Combine a person's cast and crew credits into one entry per show or movie with every role they had in it,
+ * newest first with unreleased and undated credits at the top
+ */
+export function toPersonCredits(cast: TMDBPersonCredit[], crew: TMDBPersonCredit[]): PersonCredit[] {
+  const credits = new Map<string, PersonCredit>();
+  for (const credit of [...cast, ...crew]) {
+    if (credit.media_type !== 'tv' && credit.media_type !== 'movie') {
+      continue;
+    }
+    const contentType: CreditContentType = credit.media_type === 'tv' ? 'show' : 'movie';
+    const key = `${contentType}:${credit.id}`;
+    const entry = credits.get(key) ?? {
+      contentType,
+      tmdbId: credit.id,
+      title: credit.name ?? credit.title ?? '',
+      roles: [],
+      releaseDate: (contentType === 'show' ? credit.first_air_date : credit.release_date) || null,
+      posterImage: credit.poster_path ?? null,
+      popularity: credit.popularity ?? 0,
+    };
+    const role = credit.character || credit.job;
+    if (role && !entry.roles.includes(role)) {
+      entry.roles.push(role);
+    }
+    credits.set(key, entry);
+  }
+  return [...credits.values()].sort((a, b) =>
+    (b.releaseDate ?? '9999-12-31').localeCompare(a.releaseDate ?? '9999-12-31'),
+  );
+}
+
+/**
+ * Get the credits that are not among the known credits
+ */
+export function findNewCredits(credits: PersonCredit[], knownCredits: KnownCredit[]): PersonCredit[] {
+  const known = new Set(knownCredits.map((credit) => `${credit.contentType}:${credit.tmdbId}`));
+  return credits.filter((credit) => !known.has(`${credit.contentType}:${credit.tmdbId}`));
+}
+
+/**
+ * Describe a newly announced credit of a followed person
+ */
+export function formatNewCreditMessage(personName: string, credit: PersonCredit): string {
+  const release = credit.releaseDate ? ` (${credit.releaseDate})` : '';
+  return `${personName} has a new ${credit.contentType} announced: ${credit.title}${release}`;
+}
@@ -0,0 +1,206 @@
+import {
+  AiringEpisode,
+  ContentFollower,
+  MovieService,
+  ProfileCategoryOptOut,
+  ProfileNotificationCategory,
+  ProfileNotificationPreference,
+  ProfileRecipient,
+  ReleasingMovie,
+  ShowStatusChange,
+  UnseenSeason,
+} from '../db/profileNotificationsDb';
+
+export const PROFILE_NOTIFICATION_CATEGORIES: ProfileNotificationCategory[] = [
+  'newEpisodes',
+  'newSeasons',
+  'movieReleases',
+  'showEndings',
+];
+
+// TMDB statuses of shows that will not get any more episodes
+const ENDING_STATUSES = ['Ended', 'Canceled'];
+
+export type ProfileNotificationPreferences = Record<ProfileNotificationCategory, boolean>;
+
+export interface ProfileNotificationCandidate extends ProfileRecipient {
+  category: ProfileNotificationCategory;
+  eventKey: string;
+  message: string;
+  type: 'tv' | 'movie';
+}
+
+/**
+ * Build a profile's preference for every notification category, categories without a saved preference are enabled
+ */
+export function toPreferences(saved: ProfileNotificationPreference[]): ProfileNotificationPreferences {
+  const preferences = Object.fromEntries(
+    PROFILE_NOTIFICATION_CATEGORIES.map((category) => [category, true]),
+  ) as ProfileNotificationPreferences;
+  for (const { category, enabled } of saved) {
+    if (category in preferences) {
+      preferences[category] = enabled;
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Build one notification per profile and show for the episodes airing today, naming the episode when there is
+ * only one
+ */
+export function buildEpisodeNotifications(episodes: AiringEpisode[]): ProfileNotificationCandidate[] {
+  const groups = new Map<string, AiringEpisode[]>();
+  for (const episode of episodes) {
+    const key = `${episode.profileId}:${episode.showId}`;
+    groups.set(key, [...(groups.get(key) ?? []), episode]);
+  }
+
+  return [...groups.values()].map((group) => {
+    const [first] = group;
+    const episodeTitle = first.episodeTitle ? ` ${first.episodeTitle}` : '';
+    return {
+      accountId: first.accountId,
+      profileId: first.profileId,
+      profileName: first.profileName,
+      category: 'newEpisodes',
+      eventKey: `newEpisodes:${first.showId}:${first.airDate}`,
+      message:
+        group.length === 1
+          ? `A new episode of ${first.showTitle} airs today: S${first.seasonNumber}E${first.episodeNumber}${episodeTitle}`
+          : `${group.length} new episodes of ${first.showTitle} air today`,
+      type: 'tv',
+    };
+  });
+}
+
+/**
+ * Build the notifications for newly announced seasons, one for each upcoming season and each profile that has its
+ * show as a favorite
+ */
+export function buildSeasonNotifications(
+  seasons: UnseenSeason[],
+  followers: ContentFollower[],
+): ProfileNotificationCandidate[] {
+  return seasons
+    .filter((season) => season.upcoming)
+    .flatMap((season) => {
+      const premiere = season.releaseDate ? `, premiering ${season.releaseDate}` : '';
+      return followers
+        .filter((follower) => follower.contentId === season.showId)
+        .map((follower) => ({
+          accountId: follower.accountId,
+          profileId: follower.profileId,
+          profileName: follower.profileName,
+          category: 'newSeasons' as const,
+          eventKey: `newSeasons:${season.seasonId}`,
+          message: `Season ${season.seasonNumber} of ${season.showTitle} has been announced${premiere}`,
+          type: 'tv' as const,
+        }));
+    });
+}
+
+/**
+ * Build the notification for a favorited movie releasing today
+ */
+export function buildMovieReleaseNotification(movie: ReleasingMovie): ProfileNotificationCandidate {
+  return {
+    accountId: movie.accountId,
+    profileId: movie.profileId,
+    profileName: movie.profileName,
+    category: 'movieReleases',
+    eventKey: `movieReleases:release:${movie.movieId}`,
+    message: `${movie.title} is released today`,
+    type: 'movie',
+  };
+}
+
+/**
+ * Build the notifications for movies arriving on streaming services, one for each profile that has the movie as
+ * a favorite and each service it arrived on
+ */
+export function buildStreamingArrivalNotifications(
+  services: MovieService[],
+  followers: ContentFollower[],
+): ProfileNotificationCandidate[] {
+  return services.flatMap((service) =>
+    followers
+      .filter((follower) => follower.contentId === service.movieId)
+      .map((follower) => ({
+        accountId: follower.accountId,
+        profileId: follower.profileId,
+        profileName: follower.profileName,
+        category: 'movieReleases' as const,
+        eventKey: `movieReleases:streaming:${service.movieId}:${service.streamingServiceId}`,
+        message: `${service.title} is now streaming on ${service.serviceName}`,
+        type: 'movie' as const,
+      })),
+  );
+}
+
+/**
+ * Find the shows that have just ended or been cancelled, shows seen for the first time are never included
+ */
+export function findEndedShows(changes: ShowStatusChange[]): ShowStatusChange[] {
+  return changes.filter(
+    (change) => change.isKnown && change.status !== null && ENDING_STATUSES.includes(change.status),
+  );
+}
+
+/**
+ * Build the notifications for shows that have ended or been cancelled, one for each profile that has the show as
+ * a favorite
+ */
+export function buildShowEndingNotifications(
+  endedShows: ShowStatusChange[],
+  followers: ContentFollower[],
+): ProfileNotificationCandidate[] {
+  return endedShows.flatMap((show) =>
+    followers
+      .filter((follower) => follower.contentId === show.showId)
+      .map((follower) => ({
+        accountId: follower.accountId,
+        profileId: follower.profileId,
+        profileName: follower.profileName,
+        category: 'showEndings' as const,
+        eventKey: `showEndings:${show.showId}:${show.status}`,
+        message: show.status === 'Canceled' ? `${show.title} has been cancelled` : `${show.title} has ended`,
+        type: 'tv' as const,
+      })),
+  );
+}
+
+/**
+ * Drop the notifications in categories their profile has opted out of
+ */
+export function filterOptedOut(
+  candidates: ProfileNotificationCandidate[],
+  optOuts: ProfileCategoryOptOut[],
+): ProfileNotificationCandidate[] {
+  const optedOut = new Set(optOuts.map(({ profileId, category }) => `${profileId}:${category}`));
+  return candidates.filter(({ profileId, category }) => !optedOut.has(`${profileId}:${category}`));
+}
+
+/**
+ * Group the notifications for the same event on the same account, so profiles sharing an account share one
+ * notification
+ */
+export function groupByAccountEvent(candidates: ProfileNotificationCandidate[]): ProfileNotificationCandidate[][] {
+  const groups = new Map<string, ProfileNotificationCandidate[]>();
+  for (const candidate of candidates) {
+    const key = `${candidate.accountId}:${candidate.eventKey}`;
+    groups.set(key, [...(groups.get(key) ?? []), candidate]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Add the names of the profiles a notification is for to its message
+ */
+export function nameProfiles(message: string, profileNames: string[]): string {
+  const names =
+    profileNames.length > 1
+      ? `${profileNames.slice(0, -1).join(', ')} and ${profileNames[profileNames.length - 1]}`
+      : profileNames.join('');
+  return `${message} (for ${names})`;
+}
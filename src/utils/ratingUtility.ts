@@ -0,0 +1,93 @@
+import { Rating, RatingCount } from '../db/ratingsDb';
+
+export type RatingScale = 'points' | 'stars';
+
+export interface ProfileRating {
+  rating: number; // 1-10
+  stars: number; // 0.5-5
+  review: string | null;
+  updatedAt: Date;
+}
+
+export interface RatingDistribution {
+  ratedCount: number;
+  averageRating: number | null;
+  distribution: RatingCount[];
+}
+
+/**
+ * Convert a rating on either scale to the stored 1-10 rating, half stars count as one point
+ */
+export function toStoredRating(rating: number, scale: RatingScale): number {
+  return scale === 'stars' ? Math.round(rating * 2) : rating;
+}
+
+/**
+ * Build the rating returned alongside a show, season, episode or movie, on both scales
+ */
+export function toProfileRating(rating: Rating): ProfileRating {
+  return {
+    rating: rating.rating,
+    stars: rating.rating / 2,
+    review: rating.review,
+    updatedAt: rating.updatedAt,
+  };
+}
+
+/**
+ * Key ratings of one type of content by content id
+ */
+export function toRatingMap(ratings: Rating[], contentType: Rating['contentType']): Map<number, ProfileRating> {
+  return new Map(
+    ratings
+      .filter((rating) => rating.contentType === contentType)
+      .map((rating) => [rating.contentId, toProfileRating(rating)]),
+  );
+}
+
+/**
+ * Add the profile's rating to each item (matched by the given id field), unrated items get null
+ */
+export function withProfileRatings<K extends string, T extends Record<K, number>>(
+  items: T[],
+  idKey: K,
+  ratings: Map<number, ProfileRating>,
+): (T & { profileRating: ProfileRating | null })[] {
+  return items.map((item) => ({ ...item, profileRating: ratings.get(item[idKey]) ?? null }));
+}
+
+/**
+ * Add the profile's rating to each season (by `season_id`) and, when the season includes its episodes,
+ * to each episode (by `episode_id`)
+ */
+export function withSeasonRatings<T extends { season_id: number; episodes?: { episode_id: number }[] }>(
+  seasons: T[],
+  seasonRatings: Map<number, ProfileRating>,
+  episodeRatings: Map<number, ProfileRating>,
+) {
+  return seasons.map((season) => ({
+    ...season,
+    profileRating: seasonRatings.get(season.season_id) ?? null,
+    ...(season.episodes && { episodes: withProfileRatings(season.episodes, 'episode_id', episodeRatings) }),
+  }));
+}
+
+/**
+ * Build the count of each rating from 1 to 10, including ratings never given, with the overall
+ * average rounded to one decimal place
+ */
+export function buildRatingDistribution(counts: RatingCount[]): RatingDistribution {
+  const countsByRating = new Map(counts.map(({ rating, count }) => [rating, count]));
+  const distribution = Array.from({ length: 10 }, (_, index) => ({
+    rating: index + 1,
+    count: countsByRating.get(index + 1) ?? 0,
+  }));
+  const ratedCount = distribution.reduce((sum, { count }) => sum + count, 0);
+  const ratingTotal = distribution.reduce((sum, { rating, count }) => sum + rating * count, 0);
+
+  return {
+    ratedCount,
+    averageRating: ratedCount > 0 ? Math.round((ratingTotal / ratedCount) * 10) / 10 : null,
+    distribution,
+  };
+}
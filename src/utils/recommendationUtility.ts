@@ -0,0 +1,133 @@
+import { RecommendationContentType, RecommendationSeed } from '../db/recommendationsDb';
+
+export interface TMDBRecommendation {
+  id: number;
+  name?: string;
+  title?: string;
+  overview?: string;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  first_air_date?: string;
+  release_date?: string;
+  vote_average?: number;
+  popularity?: number;
+}
+
+export interface SeedRecommendations {
+  seed: RecommendationSeed;
+  weight: number;
+  results: TMDBRecommendation[];
+}
+
+export interface RecommendationSource {
+  contentType: RecommendationContentType;
+  tmdbId: number;
+  title: string;
+}
+
+export interface Recommendation {
+  contentType: RecommendationContentType;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  posterImage: string | null;
+  backdropImage: string | null;
+  releaseDate: string | null;
+  averageRating: number | null;
+  popularity: number | null;
+  score: number;
+  reason: string;
+  basedOn: RecommendationSource[];
+}
+
+const STATUS_WEIGHTS: Record<string, number> = {
+  WATCHED: 1,
+  WATCHING: 1.1,
+  UP_TO_DATE: 1.2,
+  NOT_WATCHED: 0.4,
+};
+const DEFAULT_STATUS_WEIGHT = 0.5;
+
+/**
+ * Weight how much a favorited show or movie should count towards recommendations. Titles the profile is
+ * watching or has finished count more than ones it has not started; a rating scales the weight from 0 (rated 1)
+ * through 1 (rated 5.5) to 2 (rated 10)
+ */
+export function calculateSeedWeight(seed: RecommendationSeed): number {
+  const statusWeight = STATUS_WEIGHTS[seed.status] ?? DEFAULT_STATUS_WEIGHT;
+  const ratingWeight = seed.rating === null ? 1 : (seed.rating - 1) / 4.5;
+  return statusWeight * ratingWeight;
+}
+
+/**
+ * Explain a recommendation by the titles that contributed most to it
+ */
+export function formatRecommendationReason(sources: RecommendationSource[]): string {
+  const titles = sources.slice(0, 2).map((source) => source.title);
+  const others = sources.length - titles.length;
+  const named = titles.join(' and ');
+  return others > 0
+    ? `Because you watched ${named} and ${others} other title${others === 1 ? '' : 's'}`
+    : `Because you watched ${named}`;
+}
+
+/**
+ * Merge the TMDB recommendations of every seed into one ranked list. Each appearance adds the seed's weight,
+ * discounted by how far down TMDB's list it appeared; titles in the excluded sets are dropped and duplicates
+ * are combined, keeping every seed that recommended them
+ */
+export function mergeRecommendations(
+  seedRecommendations: SeedRecommendations[],
+  excludedTMDBIds: Record<RecommendationContentType, Set<number>>,
+  limit: number,
+): Recommendation[] {
+  const merged = new Map<
+    string,
+    {
+      result: TMDBRecommendation;
+      contentType: RecommendationContentType;
+      score: number;
+      sources: Map<RecommendationSource, number>;
+    }
+  >();
+
+  for (const { seed, weight, results } of seedRecommendations) {
+    results.forEach((result, index) => {
+      if (excludedTMDBIds[seed.contentType].has(result.id)) {
+        return;
+      }
+      const key = `${seed.contentType}:${result.id}`;
+      const contribution = weight / (1 + index / 10);
+      const entry = merged.get(key) ?? {
+        result,
+        contentType: seed.contentType,
+        score: 0,
+        sources: new Map<RecommendationSource, number>(),
+      };
+      entry.score += contribution;
+      entry.sources.set({ contentType: seed.contentType, tmdbId: seed.tmdbId, title: seed.title }, contribution);
+      merged.set(key, entry);
+    });
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score || (b.result.popularity ?? 0) - (a.result.popularity ?? 0))
+    .slice(0, limit)
+    .map(({ result, contentType, score, sources }) => {
+      const basedOn = [...sources.entries()].sort((a, b) => b[1] - a[1]).map(([source]) => source);
+      return {
+        contentType,
+        tmdbId: result.id,
+        title: result.name ?? result.title ?? '',
+        description: result.overview || null,
+        posterImage: result.poster_path ?? null,
+        backdropImage: result.backdrop_path ?? null,
+        releaseDate: (contentType === 'show' ? result.first_air_date : result.release_date) || null,
+        averageRating: result.vote_average ?? null,
+        popularity: result.popularity ?? null,
+        score: Math.round(score * 100) / 100,
+        reason: formatRecommendationReason(basedOn),
+        basedOn,
+      };
+    });
+}
@@ -0,0 +1,69 @@
+import { toDateKey } from './activityUtility';
+import { addDays } from './dateUtility';
+
+export interface RuntimeTotals {
+  totalRuntime: number;
+  watchedRuntime: number;
+  remainingRuntime: number;
+}
+
+/**
+ * Build runtime totals (in minutes) from the total and watched runtime
+ */
+export function toRuntimeTotals(totalRuntime: number, watchedRuntime: number): RuntimeTotals {
+  return {
+    totalRuntime,
+    watchedRuntime,
+    remainingRuntime: Math.max(totalRuntime - watchedRuntime, 0),
+  };
+}
+
+/**
+ * Add runtime totals together
+ */
+export function sumRuntimeTotals(totals: RuntimeTotals[]): RuntimeTotals {
+  return toRuntimeTotals(
+    totals.reduce((sum, runtime) => sum + runtime.totalRuntime, 0),
+    totals.reduce((sum, runtime) => sum + runtime.watchedRuntime, 0),
+  );
+}
+
+/**
+ * Get the share of the total that has been completed, as a percentage with one decimal place
+ */
+export function calculatePercentComplete(completed: number, total: number): number {
+  if (total <= 0) {
+    return 0;
+  }
+  return Math.round((Math.min(completed, total) / total) * 1000) / 10;
+}
+
+/**
+ * Estimate the day (`YYYY-MM-DD`) the remaining runtime will be finished at a given pace,
+ * or null when there is no pace to go by
+ */
+export function estimateFinishDate(remainingRuntime: number, minutesPerDay: number, today: Date): string | null {
+  if (remainingRuntime <= 0) {
+    return toDateKey(today);
+  }
+  if (minutesPerDay <= 0) {
+    return null;
+  }
+  const daysToFinish = Math.ceil(remainingRuntime / minutesPerDay);
+  return toDateKey(addDays(today, daysToFinish));
+}
+
+/**
+ * Add the runtime totals of each season to the matching season (by `season_id`), seasons without
+ * any aired episodes get zero totals
+ */
+export function withSeasonRuntimes<T extends { season_id: number }>(
+  seasons: T[],
+  seasonRuntimes: (RuntimeTotals & { seasonId: number })[],
+): (T & RuntimeTotals)[] {
+  const runtimesBySeason = new Map(seasonRuntimes.map((runtime) => [runtime.seasonId, runtime]));
+  return seasons.map((season) => {
+    const runtime = runtimesBySeason.get(season.season_id);
+    return { ...season, ...toRuntimeTotals(runtime?.totalRuntime ?? 0, runtime?.watchedRuntime ?? 0) };
+  });
+}
@@ -0,0 +1,117 @@
+export type SearchResultType = 'show' | 'movie' | 'person';
+
+export interface MediaSearchResultLike {
+  id: string | number;
+  title?: string;
+  name?: string;
+  summary?: string;
+  overview?: string;
+  image?: string | null;
+  poster_path?: string | null;
+  premiered?: string;
+  release_date?: string;
+  first_air_date?: string;
+  rating?: number;
+  vote_average?: number;
+  popularity?: number;
+}
+
+export interface PersonSearchResultLike {
+  id: number;
+  name: string;
+  profileImage: string | null;
+  knownForDepartment: string | null;
+  knownFor: string[];
+  popularity: number;
+}
+
+interface BaseSearchResult {
+  tmdbId: number;
+  title: string;
+  image: string | null;
+  popularity: number;
+  inLibrary: boolean;
+}
+
+export interface MediaSearchResult extends BaseSearchResult {
+  type: 'show' | 'movie';
+  description: string | null;
+  releaseDate: string | null;
+  rating: number | null;
+}
+
+export interface PersonSearchResult extends BaseSearchResult {
+  type: 'person';
+  knownForDepartment: string | null;
+  knownFor: string[];
+}
+
+export type SearchResult = MediaSearchResult | PersonSearchResult;
+
+/**
+ * Convert a show or movie search result, which may use TMDB or summarized field names, to a multi-search result
+ */
+export function toMediaSearchResult(type: 'show' | 'movie', result: MediaSearchResultLike): MediaSearchResult {
+  return {
+    type,
+    tmdbId: Number(result.id),
+    title: result.title ?? result.name ?? '',
+    description: result.summary ?? result.overview ?? null,
+    image: result.image ?? result.poster_path ?? null,
+    releaseDate: result.premiered ?? result.release_date ?? result.first_air_date ?? null,
+    rating: result.rating ?? result.vote_average ?? null,
+    popularity: result.popularity ?? 0,
+    inLibrary: false,
+  };
+}
+
+/**
+ * Convert a people search result to a multi-search result
+ */
+export function toPersonSearchResult(result: PersonSearchResultLike): PersonSearchResult {
+  return {
+    type: 'person',
+    tmdbId: result.id,
+    title: result.name,
+    image: result.profileImage,
+    knownForDepartment: result.knownForDepartment,
+    knownFor: result.knownFor,
+    popularity: result.popularity,
+    inLibrary: false,
+  };
+}
+
+/**
+ * Score how closely a title matches the query: 3 for an exact match, 2 when the title starts with the query, 1 when
+ * it contains it and 0 otherwise, ignoring case and punctuation
+ */
+export function scoreTitleMatch(query: string, title: string): number {
+  const normalize = (value: string) =>
+    value
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  const normalizedQuery = normalize(query);
+  const normalizedTitle = normalize(title);
+  if (!normalizedQuery) {
+    return 0;
+  }
+  if (normalizedTitle === normalizedQuery) {
+    return 3;
+  }
+  if (normalizedTitle.startsWith(normalizedQuery)) {
+    return 2;
+  }
+  return normalizedTitle.includes(normalizedQuery) ? 1 : 0;
+}
+
+/**
+ * Rank results of every type into one list, best title match first and then by popularity
+ */
+export function rankSearchResults(query: string, results: SearchResult[]): SearchResult[] {
+  return results
+    .map((result) => ({ result, match: scoreTitleMatch(query, result.title) }))
+    .sort((a, b) => b.match - a.match || b.result.popularity - a.result.popularity)
+    .map(({ result }) => result);
+}
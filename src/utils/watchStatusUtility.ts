@@ -0,0 +1,28 @@
+export type DerivedWatchStatus = 'NOT_WATCHED' | 'WATCHING' | 'WATCHED' | 'UP_TO_DATE';
+
+export interface EpisodeCounts {
+  total: number;
+  aired: number;
+  watched: number;
+}
+
+/**
+ * Derive the watch status of a season or show from the counts of its episodes
+ *
+ * - NOT_WATCHED when nothing has been watched
+ * - WATCHED when every episode has been watched
+ * - UP_TO_DATE when every aired episode has been watched but more are still to come
+ * - WATCHING otherwise
+ */
+export function deriveWatchStatus({ total, aired, watched }: EpisodeCounts): DerivedWatchStatus {
+  if (watched === 0) {
+    return 'NOT_WATCHED';
+  }
+  if (watched >= total) {
+    return 'WATCHED';
+  }
+  if (watched >= aired) {
+    return 'UP_TO_DATE';
+  }
+  return 'WATCHING';
+}
@@ -1,5 +1,20 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
 import { accountService } from '@ajgifford/keepwatching-common-server/services';
-import { editAccount, googleLogin, login, logout, register } from '@controllers/accountController';
+import {
+  cancelAccountDeletion,
+  deleteAccount,
+  editAccount,
+  exportAccount,
+  getAccountDeletion,
+  googleLogin,
+  login,
+  logout,
+  register,
+} from '@controllers/accountController';
+import { accountDeletionService } from '@services/accountDeletionService';
+import { accountExportService } from '@services/accountExportService';
+import { accountRegionService } from '@services/accountRegionService';
+import { PassThrough } from 'stream';
 
 // Mock the external packages
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
@@ -12,6 +27,32 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   },
 }));
 
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@services/accountExportService', () => ({
+  accountExportService: {
+    createExport: jest.fn(),
+  },
+}));
+
+jest.mock('@services/accountRegionService', () => ({
+  accountRegionService: {
+    saveRegion: jest.fn(),
+  },
+}));
+
+jest.mock('@services/accountDeletionService', () => ({
+  accountDeletionService: {
+    requestDeletion: jest.fn(),
+    getPendingDeletion: jest.fn(),
+    cancelDeletion: jest.fn(),
+  },
+}));
+
 jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
   getAccountImage: jest.fn(),
   getPhotoForGoogleAccount: jest.fn(),
@@ -266,7 +307,7 @@ describe('accountController', () => {
 
   describe('editAccount', () => {
     it('should edit account successfully', async () => {
-      req.body = { name: 'Updated Account Name', defaultProfileId: 12 };
+      req.body = { name: 'Updated Account Name', defaultProfileId: 12, region: 'GB' };
       const mockUpdatedAccount = {
         id: 1,
         name: 'Updated Account Name',
@@ -276,14 +317,16 @@ describe('accountController', () => {
       };
 
       (accountService.editAccount as jest.Mock).mockResolvedValue(mockUpdatedAccount);
+      (accountRegionService.saveRegion as jest.Mock).mockResolvedValue('GB');
 
       await editAccount(req, res, next);
 
       expect(accountService.editAccount).toHaveBeenCalledWith(1, 'Updated Account Name', 12);
+      expect(accountRegionService.saveRegion).toHaveBeenCalledWith(1, 'GB');
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Updated account 1',
-        result: mockUpdatedAccount,
+        result: { ...mockUpdatedAccount, region: 'GB' },
       });
       expect(next).not.toHaveBeenCalled();
     });
@@ -296,9 +339,172 @@ describe('accountController', () => {
       await editAccount(req, res, next);
 
       expect(accountService.editAccount).toHaveBeenCalledWith(1, 'Updated Account Name', 12);
+      expect(accountRegionService.saveRegion).not.toHaveBeenCalled();
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('exportAccount', () => {
+    async function* chunks(...values: string[]) {
+      yield* values;
+    }
+
+    function createStreamResponse() {
+      const stream: any = new PassThrough();
+      const written: string[] = [];
+      stream.on('data', (chunk: Buffer) => written.push(chunk.toString()));
+      stream.status = jest.fn().mockReturnValue(stream);
+      stream.setHeader = jest.fn();
+      return { stream, written };
+    }
+
+    it('should stream the export as a download', async () => {
+      req.query = { format: 'csv' };
+      const { stream, written } = createStreamResponse();
+      (accountExportService.createExport as jest.Mock).mockResolvedValue({
+        fileName: 'keepwatching-account-1-2025-06-15.csv',
+        contentType: 'text/csv; charset=utf-8',
+        content: chunks('record_type\n', 'account\n'),
+      });
+
+      await exportAccount(req, stream, next);
+
+      expect(accountExportService.createExport).toHaveBeenCalledWith(1, 'csv');
+      expect(stream.status).toHaveBeenCalledWith(200);
+      expect(stream.setHeader).toHaveBeenCalledWith('Content-Type', 'text/csv; charset=utf-8');
+      expect(stream.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename="keepwatching-account-1-2025-06-15.csv"',
+      );
+      expect(written.join('')).toBe('record_type\naccount\n');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors to next before the download starts', async () => {
+      req.query = {};
+      const error = new Error('Account not found');
+      (accountExportService.createExport as jest.Mock).mockRejectedValue(error);
+
+      await exportAccount(req, res, next);
+
+      expect(accountExportService.createExport).toHaveBeenCalledWith(1, 'json');
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should log errors after the download has started', async () => {
+      req.query = { format: 'json' };
+      const { stream } = createStreamResponse();
+      stream.headersSent = true;
+      async function* failing() {
+        yield '{';
+        throw new Error('Database unavailable');
+      }
+      (accountExportService.createExport as jest.Mock).mockResolvedValue({
+        fileName: 'export.json',
+        contentType: 'application/json',
+        content: failing(),
+      });
+
+      await exportAccount(req, stream, next);
+
+      expect(appLogger.error).toHaveBeenCalledWith('Account export failed after the download started', {
+        error: expect.any(Error),
+        accountId: 1,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should schedule the deletion of the account', async () => {
+      req.query = { revokeFirebaseUser: 'true' };
+      const deletion = {
+        accountId: 1,
+        status: 'SCHEDULED',
+        revokeFirebaseUser: true,
+        scheduledFor: new Date('2025-06-22T12:00:00Z'),
+      };
+      (accountDeletionService.requestDeletion as jest.Mock).mockResolvedValue(deletion);
+
+      await deleteAccount(req, res, next);
+
+      expect(accountDeletionService.requestDeletion).toHaveBeenCalledWith(1, true);
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Scheduled the deletion of account 1', deletion });
+    });
+
+    it('should respond with 200 when the account is deleted straight away', async () => {
+      req.query = {};
+      const deletion = { accountId: 1, status: 'DELETED', revokeFirebaseUser: false, scheduledFor: null };
+      (accountDeletionService.requestDeletion as jest.Mock).mockResolvedValue(deletion);
+
+      await deleteAccount(req, res, next);
+
+      expect(accountDeletionService.requestDeletion).toHaveBeenCalledWith(1, false);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Deleted account 1', deletion });
+    });
+
+    it('should handle errors', async () => {
+      req.query = {};
+      const error = new Error('Account not found');
+      (accountDeletionService.requestDeletion as jest.Mock).mockRejectedValue(error);
+
+      await deleteAccount(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAccountDeletion', () => {
+    it('should return the pending deletion', async () => {
+      const deletion = {
+        accountId: 1,
+        revokeFirebaseUser: false,
+        requestedAt: new Date('2025-06-15T12:00:00Z'),
+        scheduledFor: new Date('2025-06-22T12:00:00Z'),
+      };
+      (accountDeletionService.getPendingDeletion as jest.Mock).mockResolvedValue(deletion);
+
+      await getAccountDeletion(req, res, next);
+
+      expect(accountDeletionService.getPendingDeletion).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved the pending deletion of the account', deletion });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('No deletion is pending for this account');
+      (accountDeletionService.getPendingDeletion as jest.Mock).mockRejectedValue(error);
+
+      await getAccountDeletion(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('should cancel the pending deletion', async () => {
+      (accountDeletionService.cancelDeletion as jest.Mock).mockResolvedValue(undefined);
+
+      await cancelAccountDeletion(req, res, next);
+
+      expect(accountDeletionService.cancelDeletion).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Cancelled the deletion of account 1' });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('No deletion is pending for this account');
+      (accountDeletionService.cancelDeletion as jest.Mock).mockRejectedValue(error);
+
+      await cancelAccountDeletion(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
 });
@@ -0,0 +1,70 @@
+import { favoriteCollection, getCollections } from '@controllers/collectionsController';
+import { collectionsService } from '@services/collectionsService';
+
+jest.mock('@services/collectionsService', () => ({
+  collectionsService: {
+    getCollections: jest.fn(),
+    favoriteCollection: jest.fn(),
+  },
+}));
+
+describe('collectionsController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  const collection = { id: 10, name: 'Star Wars Collection', totalMovies: 9, watchedMovies: 5, nextMovie: null };
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123 },
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getCollections', () => {
+    it('should get the collections for a profile', async () => {
+      (collectionsService.getCollections as jest.Mock).mockResolvedValue([collection]);
+
+      await getCollections(req, res, next);
+
+      expect(collectionsService.getCollections).toHaveBeenCalledWith(123);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved collections for a profile',
+        collections: [collection],
+      });
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('Database error');
+      (collectionsService.getCollections as jest.Mock).mockRejectedValue(error);
+
+      await getCollections(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('favoriteCollection', () => {
+    it('should favorite every movie in a collection', async () => {
+      req.params = { accountId: 1, profileId: 123, collectionId: 10 };
+      (collectionsService.favoriteCollection as jest.Mock).mockResolvedValue(collection);
+
+      await favoriteCollection(req, res, next);
+
+      expect(collectionsService.favoriteCollection).toHaveBeenCalledWith(123, 10);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully saved the collection as a favorite',
+        collection,
+      });
+    });
+  });
+});
@@ -1,10 +1,22 @@
 import { contentDiscoveryService } from '@ajgifford/keepwatching-common-server/testing';
-import { discoverChangesContent, discoverTopContent, discoverTrendingContent } from '@controllers/discoverController';
+import {
+  discoverChangesContent,
+  discoverFilteredContent,
+  discoverTopContent,
+  discoverTrendingContent,
+} from '@controllers/discoverController';
+import { discoverService } from '@services/discoverService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   contentDiscoveryService: contentDiscoveryService,
 }));
 
+jest.mock('@services/discoverService', () => ({
+  discoverService: {
+    discoverFilteredContent: jest.fn(),
+  },
+}));
+
 describe('discoverController', () => {
   let req: any;
   let res: any;
@@ -175,4 +187,35 @@ describe('discoverController', () => {
       expect(next).toHaveBeenCalledWith(error);
     });
   });
+
+  describe('discoverFilteredContent', () => {
+    it('should return content matching the filters', async () => {
+      req.query = { showType: 'series', genres: '18,80', status: 'ended', sortBy: 'rating', page: 1 };
+      const mockResponse = {
+        message: 'Found series matching the filters',
+        results: [{ id: '1396', title: 'Breaking Bad' }],
+        total_results: 1,
+        total_pages: 1,
+        current_page: 1,
+      };
+      (discoverService.discoverFilteredContent as jest.Mock).mockResolvedValue(mockResponse);
+
+      await discoverFilteredContent(req, res, next);
+
+      expect(discoverService.discoverFilteredContent).toHaveBeenCalledWith(req.query);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(mockResponse);
+    });
+
+    it('should handle errors', async () => {
+      req.query = { showType: 'movie' };
+      const error = new Error('TMDB unavailable');
+      (discoverService.discoverFilteredContent as jest.Mock).mockRejectedValue(error);
+
+      await discoverFilteredContent(req, res, next);
+
+      expect(res.status).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
 });
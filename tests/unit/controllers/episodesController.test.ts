@@ -1,16 +1,45 @@
 import { episodesService } from '@ajgifford/keepwatching-common-server/testing';
 import {
+  bulkUpdateEpisodeWatchStatus,
   getEpisodesForSeason,
   getRecentEpisodes,
   getUpcomingEpisodes,
   updateEpisodeWatchStatus,
   updateNextEpisodeWatchStatus,
 } from '@controllers/episodesController';
+import { ratingsService } from '@services/ratingsService';
+import { socketEventService } from '@services/socketEventService';
+import { watchHistoryService } from '@services/watchHistoryService';
+import { watchProgressService } from '@services/watchProgressService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   episodesService: episodesService,
 }));
 
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getSeasonEpisodeRatings: jest.fn(),
+  },
+}));
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToProfile: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchHistoryService', () => ({
+  watchHistoryService: {
+    trackStatusChange: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchProgressService', () => ({
+  watchProgressService: {
+    bulkUpdateEpisodeWatchStatus: jest.fn(),
+  },
+}));
+
 describe('episodesController', () => {
   let req: any;
   let res: any;
@@ -28,6 +57,9 @@ describe('episodesController', () => {
     next = jest.fn();
 
     jest.clearAllMocks();
+    (watchHistoryService.trackStatusChange as jest.Mock).mockImplementation((_profileId, _type, _id, _status, update) =>
+      update(),
+    );
   });
 
   describe('updateEpisodeWatchStatus', () => {
@@ -38,6 +70,19 @@ describe('episodesController', () => {
 
       await updateEpisodeWatchStatus(req, res, next);
       expect(episodesService.updateEpisodeWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED');
+      expect(watchHistoryService.trackStatusChange).toHaveBeenCalledWith(
+        123,
+        'episode',
+        456,
+        'WATCHED',
+        expect.any(Function),
+      );
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'episodes:statusChanged', {
+        profileId: 123,
+        episodeIds: [456],
+        status: 'WATCHED',
+        nextUnwatchedEpisodes: mockResult,
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully updated the episode watch status',
@@ -53,6 +98,7 @@ describe('episodesController', () => {
 
       await updateEpisodeWatchStatus(req, res, next);
       expect(episodesService.updateEpisodeWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED');
+      expect(socketEventService.emitToProfile).not.toHaveBeenCalled();
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
@@ -67,6 +113,21 @@ describe('episodesController', () => {
 
       await updateNextEpisodeWatchStatus(req, res, next);
       expect(episodesService.updateNextEpisodeWatchStatus).toHaveBeenCalledWith(1, 123, 100, 200, 456, 'WATCHED');
+      expect(watchHistoryService.trackStatusChange).toHaveBeenCalledWith(
+        123,
+        'episode',
+        456,
+        'WATCHED',
+        expect.any(Function),
+      );
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'episodes:statusChanged', {
+        profileId: 123,
+        showId: 100,
+        seasonId: 200,
+        episodeIds: [456],
+        status: 'WATCHED',
+        nextUnwatchedEpisodes: mockResult,
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully updated the episode watch status',
@@ -88,21 +149,79 @@ describe('episodesController', () => {
     });
   });
 
+  describe('bulkUpdateEpisodeWatchStatus', () => {
+    it('should update a list of episodes successfully', async () => {
+      req.body = { episodeIds: [456, 457, 458], status: 'WATCHED' };
+      const mockResult = [{ show_id: 100, episodes: [{ episode_id: 459 }] }];
+      (watchProgressService.bulkUpdateEpisodeWatchStatus as jest.Mock).mockResolvedValue(mockResult);
+
+      await bulkUpdateEpisodeWatchStatus(req, res, next);
+      expect(watchProgressService.bulkUpdateEpisodeWatchStatus).toHaveBeenCalledWith(
+        123,
+        { episodeIds: [456, 457, 458] },
+        'WATCHED',
+      );
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'episodes:statusChanged', {
+        profileId: 123,
+        episodeIds: [456, 457, 458],
+        status: 'WATCHED',
+        nextUnwatchedEpisodes: mockResult,
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully updated the episode watch statuses',
+        nextUnwatchedEpisodes: mockResult,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should update a range of episodes successfully', async () => {
+      req.body = { fromEpisodeId: 456, toEpisodeId: 490, status: 'NOT_WATCHED' };
+      (watchProgressService.bulkUpdateEpisodeWatchStatus as jest.Mock).mockResolvedValue([]);
+
+      await bulkUpdateEpisodeWatchStatus(req, res, next);
+      expect(watchProgressService.bulkUpdateEpisodeWatchStatus).toHaveBeenCalledWith(
+        123,
+        { fromEpisodeId: 456, toEpisodeId: 490 },
+        'NOT_WATCHED',
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors from the service', async () => {
+      req.body = { fromEpisodeId: 456, toEpisodeId: 900, status: 'WATCHED' };
+      const error = new Error('An episode range cannot span different shows');
+      (watchProgressService.bulkUpdateEpisodeWatchStatus as jest.Mock).mockRejectedValue(error);
+
+      await bulkUpdateEpisodeWatchStatus(req, res, next);
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getEpisodesForSeason', () => {
     it('should retrieve episodes for a season successfully', async () => {
       req.params.seasonId = 200;
       const mockEpisodes = [
-        { id: 1, title: 'Episode 1', watchStatus: 'WATCHED' },
-        { id: 2, title: 'Episode 2', watchStatus: 'NOT_WATCHED' },
+        { episode_id: 1, title: 'Episode 1', watchStatus: 'WATCHED' },
+        { episode_id: 2, title: 'Episode 2', watchStatus: 'NOT_WATCHED' },
       ];
+      const episodeRating = { rating: 6, stars: 3, review: null, updatedAt: new Date('2025-06-01T12:00:00Z') };
       (episodesService.getEpisodesForSeason as jest.Mock).mockResolvedValue(mockEpisodes);
+      (ratingsService.getSeasonEpisodeRatings as jest.Mock).mockResolvedValue(new Map([[1, episodeRating]]));
 
       await getEpisodesForSeason(req, res, next);
       expect(episodesService.getEpisodesForSeason).toHaveBeenCalledWith(123, 200);
+      expect(ratingsService.getSeasonEpisodeRatings).toHaveBeenCalledWith(123, 200);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved episodes for the season',
-        results: mockEpisodes,
+        results: [
+          { ...mockEpisodes[0], profileRating: episodeRating },
+          { ...mockEpisodes[1], profileRating: null },
+        ],
       });
       expect(next).not.toHaveBeenCalled();
     });
@@ -2,13 +2,29 @@ import { BadRequestError } from '@ajgifford/keepwatching-common-server';
 import { getUploadDirectory } from '@ajgifford/keepwatching-common-server/config';
 import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
 import { accountService, profileService } from '@ajgifford/keepwatching-common-server/testing';
-import { uploadAccountImage, uploadProfileImage } from '@controllers/fileController';
-import uploadFileMiddleware from '@middleware/uploadMiddleware';
+import {
+  getImportStatus,
+  importWatchHistory,
+  uploadAccountImage,
+  uploadProfileImage,
+} from '@controllers/fileController';
+import uploadFileMiddleware, { uploadImportFileMiddleware } from '@middleware/uploadMiddleware';
+import { importService } from '@services/importService';
 import { NextFunction, Request, Response } from 'express';
 import fs from 'fs';
 
 // Mock dependencies
-jest.mock('@middleware/uploadMiddleware', () => jest.fn());
+jest.mock('@middleware/uploadMiddleware', () => ({
+  __esModule: true,
+  default: jest.fn(),
+  uploadImportFileMiddleware: jest.fn(),
+}));
+jest.mock('@services/importService', () => ({
+  importService: {
+    startImport: jest.fn(),
+    getImportStatus: jest.fn(),
+  },
+}));
 jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
   getUploadDirectory: jest.fn().mockReturnValue('uploads/'),
 }));
@@ -332,4 +348,75 @@ describe('fileController', () => {
       expect(res.send).not.toHaveBeenCalled();
     });
   });
+
+  describe('importWatchHistory', () => {
+    beforeEach(() => {
+      req.query = { source: 'letterboxd' };
+      req.file = { buffer: Buffer.from('Date,Name,Year\n2024-01-01,Heat,1995\n') } as Express.Multer.File;
+      (uploadImportFileMiddleware as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should start an import job from the uploaded file', async () => {
+      const job = { jobId: 7, status: 'QUEUED', totalItems: 1 };
+      (importService.startImport as jest.Mock).mockResolvedValue(job);
+
+      await importWatchHistory(req as Request, res as Response, next as NextFunction);
+
+      expect(uploadImportFileMiddleware).toHaveBeenCalledWith(req, res);
+      expect(importService.startImport).toHaveBeenCalledWith(
+        1,
+        123,
+        'letterboxd',
+        'Date,Name,Year\n2024-01-01,Heat,1995\n',
+      );
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.send).toHaveBeenCalledWith({ message: 'Started importing the letterboxd export', job });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when no file is uploaded', async () => {
+      req.file = undefined;
+
+      await importWatchHistory(req as Request, res as Response, next as NextFunction);
+
+      expect(importService.startImport).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.send).toHaveBeenCalledWith({ message: 'Please upload a file!' });
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new BadRequestError('The Letterboxd export must have a Name column');
+      (importService.startImport as jest.Mock).mockRejectedValue(error);
+
+      await importWatchHistory(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getImportStatus', () => {
+    it('should return the status of an import job', async () => {
+      req.params = { accountId: 1, profileId: 123, jobId: 7 } as any;
+      const job = { id: 7, status: 'COMPLETED', summary: { matched: 1, unmatched: 0, ambiguous: 0, failed: 0 } };
+      (importService.getImportStatus as jest.Mock).mockResolvedValue(job);
+
+      await getImportStatus(req as Request, res as Response, next as NextFunction);
+
+      expect(importService.getImportStatus).toHaveBeenCalledWith(123, 7);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.send).toHaveBeenCalledWith({ message: 'Retrieved the status of the import', job });
+    });
+
+    it('should pass errors to next', async () => {
+      req.params = { accountId: 1, profileId: 123, jobId: 7 } as any;
+      const error = new Error('Import job not found');
+      (importService.getImportStatus as jest.Mock).mockRejectedValue(error);
+
+      await getImportStatus(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { getWatchHistory, logRewatch } from '@controllers/historyController';
+import { watchHistoryService } from '@services/watchHistoryService';
+
+jest.mock('@services/watchHistoryService', () => ({
+  watchHistoryService: {
+    getHistory: jest.fn(),
+    logRewatch: jest.fn(),
+  },
+}));
+
+describe('historyController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123 },
+      query: {},
+      body: {},
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getWatchHistory', () => {
+    it('should get the watch history with the provided filters', async () => {
+      req.query = { from: '2025-01-01', to: '2025-01-31', contentType: 'episode', page: 2, limit: 10 };
+      const mockResult = {
+        history: [{ id: 1, contentType: 'episode', contentId: 456, status: 'WATCHED', isRewatch: false }],
+        pagination: { page: 2, limit: 10, total: 11, totalPages: 2 },
+      };
+      (watchHistoryService.getHistory as jest.Mock).mockResolvedValue(mockResult);
+
+      await getWatchHistory(req, res, next);
+
+      expect(watchHistoryService.getHistory).toHaveBeenCalledWith(123, {
+        from: '2025-01-01',
+        to: '2025-01-31',
+        contentType: 'episode',
+        page: 2,
+        limit: 10,
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the watch history for a profile',
+        ...mockResult,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should use the default paging', async () => {
+      (watchHistoryService.getHistory as jest.Mock).mockResolvedValue({ history: [], pagination: {} });
+
+      await getWatchHistory(req, res, next);
+
+      expect(watchHistoryService.getHistory).toHaveBeenCalledWith(123, {
+        from: undefined,
+        to: undefined,
+        contentType: undefined,
+        page: 1,
+        limit: 50,
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Failed to get history');
+      (watchHistoryService.getHistory as jest.Mock).mockRejectedValue(error);
+
+      await getWatchHistory(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logRewatch', () => {
+    it('should log a rewatch', async () => {
+      req.body = { contentType: 'movie', contentId: 789 };
+      (watchHistoryService.logRewatch as jest.Mock).mockResolvedValue(undefined);
+
+      await logRewatch(req, res, next);
+
+      expect(watchHistoryService.logRewatch).toHaveBeenCalledWith(123, 'movie', 789);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully logged a rewatch of the movie' });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      req.body = { contentType: 'episode', contentId: 789 };
+      const error = new Error('Only a watched episode can be logged as a rewatch');
+      (watchHistoryService.logRewatch as jest.Mock).mockRejectedValue(error);
+
+      await logRewatch(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { searchLibrary } from '@controllers/libraryController';
+import { librarySearchService } from '@services/librarySearchService';
+
+jest.mock('@services/librarySearchService', () => ({
+  librarySearchService: {
+    searchLibrary: jest.fn(),
+  },
+}));
+
+describe('libraryController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123 },
+      query: {},
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('searchLibrary', () => {
+    it('should search the library for a profile', async () => {
+      const results = [{ contentType: 'movie', contentId: 5, title: 'Heat' }];
+      const pagination = { page: 2, limit: 10, total: 11, totalPages: 2 };
+      req.query = { q: 'heat', contentType: 'movie', sortBy: 'addedAt', sortOrder: 'asc', page: '2', limit: '10' };
+      (librarySearchService.searchLibrary as jest.Mock).mockResolvedValue({ results, pagination });
+
+      await searchLibrary(req, res, next);
+
+      expect(librarySearchService.searchLibrary).toHaveBeenCalledWith(123, {
+        q: 'heat',
+        contentType: 'movie',
+        sortBy: 'addedAt',
+        sortOrder: 'asc',
+        page: 2,
+        limit: 10,
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully searched the library for a profile',
+        results,
+        pagination,
+      });
+    });
+
+    it('should default to the first page of 20 sorted by title', async () => {
+      (librarySearchService.searchLibrary as jest.Mock).mockResolvedValue({ results: [], pagination: {} });
+
+      await searchLibrary(req, res, next);
+
+      expect(librarySearchService.searchLibrary).toHaveBeenCalledWith(123, { sortBy: 'title', page: 1, limit: 20 });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (librarySearchService.searchLibrary as jest.Mock).mockRejectedValue(error);
+
+      await searchLibrary(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+});
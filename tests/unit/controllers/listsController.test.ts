@@ -0,0 +1,204 @@
+import {
+  addListItem,
+  createList,
+  deleteList,
+  getList,
+  getLists,
+  removeListItem,
+  reorderListItems,
+  shareList,
+  updateList,
+  updateListItem,
+} from '@controllers/listsController';
+import { listsService } from '@services/listsService';
+
+jest.mock('@services/listsService', () => ({
+  listsService: {
+    getLists: jest.fn(),
+    getList: jest.fn(),
+    createList: jest.fn(),
+    updateList: jest.fn(),
+    deleteList: jest.fn(),
+    shareList: jest.fn(),
+    addItem: jest.fn(),
+    updateItemNote: jest.fn(),
+    removeItem: jest.fn(),
+    reorderItems: jest.fn(),
+  },
+}));
+
+describe('listsController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  const list = { id: 9, profileId: 123, name: 'Halloween movies', items: [] };
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123, listId: 9 },
+      body: {},
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getLists', () => {
+    it('should get the lists for a profile', async () => {
+      (listsService.getLists as jest.Mock).mockResolvedValue([list]);
+
+      await getLists(req, res, next);
+
+      expect(listsService.getLists).toHaveBeenCalledWith(123);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the lists for a profile',
+        lists: [list],
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (listsService.getLists as jest.Mock).mockRejectedValue(error);
+
+      await getLists(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createList', () => {
+    it('should create a list', async () => {
+      req.body = { name: 'Halloween movies', description: 'October' };
+      (listsService.createList as jest.Mock).mockResolvedValue(list);
+
+      await createList(req, res, next);
+
+      expect(listsService.createList).toHaveBeenCalledWith(1, 123, {
+        name: 'Halloween movies',
+        description: 'October',
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully created the list', list });
+    });
+  });
+
+  describe('getList', () => {
+    it('should get a list with its items', async () => {
+      (listsService.getList as jest.Mock).mockResolvedValue(list);
+
+      await getList(req, res, next);
+
+      expect(listsService.getList).toHaveBeenCalledWith(123, 9);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully retrieved the list', list });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('List not found');
+      (listsService.getList as jest.Mock).mockRejectedValue(error);
+
+      await getList(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('updateList', () => {
+    it('should update a list', async () => {
+      req.body = { name: 'Spooky' };
+      (listsService.updateList as jest.Mock).mockResolvedValue(list);
+
+      await updateList(req, res, next);
+
+      expect(listsService.updateList).toHaveBeenCalledWith(1, 123, 9, { name: 'Spooky', description: undefined });
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully updated the list', list });
+    });
+  });
+
+  describe('deleteList', () => {
+    it('should delete a list', async () => {
+      await deleteList(req, res, next);
+
+      expect(listsService.deleteList).toHaveBeenCalledWith(1, 123, 9);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully deleted the list' });
+    });
+  });
+
+  describe('shareList', () => {
+    it('should share a list with other profiles', async () => {
+      req.body = { profileIds: [124] };
+      (listsService.shareList as jest.Mock).mockResolvedValue(list);
+
+      await shareList(req, res, next);
+
+      expect(listsService.shareList).toHaveBeenCalledWith(1, 123, 9, [124]);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully updated who the list is shared with', list });
+    });
+  });
+
+  describe('addListItem', () => {
+    it('should add a show or movie to a list', async () => {
+      req.body = { contentType: 'movie', tmdbId: 948, note: 'Classic' };
+      (listsService.addItem as jest.Mock).mockResolvedValue(list);
+
+      await addListItem(req, res, next);
+
+      expect(listsService.addItem).toHaveBeenCalledWith(1, 123, 9, 'movie', 948, 'Classic');
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully added the movie to the list', list });
+    });
+
+    it('should handle errors', async () => {
+      req.body = { contentType: 'movie', tmdbId: 948 };
+      const error = new Error('The movie is already on the list');
+      (listsService.addItem as jest.Mock).mockRejectedValue(error);
+
+      await addListItem(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('reorderListItems', () => {
+    it('should reorder the items of a list', async () => {
+      req.body = { itemIds: [2, 1] };
+      (listsService.reorderItems as jest.Mock).mockResolvedValue(list);
+
+      await reorderListItems(req, res, next);
+
+      expect(listsService.reorderItems).toHaveBeenCalledWith(1, 123, 9, [2, 1]);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully reordered the list', list });
+    });
+  });
+
+  describe('updateListItem', () => {
+    it('should replace the note of a list item', async () => {
+      req.params = { accountId: 1, profileId: 123, listId: 9, itemId: 2 };
+      req.body = { note: 'With Dad' };
+      (listsService.updateItemNote as jest.Mock).mockResolvedValue(list);
+
+      await updateListItem(req, res, next);
+
+      expect(listsService.updateItemNote).toHaveBeenCalledWith(1, 123, 9, 2, 'With Dad');
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully updated the list item', list });
+    });
+  });
+
+  describe('removeListItem', () => {
+    it('should remove an item from a list', async () => {
+      req.params = { accountId: 1, profileId: 123, listId: 9, itemId: 2 };
+      (listsService.removeItem as jest.Mock).mockResolvedValue(list);
+
+      await removeListItem(req, res, next);
+
+      expect(listsService.removeItem).toHaveBeenCalledWith(1, 123, 9, 2);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully removed the item from the list', list });
+    });
+  });
+});
@@ -1,16 +1,79 @@
 import { moviesService } from '@ajgifford/keepwatching-common-server/testing';
 import {
   addFavorite,
+  addMovieToWatchlist,
+  getMovieDetails,
+  getMovieRecommendations,
+  getMovieWatchlist,
   getMovies,
   getRecentUpcomingForProfile,
+  getSimilarMovies,
+  promoteMovieFromWatchlist,
   removeFavorite,
+  removeMovieFromWatchlist,
+  reorderMovieWatchlist,
   updateMovieWatchStatus,
 } from '@controllers/moviesController';
+import { collectionsService } from '@services/collectionsService';
+import { libraryListService } from '@services/libraryListService';
+import { movieDetailsService } from '@services/movieDetailsService';
+import { movieRecommendationsService } from '@services/movieRecommendationsService';
+import { ratingsService } from '@services/ratingsService';
+import { watchHistoryService } from '@services/watchHistoryService';
+import { watchlistService } from '@services/watchlistService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   moviesService: moviesService,
 }));
 
+jest.mock('@services/collectionsService', () => ({
+  collectionsService: {
+    linkMovieToCollection: jest.fn(),
+  },
+}));
+
+jest.mock('@services/libraryListService', () => ({
+  libraryListService: {
+    getPage: jest.fn(),
+  },
+}));
+
+jest.mock('@services/movieDetailsService', () => ({
+  movieDetailsService: {
+    getMovieDetails: jest.fn(),
+  },
+}));
+
+jest.mock('@services/movieRecommendationsService', () => ({
+  movieRecommendationsService: {
+    getMovieRecommendations: jest.fn(),
+    getSimilarMovies: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getMovieRatings: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchHistoryService', () => ({
+  watchHistoryService: {
+    trackStatusChange: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchlistService', () => ({
+  watchlistService: {
+    getWatchlist: jest.fn(),
+    addToWatchlist: jest.fn(),
+    removeFromWatchlist: jest.fn(),
+    reorderWatchlist: jest.fn(),
+    promoteMovie: jest.fn(),
+    removeFavoritedItem: jest.fn(),
+  },
+}));
+
 describe('moviesController', () => {
   let req: any;
   let res: any;
@@ -19,6 +82,7 @@ describe('moviesController', () => {
   beforeEach(() => {
     req = {
       params: { accountId: 1, profileId: 123 },
+      query: {},
       body: {},
     };
     res = {
@@ -28,6 +92,9 @@ describe('moviesController', () => {
     next = jest.fn();
 
     jest.clearAllMocks();
+    (watchHistoryService.trackStatusChange as jest.Mock).mockImplementation((_profileId, _type, _id, _status, update) =>
+      update(),
+    );
   });
 
   describe('getMovies', () => {
@@ -36,21 +103,44 @@ describe('moviesController', () => {
         { movie_id: 1, title: 'Movie 1', watchStatus: 'WATCHED' },
         { movie_id: 2, title: 'Movie 2', watchStatus: 'NOT_WATCHED' },
       ];
+      const movieRatings = new Map([[1, { rating: 9, stars: 4.5, review: 'Loved it', updatedAt: new Date() }]]);
+      const pagination = { page: 1, limit: 20, total: 2, totalPages: 1 };
+      req.query = { sortBy: 'addedAt', page: '1', limit: '20' };
       (moviesService.getMoviesForProfile as jest.Mock).mockResolvedValue(mockMovies);
+      (ratingsService.getMovieRatings as jest.Mock).mockResolvedValue(movieRatings);
+      (libraryListService.getPage as jest.Mock).mockImplementation(
+        async (_profileId, _type, loadItems, _idKey, _query, loadRatings) => {
+          await loadRatings();
+          return { items: await loadItems(), pagination };
+        },
+      );
 
       await getMovies(req, res, next);
 
       expect(moviesService.getMoviesForProfile).toHaveBeenCalledWith(123);
+      expect(ratingsService.getMovieRatings).toHaveBeenCalledWith(123);
+      expect(libraryListService.getPage).toHaveBeenCalledWith(
+        123,
+        'movie',
+        expect.any(Function),
+        'movie_id',
+        { sortBy: 'addedAt', sortOrder: undefined, fields: undefined, page: 1, limit: 20 },
+        expect.any(Function),
+      );
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved movies for a profile',
         results: mockMovies,
+        pagination,
       });
     });
 
     it('should handle errors', async () => {
       const error = new Error('Failed to get movies');
       (moviesService.getMoviesForProfile as jest.Mock).mockRejectedValue(error);
+      (libraryListService.getPage as jest.Mock).mockImplementation(async (_profileId, _type, loadItems) => ({
+        items: await loadItems(),
+      }));
 
       await getMovies(req, res, next);
 
@@ -73,6 +163,8 @@ describe('moviesController', () => {
       await addFavorite(req, res, next);
 
       expect(moviesService.addMovieToFavorites).toHaveBeenCalledWith(123, 12345);
+      expect(collectionsService.linkMovieToCollection).toHaveBeenCalledWith(12345);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledWith(123, 'movie', 12345);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully saved movie as a favorite',
@@ -137,6 +229,13 @@ describe('moviesController', () => {
       await updateMovieWatchStatus(req, res, next);
 
       expect(moviesService.updateMovieWatchStatus).toHaveBeenCalledWith(123, 12345, 'WATCHED');
+      expect(watchHistoryService.trackStatusChange).toHaveBeenCalledWith(
+        123,
+        'movie',
+        12345,
+        'WATCHED',
+        expect.any(Function),
+      );
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: "Successfully updated the watch status to 'WATCHED'",
@@ -206,4 +305,153 @@ describe('moviesController', () => {
       expect(res.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('movie watchlist', () => {
+    const watchlist = [{ id: 1, tmdbId: 949, title: 'Heat', position: 1 }];
+
+    it('should get the movie watchlist', async () => {
+      (watchlistService.getWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await getMovieWatchlist(req, res, next);
+
+      expect(watchlistService.getWatchlist).toHaveBeenCalledWith(123, 'movie');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the movie watchlist for a profile',
+        watchlist,
+      });
+    });
+
+    it('should add a movie to the watchlist', async () => {
+      req.body = { movieTMDBId: 949 };
+      (watchlistService.addToWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await addMovieToWatchlist(req, res, next);
+
+      expect(watchlistService.addToWatchlist).toHaveBeenCalledWith(123, 'movie', 949);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully added the movie to the watchlist', watchlist });
+    });
+
+    it('should remove a movie from the watchlist', async () => {
+      req.params = { accountId: 1, profileId: 123, tmdbId: 949 };
+      (watchlistService.removeFromWatchlist as jest.Mock).mockResolvedValue([]);
+
+      await removeMovieFromWatchlist(req, res, next);
+
+      expect(watchlistService.removeFromWatchlist).toHaveBeenCalledWith(123, 'movie', 949);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully removed the movie from the watchlist',
+        watchlist: [],
+      });
+    });
+
+    it('should reorder the movie watchlist', async () => {
+      req.body = { tmdbIds: [949] };
+      (watchlistService.reorderWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await reorderMovieWatchlist(req, res, next);
+
+      expect(watchlistService.reorderWatchlist).toHaveBeenCalledWith(123, 'movie', [949]);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully reordered the movie watchlist', watchlist });
+    });
+
+    it('should promote a movie from the watchlist to favorites', async () => {
+      req.params = { accountId: 1, profileId: 123, tmdbId: 949 };
+      const favoritedMovie = { movie_id: 7, title: 'Heat' };
+      const recentUpcomingMovies = { recentMovies: [], upcomingMovies: [] };
+      (watchlistService.promoteMovie as jest.Mock).mockResolvedValue({ favoritedMovie, recentUpcomingMovies });
+
+      await promoteMovieFromWatchlist(req, res, next);
+
+      expect(watchlistService.promoteMovie).toHaveBeenCalledWith(123, 949);
+      expect(collectionsService.linkMovieToCollection).toHaveBeenCalledWith(949);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully moved the movie from the watchlist to favorites',
+        favoritedMovie,
+        recentUpcomingMovies,
+      });
+    });
+
+    it('should handle errors', async () => {
+      req.params = { accountId: 1, profileId: 123, tmdbId: 949 };
+      const error = new Error('The movie is not on the watchlist');
+      (watchlistService.promoteMovie as jest.Mock).mockRejectedValue(error);
+
+      await promoteMovieFromWatchlist(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMovieDetails', () => {
+    beforeEach(() => {
+      req.params = { accountId: 1, profileId: 123, movieId: 7 };
+    });
+
+    it('should get a movie and its details with the profile rating', async () => {
+      const movie = { id: 7, tmdbId: 949, title: 'Heat', watchStatus: 'WATCHED', collection: null };
+      const profileRating = { rating: 9, stars: 4.5, review: null, updatedAt: '2025-01-01' };
+      (movieDetailsService.getMovieDetails as jest.Mock).mockResolvedValue(movie);
+      (ratingsService.getMovieRatings as jest.Mock).mockResolvedValue(new Map([[7, profileRating]]));
+
+      await getMovieDetails(req, res, next);
+
+      expect(movieDetailsService.getMovieDetails).toHaveBeenCalledWith(1, 123, 7);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved a movie and its details',
+        movie: { ...movie, profileRating },
+      });
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('Movie not found');
+      (movieDetailsService.getMovieDetails as jest.Mock).mockRejectedValue(error);
+      (ratingsService.getMovieRatings as jest.Mock).mockResolvedValue(new Map());
+
+      await getMovieDetails(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('movie recommendations', () => {
+    const movies = [{ id: 1422, title: 'The Departed', genres: ['Crime'], inFavorites: true }];
+
+    beforeEach(() => {
+      req.params = { accountId: 1, profileId: 123, movieId: 7 };
+    });
+
+    it('should get the recommendations for a movie', async () => {
+      (movieRecommendationsService.getMovieRecommendations as jest.Mock).mockResolvedValue(movies);
+
+      await getMovieRecommendations(req, res, next);
+
+      expect(movieRecommendationsService.getMovieRecommendations).toHaveBeenCalledWith(123, 7);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully retrieved movie recommendations', movies });
+    });
+
+    it('should get the movies similar to a movie', async () => {
+      (movieRecommendationsService.getSimilarMovies as jest.Mock).mockResolvedValue(movies);
+
+      await getSimilarMovies(req, res, next);
+
+      expect(movieRecommendationsService.getSimilarMovies).toHaveBeenCalledWith(123, 7);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully retrieved similar movies', movies });
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('Movie not found');
+      (movieRecommendationsService.getSimilarMovies as jest.Mock).mockRejectedValue(error);
+
+      await getSimilarMovies(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
 });
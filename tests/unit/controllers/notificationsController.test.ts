@@ -1,9 +1,39 @@
 import { notificationsService } from '@ajgifford/keepwatching-common-server/testing';
 import { NotificationResponse } from '@ajgifford/keepwatching-types';
-import { dismissNotification, getNotifications } from '@controllers/notificationsController';
+import {
+  dismissAllNotifications,
+  dismissNotification,
+  getNotificationHistory,
+  getNotificationPreferences,
+  getNotifications,
+  getUnreadCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  updateNotificationPreferences,
+} from '@controllers/notificationsController';
+import { accountNotificationsService } from '@services/accountNotificationsService';
+import { profileNotificationsService } from '@services/profileNotificationsService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({ notificationsService: notificationsService }));
 
+jest.mock('@services/accountNotificationsService', () => ({
+  accountNotificationsService: {
+    getUnreadCount: jest.fn(),
+    getHistory: jest.fn(),
+    markRead: jest.fn(),
+    markAllRead: jest.fn(),
+    dismiss: jest.fn(),
+    dismissAll: jest.fn(),
+  },
+}));
+
+jest.mock('@services/profileNotificationsService', () => ({
+  profileNotificationsService: {
+    getPreferences: jest.fn(),
+    updatePreferences: jest.fn(),
+  },
+}));
+
 describe('notificationsController', () => {
   let req: any;
   let res: any;
@@ -12,6 +42,7 @@ describe('notificationsController', () => {
   beforeEach(() => {
     req = {
       params: { accountId: 1, notificationId: 123 },
+      query: {},
     };
     res = {
       status: jest.fn().mockReturnThis(),
@@ -103,11 +134,11 @@ describe('notificationsController', () => {
         notifications: mockNotifications,
       };
 
-      (notificationsService.dismissNotification as jest.Mock).mockResolvedValue(mockNotifications);
+      (accountNotificationsService.dismiss as jest.Mock).mockResolvedValue(mockNotifications);
 
       await dismissNotification(req, res, next);
 
-      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(123, 1);
+      expect(accountNotificationsService.dismiss).toHaveBeenCalledWith(1, 123);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith(response);
       expect(next).not.toHaveBeenCalled();
@@ -115,11 +146,11 @@ describe('notificationsController', () => {
 
     it('should handle errors when dismissing a notification', async () => {
       const error = new Error('Failed to dismiss notification');
-      (notificationsService.dismissNotification as jest.Mock).mockRejectedValue(error);
+      (accountNotificationsService.dismiss as jest.Mock).mockRejectedValue(error);
 
       await dismissNotification(req, res, next);
 
-      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(123, 1);
+      expect(accountNotificationsService.dismiss).toHaveBeenCalledWith(1, 123);
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
@@ -127,14 +158,196 @@ describe('notificationsController', () => {
 
     it('should handle non-existent notification', async () => {
       const error = new Error('Notification not found');
-      (notificationsService.dismissNotification as jest.Mock).mockRejectedValue(error);
+      (accountNotificationsService.dismiss as jest.Mock).mockRejectedValue(error);
 
       await dismissNotification(req, res, next);
 
-      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(123, 1);
+      expect(accountNotificationsService.dismiss).toHaveBeenCalledWith(1, 123);
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('getUnreadCount', () => {
+    it('should retrieve the unread count', async () => {
+      (accountNotificationsService.getUnreadCount as jest.Mock).mockResolvedValue(4);
+
+      await getUnreadCount(req, res, next);
+
+      expect(accountNotificationsService.getUnreadCount).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved the unread notification count for an account',
+        unreadCount: 4,
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (accountNotificationsService.getUnreadCount as jest.Mock).mockRejectedValue(error);
+
+      await getUnreadCount(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNotificationHistory', () => {
+    it('should retrieve a page of history', async () => {
+      const notifications = [{ id: 123, message: 'New episode available', isRead: true, isDismissed: true }];
+      const pagination = { page: 2, limit: 10, total: 11, totalPages: 2 };
+      req.query = { includeDismissed: 'true', page: '2', limit: '10' };
+      (accountNotificationsService.getHistory as jest.Mock).mockResolvedValue({ notifications, pagination });
+
+      await getNotificationHistory(req, res, next);
+
+      expect(accountNotificationsService.getHistory).toHaveBeenCalledWith(1, {
+        includeDismissed: true,
+        includeExpired: false,
+        page: 2,
+        limit: 10,
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved notification history for an account',
+        notifications,
+        pagination,
+      });
+    });
+
+    it('should default to the first page of 20 active notifications', async () => {
+      (accountNotificationsService.getHistory as jest.Mock).mockResolvedValue({ notifications: [], pagination: {} });
+
+      await getNotificationHistory(req, res, next);
+
+      expect(accountNotificationsService.getHistory).toHaveBeenCalledWith(1, {
+        includeDismissed: false,
+        includeExpired: false,
+        page: 1,
+        limit: 20,
+      });
+    });
+  });
+
+  describe('markNotificationRead', () => {
+    it('should mark a notification as read', async () => {
+      (accountNotificationsService.markRead as jest.Mock).mockResolvedValue(2);
+
+      await markNotificationRead(req, res, next);
+
+      expect(accountNotificationsService.markRead).toHaveBeenCalledWith(1, 123);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Marked notification as read for account', unreadCount: 2 });
+    });
+
+    it('should handle a notification that was not sent to the account', async () => {
+      const error = new Error('Notification not found');
+      (accountNotificationsService.markRead as jest.Mock).mockRejectedValue(error);
+
+      await markNotificationRead(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markAllNotificationsRead', () => {
+    it('should mark every notification as read', async () => {
+      (accountNotificationsService.markAllRead as jest.Mock).mockResolvedValue(0);
+
+      await markAllNotificationsRead(req, res, next);
+
+      expect(accountNotificationsService.markAllRead).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Marked all notifications as read for account',
+        unreadCount: 0,
+      });
+    });
+  });
+
+  describe('dismissAllNotifications', () => {
+    it('should dismiss every notification and return what is left', async () => {
+      (accountNotificationsService.dismissAll as jest.Mock).mockResolvedValue({ dismissedCount: 3, notifications: [] });
+
+      await dismissAllNotifications(req, res, next);
+
+      expect(accountNotificationsService.dismissAll).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Dismissed all notifications for account',
+        dismissedCount: 3,
+        notifications: [],
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (accountNotificationsService.dismissAll as jest.Mock).mockRejectedValue(error);
+
+      await dismissAllNotifications(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNotificationPreferences', () => {
+    const preferences = { newEpisodes: true, newSeasons: false, movieReleases: true, showEndings: true };
+
+    it('should return the preferences of the profile', async () => {
+      req.params = { accountId: 1, profileId: 10 };
+      (profileNotificationsService.getPreferences as jest.Mock).mockResolvedValue(preferences);
+
+      await getNotificationPreferences(req, res, next);
+
+      expect(profileNotificationsService.getPreferences).toHaveBeenCalledWith(10);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved notification preferences for a profile',
+        preferences,
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (profileNotificationsService.getPreferences as jest.Mock).mockRejectedValue(error);
+
+      await getNotificationPreferences(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateNotificationPreferences', () => {
+    it('should save the changed preferences and return all of them', async () => {
+      const preferences = { newEpisodes: true, newSeasons: false, movieReleases: true, showEndings: true };
+      req.params = { accountId: 1, profileId: 10 };
+      req.body = { newSeasons: false };
+      (profileNotificationsService.updatePreferences as jest.Mock).mockResolvedValue(preferences);
+
+      await updateNotificationPreferences(req, res, next);
+
+      expect(profileNotificationsService.updatePreferences).toHaveBeenCalledWith(10, { newSeasons: false });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Updated notification preferences for a profile',
+        preferences,
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      req.body = { newSeasons: false };
+      (profileNotificationsService.updatePreferences as jest.Mock).mockRejectedValue(error);
+
+      await updateNotificationPreferences(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
 });
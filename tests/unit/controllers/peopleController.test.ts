@@ -0,0 +1,94 @@
+import { followPerson, getFollowedPeople, getPerson, unfollowPerson } from '@controllers/peopleController';
+import { peopleService } from '@services/peopleService';
+
+jest.mock('@services/peopleService', () => ({
+  peopleService: {
+    getPerson: jest.fn(),
+    getFollowedPeople: jest.fn(),
+    followPerson: jest.fn(),
+    unfollowPerson: jest.fn(),
+  },
+}));
+
+describe('peopleController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  const people = [{ personId: 31, name: 'Tom Hanks', profileImage: null, followedAt: '2025-06-01T12:00:00Z' }];
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123, personId: 31 },
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getPerson', () => {
+    it('should get a person and their credits', async () => {
+      const person = { id: 31, name: 'Tom Hanks', isFollowed: false, credits: [] };
+      (peopleService.getPerson as jest.Mock).mockResolvedValue(person);
+
+      await getPerson(req, res, next);
+
+      expect(peopleService.getPerson).toHaveBeenCalledWith(123, 31);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved a person and their credits',
+        person,
+      });
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('Person not found');
+      (peopleService.getPerson as jest.Mock).mockRejectedValue(error);
+
+      await getPerson(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFollowedPeople', () => {
+    it('should get the people a profile follows', async () => {
+      (peopleService.getFollowedPeople as jest.Mock).mockResolvedValue(people);
+
+      await getFollowedPeople(req, res, next);
+
+      expect(peopleService.getFollowedPeople).toHaveBeenCalledWith(123);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved followed people for a profile',
+        people,
+      });
+    });
+  });
+
+  describe('followPerson', () => {
+    it('should follow a person', async () => {
+      (peopleService.followPerson as jest.Mock).mockResolvedValue(people);
+
+      await followPerson(req, res, next);
+
+      expect(peopleService.followPerson).toHaveBeenCalledWith(123, 31);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully followed the person', people });
+    });
+  });
+
+  describe('unfollowPerson', () => {
+    it('should unfollow a person', async () => {
+      (peopleService.unfollowPerson as jest.Mock).mockResolvedValue([]);
+
+      await unfollowPerson(req, res, next);
+
+      expect(peopleService.unfollowPerson).toHaveBeenCalledWith(123, 31);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully unfollowed the person', people: [] });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { getRating, getRatings, rateContent, removeRating } from '@controllers/ratingsController';
+import { ratingsService } from '@services/ratingsService';
+
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getRatings: jest.fn(),
+    getRating: jest.fn(),
+    rateContent: jest.fn(),
+    removeRating: jest.fn(),
+  },
+}));
+
+describe('ratingsController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  const rating = {
+    contentType: 'movie',
+    contentId: 7,
+    rating: 9,
+    stars: 4.5,
+    review: 'Loved it',
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+  };
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123, contentType: 'movie', contentId: 7 },
+      query: {},
+      body: {},
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getRatings', () => {
+    it('should get the ratings for a profile filtered by content type', async () => {
+      req.query = { contentType: 'movie' };
+      (ratingsService.getRatings as jest.Mock).mockResolvedValue([rating]);
+
+      await getRatings(req, res, next);
+
+      expect(ratingsService.getRatings).toHaveBeenCalledWith(123, 'movie');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the ratings for a profile',
+        ratings: [rating],
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (ratingsService.getRatings as jest.Mock).mockRejectedValue(error);
+
+      await getRatings(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRating', () => {
+    it('should get the rating of a movie', async () => {
+      (ratingsService.getRating as jest.Mock).mockResolvedValue(rating);
+
+      await getRating(req, res, next);
+
+      expect(ratingsService.getRating).toHaveBeenCalledWith(123, 'movie', 7);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully retrieved the rating of the movie', rating });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('The movie has not been rated');
+      (ratingsService.getRating as jest.Mock).mockRejectedValue(error);
+
+      await getRating(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('rateContent', () => {
+    it('should rate and review a movie', async () => {
+      req.body = { rating: 4.5, scale: 'stars', review: 'Loved it' };
+      (ratingsService.rateContent as jest.Mock).mockResolvedValue(rating);
+
+      await rateContent(req, res, next);
+
+      expect(ratingsService.rateContent).toHaveBeenCalledWith(123, 'movie', 7, {
+        rating: 4.5,
+        scale: 'stars',
+        review: 'Loved it',
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully rated the movie', rating });
+    });
+
+    it('should handle errors', async () => {
+      req.body = { rating: 9 };
+      const error = new Error('The movie does not exist');
+      (ratingsService.rateContent as jest.Mock).mockRejectedValue(error);
+
+      await rateContent(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('removeRating', () => {
+    it('should remove the rating of a movie', async () => {
+      await removeRating(req, res, next);
+
+      expect(ratingsService.removeRating).toHaveBeenCalledWith(123, 'movie', 7);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully removed the rating of the movie' });
+    });
+  });
+});
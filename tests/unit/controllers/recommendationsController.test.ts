@@ -0,0 +1,66 @@
+import { getRecommendations } from '@controllers/recommendationsController';
+import { recommendationsService } from '@services/recommendationsService';
+
+jest.mock('@services/recommendationsService', () => ({
+  recommendationsService: {
+    getRecommendations: jest.fn(),
+  },
+}));
+
+describe('recommendationsController', () => {
+  let req: any;
+  let res: any;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { accountId: 1, profileId: 123 },
+      query: {},
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getRecommendations', () => {
+    it('should get recommendations for a profile', async () => {
+      const recommendations = [{ contentType: 'show', tmdbId: 60059, reason: 'Because you watched Breaking Bad' }];
+      req.query = { contentType: 'show', limit: '5' };
+      (recommendationsService.getRecommendations as jest.Mock).mockResolvedValue(recommendations);
+
+      await getRecommendations(req, res, next);
+
+      expect(recommendationsService.getRecommendations).toHaveBeenCalledWith(123, { contentType: 'show', limit: 5 });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved recommendations for a profile',
+        recommendations,
+      });
+    });
+
+    it('should default to 20 recommendations of any type', async () => {
+      (recommendationsService.getRecommendations as jest.Mock).mockResolvedValue([]);
+
+      await getRecommendations(req, res, next);
+
+      expect(recommendationsService.getRecommendations).toHaveBeenCalledWith(123, {
+        contentType: undefined,
+        limit: 20,
+      });
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('Database error');
+      (recommendationsService.getRecommendations as jest.Mock).mockRejectedValue(error);
+
+      await getRecommendations(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { contentDiscoveryService } from '@ajgifford/keepwatching-common-server/services';
 import { MediaType } from '@ajgifford/keepwatching-types';
-import { searchMovies, searchShows } from '@controllers/searchController';
+import { multiSearch, searchMovies, searchPeople, searchShows } from '@controllers/searchController';
+import { peopleService } from '@services/peopleService';
+import { searchService } from '@services/searchService';
 
 // Mock the services before using them
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
@@ -10,6 +12,18 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   },
 }));
 
+jest.mock('@services/peopleService', () => ({
+  peopleService: {
+    searchPeople: jest.fn(),
+  },
+}));
+
+jest.mock('@services/searchService', () => ({
+  searchService: {
+    multiSearch: jest.fn(),
+  },
+}));
+
 describe('searchController', () => {
   let req: any;
   let res: any;
@@ -199,4 +213,87 @@ describe('searchController', () => {
       expect(next).toHaveBeenCalledWith(error);
     });
   });
+
+  describe('searchPeople', () => {
+    it('should search for people', async () => {
+      req.query = {
+        searchString: 'Tom Hanks',
+        page: '2',
+      };
+
+      const mockSearchResults = {
+        results: [{ id: 31, name: 'Tom Hanks' }],
+        totalResults: 1,
+        totalPages: 1,
+        currentPage: 2,
+      };
+
+      (peopleService.searchPeople as jest.Mock).mockResolvedValue(mockSearchResults);
+
+      await searchPeople(req, res, next);
+
+      expect(peopleService.searchPeople).toHaveBeenCalledWith('Tom Hanks', 2);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(mockSearchResults);
+    });
+
+    it('should handle errors properly', async () => {
+      req.query = {
+        searchString: 'Tom Hanks',
+      };
+
+      const error = new Error('Search failed');
+      (peopleService.searchPeople as jest.Mock).mockRejectedValue(error);
+
+      await searchPeople(req, res, next);
+
+      expect(peopleService.searchPeople).toHaveBeenCalledWith('Tom Hanks', 1);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('multiSearch', () => {
+    it('should search every type for a profile', async () => {
+      req.query = { q: 'alien', year: '1979', page: '2', profileId: '123' };
+      const mockSearchResults = {
+        results: [{ type: 'movie', tmdbId: 348, title: 'Alien', inLibrary: true }],
+        totalResults: 1,
+        totalPages: 1,
+        currentPage: 2,
+      };
+      (searchService.multiSearch as jest.Mock).mockResolvedValue(mockSearchResults);
+
+      await multiSearch(req, res, next);
+
+      expect(searchService.multiSearch).toHaveBeenCalledWith({ query: 'alien', year: '1979', page: 2, profileId: 123 });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(mockSearchResults);
+    });
+
+    it('should default to the first page without a profile', async () => {
+      req.query = { q: 'alien' };
+      (searchService.multiSearch as jest.Mock).mockResolvedValue({ results: [] });
+
+      await multiSearch(req, res, next);
+
+      expect(searchService.multiSearch).toHaveBeenCalledWith({
+        query: 'alien',
+        year: undefined,
+        page: 1,
+        profileId: undefined,
+      });
+    });
+
+    it('should handle errors properly', async () => {
+      req.query = { q: 'alien' };
+      const error = new Error('Search failed');
+      (searchService.multiSearch as jest.Mock).mockRejectedValue(error);
+
+      await multiSearch(req, res, next);
+
+      expect(res.status).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
 });
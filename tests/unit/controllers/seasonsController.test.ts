@@ -1,10 +1,38 @@
 import { seasonsService } from '@ajgifford/keepwatching-common-server/testing';
 import { getSeasonsForShow, updateSeasonWatchStatus } from '@controllers/seasonsController';
+import { ratingsService } from '@services/ratingsService';
+import { runtimeService } from '@services/runtimeService';
+import { socketEventService } from '@services/socketEventService';
+import { watchProgressService } from '@services/watchProgressService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   seasonsService: seasonsService,
 }));
 
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getShowRatings: jest.fn(),
+  },
+}));
+
+jest.mock('@services/runtimeService', () => ({
+  runtimeService: {
+    getShowRuntime: jest.fn(),
+  },
+}));
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToProfile: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchProgressService', () => ({
+  watchProgressService: {
+    updateSeasonWatchStatus: jest.fn(),
+  },
+}));
+
 describe('seasonsController', () => {
   let req: any;
   let res: any;
@@ -27,11 +55,17 @@ describe('seasonsController', () => {
   describe('updateSeasonWatchStatus', () => {
     it('should update season watch status successfully', async () => {
       req.body = { seasonId: 456, status: 'WATCHED', recursive: false };
-      (seasonsService.updateSeasonWatchStatus as jest.Mock).mockResolvedValue(true);
+      (watchProgressService.updateSeasonWatchStatus as jest.Mock).mockResolvedValue(undefined);
 
       await updateSeasonWatchStatus(req, res, next);
 
-      expect(seasonsService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(watchProgressService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'seasons:updated', {
+        profileId: 123,
+        seasonId: 456,
+        status: 'WATCHED',
+        recursive: false,
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully updated the season watch status',
@@ -41,11 +75,11 @@ describe('seasonsController', () => {
 
     it('should update season watch status with recursive option', async () => {
       req.body = { seasonId: 456, status: 'WATCHED', recursive: true };
-      (seasonsService.updateSeasonWatchStatus as jest.Mock).mockResolvedValue(true);
+      (watchProgressService.updateSeasonWatchStatus as jest.Mock).mockResolvedValue(undefined);
 
       await updateSeasonWatchStatus(req, res, next);
 
-      expect(seasonsService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', true);
+      expect(watchProgressService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', true);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully updated the season watch status',
@@ -55,11 +89,11 @@ describe('seasonsController', () => {
     it('should handle errors from the service', async () => {
       req.body = { seasonId: 456, status: 'WATCHED' };
       const error = new Error('Failed to update status');
-      (seasonsService.updateSeasonWatchStatus as jest.Mock).mockRejectedValue(error);
+      (watchProgressService.updateSeasonWatchStatus as jest.Mock).mockRejectedValue(error);
 
       await updateSeasonWatchStatus(req, res, next);
 
-      expect(seasonsService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(watchProgressService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
@@ -74,14 +108,49 @@ describe('seasonsController', () => {
         { season_id: 2, name: 'Season 2', episodes: [{ episode_id: 201 }] },
       ];
       (seasonsService.getSeasonsForShow as jest.Mock).mockResolvedValue(mockSeasons);
+      (runtimeService.getShowRuntime as jest.Mock).mockResolvedValue({
+        seasons: [
+          { seasonId: 1, totalRuntime: 90, watchedRuntime: 45, remainingRuntime: 45 },
+          { seasonId: 2, totalRuntime: 50, watchedRuntime: 0, remainingRuntime: 50 },
+        ],
+      });
+      const seasonRating = { rating: 8, stars: 4, review: null, updatedAt: new Date('2025-06-01T12:00:00Z') };
+      const episodeRating = { rating: 10, stars: 5, review: 'Best one', updatedAt: new Date('2025-06-01T12:00:00Z') };
+      (ratingsService.getShowRatings as jest.Mock).mockResolvedValue({
+        show: null,
+        seasons: new Map([[1, seasonRating]]),
+        episodes: new Map([[102, episodeRating]]),
+      });
 
       await getSeasonsForShow(req, res, next);
 
       expect(seasonsService.getSeasonsForShow).toHaveBeenCalledWith(123, '200');
+      expect(runtimeService.getShowRuntime).toHaveBeenCalledWith(123, '200');
+      expect(ratingsService.getShowRatings).toHaveBeenCalledWith(123, '200');
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved seasons for the show',
-        results: mockSeasons,
+        results: [
+          {
+            ...mockSeasons[0],
+            totalRuntime: 90,
+            watchedRuntime: 45,
+            remainingRuntime: 45,
+            profileRating: seasonRating,
+            episodes: [
+              { episode_id: 101, profileRating: null },
+              { episode_id: 102, profileRating: episodeRating },
+            ],
+          },
+          {
+            ...mockSeasons[1],
+            totalRuntime: 50,
+            watchedRuntime: 0,
+            remainingRuntime: 50,
+            profileRating: null,
+            episodes: [{ episode_id: 201, profileRating: null }],
+          },
+        ],
       });
       expect(next).not.toHaveBeenCalled();
     });
@@ -1,17 +1,73 @@
 import { showService } from '@ajgifford/keepwatching-common-server/testing';
 import {
   addFavorite,
+  addShowToWatchlist,
   getProfileEpisodes,
   getShowDetails,
+  getShowProgress,
   getShowRecommendations,
+  getShowWatchlist,
   getShows,
   getSimilarShows,
+  markShowWatchedUpToEpisode,
+  promoteShowFromWatchlist,
   removeFavorite,
+  removeShowFromWatchlist,
+  reorderShowWatchlist,
   updateShowWatchStatus,
 } from '@controllers/showsController';
+import { libraryListService } from '@services/libraryListService';
+import { ratingsService } from '@services/ratingsService';
+import { runtimeService } from '@services/runtimeService';
+import { socketEventService } from '@services/socketEventService';
+import { watchProgressService } from '@services/watchProgressService';
+import { watchlistService } from '@services/watchlistService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({ showService: showService }));
 
+jest.mock('@services/libraryListService', () => ({
+  libraryListService: {
+    getPage: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getShowRatings: jest.fn(),
+  },
+}));
+
+jest.mock('@services/runtimeService', () => ({
+  runtimeService: {
+    getShowRuntime: jest.fn(),
+    getShowProgress: jest.fn(),
+  },
+}));
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToProfile: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchProgressService', () => ({
+  watchProgressService: {
+    markShowWatchedUpToEpisode: jest.fn(),
+    updateShowWatchStatus: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchlistService', () => ({
+  watchlistService: {
+    getWatchlist: jest.fn(),
+    addToWatchlist: jest.fn(),
+    removeFromWatchlist: jest.fn(),
+    reorderWatchlist: jest.fn(),
+    promoteShow: jest.fn(),
+    removeFavoritedItem: jest.fn(),
+  },
+}));
+
 describe('showsController', () => {
   let req: any;
   let res: any;
@@ -20,6 +76,7 @@ describe('showsController', () => {
   beforeEach(() => {
     req = {
       params: { accountId: 1, profileId: 123, showId: 456 },
+      query: {},
       body: {},
     };
     res = {
@@ -34,25 +91,57 @@ describe('showsController', () => {
   describe('getShows', () => {
     it('should get shows for a profile', async () => {
       const mockShows = [
-        { showId: 1, title: 'Show 1', watchStatus: 'WATCHING' },
-        { showId: 2, title: 'Show 2', watchStatus: 'NOT_WATCHED' },
+        { show_id: 1, title: 'Show 1', watchStatus: 'WATCHING' },
+        { show_id: 2, title: 'Show 2', watchStatus: 'NOT_WATCHED' },
       ];
+      const pagination = { page: 1, limit: 2, total: 2, totalPages: 1 };
       (showService.getShowsForProfile as jest.Mock).mockResolvedValue(mockShows);
+      (libraryListService.getPage as jest.Mock).mockImplementation(async (_profileId, _type, loadItems) => ({
+        items: await loadItems(),
+        pagination,
+      }));
 
       await getShows(req, res, next);
 
       expect(showService.getShowsForProfile).toHaveBeenCalledWith(123);
+      expect(libraryListService.getPage).toHaveBeenCalledWith(123, 'show', expect.any(Function), 'show_id', {
+        sortBy: undefined,
+        sortOrder: undefined,
+        fields: undefined,
+        page: undefined,
+        limit: undefined,
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved shows for a profile',
         shows: mockShows,
+        pagination,
       });
       expect(next).not.toHaveBeenCalled();
     });
 
+    it('should pass the sort, fields and page through', async () => {
+      const pagination = { page: 2, limit: 10, total: 12, totalPages: 2 };
+      req.query = { sortBy: 'lastWatched', sortOrder: 'desc', fields: 'title', page: '2', limit: '10' };
+      (libraryListService.getPage as jest.Mock).mockResolvedValue({ items: [], pagination });
+
+      await getShows(req, res, next);
+
+      expect(libraryListService.getPage).toHaveBeenCalledWith(123, 'show', expect.any(Function), 'show_id', {
+        sortBy: 'lastWatched',
+        sortOrder: 'desc',
+        fields: 'title',
+        page: 2,
+        limit: 10,
+      });
+    });
+
     it('should handle errors', async () => {
       const error = new Error('Failed to get shows');
       (showService.getShowsForProfile as jest.Mock).mockRejectedValue(error);
+      (libraryListService.getPage as jest.Mock).mockImplementation(async (_profileId, _type, loadItems) => ({
+        items: await loadItems(),
+      }));
 
       await getShows(req, res, next);
 
@@ -69,17 +158,70 @@ describe('showsController', () => {
         id: 456,
         title: 'Breaking Bad',
         description: 'A high school chemistry teacher turned meth cook',
-        seasons: [{ seasonId: 1, name: 'Season 1' }],
+        seasons: [
+          { season_id: 1, name: 'Season 1' },
+          { season_id: 2, name: 'Season 2' },
+        ],
       };
       (showService.getShowDetailsForProfile as jest.Mock).mockResolvedValue(mockShowDetails);
+      (runtimeService.getShowRuntime as jest.Mock).mockResolvedValue({
+        totalRuntime: 300,
+        watchedRuntime: 100,
+        remainingRuntime: 200,
+        totalEpisodes: 6,
+        watchedEpisodes: 2,
+        seasons: [
+          {
+            seasonId: 1,
+            totalEpisodes: 6,
+            watchedEpisodes: 2,
+            totalRuntime: 300,
+            watchedRuntime: 100,
+            remainingRuntime: 200,
+          },
+        ],
+      });
+      const showRating = { rating: 9, stars: 4.5, review: 'Tense', updatedAt: new Date('2025-06-01T12:00:00Z') };
+      const seasonRating = { rating: 7, stars: 3.5, review: null, updatedAt: new Date('2025-06-01T12:00:00Z') };
+      (ratingsService.getShowRatings as jest.Mock).mockResolvedValue({
+        show: showRating,
+        seasons: new Map([[2, seasonRating]]),
+        episodes: new Map(),
+      });
 
       await getShowDetails(req, res, next);
 
       expect(showService.getShowDetailsForProfile).toHaveBeenCalledWith(123, 456);
+      expect(runtimeService.getShowRuntime).toHaveBeenCalledWith(123, 456);
+      expect(ratingsService.getShowRatings).toHaveBeenCalledWith(123, 456);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved a show and its details',
-        show: mockShowDetails,
+        show: {
+          ...mockShowDetails,
+          totalRuntime: 300,
+          watchedRuntime: 100,
+          remainingRuntime: 200,
+          profileRating: showRating,
+          seasons: [
+            {
+              season_id: 1,
+              name: 'Season 1',
+              totalRuntime: 300,
+              watchedRuntime: 100,
+              remainingRuntime: 200,
+              profileRating: null,
+            },
+            {
+              season_id: 2,
+              name: 'Season 2',
+              totalRuntime: 0,
+              watchedRuntime: 0,
+              remainingRuntime: 0,
+              profileRating: seasonRating,
+            },
+          ],
+        },
       });
       expect(next).not.toHaveBeenCalled();
     });
@@ -97,6 +239,33 @@ describe('showsController', () => {
     });
   });
 
+  describe('getShowProgress', () => {
+    it('should get the progress of a show for a profile', async () => {
+      const mockProgress = { showId: 456, percentComplete: 50, estimatedFinishDate: '2025-07-01' };
+      (runtimeService.getShowProgress as jest.Mock).mockResolvedValue(mockProgress);
+
+      await getShowProgress(req, res, next);
+
+      expect(runtimeService.getShowProgress).toHaveBeenCalledWith(123, 456);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the progress of a show',
+        progress: mockProgress,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      const error = new Error('The show is not in the profile favorites');
+      (runtimeService.getShowProgress as jest.Mock).mockRejectedValue(error);
+
+      await getShowProgress(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getProfileEpisodes', () => {
     it('should get episode data for a profile', async () => {
       const mockEpisodeData = {
@@ -142,6 +311,11 @@ describe('showsController', () => {
       await addFavorite(req, res, next);
 
       expect(showService.addShowToFavorites).toHaveBeenCalledWith(1, 123, 789);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledWith(123, 'show', 789);
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'shows:favorited', {
+        profileId: 123,
+        show: mockResult.favoritedShow,
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully saved show as a favorite',
@@ -201,11 +375,11 @@ describe('showsController', () => {
   describe('updateShowWatchStatus', () => {
     it('should update show watch status with default recursive value', async () => {
       req.body = { showId: 456, status: 'WATCHED' };
-      (showService.updateShowWatchStatus as jest.Mock).mockResolvedValue([]);
+      (watchProgressService.updateShowWatchStatus as jest.Mock).mockResolvedValue([]);
 
       await updateShowWatchStatus(req, res, next);
 
-      expect(showService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(watchProgressService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: "Successfully updated the watch status to 'WATCHED'",
@@ -216,11 +390,11 @@ describe('showsController', () => {
 
     it('should update show watch status with specified recursive value', async () => {
       req.body = { showId: 456, status: 'WATCHED', recursive: true };
-      (showService.updateShowWatchStatus as jest.Mock).mockResolvedValue([]);
+      (watchProgressService.updateShowWatchStatus as jest.Mock).mockResolvedValue([]);
 
       await updateShowWatchStatus(req, res, next);
 
-      expect(showService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', true);
+      expect(watchProgressService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', true);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: "Successfully updated the watch status to 'WATCHED'",
@@ -232,11 +406,45 @@ describe('showsController', () => {
     it('should handle errors', async () => {
       req.body = { showId: 456, status: 'WATCHED' };
       const error = new Error('Failed to update watch status');
-      (showService.updateShowWatchStatus as jest.Mock).mockRejectedValue(error);
+      (watchProgressService.updateShowWatchStatus as jest.Mock).mockRejectedValue(error);
 
       await updateShowWatchStatus(req, res, next);
 
-      expect(showService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(watchProgressService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 456, 'WATCHED', false);
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markShowWatchedUpToEpisode', () => {
+    it('should mark earlier episodes as watched and return the new show status', async () => {
+      req.body = { showId: 456, episodeId: 789 };
+      const nextUnwatchedEpisodes = [{ show_id: 456, episodes: [{ episode_id: 789 }] }];
+      (watchProgressService.markShowWatchedUpToEpisode as jest.Mock).mockResolvedValue({
+        showStatus: 'WATCHING',
+        nextUnwatchedEpisodes,
+      });
+
+      await markShowWatchedUpToEpisode(req, res, next);
+
+      expect(watchProgressService.markShowWatchedUpToEpisode).toHaveBeenCalledWith(123, 456, 789);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully marked the earlier episodes as watched',
+        showStatus: 'WATCHING',
+        nextUnwatchedEpisodes,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      req.body = { showId: 456, episodeId: 789 };
+      const error = new Error('The episode does not belong to the show');
+      (watchProgressService.markShowWatchedUpToEpisode as jest.Mock).mockRejectedValue(error);
+
+      await markShowWatchedUpToEpisode(req, res, next);
+
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
       expect(res.json).not.toHaveBeenCalled();
@@ -306,4 +514,82 @@ describe('showsController', () => {
       expect(res.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('show watchlist', () => {
+    const watchlist = [{ id: 1, tmdbId: 1396, title: 'Breaking Bad', position: 1 }];
+
+    it('should get the show watchlist', async () => {
+      (watchlistService.getWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await getShowWatchlist(req, res, next);
+
+      expect(watchlistService.getWatchlist).toHaveBeenCalledWith(123, 'show');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved the show watchlist for a profile',
+        watchlist,
+      });
+    });
+
+    it('should add a show to the watchlist', async () => {
+      req.body = { showTMDBId: 1396 };
+      (watchlistService.addToWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await addShowToWatchlist(req, res, next);
+
+      expect(watchlistService.addToWatchlist).toHaveBeenCalledWith(123, 'show', 1396);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully added the show to the watchlist', watchlist });
+    });
+
+    it('should remove a show from the watchlist', async () => {
+      req.params = { accountId: 1, profileId: 123, tmdbId: 1396 };
+      (watchlistService.removeFromWatchlist as jest.Mock).mockResolvedValue([]);
+
+      await removeShowFromWatchlist(req, res, next);
+
+      expect(watchlistService.removeFromWatchlist).toHaveBeenCalledWith(123, 'show', 1396);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully removed the show from the watchlist',
+        watchlist: [],
+      });
+    });
+
+    it('should reorder the show watchlist', async () => {
+      req.body = { tmdbIds: [1396] };
+      (watchlistService.reorderWatchlist as jest.Mock).mockResolvedValue(watchlist);
+
+      await reorderShowWatchlist(req, res, next);
+
+      expect(watchlistService.reorderWatchlist).toHaveBeenCalledWith(123, 'show', [1396]);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Successfully reordered the show watchlist', watchlist });
+    });
+
+    it('should promote a show from the watchlist to favorites', async () => {
+      req.params = { accountId: 1, profileId: 123, tmdbId: 1396 };
+      const favoritedShow = { show_id: 5, title: 'Breaking Bad' };
+      const episodes = { recentEpisodes: [], upcomingEpisodes: [], nextUnwatchedEpisodes: [] };
+      (watchlistService.promoteShow as jest.Mock).mockResolvedValue({ favoritedShow, episodes });
+
+      await promoteShowFromWatchlist(req, res, next);
+
+      expect(watchlistService.promoteShow).toHaveBeenCalledWith(1, 123, 1396);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully moved the show from the watchlist to favorites',
+        addedShow: favoritedShow,
+        episodes,
+      });
+    });
+
+    it('should handle errors', async () => {
+      req.body = { showTMDBId: 1396 };
+      const error = new Error('The show is already on the watchlist');
+      (watchlistService.addToWatchlist as jest.Mock).mockRejectedValue(error);
+
+      await addShowToWatchlist(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
 });
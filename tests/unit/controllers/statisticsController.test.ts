@@ -1,8 +1,29 @@
 import { statisticsService } from '@ajgifford/keepwatching-common-server/testing';
-import { getAccountStatistics, getProfileStatistics } from '@controllers/statisticsController';
+import { getAccountStatistics, getProfileActivity, getProfileStatistics } from '@controllers/statisticsController';
+import { activityStatisticsService } from '@services/activityStatisticsService';
+import { ratingsService } from '@services/ratingsService';
+import { runtimeService } from '@services/runtimeService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({ statisticsService: statisticsService }));
 
+jest.mock('@services/activityStatisticsService', () => ({
+  activityStatisticsService: {
+    getProfileActivity: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ratingsService', () => ({
+  ratingsService: {
+    getRatingStatistics: jest.fn(),
+  },
+}));
+
+jest.mock('@services/runtimeService', () => ({
+  runtimeService: {
+    getProfileRuntime: jest.fn(),
+  },
+}));
+
 describe('statisticsController', () => {
   let req: any;
   let res: any;
@@ -11,6 +32,7 @@ describe('statisticsController', () => {
   beforeEach(() => {
     req = {
       params: {},
+      query: {},
     };
     res = {
       status: jest.fn().mockReturnThis(),
@@ -30,15 +52,28 @@ describe('statisticsController', () => {
         episodeWatchProgress: { watchedEpisodes: 50 },
       };
 
+      const mockRuntime = { totalRuntime: 600, watchedRuntime: 240, remainingRuntime: 360 };
+
+      const mockRatings = {
+        ratedCount: 1,
+        averageRating: 8,
+        distribution: [{ rating: 8, count: 1 }],
+        topRatedGenres: [{ genre: 'Drama', averageRating: 8, ratedCount: 1 }],
+      };
+
       (statisticsService.getProfileStatistics as jest.Mock).mockResolvedValue(mockStats);
+      (runtimeService.getProfileRuntime as jest.Mock).mockResolvedValue(mockRuntime);
+      (ratingsService.getRatingStatistics as jest.Mock).mockResolvedValue(mockRatings);
 
       await getProfileStatistics(req, res, next);
 
       expect(statisticsService.getProfileStatistics).toHaveBeenCalledWith(123);
+      expect(runtimeService.getProfileRuntime).toHaveBeenCalledWith(123);
+      expect(ratingsService.getRatingStatistics).toHaveBeenCalledWith(123);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Successfully retrieved profile statistics',
-        results: mockStats,
+        results: { ...mockStats, runtimeStatistics: mockRuntime, ratingStatistics: mockRatings },
       });
       expect(next).not.toHaveBeenCalled();
     });
@@ -94,4 +129,53 @@ describe('statisticsController', () => {
       expect(res.json).not.toHaveBeenCalled();
     });
   });
+
+  describe('getProfileActivity', () => {
+    it('should return profile activity for the requested range', async () => {
+      req.params = { accountId: 1, profileId: 123 };
+      req.query = { granularity: 'week', from: '2025-01-01', to: '2025-03-31' };
+      const mockActivity = {
+        granularity: 'week',
+        series: [{ period: '2024-12-30', episodesWatched: 4, moviesWatched: 1, minutesWatched: 310 }],
+        streaks: { longest: { days: 5 }, current: { days: 2 } },
+      };
+      (activityStatisticsService.getProfileActivity as jest.Mock).mockResolvedValue(mockActivity);
+
+      await getProfileActivity(req, res, next);
+
+      expect(activityStatisticsService.getProfileActivity).toHaveBeenCalledWith(
+        123,
+        'week',
+        '2025-01-01',
+        '2025-03-31',
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Successfully retrieved profile watch activity',
+        results: mockActivity,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should default to daily activity', async () => {
+      req.params = { accountId: 1, profileId: 123 };
+      (activityStatisticsService.getProfileActivity as jest.Mock).mockResolvedValue({});
+
+      await getProfileActivity(req, res, next);
+
+      expect(activityStatisticsService.getProfileActivity).toHaveBeenCalledWith(123, 'day', undefined, undefined);
+    });
+
+    it('should handle errors', async () => {
+      req.params = { accountId: 1, profileId: 123 };
+      const error = new Error('Failed to get activity');
+      (activityStatisticsService.getProfileActivity as jest.Mock).mockRejectedValue(error);
+
+      await getProfileActivity(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
 });
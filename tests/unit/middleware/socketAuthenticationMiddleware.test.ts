@@ -0,0 +1,208 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService } from '@ajgifford/keepwatching-common-server/testing';
+import { authenticateSocket, enforceSocketTokenLifetime } from '@middleware/socketAuthenticationMiddleware';
+import { Socket } from 'socket.io';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: accountService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  GlobalErrorHandler: {
+    logError: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+const mockVerifyIdToken = jest.fn();
+jest.mock('firebase-admin', () => ({
+  auth: jest.fn(() => ({ verifyIdToken: mockVerifyIdToken })),
+}));
+
+type Handler = (...args: any[]) => unknown;
+
+function createSocket(auth: Record<string, unknown> = {}, data: Record<string, unknown> = {}) {
+  const handlers = new Map<string, Handler>();
+  const socket = {
+    handshake: { auth },
+    data: { ...data },
+    on: jest.fn((event: string, handler: Handler) => handlers.set(event, handler)),
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+  };
+  return { socket, handlers, asSocket: socket as unknown as Socket };
+}
+
+describe('socketAuthenticationMiddleware', () => {
+  const now = new Date('2025-06-15T12:00:00Z').getTime();
+  const account = { id: 1, uid: 'uid-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    delete process.env.SOCKET_TOKEN_CHECK_MINUTES;
+    (accountService.findAccountById as jest.Mock).mockResolvedValue(account);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('authenticateSocket', () => {
+    it('should accept a valid token for the account and store the session on the socket', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'uid-1', email: 'test@example.com', exp: now / 1000 + 3600 });
+      const { socket, asSocket } = createSocket({ token: 'token-1', account_id: '1' });
+      const next = jest.fn();
+
+      await authenticateSocket(asSocket, next);
+
+      expect(mockVerifyIdToken).toHaveBeenCalledWith('token-1', true);
+      expect(accountService.findAccountById).toHaveBeenCalledWith(1);
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data).toEqual({
+        userId: 'uid-1',
+        email: 'test@example.com',
+        accountId: 1,
+        token: 'token-1',
+        tokenExpiresAt: now + 3600 * 1000,
+      });
+    });
+
+    it('should reject a handshake without a token', async () => {
+      const { asSocket } = createSocket({ account_id: '1' });
+      const next = jest.fn();
+
+      await authenticateSocket(asSocket, next);
+
+      expect(next).toHaveBeenCalledWith(new Error('Authentication error: No token provided'));
+      expect(mockVerifyIdToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject a handshake without an account id', async () => {
+      const { asSocket } = createSocket({ token: 'token-1' });
+      const next = jest.fn();
+
+      await authenticateSocket(asSocket, next);
+
+      expect(next).toHaveBeenCalledWith(new Error('Authentication error: No account id provided'));
+    });
+
+    it('should reject an invalid token', async () => {
+      mockVerifyIdToken.mockRejectedValue(Object.assign(new Error('Invalid'), { code: 'auth/argument-error' }));
+      const { socket, asSocket } = createSocket({ token: 'bad-token', account_id: '1' });
+      const next = jest.fn();
+
+      await authenticateSocket(asSocket, next);
+
+      expect(next).toHaveBeenCalledWith(new Error('Authentication error'));
+      expect(socket.data).toEqual({});
+    });
+
+    it('should reject a token whose user does not own the account', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'uid-2', exp: now / 1000 + 3600 });
+      const { socket, asSocket } = createSocket({ token: 'token-2', account_id: '1' });
+      const next = jest.fn();
+
+      await authenticateSocket(asSocket, next);
+
+      expect(next).toHaveBeenCalledWith(
+        new Error('Authentication error: You do not have permission to access this account'),
+      );
+      expect(socket.data).toEqual({});
+    });
+  });
+
+  describe('enforceSocketTokenLifetime', () => {
+    const session = { userId: 'uid-1', accountId: 1, token: 'token-1', tokenExpiresAt: now + 60 * 60 * 1000 };
+
+    it('should end the session when the token expires', () => {
+      const { socket, asSocket } = createSocket({}, session);
+
+      enforceSocketTokenLifetime(asSocket);
+      jest.advanceTimersByTime(60 * 60 * 1000);
+
+      expect(socket.emit).toHaveBeenCalledWith('auth:sessionEnded', { reason: 'expired' });
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should end the session when the token is revoked', async () => {
+      mockVerifyIdToken.mockRejectedValue(Object.assign(new Error('Revoked'), { code: 'auth/id-token-revoked' }));
+      const { socket, asSocket } = createSocket({}, session);
+
+      enforceSocketTokenLifetime(asSocket);
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      expect(mockVerifyIdToken).toHaveBeenCalledWith('token-1', true);
+      expect(socket.emit).toHaveBeenCalledWith('auth:sessionEnded', { reason: 'revoked' });
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should keep the session when Firebase cannot be reached', async () => {
+      const error = new Error('Network error');
+      mockVerifyIdToken.mockRejectedValue(error);
+      const { socket, asSocket } = createSocket({}, session);
+
+      enforceSocketTokenLifetime(asSocket);
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      expect(socket.disconnect).not.toHaveBeenCalled();
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to check the token of a socket', { error, accountId: 1 });
+    });
+
+    it('should extend the session when the client refreshes its token', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'uid-1', exp: now / 1000 + 2 * 60 * 60 });
+      const { socket, handlers, asSocket } = createSocket({}, session);
+      const ack = jest.fn();
+
+      enforceSocketTokenLifetime(asSocket);
+      await handlers.get('auth:refresh')!({ token: 'token-2' }, ack);
+      jest.advanceTimersByTime(60 * 60 * 1000);
+
+      expect(ack).toHaveBeenCalledWith({ refreshed: true });
+      expect(socket.data.token).toBe('token-2');
+      expect(socket.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a refreshed token for a different user', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'uid-2', exp: now / 1000 + 2 * 60 * 60 });
+      const { socket, handlers, asSocket } = createSocket({}, session);
+      const ack = jest.fn();
+
+      enforceSocketTokenLifetime(asSocket);
+      await handlers.get('auth:refresh')!({ token: 'token-2' }, ack);
+
+      expect(ack).toHaveBeenCalledWith({ refreshed: false, error: 'The token belongs to a different user' });
+      expect(socket.data.token).toBe('token-1');
+      jest.advanceTimersByTime(60 * 60 * 1000);
+      expect(socket.emit).toHaveBeenCalledWith('auth:sessionEnded', { reason: 'expired' });
+    });
+
+    it('should refuse an invalid refreshed token', async () => {
+      mockVerifyIdToken.mockRejectedValue(Object.assign(new Error('Invalid'), { code: 'auth/argument-error' }));
+      const { handlers, asSocket } = createSocket({}, session);
+      const ack = jest.fn();
+
+      enforceSocketTokenLifetime(asSocket);
+      await handlers.get('auth:refresh')!({ token: 'bad-token' }, ack);
+
+      expect(ack).toHaveBeenCalledWith({ refreshed: false, error: 'Invalid token' });
+    });
+
+    it('should clear its timers when the socket disconnects', async () => {
+      const { socket, handlers, asSocket } = createSocket({}, session);
+
+      enforceSocketTokenLifetime(asSocket);
+      handlers.get('disconnect')!();
+      await jest.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+
+      expect(jest.getTimerCount()).toBe(0);
+      expect(mockVerifyIdToken).not.toHaveBeenCalled();
+      expect(socket.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -8,6 +8,10 @@ jest.mock('@controllers/accountController', () => ({
   googleLogin: jest.fn((_req, res) => res.status(200).send('google logged in')),
   logout: jest.fn((_req, res) => res.status(200).send('logged out')),
   editAccount: jest.fn((_req, res) => res.status(200).send('account edited')),
+  exportAccount: jest.fn((_req, res) => res.status(200).send('account exported')),
+  deleteAccount: jest.fn((_req, res) => res.status(202).send('account deletion scheduled')),
+  getAccountDeletion: jest.fn((_req, res) => res.status(200).send('account deletion retrieved')),
+  cancelAccountDeletion: jest.fn((_req, res) => res.status(200).send('account deletion cancelled')),
 }));
 
 jest.mock('@middleware/authenticationMiddleware', () => ({
@@ -57,4 +61,28 @@ describe('Account Router', () => {
     expect(res.status).toBe(200);
     expect(res.text).toBe('account edited');
   });
+
+  it('GET /api/v1/accounts/:accountId/export', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/export?format=csv');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('account exported');
+  });
+
+  it('DELETE /api/v1/accounts/:accountId', async () => {
+    const res = await request(app).delete('/api/v1/accounts/123?revokeFirebaseUser=true');
+    expect(res.status).toBe(202);
+    expect(res.text).toBe('account deletion scheduled');
+  });
+
+  it('GET /api/v1/accounts/:accountId/deletion', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/deletion');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('account deletion retrieved');
+  });
+
+  it('POST /api/v1/accounts/:accountId/deletion/cancel', async () => {
+    const res = await request(app).post('/api/v1/accounts/123/deletion/cancel');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('account deletion cancelled');
+  });
 });
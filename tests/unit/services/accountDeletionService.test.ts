@@ -0,0 +1,202 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, profileService } from '@ajgifford/keepwatching-common-server/testing';
+import * as accountDeletionDb from '@db/accountDeletionDb';
+import { accountDeletionService } from '@services/accountDeletionService';
+import admin from 'firebase-admin';
+import fs from 'fs';
+import cron from 'node-cron';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: accountService,
+  profileService: profileService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
+  getUploadDirectory: jest.fn(() => '/uploads'),
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+jest.mock('@db/accountDeletionDb');
+
+const mockDeleteUser = jest.fn();
+jest.mock('firebase-admin', () => ({
+  auth: jest.fn(() => ({ deleteUser: mockDeleteUser })),
+}));
+
+jest.mock('fs', () => ({
+  promises: {
+    unlink: jest.fn(),
+  },
+}));
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(),
+}));
+
+describe('AccountDeletionService', () => {
+  const account = { id: 1, uid: 'uid-1', name: 'Test User', email: 'test@example.com', image: 'account.png' };
+  const profiles = [
+    { id: 11, name: 'Main', image: 'main.png' },
+    { id: 12, name: 'Kids', image: undefined },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+    (accountService.findAccountById as jest.Mock).mockResolvedValue(account);
+    (profileService.getProfilesByAccountId as jest.Mock).mockResolvedValue(profiles);
+    (profileService.deleteProfile as jest.Mock).mockResolvedValue(true);
+    (fs.promises.unlink as jest.Mock).mockResolvedValue(undefined);
+    mockDeleteUser.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
+
+  describe('requestDeletion', () => {
+    it('should schedule the deletion after the grace period', async () => {
+      const result = await accountDeletionService.requestDeletion(1, true);
+
+      const scheduledFor = new Date('2025-06-22T12:00:00Z');
+      expect(accountDeletionDb.saveDeletionRequest).toHaveBeenCalledWith(1, scheduledFor, true);
+      expect(profileService.deleteProfile).not.toHaveBeenCalled();
+      expect(result).toEqual({ accountId: 1, status: 'SCHEDULED', revokeFirebaseUser: true, scheduledFor });
+    });
+
+    it('should purge the account straight away without a grace period', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+
+      const result = await accountDeletionService.requestDeletion(1, true);
+
+      expect(accountDeletionDb.saveDeletionRequest).not.toHaveBeenCalled();
+      expect(profileService.deleteProfile).toHaveBeenCalledWith(11);
+      expect(profileService.deleteProfile).toHaveBeenCalledWith(12);
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(11);
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(12);
+      expect(fs.promises.unlink).toHaveBeenCalledWith('/uploads/profiles/main.png');
+      expect(fs.promises.unlink).toHaveBeenCalledWith('/uploads/accounts/account.png');
+      expect(fs.promises.unlink).toHaveBeenCalledTimes(2);
+      expect(mockDeleteUser).toHaveBeenCalledWith('uid-1');
+      expect(accountDeletionDb.deleteAccountNotifications).toHaveBeenCalledWith(1);
+      expect(accountDeletionDb.deleteAccount).toHaveBeenCalledWith(1);
+      expect(result).toEqual({ accountId: 1, status: 'DELETED', revokeFirebaseUser: true, scheduledFor: null });
+    });
+
+    it('should keep the Firebase user unless asked to revoke it', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+
+      await accountDeletionService.requestDeletion(1, false);
+
+      expect(accountDeletionDb.deleteAccount).toHaveBeenCalledWith(1);
+      expect(mockDeleteUser).not.toHaveBeenCalled();
+      expect(admin.auth).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when the account does not exist', async () => {
+      (accountService.findAccountById as jest.Mock).mockResolvedValue(null);
+
+      await expect(accountDeletionService.requestDeletion(99, false)).rejects.toThrow(NotFoundError);
+      expect(accountDeletionDb.saveDeletionRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPendingDeletion', () => {
+    it('should return the pending deletion', async () => {
+      const deletion = {
+        accountId: 1,
+        revokeFirebaseUser: false,
+        requestedAt: new Date('2025-06-15T12:00:00Z'),
+        scheduledFor: new Date('2025-06-22T12:00:00Z'),
+      };
+      (accountDeletionDb.getDeletionRequest as jest.Mock).mockResolvedValue(deletion);
+
+      await expect(accountDeletionService.getPendingDeletion(1)).resolves.toEqual(deletion);
+    });
+
+    it('should throw NotFoundError when no deletion is pending', async () => {
+      (accountDeletionDb.getDeletionRequest as jest.Mock).mockResolvedValue(null);
+
+      await expect(accountDeletionService.getPendingDeletion(1)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('should remove the pending deletion', async () => {
+      (accountDeletionDb.removeDeletionRequest as jest.Mock).mockResolvedValue(true);
+
+      await accountDeletionService.cancelDeletion(1);
+
+      expect(accountDeletionDb.removeDeletionRequest).toHaveBeenCalledWith(1);
+    });
+
+    it('should throw NotFoundError when no deletion is pending', async () => {
+      (accountDeletionDb.removeDeletionRequest as jest.Mock).mockResolvedValue(false);
+
+      await expect(accountDeletionService.cancelDeletion(1)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    it('should purge each due account and keep going after a failure', async () => {
+      (accountDeletionDb.getDueDeletionRequests as jest.Mock).mockResolvedValue([
+        { accountId: 1, revokeFirebaseUser: true },
+        { accountId: 2, revokeFirebaseUser: false },
+      ]);
+      mockDeleteUser.mockRejectedValueOnce(new Error('Firebase unavailable'));
+
+      const purged = await accountDeletionService.purgeDueAccounts();
+
+      expect(purged).toBe(1);
+      expect(accountDeletionDb.deleteAccount).toHaveBeenCalledTimes(1);
+      expect(accountDeletionDb.deleteAccount).toHaveBeenCalledWith(2);
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to purge a deleted account', {
+        error: expect.any(Error),
+        accountId: 1,
+      });
+    });
+
+    it('should ignore a Firebase user that no longer exists', async () => {
+      (accountDeletionDb.getDueDeletionRequests as jest.Mock).mockResolvedValue([
+        { accountId: 1, revokeFirebaseUser: true },
+      ]);
+      mockDeleteUser.mockRejectedValueOnce({ code: 'auth/user-not-found' });
+
+      await expect(accountDeletionService.purgeDueAccounts()).resolves.toBe(1);
+      expect(accountDeletionDb.deleteAccount).toHaveBeenCalledWith(1);
+    });
+
+    it('should drop the request of an account that is already gone', async () => {
+      (accountDeletionDb.getDueDeletionRequests as jest.Mock).mockResolvedValue([
+        { accountId: 3, revokeFirebaseUser: false },
+      ]);
+      (accountService.findAccountById as jest.Mock).mockResolvedValue(null);
+
+      await accountDeletionService.purgeDueAccounts();
+
+      expect(accountDeletionDb.removeDeletionRequest).toHaveBeenCalledWith(3);
+      expect(profileService.deleteProfile).not.toHaveBeenCalled();
+      expect(accountDeletionDb.deleteAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startScheduledPurge', () => {
+    it('should schedule the purge job', () => {
+      accountDeletionService.startScheduledPurge();
+
+      expect(cron.schedule).toHaveBeenCalledWith('0 * * * *', expect.any(Function));
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import {
+  accountService,
+  moviesService,
+  profileService,
+  showService,
+} from '@ajgifford/keepwatching-common-server/testing';
+import * as exportDb from '@db/exportDb';
+import { accountExportService } from '@services/accountExportService';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: accountService,
+  moviesService: moviesService,
+  profileService: profileService,
+  showService: showService,
+}));
+
+jest.mock('@db/exportDb');
+
+async function readAll(content: AsyncGenerator<string>) {
+  let output = '';
+  for await (const chunk of content) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('AccountExportService', () => {
+  const account = { id: 1, name: 'Test User', email: 'test@example.com' };
+  const episode = (episodeId: number) => ({
+    episodeId,
+    showId: 5,
+    showTitle: 'Breaking Bad',
+    seasonNumber: 1,
+    episodeNumber: episodeId,
+    title: `Episode ${episodeId}`,
+    status: 'WATCHED',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    (accountService.findAccountById as jest.Mock).mockResolvedValue(account);
+    (profileService.getProfilesByAccountId as jest.Mock).mockResolvedValue([{ id: 11, name: 'Main' }]);
+    (showService.getShowsForProfile as jest.Mock).mockResolvedValue([
+      { show_id: 5, tmdb_id: 1396, title: 'Breaking Bad', watchStatus: 'WATCHING' },
+    ]);
+    (moviesService.getMoviesForProfile as jest.Mock).mockResolvedValue([]);
+    (exportDb.getNotificationDismissals as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createExport', () => {
+    it('should export the account as JSON, reading episode statuses in batches', async () => {
+      const firstBatch = Array.from({ length: 500 }, (_, index) => episode(index + 1));
+      (exportDb.getEpisodeStatusesPage as jest.Mock)
+        .mockResolvedValueOnce(firstBatch)
+        .mockResolvedValueOnce([episode(501)]);
+
+      const result = await accountExportService.createExport(1, 'json');
+      const output = JSON.parse(await readAll(result.content));
+
+      expect(result.fileName).toBe('keepwatching-account-1-2025-06-15.json');
+      expect(result.contentType).toBe('application/json');
+      expect(exportDb.getEpisodeStatusesPage).toHaveBeenNthCalledWith(1, 11, 0, 500);
+      expect(exportDb.getEpisodeStatusesPage).toHaveBeenNthCalledWith(2, 11, 500, 500);
+      expect(output.account).toEqual(account);
+      expect(output.profiles).toHaveLength(1);
+      expect(output.profiles[0].shows).toHaveLength(1);
+      expect(output.profiles[0].episodes).toHaveLength(501);
+      expect(output.notificationDismissals).toEqual([]);
+    });
+
+    it('should export the account as CSV', async () => {
+      (exportDb.getEpisodeStatusesPage as jest.Mock).mockResolvedValueOnce([episode(1)]);
+
+      const result = await accountExportService.createExport(1, 'csv');
+      const rows = (await readAll(result.content)).trim().split('\n');
+
+      expect(result.fileName).toBe('keepwatching-account-1-2025-06-15.csv');
+      expect(rows.map((row) => row.split(',')[0])).toEqual(['record_type', 'account', 'profile', 'show', 'episode']);
+      expect(exportDb.getEpisodeStatusesPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not read any content until it is consumed', async () => {
+      await accountExportService.createExport(1, 'json');
+
+      expect(profileService.getProfilesByAccountId).not.toHaveBeenCalled();
+    });
+
+    it('should reject accounts that do not exist', async () => {
+      (accountService.findAccountById as jest.Mock).mockResolvedValue(null);
+
+      await expect(accountExportService.createExport(1, 'json')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { notificationsService } from '@ajgifford/keepwatching-common-server/testing';
+import * as notificationsDb from '@db/notificationsDb';
+import { accountNotificationsService } from '@services/accountNotificationsService';
+import { notificationDeliveryService } from '@services/notificationDeliveryService';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({ notificationsService: notificationsService }));
+
+jest.mock('@db/notificationsDb');
+
+jest.mock('@services/notificationDeliveryService', () => ({
+  notificationDeliveryService: {
+    notifyRead: jest.fn(),
+    notifyDismissed: jest.fn(),
+  },
+}));
+
+describe('AccountNotificationsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (notificationsDb.countUnreadNotifications as jest.Mock).mockResolvedValue(2);
+  });
+
+  describe('getHistory', () => {
+    it('should return a page of history with pagination details', async () => {
+      const notifications = [{ id: 1 }, { id: 2 }];
+      (notificationsDb.getNotificationHistory as jest.Mock).mockResolvedValue(notifications);
+      (notificationsDb.countNotificationHistory as jest.Mock).mockResolvedValue(45);
+      const filters = { includeDismissed: true, includeExpired: false };
+
+      const result = await accountNotificationsService.getHistory(1, { ...filters, page: 3, limit: 20 });
+
+      expect(notificationsDb.getNotificationHistory).toHaveBeenCalledWith(1, filters, 20, 40);
+      expect(notificationsDb.countNotificationHistory).toHaveBeenCalledWith(1, filters);
+      expect(result).toEqual({ notifications, pagination: { page: 3, limit: 20, total: 45, totalPages: 3 } });
+    });
+  });
+
+  describe('markRead', () => {
+    it('should mark the notification read and tell the account', async () => {
+      (notificationsDb.hasAccountNotification as jest.Mock).mockResolvedValue(true);
+
+      await expect(accountNotificationsService.markRead(1, 123)).resolves.toBe(2);
+
+      expect(notificationsDb.markNotificationsRead).toHaveBeenCalledWith(1, [123]);
+      expect(notificationDeliveryService.notifyRead).toHaveBeenCalledWith(1, [123]);
+    });
+
+    it('should throw when the notification was not sent to the account', async () => {
+      (notificationsDb.hasAccountNotification as jest.Mock).mockResolvedValue(false);
+
+      await expect(accountNotificationsService.markRead(1, 123)).rejects.toThrow(NotFoundError);
+      expect(notificationsDb.markNotificationsRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markAllRead', () => {
+    it('should mark every unread notification read', async () => {
+      (notificationsDb.getActiveNotificationIds as jest.Mock).mockResolvedValue([4, 5]);
+      (notificationsDb.countUnreadNotifications as jest.Mock).mockResolvedValue(0);
+
+      await expect(accountNotificationsService.markAllRead(1)).resolves.toBe(0);
+
+      expect(notificationsDb.getActiveNotificationIds).toHaveBeenCalledWith(1, true);
+      expect(notificationsDb.markNotificationsRead).toHaveBeenCalledWith(1, [4, 5]);
+      expect(notificationDeliveryService.notifyRead).toHaveBeenCalledWith(1, [4, 5]);
+    });
+
+    it('should not tell the account when nothing was unread', async () => {
+      (notificationsDb.getActiveNotificationIds as jest.Mock).mockResolvedValue([]);
+
+      await accountNotificationsService.markAllRead(1);
+
+      expect(notificationsDb.markNotificationsRead).not.toHaveBeenCalled();
+      expect(notificationDeliveryService.notifyRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismiss', () => {
+    it('should dismiss the notification and tell the account', async () => {
+      const remaining = [{ id: 124 }];
+      (notificationsService.dismissNotification as jest.Mock).mockResolvedValue(remaining);
+
+      await expect(accountNotificationsService.dismiss(1, 123)).resolves.toBe(remaining);
+
+      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(123, 1);
+      expect(notificationDeliveryService.notifyDismissed).toHaveBeenCalledWith(1, [123]);
+    });
+
+    it('should not tell the account when dismissing fails', async () => {
+      (notificationsService.dismissNotification as jest.Mock).mockRejectedValue(new Error('Notification not found'));
+
+      await expect(accountNotificationsService.dismiss(1, 123)).rejects.toThrow('Notification not found');
+      expect(notificationDeliveryService.notifyDismissed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismissAll', () => {
+    it('should dismiss every active notification and return what is left', async () => {
+      (notificationsDb.getActiveNotificationIds as jest.Mock).mockResolvedValue([4, 5, 6]);
+      (notificationsService.dismissNotification as jest.Mock)
+        .mockResolvedValueOnce([{ id: 5 }, { id: 6 }])
+        .mockResolvedValueOnce([{ id: 6 }])
+        .mockResolvedValueOnce([]);
+
+      await expect(accountNotificationsService.dismissAll(1)).resolves.toEqual({
+        dismissedCount: 3,
+        notifications: [],
+      });
+
+      expect(notificationsDb.getActiveNotificationIds).toHaveBeenCalledWith(1, false);
+      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(4, 1);
+      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(5, 1);
+      expect(notificationsService.dismissNotification).toHaveBeenCalledWith(6, 1);
+      expect(notificationsService.getNotifications).not.toHaveBeenCalled();
+      expect(notificationDeliveryService.notifyDismissed).toHaveBeenCalledWith(1, [4, 5, 6]);
+    });
+
+    it('should return the current notifications when nothing was active', async () => {
+      const notifications = [{ id: 7 }];
+      (notificationsDb.getActiveNotificationIds as jest.Mock).mockResolvedValue([]);
+      (notificationsService.getNotifications as jest.Mock).mockResolvedValue(notifications);
+
+      await expect(accountNotificationsService.dismissAll(1)).resolves.toEqual({ dismissedCount: 0, notifications });
+
+      expect(notificationsService.dismissNotification).not.toHaveBeenCalled();
+      expect(notificationDeliveryService.notifyDismissed).not.toHaveBeenCalled();
+    });
+  });
+});
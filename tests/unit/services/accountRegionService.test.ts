@@ -0,0 +1,30 @@
+import * as accountsDb from '@db/accountsDb';
+import { accountRegionService } from '@services/accountRegionService';
+
+jest.mock('@db/accountsDb');
+
+describe('AccountRegionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveRegion', () => {
+    it('should save the region and return it', async () => {
+      (accountsDb.getAccountRegion as jest.Mock).mockResolvedValue('GB');
+
+      const region = await accountRegionService.saveRegion(1, 'GB');
+
+      expect(accountsDb.updateAccountRegion).toHaveBeenCalledWith(1, 'GB');
+      expect(region).toBe('GB');
+    });
+
+    it('should return the current region when none is given', async () => {
+      (accountsDb.getAccountRegion as jest.Mock).mockResolvedValue('US');
+
+      const region = await accountRegionService.saveRegion(1);
+
+      expect(accountsDb.updateAccountRegion).not.toHaveBeenCalled();
+      expect(region).toBe('US');
+    });
+  });
+});
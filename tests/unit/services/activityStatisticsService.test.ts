@@ -0,0 +1,66 @@
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+import * as watchHistoryDb from '@db/watchHistoryDb';
+import { activityStatisticsService } from '@services/activityStatisticsService';
+
+jest.mock('@db/watchHistoryDb');
+
+describe('ActivityStatisticsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getProfileActivity', () => {
+    it('should summarize activity within the requested range', async () => {
+      (watchHistoryDb.getWatchActivity as jest.Mock).mockResolvedValue([
+        { date: '2025-06-13', hour: 21, contentType: 'episode', watches: 1, minutes: 50 },
+        { date: '2025-06-14', hour: 20, contentType: 'movie', watches: 1, minutes: 120 },
+        { date: '2025-06-15', hour: 9, contentType: 'episode', watches: 1, minutes: 30 },
+      ]);
+      (watchHistoryDb.getWatchDays as jest.Mock).mockResolvedValue([
+        '2025-05-20',
+        '2025-06-13',
+        '2025-06-14',
+        '2025-06-15',
+      ]);
+
+      const result = await activityStatisticsService.getProfileActivity(123, 'week', '2025-06-01', '2025-06-15');
+
+      expect(watchHistoryDb.getWatchActivity).toHaveBeenCalledWith(123, '2025-06-01', '2025-06-15');
+      expect(watchHistoryDb.getWatchDays).toHaveBeenCalledWith(123);
+      expect(result.from).toBe('2025-06-01');
+      expect(result.to).toBe('2025-06-15');
+      expect(result.series).toEqual([
+        { period: '2025-05-26', episodesWatched: 0, moviesWatched: 0, minutesWatched: 0 },
+        { period: '2025-06-02', episodesWatched: 0, moviesWatched: 0, minutesWatched: 0 },
+        { period: '2025-06-09', episodesWatched: 2, moviesWatched: 1, minutesWatched: 200 },
+      ]);
+      expect(result.totals).toEqual({ episodesWatched: 2, moviesWatched: 1, minutesWatched: 200 });
+      expect(result.streaks.current).toEqual({ days: 3, startDate: '2025-06-13', endDate: '2025-06-15' });
+      expect(result.busiestWeekday).toEqual({ weekday: 'Friday', count: 1 });
+    });
+
+    it('should default to the last 30 days', async () => {
+      (watchHistoryDb.getWatchActivity as jest.Mock).mockResolvedValue([]);
+      (watchHistoryDb.getWatchDays as jest.Mock).mockResolvedValue([]);
+
+      const result = await activityStatisticsService.getProfileActivity(123, 'day');
+
+      expect(result.from).toBe('2025-05-17');
+      expect(result.to).toBe('2025-06-15');
+      expect(result.series).toHaveLength(30);
+      expect(result.busiestHour).toBeNull();
+    });
+
+    it('should reject ranges with too many periods', async () => {
+      await expect(
+        activityStatisticsService.getProfileActivity(123, 'day', '2020-01-01', '2025-01-01'),
+      ).rejects.toThrow(BadRequestError);
+      expect(watchHistoryDb.getWatchActivity).not.toHaveBeenCalled();
+    });
+  });
+});
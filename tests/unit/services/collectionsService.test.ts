@@ -0,0 +1,176 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { moviesService } from '@ajgifford/keepwatching-common-server/testing';
+import * as collectionsDb from '@db/collectionsDb';
+import { collectionsService } from '@services/collectionsService';
+import { watchlistService } from '@services/watchlistService';
+import { withTransaction } from '@utils/db';
+import cron from 'node-cron';
+
+const mockTMDBService = {
+  getMovieDetails: jest.fn(),
+  getCollectionDetails: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+  moviesService: moviesService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(),
+}));
+
+jest.mock('@db/collectionsDb');
+
+jest.mock('@services/watchlistService', () => ({
+  watchlistService: {
+    removeFavoritedItem: jest.fn(),
+  },
+}));
+
+jest.mock('@utils/db', () => ({
+  withTransaction: jest.fn(),
+}));
+
+const connection = { id: 'connection' };
+
+describe('CollectionsService', () => {
+  const collection = { id: 10, name: 'Star Wars Collection', posterImage: '/poster.jpg', backdropImage: null };
+  const part = (position: number, tmdbId: number, watchStatus: string | null) => ({
+    collectionId: 10,
+    tmdbId,
+    title: `Episode ${position}`,
+    releaseDate: '1980-01-01',
+    posterImage: null,
+    position,
+    movieId: watchStatus ? position : null,
+    watchStatus,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (withTransaction as jest.Mock).mockImplementation((work) => work(connection));
+    mockTMDBService.getCollectionDetails.mockResolvedValue({
+      id: 10,
+      name: 'Star Wars Collection',
+      poster_path: '/poster.jpg',
+      parts: [
+        { id: 1891, title: 'The Empire Strikes Back', release_date: '1980-05-20' },
+        { id: 11, title: 'Star Wars', release_date: '1977-05-25' },
+      ],
+    });
+  });
+
+  describe('linkMovieToCollection', () => {
+    it('should save the collection of the movie and link its movies', async () => {
+      mockTMDBService.getMovieDetails.mockResolvedValue({ id: 11, belongs_to_collection: { id: 10 } });
+
+      await collectionsService.linkMovieToCollection(11);
+
+      expect(mockTMDBService.getCollectionDetails).toHaveBeenCalledWith(10);
+      expect(collectionsDb.saveCollection).toHaveBeenCalledWith(connection, collection, [
+        { tmdbId: 11, title: 'Star Wars', releaseDate: '1977-05-25', posterImage: null },
+        { tmdbId: 1891, title: 'The Empire Strikes Back', releaseDate: '1980-05-20', posterImage: null },
+      ]);
+      expect(collectionsDb.linkCollectionMovies).toHaveBeenCalledWith(connection, 10);
+      expect(collectionsDb.markCollectionChecked).toHaveBeenCalledWith(11);
+    });
+
+    it('should only record the check for a movie that is not part of a collection', async () => {
+      mockTMDBService.getMovieDetails.mockResolvedValue({ id: 949, belongs_to_collection: null });
+
+      await collectionsService.linkMovieToCollection(949);
+
+      expect(mockTMDBService.getCollectionDetails).not.toHaveBeenCalled();
+      expect(collectionsDb.saveCollection).not.toHaveBeenCalled();
+      expect(collectionsDb.markCollectionChecked).toHaveBeenCalledWith(949);
+    });
+
+    it('should log rather than throw when linking fails', async () => {
+      const error = new Error('TMDB unavailable');
+      mockTMDBService.getMovieDetails.mockRejectedValue(error);
+
+      await expect(collectionsService.linkMovieToCollection(11)).resolves.toBeUndefined();
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to link movie to its collection', {
+        error,
+        movieTMDBId: 11,
+      });
+      expect(collectionsDb.markCollectionChecked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backfillCollections', () => {
+    it('should link each favorited movie that has not been checked', async () => {
+      (collectionsDb.getUncheckedFavoriteMovies as jest.Mock).mockResolvedValue([11, 949]);
+      mockTMDBService.getMovieDetails
+        .mockResolvedValueOnce({ id: 11, belongs_to_collection: { id: 10 } })
+        .mockResolvedValueOnce({ id: 949, belongs_to_collection: null });
+
+      const result = await collectionsService.backfillCollections();
+
+      expect(collectionsDb.getUncheckedFavoriteMovies).toHaveBeenCalledWith(100);
+      expect(collectionsDb.saveCollection).toHaveBeenCalledTimes(1);
+      expect(collectionsDb.markCollectionChecked).toHaveBeenCalledWith(11);
+      expect(collectionsDb.markCollectionChecked).toHaveBeenCalledWith(949);
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('startScheduledBackfill', () => {
+    it('should schedule the backfill job', () => {
+      collectionsService.startScheduledBackfill();
+
+      expect(cron.schedule).toHaveBeenCalledWith('30 3 * * *', expect.any(Function));
+    });
+  });
+
+  describe('getCollections', () => {
+    it('should build the progress of every collection in the favorites', async () => {
+      (collectionsDb.getProfileCollections as jest.Mock).mockResolvedValue([collection]);
+      (collectionsDb.getCollectionParts as jest.Mock).mockResolvedValue([part(1, 11, 'WATCHED'), part(2, 1891, null)]);
+
+      const result = await collectionsService.getCollections(123);
+
+      expect(collectionsDb.getCollectionParts).toHaveBeenCalledWith(123, [10]);
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ id: 10, totalMovies: 2, watchedMovies: 1, nextMovie: { tmdbId: 1891 } });
+    });
+  });
+
+  describe('favoriteCollection', () => {
+    it('should favorite only the movies not already in the favorites', async () => {
+      (collectionsDb.getCollection as jest.Mock).mockResolvedValue(collection);
+      (collectionsDb.getCollectionParts as jest.Mock)
+        .mockResolvedValueOnce([part(1, 11, 'WATCHED'), part(2, 1891, null)])
+        .mockResolvedValueOnce([part(1, 11, 'WATCHED'), part(2, 1891, 'NOT_WATCHED')]);
+
+      const result = await collectionsService.favoriteCollection(123, 10);
+
+      expect(moviesService.addMovieToFavorites).toHaveBeenCalledTimes(1);
+      expect(moviesService.addMovieToFavorites).toHaveBeenCalledWith(123, 1891);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledTimes(1);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledWith(123, 'movie', 1891);
+      expect(collectionsDb.linkCollectionMovies).toHaveBeenCalledWith(connection, 10);
+      expect(result).toMatchObject({ id: 10, favoritedMovies: 2 });
+    });
+
+    it('should save a collection that has not been stored yet', async () => {
+      (collectionsDb.getCollection as jest.Mock).mockResolvedValue(null);
+      (collectionsDb.getCollectionParts as jest.Mock).mockResolvedValue([]);
+
+      await collectionsService.favoriteCollection(123, 10);
+
+      expect(mockTMDBService.getCollectionDetails).toHaveBeenCalledWith(10);
+      expect(collectionsDb.saveCollection).toHaveBeenCalled();
+    });
+  });
+});
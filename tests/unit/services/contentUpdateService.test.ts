@@ -0,0 +1,94 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import * as moviesDb from '@db/moviesDb';
+import * as showsDb from '@db/showsDb';
+import { ContentUpdateService } from '@services/contentUpdateService';
+import { socketEventService } from '@services/socketEventService';
+
+jest.mock('@db/moviesDb');
+jest.mock('@db/showsDb');
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToProfile: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+describe('ContentUpdateService', () => {
+  let service: ContentUpdateService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ContentUpdateService();
+    (showsDb.getUpdatedShowFollowers as jest.Mock).mockResolvedValue([]);
+    (showsDb.getUpdatedSeasonFollowers as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('notifyShowUpdates', () => {
+    it('should tell each following profile about the changed shows and seasons', async () => {
+      (showsDb.getUpdatedShowFollowers as jest.Mock).mockResolvedValue([
+        { profileId: 123, showId: 1 },
+        { profileId: 124, showId: 1 },
+      ]);
+      (showsDb.getUpdatedSeasonFollowers as jest.Mock).mockResolvedValue([{ profileId: 123, showId: 1, seasonId: 10 }]);
+
+      await service.notifyShowUpdates();
+
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'shows:updated', {
+        profileId: 123,
+        showId: 1,
+      });
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(124, 'shows:updated', {
+        profileId: 124,
+        showId: 1,
+      });
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'seasons:updated', {
+        profileId: 123,
+        showId: 1,
+        seasonId: 10,
+      });
+      expect(socketEventService.emitToProfile).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only look for changes since the last check', async () => {
+      await service.notifyShowUpdates();
+      const [firstSince] = (showsDb.getUpdatedShowFollowers as jest.Mock).mock.calls[0];
+
+      await service.notifyShowUpdates();
+      const [secondSince] = (showsDb.getUpdatedShowFollowers as jest.Mock).mock.calls[1];
+
+      expect(secondSince.getTime()).toBeGreaterThanOrEqual(firstSince.getTime());
+      expect(showsDb.getUpdatedSeasonFollowers).toHaveBeenLastCalledWith(secondSince);
+    });
+
+    it('should log rather than throw and check the same period again', async () => {
+      const error = new Error('DB down');
+      (showsDb.getUpdatedShowFollowers as jest.Mock).mockRejectedValueOnce(error);
+
+      await expect(service.notifyShowUpdates()).resolves.toBeUndefined();
+      const [since] = (showsDb.getUpdatedShowFollowers as jest.Mock).mock.calls[0];
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to send show updates', { error, since });
+
+      await service.notifyShowUpdates();
+      expect(showsDb.getUpdatedShowFollowers).toHaveBeenLastCalledWith(since);
+    });
+  });
+
+  describe('notifyMovieUpdates', () => {
+    it('should tell each following profile about the changed movies', async () => {
+      (moviesDb.getUpdatedMovieFollowers as jest.Mock).mockResolvedValue([{ profileId: 123, movieId: 5 }]);
+
+      await service.notifyMovieUpdates();
+
+      expect(socketEventService.emitToProfile).toHaveBeenCalledWith(123, 'movies:updated', {
+        profileId: 123,
+        movieId: 5,
+      });
+    });
+  });
+});
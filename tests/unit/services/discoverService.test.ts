@@ -0,0 +1,61 @@
+import { discoverService } from '@services/discoverService';
+
+const mockTMDBService = {
+  discoverMovies: jest.fn(),
+  discoverShows: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+}));
+
+describe('DiscoverService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should discover movies with the translated filters', async () => {
+    mockTMDBService.discoverMovies.mockResolvedValue({
+      results: [{ id: 27205, title: 'Inception', vote_average: 8.4 }],
+      total_results: 1,
+      total_pages: 1,
+    });
+
+    const result = await discoverService.discoverFilteredContent({
+      showType: 'movie',
+      genres: '878',
+      region: 'US',
+      sortBy: 'popularity',
+      page: 1,
+    });
+
+    expect(mockTMDBService.discoverMovies).toHaveBeenCalledWith({
+      page: 1,
+      sort_by: 'popularity.desc',
+      with_genres: '878',
+    });
+    expect(mockTMDBService.discoverShows).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      message: 'Found movie matching the filters',
+      results: [{ id: '27205', title: 'Inception', vote_average: 8.4 }],
+      total_results: 1,
+      total_pages: 1,
+      current_page: 1,
+    });
+  });
+
+  it('should discover series', async () => {
+    mockTMDBService.discoverShows.mockResolvedValue({ results: [], total_results: 0, total_pages: 0 });
+
+    const result = await discoverService.discoverFilteredContent({
+      showType: 'series',
+      status: 'returning',
+      region: 'US',
+      sortBy: 'popularity',
+      page: 2,
+    });
+
+    expect(mockTMDBService.discoverShows).toHaveBeenCalledWith({ page: 2, sort_by: 'popularity.desc', with_status: 0 });
+    expect(result).toMatchObject({ message: 'Found series matching the filters', results: [], current_page: 2 });
+  });
+});
@@ -0,0 +1,286 @@
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import {
+  contentDiscoveryService,
+  moviesService,
+  profileService,
+  showService,
+} from '@ajgifford/keepwatching-common-server/testing';
+import * as importDb from '@db/importDb';
+import * as moviesDb from '@db/moviesDb';
+import * as showsDb from '@db/showsDb';
+import * as watchStatusDb from '@db/watchStatusDb';
+import { importService } from '@services/importService';
+import { watchHistoryService } from '@services/watchHistoryService';
+import { watchProgressService } from '@services/watchProgressService';
+import { watchlistService } from '@services/watchlistService';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  contentDiscoveryService: contentDiscoveryService,
+  moviesService: moviesService,
+  profileService: profileService,
+  showService: showService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+  cliLogger: {
+    warn: jest.fn(),
+  },
+}));
+
+jest.mock('@db/importDb');
+jest.mock('@db/moviesDb');
+jest.mock('@db/showsDb');
+jest.mock('@db/watchStatusDb');
+
+jest.mock('@services/watchHistoryService', () => ({
+  watchHistoryService: {
+    trackStatusChange: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchProgressService', () => ({
+  watchProgressService: {
+    updateEpisodeWatchStatuses: jest.fn(),
+  },
+}));
+
+jest.mock('@services/watchlistService', () => ({
+  watchlistService: {
+    removeFavoritedItem: jest.fn(),
+  },
+}));
+
+async function waitForImport() {
+  for (let i = 0; i < 50 && (importDb.finishImportJob as jest.Mock).mock.calls.length === 0; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('ImportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (importDb.createImportJob as jest.Mock).mockResolvedValue(7);
+    (watchHistoryService.trackStatusChange as jest.Mock).mockImplementation((_profileId, _type, _id, _status, update) =>
+      update(),
+    );
+  });
+
+  describe('startImport', () => {
+    it('should match, favorite and mark watched the titles of a Letterboxd export', async () => {
+      const content = 'Date,Name,Year\n2024-01-01,Heat,1995\n2024-01-02,Unknown Film,2001\n2024-01-03,Crash,\n';
+      (contentDiscoveryService.searchMedia as jest.Mock)
+        .mockResolvedValueOnce({ results: [{ id: '949', title: 'Heat', premiered: '1995-12-15' }] })
+        .mockResolvedValueOnce({ results: [] })
+        .mockResolvedValueOnce({
+          results: [
+            { id: '1640', title: 'Crash', premiered: '2004-09-10' },
+            { id: '884', title: 'Crash', premiered: '1996-10-04' },
+          ],
+        });
+      (moviesDb.findMovieIdByTMDBId as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(31);
+
+      const job = await importService.startImport(1, 123, 'letterboxd', content);
+      await waitForImport();
+
+      expect(job).toEqual({ jobId: 7, status: 'QUEUED', totalItems: 3 });
+      expect(importDb.createImportJob).toHaveBeenCalledWith(123, 'letterboxd', 3);
+      expect(moviesService.addMovieToFavorites).toHaveBeenCalledWith(123, 949);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledWith(123, 'movie', 949);
+      expect(moviesService.updateMovieWatchStatus).toHaveBeenCalledWith(123, 31, 'WATCHED');
+      expect(watchHistoryService.trackStatusChange).toHaveBeenCalledWith(
+        123,
+        'movie',
+        31,
+        'WATCHED',
+        expect.any(Function),
+        undefined,
+      );
+
+      const results = (importDb.finishImportJob as jest.Mock).mock.calls[0][2];
+      expect((importDb.finishImportJob as jest.Mock).mock.calls[0][1]).toBe('COMPLETED');
+      expect(results.matched).toEqual([
+        { type: 'movie', title: 'Heat', year: 1995, tmdbId: 949, contentId: 31, favorited: true, watched: true },
+      ]);
+      expect(results.unmatched).toEqual([{ type: 'movie', title: 'Unknown Film', year: 2001 }]);
+      expect(results.ambiguous[0].candidates).toEqual([
+        { tmdbId: 1640, title: 'Crash', year: 2004 },
+        { tmdbId: 884, title: 'Crash', year: 1996 },
+      ]);
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(123);
+    });
+
+    it('should use the TMDB ids of a Trakt export and mark its episodes watched when they were watched', async () => {
+      const content = JSON.stringify([
+        {
+          last_watched_at: '2024-01-01T20:00:00.000Z',
+          show: { title: 'Breaking Bad', year: 2008, ids: { tmdb: 1396 } },
+          seasons: [{ number: 1, episodes: [{ number: 1 }, { number: 2 }] }],
+        },
+      ]);
+      (showsDb.findShowIdByTMDBId as jest.Mock).mockResolvedValue(5);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([5]);
+      (importDb.findEpisodesByPosition as jest.Mock).mockResolvedValue([
+        { id: 101, seasonNumber: 1, episodeNumber: 1 },
+      ]);
+
+      await importService.startImport(1, 123, 'trakt', content);
+      await waitForImport();
+
+      expect(contentDiscoveryService.searchMedia).not.toHaveBeenCalled();
+      expect(showService.addShowToFavorites).not.toHaveBeenCalled();
+      expect(watchlistService.removeFavoritedItem).not.toHaveBeenCalled();
+      expect(importDb.findEpisodesByPosition).toHaveBeenCalledWith(5, [
+        { seasonNumber: 1, episodeNumber: 1, watchedAt: '2024-01-01T20:00:00.000Z' },
+        { seasonNumber: 1, episodeNumber: 2, watchedAt: '2024-01-01T20:00:00.000Z' },
+      ]);
+      expect(watchProgressService.updateEpisodeWatchStatuses).toHaveBeenCalledWith(
+        123,
+        { episodeIds: [101] },
+        'WATCHED',
+        new Map([[101, new Date('2024-01-01T20:00:00.000Z')]]),
+      );
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledTimes(1);
+      expect((importDb.finishImportJob as jest.Mock).mock.calls[0][2].matched).toEqual([
+        {
+          type: 'show',
+          title: 'Breaking Bad',
+          year: 2008,
+          tmdbId: 1396,
+          contentId: 5,
+          favorited: false,
+          episodesMarked: 1,
+          episodesNotFound: 1,
+        },
+      ]);
+    });
+
+    it('should record when a Trakt movie was watched', async () => {
+      const content = JSON.stringify([
+        { watched_at: '2024-02-01T20:00:00.000Z', type: 'movie', movie: { title: 'Heat', ids: { tmdb: 949 } } },
+      ]);
+      (moviesDb.findMovieIdByTMDBId as jest.Mock).mockResolvedValue(31);
+      (moviesDb.isMovieFavorited as jest.Mock).mockResolvedValue(true);
+
+      await importService.startImport(1, 123, 'trakt', content);
+      await waitForImport();
+
+      expect(watchHistoryService.trackStatusChange).toHaveBeenCalledWith(
+        123,
+        'movie',
+        31,
+        'WATCHED',
+        expect.any(Function),
+        new Date('2024-02-01T20:00:00.000Z'),
+      );
+    });
+
+    it('should retry marking the episodes of a show that is new to the system once they have loaded', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const content = JSON.stringify([
+        {
+          show: { title: 'Severance', year: 2022, ids: { tmdb: 95396 } },
+          seasons: [{ number: 1, episodes: [{ number: 1 }, { number: 2 }] }],
+        },
+      ]);
+      (showsDb.findShowIdByTMDBId as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(8);
+      (importDb.findEpisodesByPosition as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 801, seasonNumber: 1, episodeNumber: 1 }])
+        .mockResolvedValueOnce([{ id: 802, seasonNumber: 1, episodeNumber: 2 }]);
+
+      try {
+        await importService.startImport(1, 123, 'trakt', content);
+        for (let i = 0; i < 3; i++) {
+          await jest.advanceTimersByTimeAsync(30 * 1000);
+        }
+        await waitForImport();
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(showService.addShowToFavorites).toHaveBeenCalledWith(1, 123, 95396);
+      expect(watchlistService.removeFavoritedItem).toHaveBeenCalledWith(123, 'show', 95396);
+      expect(importDb.findEpisodesByPosition).toHaveBeenLastCalledWith(8, [{ seasonNumber: 1, episodeNumber: 2 }]);
+      expect(watchProgressService.updateEpisodeWatchStatuses).toHaveBeenCalledTimes(2);
+      expect((importDb.finishImportJob as jest.Mock).mock.calls[0][2].matched).toEqual([
+        expect.objectContaining({ contentId: 8, favorited: true, episodesMarked: 2, episodesNotFound: 0 }),
+      ]);
+    });
+
+    it('should report titles that fail to import', async () => {
+      (showsDb.findShowIdByTMDBId as jest.Mock).mockResolvedValue(null);
+      (showService.addShowToFavorites as jest.Mock).mockRejectedValue(new Error('TMDB unavailable'));
+      const content = JSON.stringify([{ show: { title: 'Lost', year: 2004, ids: { tmdb: 4607 } } }]);
+
+      await importService.startImport(1, 123, 'trakt', content);
+      await waitForImport();
+
+      expect((importDb.finishImportJob as jest.Mock).mock.calls[0][2].failed).toEqual([
+        { type: 'show', title: 'Lost', year: 2004, error: 'TMDB unavailable' },
+      ]);
+    });
+
+    it('should mark the job failed when it cannot run', async () => {
+      (importDb.updateImportJobProgress as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await importService.startImport(1, 123, 'letterboxd', 'Name,Year\nHeat,1995\n');
+      await waitForImport();
+
+      expect(importDb.finishImportJob).toHaveBeenCalledWith(7, 'FAILED', null, 'Database unavailable');
+    });
+
+    it('should reject files that cannot be parsed', async () => {
+      await expect(importService.startImport(1, 123, 'trakt', 'not json')).rejects.toThrow(BadRequestError);
+      expect(importDb.createImportJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject files without any titles', async () => {
+      await expect(importService.startImport(1, 123, 'letterboxd', 'Date,Name,Year\n')).rejects.toThrow(
+        BadRequestError,
+      );
+    });
+  });
+
+  describe('failInterruptedImports', () => {
+    it('should mark queued and running jobs as failed', async () => {
+      (importDb.failUnfinishedImportJobs as jest.Mock).mockResolvedValue(2);
+
+      await importService.failInterruptedImports();
+
+      expect(importDb.failUnfinishedImportJobs).toHaveBeenCalledWith('The import was interrupted by a server restart');
+    });
+
+    it('should log rather than throw when the jobs cannot be updated', async () => {
+      const error = new Error('Database unavailable');
+      (importDb.failUnfinishedImportJobs as jest.Mock).mockRejectedValue(error);
+
+      await expect(importService.failInterruptedImports()).resolves.toBeUndefined();
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to mark interrupted import jobs as failed', { error });
+    });
+  });
+
+  describe('getImportStatus', () => {
+    it('should summarize the results of a finished job', async () => {
+      (importDb.getImportJob as jest.Mock).mockResolvedValue({
+        id: 7,
+        status: 'COMPLETED',
+        results: { matched: [{ title: 'Heat' }], unmatched: [], ambiguous: [{ title: 'Crash' }], failed: [] },
+      });
+
+      const status = await importService.getImportStatus(123, 7);
+
+      expect(importDb.getImportJob).toHaveBeenCalledWith(123, 7);
+      expect(status.summary).toEqual({ matched: 1, unmatched: 0, ambiguous: 1, failed: 0 });
+    });
+
+    it('should throw NotFoundError for unknown jobs', async () => {
+      (importDb.getImportJob as jest.Mock).mockResolvedValue(null);
+
+      await expect(importService.getImportStatus(123, 7)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import * as libraryDb from '@db/libraryDb';
+import { libraryListService } from '@services/libraryListService';
+
+jest.mock('@db/libraryDb');
+
+describe('LibraryListService', () => {
+  const shows = [
+    { show_id: 1, title: 'Lost', first_air_date: '2004-09-22', watchStatus: 'WATCHED' },
+    { show_id: 2, title: 'Dark', first_air_date: '2017-12-01', watchStatus: 'WATCHING' },
+    { show_id: 3, title: 'Fringe', first_air_date: null, watchStatus: 'NOT_WATCHED' },
+  ];
+  const loadShows = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loadShows.mockResolvedValue(shows);
+    (libraryDb.countLibrary as jest.Mock).mockResolvedValue(3);
+  });
+
+  describe('getPage', () => {
+    it('should return every item in its original order without a sort or page', async () => {
+      const result = await libraryListService.getPage(123, 'show', loadShows, 'show_id', {});
+
+      expect(result).toEqual({ items: shows, pagination: { page: 1, limit: 3, total: 3, totalPages: 1 } });
+      expect(libraryDb.getLibraryPage).not.toHaveBeenCalled();
+    });
+
+    it('should load the requested page from the database in its sort order', async () => {
+      const pageItems = [{ contentType: 'show', contentId: 1, title: 'Lost', watchStatus: 'WATCHED' }];
+      (libraryDb.getLibraryPage as jest.Mock).mockResolvedValue(pageItems);
+
+      const result = await libraryListService.getPage(123, 'show', loadShows, 'show_id', {
+        sortBy: 'title',
+        page: 2,
+        limit: 2,
+      });
+
+      expect(libraryDb.countLibrary).toHaveBeenCalledWith(123, { contentType: 'show' });
+      expect(libraryDb.getLibraryPage).toHaveBeenCalledWith(123, 'show', { field: 'title', order: 'asc' }, 2, 2);
+      expect(loadShows).not.toHaveBeenCalled();
+      expect(result).toEqual({ items: pageItems, pagination: { page: 2, limit: 2, total: 3, totalPages: 2 } });
+    });
+
+    it('should return every item sorted newest first when only a sort is given', async () => {
+      (libraryDb.getLibraryPage as jest.Mock).mockResolvedValue([]);
+
+      await libraryListService.getPage(123, 'show', loadShows, 'show_id', { sortBy: 'lastWatched' });
+
+      expect(libraryDb.getLibraryPage).toHaveBeenCalledWith(123, 'show', { field: 'lastWatched', order: 'desc' }, 3, 0);
+    });
+
+    it('should default to pages of 50 by title when only a page is given', async () => {
+      (libraryDb.getLibraryPage as jest.Mock).mockResolvedValue([]);
+
+      const result = await libraryListService.getPage(123, 'show', loadShows, 'show_id', { page: 1 });
+
+      expect(libraryDb.getLibraryPage).toHaveBeenCalledWith(123, 'show', { field: 'title', order: 'asc' }, 50, 0);
+      expect(result.pagination).toEqual({ page: 1, limit: 50, total: 3, totalPages: 1 });
+    });
+
+    it('should keep only the requested fields and the id', async () => {
+      (libraryDb.getLibraryPage as jest.Mock).mockResolvedValue([
+        { contentType: 'show', contentId: 1, title: 'Lost', watchStatus: 'WATCHED' },
+      ]);
+
+      const unpaged = await libraryListService.getPage(123, 'show', loadShows, 'show_id', { fields: 'title,unknown' });
+      const paged = await libraryListService.getPage(123, 'show', loadShows, 'show_id', {
+        fields: 'title,unknown',
+        limit: 1,
+      });
+
+      expect(unpaged.items[0]).toEqual({ show_id: 1, title: 'Lost' });
+      expect(paged.items).toEqual([{ contentId: 1, title: 'Lost' }]);
+    });
+
+    it('should add the profile rating to each item when ratings are loaded', async () => {
+      const rating = { rating: 9, stars: 4.5, review: null, updatedAt: new Date() };
+      const loadRatings = jest.fn().mockResolvedValue(new Map([[1, rating]]));
+      (libraryDb.getLibraryPage as jest.Mock).mockResolvedValue([{ contentType: 'movie', contentId: 1, title: 'Up' }]);
+
+      const unpaged = await libraryListService.getPage(123, 'show', loadShows, 'show_id', {}, loadRatings);
+      const paged = await libraryListService.getPage(123, 'movie', loadShows, 'show_id', { limit: 1 }, loadRatings);
+
+      expect(unpaged.items.map((item) => item.profileRating)).toEqual([rating, null, null]);
+      expect(paged.items).toEqual([{ contentType: 'movie', contentId: 1, title: 'Up', profileRating: rating }]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import * as libraryDb from '@db/libraryDb';
+import { librarySearchService } from '@services/librarySearchService';
+
+jest.mock('@db/libraryDb');
+
+describe('LibrarySearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchLibrary', () => {
+    it('should return a page of results with pagination details', async () => {
+      const results = [{ contentType: 'show', contentId: 1, title: 'Dark' }];
+      (libraryDb.searchLibrary as jest.Mock).mockResolvedValue(results);
+      (libraryDb.countLibrary as jest.Mock).mockResolvedValue(45);
+
+      const result = await librarySearchService.searchLibrary(123, {
+        q: 'dark',
+        genres: '18,9648',
+        statuses: 'WATCHING,UP_TO_DATE',
+        services: '8',
+        addedFrom: '2025-01-01',
+        sortBy: 'title',
+        page: 3,
+        limit: 20,
+      });
+
+      const filters = {
+        text: 'dark',
+        contentType: undefined,
+        genreIds: [18, 9648],
+        statuses: ['WATCHING', 'UP_TO_DATE'],
+        serviceIds: [8],
+        addedFrom: '2025-01-01',
+        addedTo: undefined,
+      };
+      expect(libraryDb.searchLibrary).toHaveBeenCalledWith(123, filters, { field: 'title', order: 'asc' }, 20, 40);
+      expect(libraryDb.countLibrary).toHaveBeenCalledWith(123, filters);
+      expect(result).toEqual({ results, pagination: { page: 3, limit: 20, total: 45, totalPages: 3 } });
+    });
+
+    it('should sort anything but titles newest first unless an order is given', async () => {
+      (libraryDb.searchLibrary as jest.Mock).mockResolvedValue([]);
+      (libraryDb.countLibrary as jest.Mock).mockResolvedValue(0);
+
+      await librarySearchService.searchLibrary(123, { sortBy: 'addedAt', page: 1, limit: 20 });
+      await librarySearchService.searchLibrary(123, { sortBy: 'addedAt', sortOrder: 'asc', page: 1, limit: 20 });
+
+      expect((libraryDb.searchLibrary as jest.Mock).mock.calls[0][2]).toEqual({ field: 'addedAt', order: 'desc' });
+      expect((libraryDb.searchLibrary as jest.Mock).mock.calls[1][2]).toEqual({ field: 'addedAt', order: 'asc' });
+    });
+  });
+});
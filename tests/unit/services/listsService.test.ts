@@ -0,0 +1,220 @@
+import { BadRequestError, ForbiddenError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { profileService } from '@ajgifford/keepwatching-common-server/testing';
+import * as listsDb from '@db/listsDb';
+import { contentSummaryService } from '@services/contentSummaryService';
+import { listsService } from '@services/listsService';
+import { socketEventService } from '@services/socketEventService';
+import { isDuplicateEntryError, withTransaction } from '@utils/db';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  profileService: profileService,
+}));
+
+jest.mock('@db/listsDb');
+
+jest.mock('@services/contentSummaryService', () => ({
+  contentSummaryService: {
+    getSummary: jest.fn(),
+  },
+}));
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToAccount: jest.fn(),
+  },
+}));
+
+jest.mock('@utils/db', () => ({
+  isDuplicateEntryError: jest.fn(),
+  withTransaction: jest.fn(),
+}));
+
+const connection = { id: 'connection' };
+
+describe('ListsService', () => {
+  const list = {
+    id: 9,
+    profileId: 123,
+    name: 'Halloween movies',
+    description: null,
+    itemCount: 2,
+    sharedWithProfileIds: [124],
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+  };
+  const items = [
+    { id: 1, listId: 9, contentType: 'movie', tmdbId: 948, title: 'Halloween', note: null, position: 1 },
+    { id: 2, listId: 9, contentType: 'show', tmdbId: 1402, title: 'The Walking Dead', note: 'With Dad', position: 2 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (withTransaction as jest.Mock).mockImplementation((work) => work(connection));
+    (listsDb.getList as jest.Mock).mockResolvedValue(list);
+    (listsDb.getListItems as jest.Mock).mockResolvedValue(items);
+  });
+
+  describe('getList', () => {
+    it('should return the list with its items to the profile that created it', async () => {
+      await expect(listsService.getList(123, 9)).resolves.toEqual({ ...list, items });
+    });
+
+    it('should return the list to a profile it is shared with', async () => {
+      await expect(listsService.getList(124, 9)).resolves.toEqual({ ...list, items });
+    });
+
+    it('should throw NotFoundError for a profile without access', async () => {
+      await expect(listsService.getList(125, 9)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError when the list does not exist', async () => {
+      (listsDb.getList as jest.Mock).mockResolvedValue(null);
+
+      await expect(listsService.getList(123, 9)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('createList', () => {
+    it('should create the list and send it to the account', async () => {
+      (listsDb.createList as jest.Mock).mockResolvedValue(9);
+
+      const result = await listsService.createList(1, 123, { name: 'Halloween movies' });
+
+      expect(listsDb.createList).toHaveBeenCalledWith(123, 'Halloween movies', null);
+      expect(result).toEqual({ ...list, items });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:created', {
+        profileId: 123,
+        list: result,
+      });
+    });
+  });
+
+  describe('updateList', () => {
+    it('should update the list and send the change to the account', async () => {
+      const result = await listsService.updateList(1, 123, 9, { name: 'Spooky', description: 'October' });
+
+      expect(listsDb.updateList).toHaveBeenCalledWith(9, 'Spooky', 'October');
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:updated', {
+        profileId: 123,
+        list: result,
+      });
+    });
+
+    it('should throw ForbiddenError for a profile the list is shared with', async () => {
+      await expect(listsService.updateList(1, 124, 9, { name: 'Spooky' })).rejects.toThrow(ForbiddenError);
+      expect(listsDb.updateList).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteList', () => {
+    it('should delete the list and send the change to the account', async () => {
+      await listsService.deleteList(1, 123, 9);
+
+      expect(listsDb.deleteList).toHaveBeenCalledWith(9);
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:deleted', { profileId: 123, listId: 9 });
+    });
+
+    it('should throw ForbiddenError for a profile the list is shared with', async () => {
+      await expect(listsService.deleteList(1, 124, 9)).rejects.toThrow(ForbiddenError);
+      expect(listsDb.deleteList).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shareList', () => {
+    beforeEach(() => {
+      (profileService.getProfilesByAccountId as jest.Mock).mockResolvedValue([{ id: 123 }, { id: 124 }, { id: 125 }]);
+    });
+
+    it('should replace the shares, leaving out the profile that created the list', async () => {
+      await listsService.shareList(1, 123, 9, [125, 123, 125]);
+
+      expect(profileService.getProfilesByAccountId).toHaveBeenCalledWith(1);
+      expect(listsDb.replaceListShares).toHaveBeenCalledWith(connection, 9, [125]);
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:updated', expect.any(Object));
+    });
+
+    it('should reject a profile from another account', async () => {
+      await expect(listsService.shareList(1, 123, 9, [999])).rejects.toThrow(BadRequestError);
+      expect(listsDb.replaceListShares).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addItem', () => {
+    it('should add the show or movie with its TMDB summary and note', async () => {
+      const summary = { tmdbId: 4232, title: 'Scream', description: null, posterImage: null, releaseDate: null };
+      (listsDb.hasListItem as jest.Mock).mockResolvedValue(false);
+      (contentSummaryService.getSummary as jest.Mock).mockResolvedValue(summary);
+
+      await listsService.addItem(1, 124, 9, 'movie', 4232, 'Watch on the 31st');
+
+      expect(contentSummaryService.getSummary).toHaveBeenCalledWith('movie', 4232);
+      expect(listsDb.addListItem).toHaveBeenCalledWith(connection, 9, 'movie', summary, 'Watch on the 31st');
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:updated', expect.any(Object));
+    });
+
+    it('should reject a show or movie that is already on the list', async () => {
+      (listsDb.hasListItem as jest.Mock).mockResolvedValue(true);
+
+      await expect(listsService.addItem(1, 123, 9, 'movie', 948)).rejects.toThrow(BadRequestError);
+      expect(listsDb.addListItem).not.toHaveBeenCalled();
+    });
+
+    it('should reject a show or movie another request added at the same time', async () => {
+      const error = Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' });
+      (listsDb.hasListItem as jest.Mock).mockResolvedValue(false);
+      (listsDb.addListItem as jest.Mock).mockRejectedValueOnce(error);
+      (isDuplicateEntryError as jest.Mock).mockReturnValueOnce(true);
+
+      await expect(listsService.addItem(1, 123, 9, 'movie', 948)).rejects.toThrow(BadRequestError);
+      expect(isDuplicateEntryError).toHaveBeenCalledWith(error);
+      expect(socketEventService.emitToAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateItemNote', () => {
+    it('should replace the note of the item', async () => {
+      (listsDb.updateListItemNote as jest.Mock).mockResolvedValue(true);
+
+      await listsService.updateItemNote(1, 123, 9, 2, null);
+
+      expect(listsDb.updateListItemNote).toHaveBeenCalledWith(9, 2, null);
+    });
+
+    it('should throw NotFoundError when the list has no such item', async () => {
+      (listsDb.updateListItemNote as jest.Mock).mockResolvedValue(false);
+
+      await expect(listsService.updateItemNote(1, 123, 9, 99, 'note')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('removeItem', () => {
+    it('should remove the item', async () => {
+      (listsDb.removeListItem as jest.Mock).mockResolvedValue(true);
+
+      await listsService.removeItem(1, 123, 9, 2);
+
+      expect(listsDb.removeListItem).toHaveBeenCalledWith(9, 2);
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'lists:updated', expect.any(Object));
+    });
+
+    it('should throw NotFoundError when the list has no such item', async () => {
+      (listsDb.removeListItem as jest.Mock).mockResolvedValue(false);
+
+      await expect(listsService.removeItem(1, 123, 9, 99)).rejects.toThrow(NotFoundError);
+      expect(socketEventService.emitToAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorderItems', () => {
+    it('should save the new order in a transaction', async () => {
+      await listsService.reorderItems(1, 123, 9, [2, 1]);
+
+      expect(listsDb.updateListItemPositions).toHaveBeenCalledWith(connection, 9, [2, 1]);
+    });
+
+    it('should reject an order that does not list every item once', async () => {
+      await expect(listsService.reorderItems(1, 123, 9, [2, 2])).rejects.toThrow(BadRequestError);
+      expect(listsDb.updateListItemPositions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import * as accountsDb from '@db/accountsDb';
+import * as moviesDb from '@db/moviesDb';
+import { movieDetailsService } from '@services/movieDetailsService';
+
+const mockTMDBService = {
+  getMovieDetails: jest.fn(),
+  getMovieCredits: jest.fn(),
+  getCollectionDetails: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+}));
+
+jest.mock('@db/accountsDb');
+jest.mock('@db/moviesDb');
+
+describe('MovieDetailsService', () => {
+  const movie = {
+    id: 7,
+    tmdbId: 120,
+    title: 'The Lord of the Rings: The Fellowship of the Ring',
+    description: 'Young hobbit Frodo Baggins...',
+    releaseDate: '2001-12-18',
+    runtime: 179,
+    posterImage: '/fellowship.jpg',
+    backdropImage: null,
+    userRating: 8.4,
+    mpaRating: 'PG-13',
+    genres: ['Adventure', 'Fantasy'],
+    watchStatus: 'WATCHED',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (moviesDb.getMovieForProfile as jest.Mock).mockResolvedValue(movie);
+    (moviesDb.getProfileMovieStatuses as jest.Mock).mockResolvedValue([
+      { movieId: 8, tmdbId: 121, watchStatus: 'NOT_WATCHED' },
+    ]);
+    (accountsDb.getAccountRegion as jest.Mock).mockResolvedValue('GB');
+    mockTMDBService.getMovieDetails.mockResolvedValue({
+      id: 120,
+      belongs_to_collection: { id: 119 },
+      'watch/providers': {
+        results: { GB: { flatrate: [{ provider_id: 9, provider_name: 'Amazon Prime Video' }] } },
+      },
+    });
+    mockTMDBService.getMovieCredits.mockResolvedValue({
+      cast: [{ id: 109, name: 'Elijah Wood', character: 'Frodo Baggins', order: 0 }],
+      crew: [{ id: 108, name: 'Peter Jackson', job: 'Director', department: 'Directing' }],
+    });
+    mockTMDBService.getCollectionDetails.mockResolvedValue({
+      id: 119,
+      name: 'The Lord of the Rings Collection',
+      parts: [
+        { id: 122, title: 'The Return of the King', release_date: '2003-12-17' },
+        { id: 120, title: 'The Fellowship of the Ring', release_date: '2001-12-18' },
+        { id: 121, title: 'The Two Towers', release_date: '2002-12-18' },
+      ],
+    });
+  });
+
+  it('should combine the movie with its credits, collection and providers for the account region', async () => {
+    const result = await movieDetailsService.getMovieDetails(1, 123, 7);
+
+    expect(moviesDb.getMovieForProfile).toHaveBeenCalledWith(123, 7);
+    expect(mockTMDBService.getMovieCredits).toHaveBeenCalledWith(120);
+    expect(mockTMDBService.getCollectionDetails).toHaveBeenCalledWith(119);
+    expect(moviesDb.getProfileMovieStatuses).toHaveBeenCalledWith(123, [121, 122]);
+    expect(result).toMatchObject({ ...movie, watchProviders: { region: 'GB', flatrate: [{ id: 9 }] } });
+    expect(result.cast.map((member) => member.name)).toEqual(['Elijah Wood']);
+    expect(result.crew.map((member) => member.job)).toEqual(['Director']);
+    expect(result.collection?.movies).toEqual([
+      {
+        tmdbId: 121,
+        movieId: 8,
+        title: 'The Two Towers',
+        releaseDate: '2002-12-18',
+        posterImage: null,
+        watchStatus: 'NOT_WATCHED',
+      },
+      {
+        tmdbId: 122,
+        movieId: null,
+        title: 'The Return of the King',
+        releaseDate: '2003-12-17',
+        posterImage: null,
+        watchStatus: null,
+      },
+    ]);
+  });
+
+  it('should leave out the collection when the movie is not part of one', async () => {
+    mockTMDBService.getMovieDetails.mockResolvedValue({ id: 120, belongs_to_collection: null });
+    (accountsDb.getAccountRegion as jest.Mock).mockResolvedValue(null);
+
+    const result = await movieDetailsService.getMovieDetails(1, 123, 7);
+
+    expect(result.collection).toBeNull();
+    expect(result.watchProviders).toEqual({ region: 'US', link: null, flatrate: [], rent: [], buy: [] });
+    expect(mockTMDBService.getCollectionDetails).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundError when the movie does not exist', async () => {
+    (moviesDb.getMovieForProfile as jest.Mock).mockResolvedValue(null);
+
+    await expect(movieDetailsService.getMovieDetails(1, 123, 999)).rejects.toThrow(NotFoundError);
+  });
+});
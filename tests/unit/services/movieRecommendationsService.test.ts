@@ -0,0 +1,93 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import * as moviesDb from '@db/moviesDb';
+import { movieRecommendationsService } from '@services/movieRecommendationsService';
+
+const mockTMDBService = {
+  getMovieRecommendations: jest.fn(),
+  getSimilarMovies: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  generateGenreArrayFromIds: jest.fn((genreIds: number[]) => genreIds.map((id) => (id === 80 ? 'Crime' : 'Drama'))),
+}));
+
+jest.mock('@db/moviesDb');
+
+describe('MovieRecommendationsService', () => {
+  const results = [
+    {
+      id: 1422,
+      title: 'The Departed',
+      overview: 'An undercover cop and a mole in the police...',
+      poster_path: '/nT97ifVT2J1yMQmeq20Qblg61T.jpg',
+      backdrop_path: '/8Od5zV7Q7zNOX0y9tyNgpTmoiGA.jpg',
+      release_date: '2006-10-04',
+      genre_ids: [80, 18],
+      vote_average: 8.2,
+      popularity: 48.3,
+    },
+    { id: 500, title: 'Reservoir Dogs' },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (moviesDb.getMovieTMDBId as jest.Mock).mockResolvedValue(949);
+    (moviesDb.findFavoritedMovieTMDBIds as jest.Mock).mockResolvedValue([1422]);
+    mockTMDBService.getMovieRecommendations.mockResolvedValue({ results });
+    mockTMDBService.getSimilarMovies.mockResolvedValue({ results });
+  });
+
+  it('should get the recommendations for a movie and flag favorites', async () => {
+    const movies = await movieRecommendationsService.getMovieRecommendations(123, 7);
+
+    expect(moviesDb.getMovieTMDBId).toHaveBeenCalledWith(7);
+    expect(mockTMDBService.getMovieRecommendations).toHaveBeenCalledWith(949);
+    expect(moviesDb.findFavoritedMovieTMDBIds).toHaveBeenCalledWith(123, [1422, 500]);
+    expect(movies).toEqual([
+      {
+        id: 1422,
+        title: 'The Departed',
+        description: 'An undercover cop and a mole in the police...',
+        poster_url: '/nT97ifVT2J1yMQmeq20Qblg61T.jpg',
+        backdrop_url: '/8Od5zV7Q7zNOX0y9tyNgpTmoiGA.jpg',
+        release_date: '2006-10-04',
+        genres: ['Crime', 'Drama'],
+        tmdb_id: 1422,
+        averageRating: 8.2,
+        popularity: 48.3,
+        inFavorites: true,
+      },
+      {
+        id: 500,
+        title: 'Reservoir Dogs',
+        description: '',
+        poster_url: null,
+        backdrop_url: null,
+        release_date: null,
+        genres: [],
+        tmdb_id: 500,
+        averageRating: 0,
+        popularity: 0,
+        inFavorites: false,
+      },
+    ]);
+  });
+
+  it('should get the movies similar to a movie', async () => {
+    const movies = await movieRecommendationsService.getSimilarMovies(123, 7);
+
+    expect(mockTMDBService.getSimilarMovies).toHaveBeenCalledWith(949);
+    expect(movies.map((movie) => movie.inFavorites)).toEqual([true, false]);
+  });
+
+  it('should throw NotFoundError when the movie does not exist', async () => {
+    (moviesDb.getMovieTMDBId as jest.Mock).mockResolvedValue(null);
+
+    await expect(movieRecommendationsService.getSimilarMovies(123, 999)).rejects.toThrow(NotFoundError);
+    expect(mockTMDBService.getSimilarMovies).not.toHaveBeenCalled();
+  });
+});
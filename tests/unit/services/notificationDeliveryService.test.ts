@@ -0,0 +1,176 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import * as notificationsDb from '@db/notificationsDb';
+import { NotificationDeliveryService } from '@services/notificationDeliveryService';
+import { socketEventService } from '@services/socketEventService';
+import cron from 'node-cron';
+
+jest.mock('@db/notificationsDb');
+
+jest.mock('@services/socketEventService', () => ({
+  socketEventService: {
+    emitToAccount: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(),
+}));
+
+describe('NotificationDeliveryService', () => {
+  const notification = (id: number) => ({
+    id,
+    message: `Notification ${id}`,
+    startDate: new Date('2025-06-01T00:00:00Z'),
+    endDate: new Date('2025-06-30T00:00:00Z'),
+    type: 'tv',
+  });
+
+  let service: NotificationDeliveryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new NotificationDeliveryService();
+    (notificationsDb.countUnreadNotifications as jest.Mock).mockResolvedValue(3);
+  });
+
+  describe('pushNewNotifications', () => {
+    it('should only record where to start from on the first push', async () => {
+      (notificationsDb.getLatestNotificationId as jest.Mock).mockResolvedValue(10);
+
+      await expect(service.pushNewNotifications()).resolves.toBe(0);
+
+      expect(notificationsDb.getNewlyActiveNotifications).not.toHaveBeenCalled();
+      expect(socketEventService.emitToAccount).not.toHaveBeenCalled();
+    });
+
+    it('should push new notifications and the unread count to each account', async () => {
+      (notificationsDb.getLatestNotificationId as jest.Mock).mockResolvedValueOnce(10).mockResolvedValueOnce(12);
+      (notificationsDb.getNewlyActiveNotifications as jest.Mock).mockResolvedValue([
+        { accountId: 1, notification: notification(11) },
+        { accountId: 1, notification: notification(12) },
+        { accountId: 2, notification: notification(12) },
+      ]);
+      await service.pushNewNotifications();
+
+      await expect(service.pushNewNotifications()).resolves.toBe(3);
+
+      expect(notificationsDb.getNewlyActiveNotifications).toHaveBeenCalledWith(10, expect.any(Date));
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:created', {
+        notification: notification(11),
+      });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(2, 'notifications:created', {
+        notification: notification(12),
+      });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:unreadCount', { count: 3 });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(2, 'notifications:unreadCount', { count: 3 });
+      expect(notificationsDb.countUnreadNotifications).toHaveBeenCalledTimes(2);
+    });
+
+    it('should continue from the newest notification pushed', async () => {
+      (notificationsDb.getLatestNotificationId as jest.Mock).mockResolvedValue(10);
+      (notificationsDb.getNewlyActiveNotifications as jest.Mock)
+        .mockResolvedValueOnce([{ accountId: 1, notification: notification(14) }])
+        .mockResolvedValueOnce([]);
+      await service.pushNewNotifications();
+      await service.pushNewNotifications();
+
+      await service.pushNewNotifications();
+
+      expect(notificationsDb.getNewlyActiveNotifications).toHaveBeenLastCalledWith(14, expect.any(Date));
+    });
+
+    it('should log rather than throw when a push fails', async () => {
+      (notificationsDb.getLatestNotificationId as jest.Mock).mockRejectedValue(new Error('DB down'));
+
+      await expect(service.pushNewNotifications()).resolves.toBe(0);
+      expect(appLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyDismissed', () => {
+    it('should tell the account about the dismissals and its new unread count', async () => {
+      await service.notifyDismissed(1, [123, 124]);
+
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:dismissed', {
+        notificationIds: [123, 124],
+      });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:unreadCount', { count: 3 });
+    });
+  });
+
+  describe('notifyRead', () => {
+    it('should tell the account which notifications were read and its new unread count', async () => {
+      await service.notifyRead(1, [123]);
+
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:read', {
+        notificationIds: [123],
+      });
+      expect(socketEventService.emitToAccount).toHaveBeenCalledWith(1, 'notifications:unreadCount', { count: 3 });
+    });
+  });
+
+  describe('getCatchUp', () => {
+    it('should return the notifications after the cursor and every active id', async () => {
+      (notificationsDb.getActiveNotifications as jest.Mock).mockResolvedValue([
+        notification(5),
+        notification(8),
+        notification(9),
+      ]);
+
+      const catchUp = await service.getCatchUp(1, 8);
+
+      expect(notificationsDb.getActiveNotifications).toHaveBeenCalledWith(1);
+      expect(catchUp).toEqual({
+        notifications: [notification(9)],
+        activeNotificationIds: [5, 8, 9],
+        unreadCount: 3,
+        cursor: 9,
+      });
+    });
+
+    it('should keep the cursor when nothing is active', async () => {
+      (notificationsDb.getActiveNotifications as jest.Mock).mockResolvedValue([]);
+
+      const catchUp = await service.getCatchUp(1, 8);
+
+      expect(catchUp.cursor).toBe(8);
+    });
+  });
+
+  describe('handleConnection', () => {
+    it('should catch up the socket from the cursor in its handshake', async () => {
+      (notificationsDb.getActiveNotifications as jest.Mock).mockResolvedValue([notification(5), notification(9)]);
+      const socket = {
+        data: { accountId: '1' },
+        handshake: { auth: { lastNotificationId: 5 } },
+        on: jest.fn(),
+        emit: jest.fn(),
+      };
+
+      service.handleConnection(socket as any);
+      await new Promise(process.nextTick);
+
+      expect(socket.on).toHaveBeenCalledWith('notifications:sync', expect.any(Function));
+      expect(socket.emit).toHaveBeenCalledWith(
+        'notifications:sync',
+        expect.objectContaining({ notifications: [notification(9)], cursor: 9 }),
+      );
+    });
+  });
+
+  describe('startScheduledPush', () => {
+    it('should schedule the push job', () => {
+      (notificationsDb.getLatestNotificationId as jest.Mock).mockResolvedValue(0);
+
+      service.startScheduledPush();
+
+      expect(cron.schedule).toHaveBeenCalledWith('* * * * *', expect.any(Function));
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { notificationsService } from '@ajgifford/keepwatching-common-server/testing';
+import * as moviesDb from '@db/moviesDb';
+import * as peopleDb from '@db/peopleDb';
+import * as showsDb from '@db/showsDb';
+import { peopleService } from '@services/peopleService';
+import cron from 'node-cron';
+
+const mockTMDBService = {
+  searchPeople: jest.fn(),
+  getPersonDetails: jest.fn(),
+  getPersonCombinedCredits: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+  notificationsService: notificationsService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+jest.mock('@db/moviesDb');
+jest.mock('@db/peopleDb');
+jest.mock('@db/showsDb');
+
+jest.mock('@services/notificationDeliveryService', () => ({
+  notificationDeliveryService: {
+    pushNewNotifications: jest.fn(),
+  },
+}));
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(),
+}));
+
+describe('PeopleService', () => {
+  const person = {
+    id: 31,
+    name: 'Tom Hanks',
+    biography: 'Thomas Jeffrey Hanks is an American actor...',
+    birthday: '1956-07-09',
+    deathday: null,
+    place_of_birth: 'Concord, California, USA',
+    profile_path: '/hanks.jpg',
+    known_for_department: 'Acting',
+  };
+  const combinedCredits = {
+    cast: [
+      { id: 13, media_type: 'movie', title: 'Forrest Gump', character: 'Forrest Gump', release_date: '1994-06-23' },
+      { id: 4613, media_type: 'tv', name: 'Band of Brothers', character: 'Himself', first_air_date: '2001-09-09' },
+    ],
+    crew: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTMDBService.getPersonDetails.mockResolvedValue(person);
+    mockTMDBService.getPersonCombinedCredits.mockResolvedValue(combinedCredits);
+    (peopleDb.getFollowedPeople as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('searchPeople', () => {
+    it('should map TMDB people results', async () => {
+      mockTMDBService.searchPeople.mockResolvedValue({
+        results: [{ id: 31, name: 'Tom Hanks', known_for_department: 'Acting', known_for: [{ title: 'Big' }] }],
+        total_results: 1,
+        total_pages: 1,
+      });
+
+      const result = await peopleService.searchPeople('Tom Hanks', 1);
+
+      expect(mockTMDBService.searchPeople).toHaveBeenCalledWith('Tom Hanks', 1);
+      expect(result).toEqual({
+        results: [
+          {
+            id: 31,
+            name: 'Tom Hanks',
+            profileImage: null,
+            knownForDepartment: 'Acting',
+            knownFor: ['Big'],
+            popularity: 0,
+          },
+        ],
+        totalResults: 1,
+        totalPages: 1,
+        currentPage: 1,
+      });
+    });
+  });
+
+  describe('getPerson', () => {
+    it('should mark each credit in or out of the library', async () => {
+      (showsDb.findFavoritedShowTMDBIds as jest.Mock).mockResolvedValue([]);
+      (moviesDb.findFavoritedMovieTMDBIds as jest.Mock).mockResolvedValue([13]);
+      (peopleDb.isFollowing as jest.Mock).mockResolvedValue(true);
+
+      const result = await peopleService.getPerson(123, 31);
+
+      expect(showsDb.findFavoritedShowTMDBIds).toHaveBeenCalledWith(123, [4613]);
+      expect(moviesDb.findFavoritedMovieTMDBIds).toHaveBeenCalledWith(123, [13]);
+      expect(result).toMatchObject({ id: 31, name: 'Tom Hanks', placeOfBirth: 'Concord, California, USA' });
+      expect(result.isFollowed).toBe(true);
+      expect(result.credits.map((credit) => [credit.title, credit.inLibrary])).toEqual([
+        ['Band of Brothers', false],
+        ['Forrest Gump', true],
+      ]);
+    });
+
+    it('should throw NotFoundError when the person does not exist', async () => {
+      mockTMDBService.getPersonDetails.mockResolvedValue(null);
+
+      await expect(peopleService.getPerson(123, 999)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('followPerson', () => {
+    it('should record the current credits when the person has no other followers', async () => {
+      (peopleDb.hasFollowers as jest.Mock).mockResolvedValue(false);
+
+      await peopleService.followPerson(123, 31);
+
+      expect(peopleDb.addKnownCredits).toHaveBeenCalledWith(
+        31,
+        expect.arrayContaining([expect.objectContaining({ contentType: 'movie', tmdbId: 13 })]),
+      );
+      expect(peopleDb.followPerson).toHaveBeenCalledWith(123, 31, 'Tom Hanks', '/hanks.jpg');
+    });
+
+    it('should not record credits for a person already followed by someone', async () => {
+      (peopleDb.hasFollowers as jest.Mock).mockResolvedValue(true);
+
+      await peopleService.followPerson(123, 31);
+
+      expect(mockTMDBService.getPersonCombinedCredits).not.toHaveBeenCalled();
+      expect(peopleDb.addKnownCredits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unfollowPerson', () => {
+    it('should throw NotFoundError when the profile does not follow the person', async () => {
+      (peopleDb.unfollowPerson as jest.Mock).mockResolvedValue(false);
+
+      await expect(peopleService.unfollowPerson(123, 31)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('checkFollowedPeople', () => {
+    it('should notify each following account once about new credits', async () => {
+      (peopleDb.getAllFollowedPersonIds as jest.Mock).mockResolvedValue([31]);
+      (peopleDb.getKnownCredits as jest.Mock).mockResolvedValue([{ contentType: 'movie', tmdbId: 13 }]);
+      (peopleDb.getPersonFollowers as jest.Mock).mockResolvedValue([
+        { accountId: 1, profileId: 123 },
+        { accountId: 1, profileId: 124 },
+      ]);
+
+      const created = await peopleService.checkFollowedPeople();
+
+      expect(created).toBe(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledTimes(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Tom Hanks has a new show announced: Band of Brothers (2001-09-09)',
+          accountId: 1,
+          sendToAll: false,
+          type: 'tv',
+        }),
+      );
+      expect(peopleDb.addKnownCredits).toHaveBeenCalledWith(31, [expect.objectContaining({ tmdbId: 4613 })]);
+    });
+
+    it('should record the new credits as seen before notifying anyone', async () => {
+      const error = new Error('Notifications unavailable');
+      (peopleDb.getAllFollowedPersonIds as jest.Mock).mockResolvedValue([31]);
+      (peopleDb.getKnownCredits as jest.Mock).mockResolvedValue([{ contentType: 'movie', tmdbId: 13 }]);
+      (peopleDb.getPersonFollowers as jest.Mock).mockResolvedValue([
+        { accountId: 1, profileId: 123 },
+        { accountId: 2, profileId: 200 },
+      ]);
+      (notificationsService.addNotification as jest.Mock).mockRejectedValueOnce(error);
+
+      const created = await peopleService.checkFollowedPeople();
+
+      expect(created).toBe(1);
+      expect((peopleDb.addKnownCredits as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (notificationsService.addNotification as jest.Mock).mock.invocationCallOrder[0],
+      );
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(expect.objectContaining({ accountId: 2 }));
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to notify an account about a new credit', {
+        error,
+        personId: 31,
+        accountId: 1,
+      });
+    });
+
+    it('should log and continue when a person cannot be checked', async () => {
+      const error = new Error('TMDB unavailable');
+      (peopleDb.getAllFollowedPersonIds as jest.Mock).mockResolvedValue([31]);
+      mockTMDBService.getPersonCombinedCredits.mockRejectedValue(error);
+
+      await expect(peopleService.checkFollowedPeople()).resolves.toBe(0);
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to check a followed person for new credits', {
+        error,
+        personId: 31,
+      });
+    });
+  });
+
+  describe('startScheduledAlerts', () => {
+    it('should schedule the alert job', () => {
+      peopleService.startScheduledAlerts();
+
+      expect(cron.schedule).toHaveBeenCalledWith('0 6 * * *', expect.any(Function));
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { notificationsService } from '@ajgifford/keepwatching-common-server/testing';
+import * as profileNotificationsDb from '@db/profileNotificationsDb';
+import { notificationDeliveryService } from '@services/notificationDeliveryService';
+import { profileNotificationsService } from '@services/profileNotificationsService';
+import { withTransaction } from '@utils/db';
+import cron from 'node-cron';
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  notificationsService: notificationsService,
+}));
+
+jest.mock('@db/profileNotificationsDb');
+
+jest.mock('@services/notificationDeliveryService', () => ({
+  notificationDeliveryService: {
+    pushNewNotifications: jest.fn(),
+  },
+}));
+
+jest.mock('@utils/db', () => ({
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(),
+}));
+
+const connection = { id: 'connection' };
+
+describe('ProfileNotificationsService', () => {
+  const recipient = { accountId: 1, profileId: 10, profileName: 'Alex' };
+  const lastRun = new Date('2026-10-18T07:00:00Z');
+  const episode = {
+    ...recipient,
+    showId: 5,
+    showTitle: 'The Bear',
+    episodeId: 100,
+    seasonNumber: 3,
+    episodeNumber: 4,
+    episodeTitle: 'Violet',
+    airDate: '2026-10-19',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (withTransaction as jest.Mock).mockImplementation((work) => work(connection));
+    (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.getLastRun as jest.Mock).mockResolvedValue(lastRun);
+    (profileNotificationsDb.getUnseenSeasons as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.getMoviesReleasingToday as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.getUnseenMovieServices as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.getShowStatusChanges as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.getOptOuts as jest.Mock).mockResolvedValue([]);
+    (profileNotificationsDb.recordProfileEvents as jest.Mock).mockImplementation((_connection, profileIds) =>
+      Promise.resolve(profileIds),
+    );
+  });
+
+  describe('getPreferences', () => {
+    it('should enable the categories without a saved preference', async () => {
+      (profileNotificationsDb.getPreferences as jest.Mock).mockResolvedValue([
+        { category: 'showEndings', enabled: false },
+      ]);
+
+      const result = await profileNotificationsService.getPreferences(10);
+
+      expect(profileNotificationsDb.getPreferences).toHaveBeenCalledWith(10);
+      expect(result).toEqual({ newEpisodes: true, newSeasons: true, movieReleases: true, showEndings: false });
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('should only save the categories that were given', async () => {
+      (profileNotificationsDb.getPreferences as jest.Mock).mockResolvedValue([
+        { category: 'newSeasons', enabled: false },
+        { category: 'movieReleases', enabled: true },
+      ]);
+
+      const result = await profileNotificationsService.updatePreferences(10, {
+        newSeasons: false,
+        movieReleases: true,
+      });
+
+      expect(profileNotificationsDb.savePreferences).toHaveBeenCalledWith(10, [
+        { category: 'newSeasons', enabled: false },
+        { category: 'movieReleases', enabled: true },
+      ]);
+      expect(result).toEqual({ newEpisodes: true, newSeasons: false, movieReleases: true, showEndings: true });
+    });
+  });
+
+  describe('generateNotifications', () => {
+    it('should create a notification for each profile about its favorites', async () => {
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+      (profileNotificationsDb.getMoviesReleasingToday as jest.Mock).mockResolvedValue([
+        { ...recipient, movieId: 7, title: 'Dune' },
+      ]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(2);
+      expect(profileNotificationsDb.recordProfileEvents).toHaveBeenCalledWith(
+        connection,
+        [10],
+        'newEpisodes:5:2026-10-19',
+      );
+      expect(notificationsService.addNotification).toHaveBeenCalledWith({
+        message: 'A new episode of The Bear airs today: S3E4 Violet (for Alex)',
+        startDate: expect.any(String),
+        endDate: expect.any(String),
+        sendToAll: false,
+        accountId: 1,
+        type: 'tv',
+      });
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Dune is released today (for Alex)', type: 'movie' }),
+      );
+    });
+
+    it('should send one notification naming every profile on an account notified about the same event', async () => {
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([
+        episode,
+        { ...episode, profileId: 11, profileName: 'Sam' },
+        { ...episode, profileId: 12, profileName: 'Jo' },
+      ]);
+      (profileNotificationsDb.recordProfileEvents as jest.Mock).mockResolvedValue([10, 11]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(1);
+      expect(profileNotificationsDb.recordProfileEvents).toHaveBeenCalledWith(
+        connection,
+        [10, 11, 12],
+        'newEpisodes:5:2026-10-19',
+      );
+      expect(notificationsService.addNotification).toHaveBeenCalledTimes(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'A new episode of The Bear airs today: S3E4 Violet (for Alex and Sam)',
+          accountId: 1,
+        }),
+      );
+    });
+
+    it('should skip categories the profile opted out of', async () => {
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+      (profileNotificationsDb.getOptOuts as jest.Mock).mockResolvedValue([{ profileId: 10, category: 'newEpisodes' }]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(0);
+      expect(notificationsService.addNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not count events the profile was already notified about', async () => {
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+      (profileNotificationsDb.recordProfileEvents as jest.Mock).mockResolvedValue([]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(0);
+      expect(notificationsService.addNotification).not.toHaveBeenCalled();
+    });
+
+    it('should log a notification that fails to be created', async () => {
+      const error = new Error('Database error');
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+      (notificationsService.addNotification as jest.Mock).mockRejectedValueOnce(error);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(0);
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to create a profile notification', {
+        error,
+        accountId: 1,
+        eventKey: 'newEpisodes:5:2026-10-19',
+      });
+    });
+
+    it('should notify the followers of shows that ended and record every status change', async () => {
+      const changes = [
+        { showId: 1, title: 'Ozark', status: 'Ended', previousStatus: 'Returning Series', isKnown: true },
+        { showId: 2, title: 'Dark', status: 'Ended', previousStatus: null, isKnown: false },
+      ];
+      (profileNotificationsDb.getShowStatusChanges as jest.Mock).mockResolvedValue(changes);
+      (profileNotificationsDb.getShowFollowers as jest.Mock).mockResolvedValue([{ ...recipient, contentId: 1 }]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.getShowFollowers).toHaveBeenCalledWith([1]);
+      expect(profileNotificationsDb.saveShowStatuses).toHaveBeenCalledWith(changes);
+      expect(result).toBe(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Ozark has ended (for Alex)' }),
+      );
+    });
+
+    it('should notify the followers of shows with newly announced seasons', async () => {
+      const seasons = [
+        { showId: 5, showTitle: 'The Bear', seasonId: 50, seasonNumber: 4, releaseDate: null, upcoming: true },
+        { showId: 6, showTitle: 'Lost', seasonId: 60, seasonNumber: 1, releaseDate: '2004-09-22', upcoming: false },
+      ];
+      (profileNotificationsDb.getUnseenSeasons as jest.Mock).mockResolvedValue(seasons);
+      (profileNotificationsDb.getShowFollowers as jest.Mock).mockResolvedValue([{ ...recipient, contentId: 5 }]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.getShowFollowers).toHaveBeenCalledWith([5], lastRun);
+      expect(profileNotificationsDb.saveSeasons).toHaveBeenCalledWith([50, 60]);
+      expect(result).toBe(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Season 4 of The Bear has been announced (for Alex)' }),
+      );
+    });
+
+    it('should only record seasons on the first run', async () => {
+      (profileNotificationsDb.getLastRun as jest.Mock).mockResolvedValue(null);
+      (profileNotificationsDb.getUnseenSeasons as jest.Mock).mockResolvedValue([
+        { showId: 5, showTitle: 'The Bear', seasonId: 50, seasonNumber: 4, releaseDate: null, upcoming: true },
+      ]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.getShowFollowers).not.toHaveBeenCalled();
+      expect(profileNotificationsDb.saveSeasons).toHaveBeenCalledWith([50]);
+      expect(result).toBe(0);
+    });
+
+    it('should record when each check ran even when it finds nothing new', async () => {
+      await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.saveLastRun).toHaveBeenCalledWith('newSeasons', expect.any(Date));
+      expect(profileNotificationsDb.saveLastRun).toHaveBeenCalledWith('streamingArrivals', expect.any(Date));
+    });
+
+    it('should notify the followers of movies arriving on streaming', async () => {
+      const services = [{ movieId: 7, title: 'Dune', streamingServiceId: 8, serviceName: 'Max' }];
+      (profileNotificationsDb.getUnseenMovieServices as jest.Mock).mockResolvedValue(services);
+      (profileNotificationsDb.getUnwatchedMovieFollowers as jest.Mock).mockResolvedValue([
+        { ...recipient, contentId: 7 },
+      ]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.getUnwatchedMovieFollowers).toHaveBeenCalledWith([7], lastRun);
+      expect(profileNotificationsDb.saveMovieServices).toHaveBeenCalledWith(services);
+      expect(result).toBe(1);
+      expect(notificationsService.addNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Dune is now streaming on Max (for Alex)' }),
+      );
+    });
+
+    it('should only record streaming services on the first run', async () => {
+      const services = [{ movieId: 7, title: 'Dune', streamingServiceId: 8, serviceName: 'Max' }];
+      (profileNotificationsDb.getLastRun as jest.Mock).mockResolvedValue(null);
+      (profileNotificationsDb.getUnseenMovieServices as jest.Mock).mockResolvedValue(services);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(profileNotificationsDb.getUnwatchedMovieFollowers).not.toHaveBeenCalled();
+      expect(profileNotificationsDb.saveMovieServices).toHaveBeenCalledWith(services);
+      expect(result).toBe(0);
+    });
+
+    it('should log a category that fails and still create the others', async () => {
+      const error = new Error('Database error');
+      (profileNotificationsDb.getUnseenSeasons as jest.Mock).mockRejectedValue(error);
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+
+      const result = await profileNotificationsService.generateNotifications();
+
+      expect(result).toBe(1);
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to look for profile notifications', {
+        error,
+        category: 'newSeasons',
+      });
+      expect(profileNotificationsDb.saveLastRun).not.toHaveBeenCalledWith('newSeasons', expect.any(Date));
+    });
+  });
+
+  describe('startScheduledNotifications', () => {
+    it('should schedule the notification job', () => {
+      profileNotificationsService.startScheduledNotifications();
+
+      expect(cron.schedule).toHaveBeenCalledWith('0 7 * * *', expect.any(Function));
+    });
+
+    it('should push the notifications it created', async () => {
+      (profileNotificationsDb.getEpisodesAiringToday as jest.Mock).mockResolvedValue([episode]);
+      profileNotificationsService.startScheduledNotifications();
+      const job = (cron.schedule as jest.Mock).mock.calls[0][1];
+
+      await job();
+
+      expect(notificationDeliveryService.pushNewNotifications).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import * as ratingsDb from '@db/ratingsDb';
+import { ratingsService } from '@services/ratingsService';
+
+jest.mock('@db/ratingsDb');
+
+describe('RatingsService', () => {
+  const updatedAt = new Date('2025-06-01T12:00:00Z');
+  const createRating = (contentType: ratingsDb.RatingContentType, contentId: number, rating: number) => ({
+    contentType,
+    contentId,
+    rating,
+    review: null,
+    createdAt: updatedAt,
+    updatedAt,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getRating', () => {
+    it('should return the rating on both scales', async () => {
+      (ratingsDb.getRating as jest.Mock).mockResolvedValue(createRating('episode', 42, 7));
+
+      const result = await ratingsService.getRating(123, 'episode', 42);
+
+      expect(ratingsDb.getRating).toHaveBeenCalledWith(123, 'episode', 42);
+      expect(result).toEqual({ contentType: 'episode', contentId: 42, rating: 7, stars: 3.5, review: null, updatedAt });
+    });
+
+    it('should throw NotFoundError when the profile has not rated it', async () => {
+      (ratingsDb.getRating as jest.Mock).mockResolvedValue(null);
+
+      await expect(ratingsService.getRating(123, 'episode', 42)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('rateContent', () => {
+    beforeEach(() => {
+      (ratingsDb.contentExists as jest.Mock).mockResolvedValue(true);
+      (ratingsDb.getRating as jest.Mock).mockResolvedValue(createRating('movie', 7, 9));
+    });
+
+    it('should save a 1-10 rating with its review', async () => {
+      await ratingsService.rateContent(123, 'movie', 7, { rating: 9, review: 'Loved it' });
+
+      expect(ratingsDb.contentExists).toHaveBeenCalledWith('movie', 7);
+      expect(ratingsDb.saveRating).toHaveBeenCalledWith(123, 'movie', 7, 9, 'Loved it');
+    });
+
+    it('should save a star rating on the 1-10 scale', async () => {
+      await ratingsService.rateContent(123, 'movie', 7, { rating: 4.5, scale: 'stars' });
+
+      expect(ratingsDb.saveRating).toHaveBeenCalledWith(123, 'movie', 7, 9, null);
+    });
+
+    it('should throw NotFoundError when the content does not exist', async () => {
+      (ratingsDb.contentExists as jest.Mock).mockResolvedValue(false);
+
+      await expect(ratingsService.rateContent(123, 'season', 99, { rating: 5 })).rejects.toThrow(NotFoundError);
+      expect(ratingsDb.saveRating).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeRating', () => {
+    it('should remove the rating', async () => {
+      (ratingsDb.deleteRating as jest.Mock).mockResolvedValue(true);
+
+      await ratingsService.removeRating(123, 'show', 1);
+
+      expect(ratingsDb.deleteRating).toHaveBeenCalledWith(123, 'show', 1);
+    });
+
+    it('should throw NotFoundError when the profile has not rated it', async () => {
+      (ratingsDb.deleteRating as jest.Mock).mockResolvedValue(false);
+
+      await expect(ratingsService.removeRating(123, 'show', 1)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getShowRatings', () => {
+    it('should split the ratings of a show, its seasons and its episodes', async () => {
+      (ratingsDb.getRatingsForShow as jest.Mock).mockResolvedValue([
+        createRating('show', 1, 8),
+        createRating('season', 10, 6),
+        createRating('episode', 100, 10),
+      ]);
+
+      const result = await ratingsService.getShowRatings(123, 1);
+
+      expect(ratingsDb.getRatingsForShow).toHaveBeenCalledWith(123, 1);
+      expect(result.show).toEqual({ rating: 8, stars: 4, review: null, updatedAt });
+      expect(result.seasons.get(10)?.rating).toBe(6);
+      expect(result.episodes.get(100)?.rating).toBe(10);
+    });
+
+    it('should return a null show rating when only episodes are rated', async () => {
+      (ratingsDb.getRatingsForShow as jest.Mock).mockResolvedValue([createRating('episode', 100, 10)]);
+
+      const result = await ratingsService.getShowRatings(123, 1);
+
+      expect(result.show).toBeNull();
+      expect(result.seasons.size).toBe(0);
+    });
+  });
+
+  describe('getRatingStatistics', () => {
+    it('should combine the rating distribution with the highest rated genres', async () => {
+      (ratingsDb.getRatingCounts as jest.Mock).mockResolvedValue([
+        { rating: 6, count: 1 },
+        { rating: 9, count: 2 },
+      ]);
+      (ratingsDb.getTopRatedGenres as jest.Mock).mockResolvedValue([
+        { genre: 'Drama', averageRating: 8.6667, ratedCount: 3 },
+      ]);
+
+      const result = await ratingsService.getRatingStatistics(123);
+
+      expect(ratingsDb.getTopRatedGenres).toHaveBeenCalledWith(123, 5);
+      expect(result.ratedCount).toBe(3);
+      expect(result.averageRating).toBe(8);
+      expect(result.distribution[8]).toEqual({ rating: 9, count: 2 });
+      expect(result.topRatedGenres).toEqual([{ genre: 'Drama', averageRating: 8.7, ratedCount: 3 }]);
+    });
+  });
+});
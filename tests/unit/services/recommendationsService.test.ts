@@ -0,0 +1,94 @@
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import * as recommendationsDb from '@db/recommendationsDb';
+import * as watchlistDb from '@db/watchlistDb';
+import { recommendationsService } from '@services/recommendationsService';
+
+const mockTMDBService = {
+  getShowRecommendations: jest.fn(),
+  getMovieRecommendations: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@db/recommendationsDb');
+jest.mock('@db/watchlistDb');
+
+describe('RecommendationsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (recommendationsDb.getRecommendationSeeds as jest.Mock).mockResolvedValue([
+      { contentType: 'show', tmdbId: 1396, title: 'Breaking Bad', status: 'WATCHED', rating: 10 },
+      { contentType: 'show', tmdbId: 66732, title: 'Stranger Things', status: 'NOT_WATCHED', rating: null },
+      { contentType: 'show', tmdbId: 1399, title: 'Game of Thrones', status: 'WATCHED', rating: 1 },
+      { contentType: 'movie', tmdbId: 949, title: 'Heat', status: 'WATCHED', rating: null },
+    ]);
+    (watchlistDb.getWatchlistItems as jest.Mock).mockImplementation((_profileId, contentType) =>
+      Promise.resolve(contentType === 'show' ? [{ contentType: 'show', tmdbId: 1438 }] : []),
+    );
+    mockTMDBService.getShowRecommendations.mockImplementation((tmdbId: number) =>
+      Promise.resolve({
+        results:
+          tmdbId === 1396
+            ? [{ id: 60059, name: 'Better Call Saul' }, { id: 1438, name: 'The Wire' }, { id: 66732 }]
+            : [
+                { id: 60059, name: 'Better Call Saul' },
+                { id: 70523, name: 'Dark' },
+              ],
+      }),
+    );
+    mockTMDBService.getMovieRecommendations.mockResolvedValue({ results: [{ id: 1422, title: 'The Departed' }] });
+  });
+
+  it('should merge the recommendations of shows and movies in the favorites', async () => {
+    const result = await recommendationsService.getRecommendations(123, { limit: 20 });
+
+    expect(mockTMDBService.getShowRecommendations).toHaveBeenCalledWith(1396);
+    expect(mockTMDBService.getShowRecommendations).toHaveBeenCalledWith(66732);
+    expect(mockTMDBService.getMovieRecommendations).toHaveBeenCalledWith(949);
+    expect(result.map((recommendation) => recommendation.title)).toEqual(['Better Call Saul', 'The Departed', 'Dark']);
+    expect(result[0].reason).toBe('Because you watched Breaking Bad and Stranger Things');
+  });
+
+  it('should not use titles rated 1 to find recommendations', async () => {
+    await recommendationsService.getRecommendations(123, { limit: 20 });
+
+    expect(mockTMDBService.getShowRecommendations).not.toHaveBeenCalledWith(1399);
+  });
+
+  it('should leave out titles in the favorites or on the watchlist', async () => {
+    const result = await recommendationsService.getRecommendations(123, { limit: 20 });
+
+    expect(result.map((recommendation) => recommendation.tmdbId)).not.toContain(1438);
+    expect(result.map((recommendation) => recommendation.tmdbId)).not.toContain(66732);
+  });
+
+  it('should only recommend the requested content type', async () => {
+    const result = await recommendationsService.getRecommendations(123, { contentType: 'movie', limit: 20 });
+
+    expect(mockTMDBService.getShowRecommendations).not.toHaveBeenCalled();
+    expect(watchlistDb.getWatchlistItems).toHaveBeenCalledWith(123, 'movie');
+    expect(result.map((recommendation) => recommendation.title)).toEqual(['The Departed']);
+  });
+
+  it('should skip titles whose TMDB recommendations fail', async () => {
+    const error = new Error('TMDB unavailable');
+    mockTMDBService.getMovieRecommendations.mockRejectedValue(error);
+
+    const result = await recommendationsService.getRecommendations(123, { limit: 20 });
+
+    expect(result.map((recommendation) => recommendation.contentType)).not.toContain('movie');
+    expect(appLogger.error).toHaveBeenCalledWith('Failed to get TMDB recommendations', {
+      error,
+      contentType: 'movie',
+      tmdbId: 949,
+    });
+  });
+});
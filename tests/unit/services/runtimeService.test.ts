@@ -0,0 +1,114 @@
+import { NotFoundError } from '@ajgifford/keepwatching-common-server';
+import * as runtimeDb from '@db/runtimeDb';
+import * as watchHistoryDb from '@db/watchHistoryDb';
+import * as watchStatusDb from '@db/watchStatusDb';
+import { runtimeService } from '@services/runtimeService';
+
+jest.mock('@db/runtimeDb');
+jest.mock('@db/watchHistoryDb');
+jest.mock('@db/watchStatusDb');
+
+describe('RuntimeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    (runtimeDb.getSeasonRuntimes as jest.Mock).mockResolvedValue([
+      { seasonId: 10, totalEpisodes: 4, watchedEpisodes: 4, totalRuntime: 200, watchedRuntime: 200 },
+      { seasonId: 11, totalEpisodes: 4, watchedEpisodes: 0, totalRuntime: 240, watchedRuntime: 0 },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getShowRuntime', () => {
+    it('should total the runtime of each season', async () => {
+      const result = await runtimeService.getShowRuntime(123, 1);
+
+      expect(runtimeDb.getSeasonRuntimes).toHaveBeenCalledWith(123, 1);
+      expect(result).toEqual({
+        totalRuntime: 440,
+        watchedRuntime: 200,
+        remainingRuntime: 240,
+        totalEpisodes: 8,
+        watchedEpisodes: 4,
+        seasons: [
+          {
+            seasonId: 10,
+            totalEpisodes: 4,
+            watchedEpisodes: 4,
+            totalRuntime: 200,
+            watchedRuntime: 200,
+            remainingRuntime: 0,
+          },
+          {
+            seasonId: 11,
+            totalEpisodes: 4,
+            watchedEpisodes: 0,
+            totalRuntime: 240,
+            watchedRuntime: 0,
+            remainingRuntime: 240,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('getProfileRuntime', () => {
+    it('should combine the show and movie runtime', async () => {
+      (runtimeDb.getProfileShowRuntime as jest.Mock).mockResolvedValue({ totalRuntime: 1000, watchedRuntime: 400 });
+      (runtimeDb.getProfileMovieRuntime as jest.Mock).mockResolvedValue({ totalRuntime: 300, watchedRuntime: 120 });
+
+      const result = await runtimeService.getProfileRuntime(123);
+
+      expect(result).toEqual({
+        totalRuntime: 1300,
+        watchedRuntime: 520,
+        remainingRuntime: 780,
+        shows: { totalRuntime: 1000, watchedRuntime: 400, remainingRuntime: 600 },
+        movies: { totalRuntime: 300, watchedRuntime: 120, remainingRuntime: 180 },
+      });
+    });
+  });
+
+  describe('getShowProgress', () => {
+    it('should estimate the finish date from the last 30 days of episodes', async () => {
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+      (watchHistoryDb.getEpisodeMinutesSince as jest.Mock).mockResolvedValue(600);
+
+      const result = await runtimeService.getShowProgress(123, 1);
+
+      expect(watchHistoryDb.getEpisodeMinutesSince).toHaveBeenCalledWith(123, new Date('2025-05-16T12:00:00Z'));
+
+      expect(result).toEqual({
+        showId: 1,
+        totalEpisodes: 8,
+        watchedEpisodes: 4,
+        percentComplete: 50,
+        totalRuntime: 440,
+        watchedRuntime: 200,
+        remainingRuntime: 240,
+        pace: { days: 30, minutesPerDay: 20 },
+        estimatedFinishDate: '2025-06-27',
+      });
+    });
+
+    it('should not estimate a finish date without any recent activity', async () => {
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+      (watchHistoryDb.getEpisodeMinutesSince as jest.Mock).mockResolvedValue(0);
+
+      const result = await runtimeService.getShowProgress(123, 1);
+
+      expect(result.pace.minutesPerDay).toBe(0);
+      expect(result.estimatedFinishDate).toBeNull();
+    });
+
+    it('should reject shows that are not in the profile favorites', async () => {
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([]);
+
+      await expect(runtimeService.getShowProgress(123, 1)).rejects.toThrow(NotFoundError);
+      expect(runtimeDb.getSeasonRuntimes).not.toHaveBeenCalled();
+    });
+  });
+});
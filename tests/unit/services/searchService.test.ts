@@ -0,0 +1,96 @@
+import { contentDiscoveryService } from '@ajgifford/keepwatching-common-server/services';
+import * as moviesDb from '@db/moviesDb';
+import * as peopleDb from '@db/peopleDb';
+import * as showsDb from '@db/showsDb';
+import { peopleService } from '@services/peopleService';
+import { searchService } from '@services/searchService';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  contentDiscoveryService: {
+    searchMedia: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-types', () => ({
+  MediaType: { SHOW: 'tv', MOVIE: 'movie' },
+}));
+
+jest.mock('@services/peopleService', () => ({
+  peopleService: {
+    searchPeople: jest.fn(),
+  },
+}));
+
+jest.mock('@db/moviesDb');
+jest.mock('@db/peopleDb');
+jest.mock('@db/showsDb');
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (contentDiscoveryService.searchMedia as jest.Mock).mockImplementation((mediaType: string) =>
+      Promise.resolve(
+        mediaType === 'tv'
+          ? { results: [{ id: '1', title: 'Alien: Earth', popularity: 300 }], totalResults: 1, totalPages: 1 }
+          : {
+              results: [
+                { id: '348', title: 'Alien', popularity: 80 },
+                { id: '679', title: 'Aliens', popularity: 90 },
+              ],
+              totalResults: 45,
+              totalPages: 3,
+            },
+      ),
+    );
+    (peopleService.searchPeople as jest.Mock).mockResolvedValue({
+      results: [
+        { id: 5, name: 'Alien Ant Farm', profileImage: null, knownForDepartment: null, knownFor: [], popularity: 1 },
+      ],
+      totalResults: 1,
+      totalPages: 1,
+      currentPage: 1,
+    });
+  });
+
+  it('should rank shows, movies and people into one list', async () => {
+    const result = await searchService.multiSearch({ query: 'alien', page: 1 });
+
+    expect(contentDiscoveryService.searchMedia).toHaveBeenCalledWith('tv', 'alien', undefined, 1);
+    expect(contentDiscoveryService.searchMedia).toHaveBeenCalledWith('movie', 'alien', undefined, 1);
+    expect(peopleService.searchPeople).toHaveBeenCalledWith('alien', 1);
+    expect(result.results.map((entry) => [entry.type, entry.title])).toEqual([
+      ['movie', 'Alien'],
+      ['show', 'Alien: Earth'],
+      ['movie', 'Aliens'],
+      ['person', 'Alien Ant Farm'],
+    ]);
+    expect(result).toMatchObject({
+      totalResults: 47,
+      totalPages: 3,
+      currentPage: 1,
+      searchedTypes: ['show', 'movie', 'person'],
+    });
+    expect(result.results.every((entry) => entry.inLibrary === false)).toBe(true);
+    expect(moviesDb.findFavoritedMovieTMDBIds).not.toHaveBeenCalled();
+  });
+
+  it('should leave out people when searching by year', async () => {
+    const result = await searchService.multiSearch({ query: 'alien', year: '1979', page: 2 });
+
+    expect(contentDiscoveryService.searchMedia).toHaveBeenCalledWith('movie', 'alien', '1979', 2);
+    expect(peopleService.searchPeople).not.toHaveBeenCalled();
+    expect(result.results.some((entry) => entry.type === 'person')).toBe(false);
+    expect(result).toMatchObject({ totalResults: 46, searchedTypes: ['show', 'movie'] });
+  });
+
+  it('should flag results in the profile library', async () => {
+    (showsDb.findFavoritedShowTMDBIds as jest.Mock).mockResolvedValue([]);
+    (moviesDb.findFavoritedMovieTMDBIds as jest.Mock).mockResolvedValue([348]);
+    (peopleDb.findFollowedPersonIds as jest.Mock).mockResolvedValue([5]);
+
+    const result = await searchService.multiSearch({ query: 'alien', page: 1, profileId: 123 });
+
+    expect(moviesDb.findFavoritedMovieTMDBIds).toHaveBeenCalledWith(123, [348, 679]);
+    expect(result.results.filter((entry) => entry.inLibrary).map((entry) => entry.tmdbId)).toEqual([348, 5]);
+  });
+});
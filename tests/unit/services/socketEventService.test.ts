@@ -0,0 +1,113 @@
+import { accountService } from '@ajgifford/keepwatching-common-server/testing';
+import { SocketEventService } from '@services/socketEventService';
+import { Server } from 'socket.io';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: accountService,
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+describe('SocketEventService', () => {
+  const createServer = () => {
+    const room = { emit: jest.fn() };
+    const io = { to: jest.fn(() => room), emit: jest.fn() };
+    const service = new SocketEventService();
+    service.initialize(io as unknown as Server);
+    return { io, room, service };
+  };
+
+  const createSocket = (accountId: unknown) => {
+    const handlers: Record<string, (...args: any[]) => unknown> = {};
+    return {
+      data: { accountId },
+      join: jest.fn(),
+      leave: jest.fn(),
+      on: jest.fn((event: string, handler: (...args: any[]) => unknown) => {
+        handlers[event] = handler;
+      }),
+      handlers,
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send account events only to the account room', () => {
+    const { io, room, service } = createServer();
+
+    service.emitToAccount(1, 'lists:deleted', { listId: 9 });
+
+    expect(io.to).toHaveBeenCalledWith('account:1');
+    expect(room.emit).toHaveBeenCalledWith('lists:deleted', { listId: 9 });
+  });
+
+  it('should send profile events only to the profile room', () => {
+    const { io, room, service } = createServer();
+
+    service.emitToProfile(123, 'seasons:updated', { seasonId: 4 });
+
+    expect(io.to).toHaveBeenCalledWith('profile:123');
+    expect(room.emit).toHaveBeenCalledWith('seasons:updated', { seasonId: 4 });
+  });
+
+  it('should do nothing before it is initialized', () => {
+    const service = new SocketEventService();
+
+    expect(() => service.emitToAccount(1, 'lists:deleted', { listId: 9 })).not.toThrow();
+    expect(() => service.emitToProfile(123, 'seasons:updated', {})).not.toThrow();
+  });
+
+  describe('handleConnection', () => {
+    it('should join the socket to its account room', () => {
+      const { service } = createServer();
+      const socket = createSocket('1');
+
+      service.handleConnection(socket as any);
+
+      expect(socket.join).toHaveBeenCalledWith('account:1');
+    });
+
+    it('should join a profile room for a profile of the account', async () => {
+      const { service } = createServer();
+      const socket = createSocket(1);
+      const ack = jest.fn();
+      (accountService.findAccountIdByProfileId as jest.Mock).mockResolvedValue(1);
+      service.handleConnection(socket as any);
+
+      await socket.handlers['profiles:join']({ profileId: 123 }, ack);
+
+      expect(accountService.findAccountIdByProfileId).toHaveBeenCalledWith(123);
+      expect(socket.join).toHaveBeenCalledWith('profile:123');
+      expect(ack).toHaveBeenCalledWith({ joined: true });
+    });
+
+    it('should not join a profile room for another account', async () => {
+      const { service } = createServer();
+      const socket = createSocket(1);
+      const ack = jest.fn();
+      (accountService.findAccountIdByProfileId as jest.Mock).mockResolvedValue(2);
+      service.handleConnection(socket as any);
+
+      await socket.handlers['profiles:join']({ profileId: 456 }, ack);
+
+      expect(socket.join).not.toHaveBeenCalledWith('profile:456');
+      expect(ack).toHaveBeenCalledWith({ joined: false, error: expect.any(String) });
+    });
+
+    it('should leave a profile room', () => {
+      const { service } = createServer();
+      const socket = createSocket(1);
+      service.handleConnection(socket as any);
+
+      socket.handlers['profiles:leave']({ profileId: 123 });
+
+      expect(socket.leave).toHaveBeenCalledWith('profile:123');
+    });
+  });
+});
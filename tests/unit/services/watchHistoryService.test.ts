@@ -0,0 +1,149 @@
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+import { appLogger } from '@ajgifford/keepwatching-common-server/logger';
+import * as watchHistoryDb from '@db/watchHistoryDb';
+import { watchHistoryService } from '@services/watchHistoryService';
+
+jest.mock('@db/watchHistoryDb');
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  appLogger: {
+    error: jest.fn(),
+  },
+}));
+
+describe('WatchHistoryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordStatusChange', () => {
+    it('should record a single watch event', async () => {
+      await watchHistoryService.recordStatusChange(123, 'episode', 456, 'WATCHED');
+
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'episode', contentId: 456, status: 'WATCHED' },
+      ]);
+    });
+
+    it('should log rather than throw when recording fails', async () => {
+      (watchHistoryDb.insertWatchEvents as jest.Mock).mockRejectedValueOnce(new Error('DB down'));
+
+      await expect(watchHistoryService.recordStatusChange(123, 'movie', 456, 'WATCHED')).resolves.toBeUndefined();
+      expect(appLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('trackStatusChange', () => {
+    it('should apply the update and record the new status when it changed', async () => {
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue('NOT_WATCHED');
+      const update = jest.fn().mockResolvedValue('next episodes');
+
+      const result = await watchHistoryService.trackStatusChange(123, 'episode', 456, 'WATCHED', update);
+
+      expect(watchHistoryDb.getCurrentWatchStatus).toHaveBeenCalledWith(123, 'episode', 456);
+      expect(update).toHaveBeenCalled();
+      expect(result).toBe('next episodes');
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'episode', contentId: 456, status: 'WATCHED' },
+      ]);
+    });
+
+    it('should record nothing when the status is already set', async () => {
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue('WATCHED');
+      const update = jest.fn().mockResolvedValue(undefined);
+
+      await watchHistoryService.trackStatusChange(123, 'movie', 456, 'WATCHED', update);
+
+      expect(update).toHaveBeenCalled();
+      expect(watchHistoryDb.insertWatchEvents).not.toHaveBeenCalled();
+    });
+
+    it('should treat content without a status as not watched', async () => {
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue(null);
+
+      await watchHistoryService.trackStatusChange(123, 'movie', 456, 'NOT_WATCHED', jest.fn());
+
+      expect(watchHistoryDb.insertWatchEvents).not.toHaveBeenCalled();
+    });
+
+    it('should record the time an imported watch happened', async () => {
+      const watchedAt = new Date('2024-02-01T20:00:00.000Z');
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue(null);
+
+      await watchHistoryService.trackStatusChange(123, 'movie', 456, 'WATCHED', jest.fn(), watchedAt);
+
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'movie', contentId: 456, status: 'WATCHED', watchedAt },
+      ]);
+    });
+
+    it('should record nothing when the update fails', async () => {
+      const error = new Error('Update failed');
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue('NOT_WATCHED');
+
+      await expect(
+        watchHistoryService.trackStatusChange(123, 'movie', 456, 'WATCHED', jest.fn().mockRejectedValue(error)),
+      ).rejects.toThrow(error);
+      expect(watchHistoryDb.insertWatchEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordStatusChanges', () => {
+    it('should record every watch event together', async () => {
+      const events = [
+        { profileId: 123, contentType: 'episode' as const, contentId: 1, status: 'WATCHED' },
+        { profileId: 123, contentType: 'episode' as const, contentId: 2, status: 'WATCHED' },
+      ];
+
+      await watchHistoryService.recordStatusChanges(events);
+
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith(events);
+    });
+
+    it('should log rather than throw when recording fails', async () => {
+      const error = new Error('DB down');
+      (watchHistoryDb.insertWatchEvents as jest.Mock).mockRejectedValueOnce(error);
+
+      await expect(
+        watchHistoryService.recordStatusChanges([
+          { profileId: 123, contentType: 'episode', contentId: 1, status: 'WATCHED' },
+        ]),
+      ).resolves.toBeUndefined();
+      expect(appLogger.error).toHaveBeenCalledWith('Failed to record watch history', { error, count: 1 });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return a page of history with pagination details', async () => {
+      const history = [{ id: 1 }, { id: 2 }];
+      (watchHistoryDb.getWatchHistory as jest.Mock).mockResolvedValue(history);
+      (watchHistoryDb.countWatchHistory as jest.Mock).mockResolvedValue(45);
+
+      const result = await watchHistoryService.getHistory(123, { from: '2025-01-01', page: 3, limit: 20 });
+
+      expect(watchHistoryDb.getWatchHistory).toHaveBeenCalledWith(123, { from: '2025-01-01' }, 20, 40);
+      expect(watchHistoryDb.countWatchHistory).toHaveBeenCalledWith(123, { from: '2025-01-01' });
+      expect(result).toEqual({ history, pagination: { page: 3, limit: 20, total: 45, totalPages: 3 } });
+    });
+  });
+
+  describe('logRewatch', () => {
+    it('should record a rewatch of watched content', async () => {
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue('WATCHED');
+
+      await watchHistoryService.logRewatch(123, 'movie', 456);
+
+      expect(watchHistoryDb.getCurrentWatchStatus).toHaveBeenCalledWith(123, 'movie', 456);
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'movie', contentId: 456, status: 'WATCHED', isRewatch: true },
+      ]);
+    });
+
+    it('should reject content that has not been watched', async () => {
+      (watchHistoryDb.getCurrentWatchStatus as jest.Mock).mockResolvedValue('NOT_WATCHED');
+
+      await expect(watchHistoryService.logRewatch(123, 'episode', 456)).rejects.toThrow(BadRequestError);
+      expect(watchHistoryDb.insertWatchEvents).not.toHaveBeenCalled();
+    });
+  });
+});
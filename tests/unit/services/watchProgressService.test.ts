@@ -0,0 +1,295 @@
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { profileService, seasonsService, showService } from '@ajgifford/keepwatching-common-server/testing';
+import * as watchHistoryDb from '@db/watchHistoryDb';
+import * as watchStatusDb from '@db/watchStatusDb';
+import { watchHistoryService } from '@services/watchHistoryService';
+import { watchProgressService } from '@services/watchProgressService';
+import { withTransaction } from '@utils/db';
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  profileService: profileService,
+  seasonsService: seasonsService,
+  showService: showService,
+}));
+
+jest.mock('@db/watchHistoryDb');
+jest.mock('@db/watchStatusDb');
+
+jest.mock('@utils/db', () => ({
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('@services/watchHistoryService', () => ({
+  watchHistoryService: {
+    recordStatusChange: jest.fn(),
+    recordStatusChanges: jest.fn(),
+  },
+}));
+
+const episode = (id: number, showId: number, seasonNumber: number, episodeNumber: number) => ({
+  id,
+  showId,
+  seasonId: showId * 10 + seasonNumber,
+  seasonNumber,
+  episodeNumber,
+});
+
+const connection = { id: 'connection' };
+
+describe('WatchProgressService', () => {
+  const nextUnwatchedEpisodes = [{ show_id: 1, episodes: [{ episode_id: 20 }] }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (withTransaction as jest.Mock).mockImplementation((work) => work(connection));
+    (watchStatusDb.refreshSeasonAndShowStatuses as jest.Mock).mockResolvedValue('WATCHING');
+    (showService.getEpisodesForProfile as jest.Mock).mockResolvedValue({ nextUnwatchedEpisodes });
+    (watchStatusDb.getEpisodeWatchStatuses as jest.Mock).mockResolvedValue(new Map());
+  });
+
+  describe('updateSeasonWatchStatus', () => {
+    it('should record the season and each episode whose status changed', async () => {
+      (watchStatusDb.getEpisodeWatchStatuses as jest.Mock)
+        .mockResolvedValueOnce(
+          new Map([
+            [10, 'WATCHED'],
+            [11, 'NOT_WATCHED'],
+          ]),
+        )
+        .mockResolvedValueOnce(
+          new Map([
+            [10, 'WATCHED'],
+            [11, 'WATCHED'],
+            [12, 'WATCHED'],
+          ]),
+        );
+
+      await watchProgressService.updateSeasonWatchStatus(1, 123, 50, 'WATCHED', true);
+
+      expect(watchStatusDb.getEpisodeWatchStatuses).toHaveBeenCalledWith(123, { seasonId: 50 });
+      expect(seasonsService.updateSeasonWatchStatus).toHaveBeenCalledWith(1, 123, 50, 'WATCHED', true);
+      expect(watchHistoryService.recordStatusChanges).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'episode', contentId: 11, status: 'WATCHED' },
+        { profileId: 123, contentType: 'episode', contentId: 12, status: 'WATCHED' },
+      ]);
+      expect(watchHistoryService.recordStatusChange).toHaveBeenCalledWith(123, 'season', 50, 'WATCHED');
+    });
+  });
+
+  describe('updateShowWatchStatus', () => {
+    it('should record the show and each episode whose status changed', async () => {
+      (showService.updateShowWatchStatus as jest.Mock).mockResolvedValue(nextUnwatchedEpisodes);
+      (watchStatusDb.getEpisodeWatchStatuses as jest.Mock)
+        .mockResolvedValueOnce(new Map([[10, 'WATCHED']]))
+        .mockResolvedValueOnce(
+          new Map([
+            [10, 'NOT_WATCHED'],
+            [11, 'NOT_WATCHED'],
+          ]),
+        );
+
+      const result = await watchProgressService.updateShowWatchStatus(1, 123, 5, 'NOT_WATCHED', true);
+
+      expect(watchStatusDb.getEpisodeWatchStatuses).toHaveBeenCalledWith(123, { showId: 5 });
+      expect(showService.updateShowWatchStatus).toHaveBeenCalledWith(1, 123, 5, 'NOT_WATCHED', true);
+      expect(watchHistoryService.recordStatusChanges).toHaveBeenCalledWith([
+        { profileId: 123, contentType: 'episode', contentId: 10, status: 'NOT_WATCHED' },
+      ]);
+      expect(watchHistoryService.recordStatusChange).toHaveBeenCalledWith(123, 'show', 5, 'NOT_WATCHED');
+      expect(result).toEqual(nextUnwatchedEpisodes);
+    });
+  });
+
+  describe('bulkUpdateEpisodeWatchStatus', () => {
+    it('should update the listed episodes and refresh each show once in a single transaction', async () => {
+      (watchStatusDb.getEpisodeWatchStatuses as jest.Mock).mockResolvedValue(
+        new Map([
+          [10, 'NOT_WATCHED'],
+          [11, 'WATCHED'],
+          [30, 'NOT_WATCHED'],
+        ]),
+      );
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([
+        episode(10, 1, 1, 1),
+        episode(11, 1, 1, 2),
+        episode(30, 3, 2, 5),
+      ]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1, 3]);
+
+      const result = await watchProgressService.bulkUpdateEpisodeWatchStatus(
+        123,
+        { episodeIds: [10, 11, 30, 11] },
+        'WATCHED',
+      );
+
+      expect(watchStatusDb.findEpisodeReferences).toHaveBeenCalledWith([10, 11, 30]);
+      expect(watchStatusDb.findFavoritedShowIds).toHaveBeenCalledWith(123, [1, 3]);
+      expect(withTransaction).toHaveBeenCalledTimes(1);
+      expect(watchStatusDb.getEpisodeWatchStatuses).toHaveBeenCalledWith(123, { episodeIds: [10, 11, 30] }, connection);
+      expect(watchStatusDb.updateEpisodeWatchStatuses).toHaveBeenCalledWith(connection, 123, [10, 11, 30], 'WATCHED');
+      expect(watchStatusDb.refreshSeasonAndShowStatuses).toHaveBeenCalledTimes(2);
+      expect(watchStatusDb.refreshSeasonAndShowStatuses).toHaveBeenCalledWith(connection, 123, 1);
+      expect(watchStatusDb.refreshSeasonAndShowStatuses).toHaveBeenCalledWith(connection, 123, 3);
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith(
+        [
+          { profileId: 123, contentType: 'episode', contentId: 10, status: 'WATCHED', watchedAt: undefined },
+          { profileId: 123, contentType: 'episode', contentId: 30, status: 'WATCHED', watchedAt: undefined },
+        ],
+        connection,
+      );
+      expect(showService.getEpisodesForProfile).toHaveBeenCalledTimes(1);
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(123);
+      expect(result).toEqual(nextUnwatchedEpisodes);
+    });
+
+    it('should record imported watch times without computing the next unwatched episodes', async () => {
+      const watchedAt = new Date('2024-03-01T20:00:00Z');
+      (watchStatusDb.getEpisodeWatchStatuses as jest.Mock).mockResolvedValue(new Map([[10, 'NOT_WATCHED']]));
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(10, 1, 1, 1)]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+
+      await watchProgressService.updateEpisodeWatchStatuses(
+        123,
+        { episodeIds: [10] },
+        'WATCHED',
+        new Map([[10, watchedAt]]),
+      );
+
+      expect(watchHistoryDb.insertWatchEvents).toHaveBeenCalledWith(
+        [{ profileId: 123, contentType: 'episode', contentId: 10, status: 'WATCHED', watchedAt }],
+        connection,
+      );
+      expect(showService.getEpisodesForProfile).not.toHaveBeenCalled();
+    });
+
+    it('should not compute the next unwatched episodes when the transaction fails', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(10, 1, 1, 1)]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+      (watchStatusDb.updateEpisodeWatchStatuses as jest.Mock).mockRejectedValueOnce(new Error('DB down'));
+
+      await expect(
+        watchProgressService.bulkUpdateEpisodeWatchStatus(123, { episodeIds: [10] }, 'WATCHED'),
+      ).rejects.toThrow('DB down');
+      expect(watchHistoryDb.insertWatchEvents).not.toHaveBeenCalled();
+      expect(showService.getEpisodesForProfile).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when a listed episode does not exist', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(10, 1, 1, 1)]);
+
+      await expect(
+        watchProgressService.bulkUpdateEpisodeWatchStatus(123, { episodeIds: [10, 99] }, 'WATCHED'),
+      ).rejects.toThrow(NotFoundError);
+      expect(withTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should update every episode within a range', async () => {
+      const from = episode(10, 1, 2, 3);
+      const to = episode(40, 1, 4, 1);
+      const range = [from, episode(11, 1, 2, 4), episode(20, 1, 3, 1), to];
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([from, to]);
+      (watchStatusDb.findEpisodesInRange as jest.Mock).mockResolvedValue(range);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+
+      await watchProgressService.bulkUpdateEpisodeWatchStatus(
+        123,
+        { fromEpisodeId: 10, toEpisodeId: 40 },
+        'NOT_WATCHED',
+      );
+
+      expect(watchStatusDb.findEpisodesInRange).toHaveBeenCalledWith(1, from, to);
+      expect(watchStatusDb.updateEpisodeWatchStatuses).toHaveBeenCalledWith(
+        connection,
+        123,
+        [10, 11, 20, 40],
+        'NOT_WATCHED',
+      );
+      expect(watchStatusDb.refreshSeasonAndShowStatuses).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a range that spans different shows', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([
+        episode(10, 1, 1, 1),
+        episode(50, 2, 1, 1),
+      ]);
+
+      await expect(
+        watchProgressService.bulkUpdateEpisodeWatchStatus(123, { fromEpisodeId: 10, toEpisodeId: 50 }, 'WATCHED'),
+      ).rejects.toThrow(BadRequestError);
+      expect(watchStatusDb.findEpisodesInRange).not.toHaveBeenCalled();
+    });
+
+    it('should reject a range whose start comes after its end', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([
+        episode(10, 1, 3, 1),
+        episode(40, 1, 2, 5),
+      ]);
+
+      await expect(
+        watchProgressService.bulkUpdateEpisodeWatchStatus(123, { fromEpisodeId: 10, toEpisodeId: 40 }, 'WATCHED'),
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject episodes of shows that are not favorited', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(10, 1, 1, 1)]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([]);
+
+      await expect(
+        watchProgressService.bulkUpdateEpisodeWatchStatus(123, { episodeIds: [10] }, 'WATCHED'),
+      ).rejects.toThrow(BadRequestError);
+      expect(withTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markShowWatchedUpToEpisode', () => {
+    it('should mark every earlier episode as watched and return the show status', async () => {
+      const chosen = episode(40, 1, 3, 2);
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([chosen]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+      (watchStatusDb.findEpisodesBefore as jest.Mock).mockResolvedValue([
+        episode(10, 1, 1, 1),
+        episode(20, 1, 2, 1),
+        episode(39, 1, 3, 1),
+      ]);
+
+      const result = await watchProgressService.markShowWatchedUpToEpisode(123, 1, 40);
+
+      expect(watchStatusDb.findEpisodesBefore).toHaveBeenCalledWith(1, chosen);
+      expect(watchStatusDb.updateEpisodeWatchStatuses).toHaveBeenCalledWith(connection, 123, [10, 20, 39], 'WATCHED');
+      expect(watchStatusDb.refreshSeasonAndShowStatuses).toHaveBeenCalledWith(connection, 123, 1);
+      expect(result).toEqual({ showStatus: 'WATCHING', nextUnwatchedEpisodes });
+    });
+
+    it('should return the next unwatched episodes when there is nothing before the episode', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(10, 1, 1, 1)]);
+      (watchStatusDb.findFavoritedShowIds as jest.Mock).mockResolvedValue([1]);
+      (watchStatusDb.findEpisodesBefore as jest.Mock).mockResolvedValue([]);
+
+      const result = await watchProgressService.markShowWatchedUpToEpisode(123, 1, 10);
+
+      expect(withTransaction).not.toHaveBeenCalled();
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(123);
+      expect(result).toEqual({ showStatus: null, nextUnwatchedEpisodes });
+    });
+
+    it('should throw NotFoundError when the episode does not exist', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([]);
+
+      await expect(watchProgressService.markShowWatchedUpToEpisode(123, 1, 40)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject an episode from a different show', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(40, 2, 3, 2)]);
+
+      await expect(watchProgressService.markShowWatchedUpToEpisode(123, 1, 40)).rejects.toThrow(BadRequestError);
+      expect(withTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a special', async () => {
+      (watchStatusDb.findEpisodeReferences as jest.Mock).mockResolvedValue([episode(40, 1, 0, 2)]);
+
+      await expect(watchProgressService.markShowWatchedUpToEpisode(123, 1, 40)).rejects.toThrow(BadRequestError);
+      expect(watchStatusDb.findEpisodesBefore).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { BadRequestError, NotFoundError } from '@ajgifford/keepwatching-common-server';
+import { moviesService, profileService, showService } from '@ajgifford/keepwatching-common-server/testing';
+import * as moviesDb from '@db/moviesDb';
+import * as showsDb from '@db/showsDb';
+import * as watchlistDb from '@db/watchlistDb';
+import { watchlistService } from '@services/watchlistService';
+import { isDuplicateEntryError, withTransaction } from '@utils/db';
+
+const mockTMDBService = {
+  getShowDetails: jest.fn(),
+  getMovieDetails: jest.fn(),
+};
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getTMDBService: jest.fn(() => mockTMDBService),
+  moviesService: moviesService,
+  profileService: profileService,
+  showService: showService,
+}));
+
+jest.mock('@db/moviesDb');
+jest.mock('@db/showsDb');
+jest.mock('@db/watchlistDb');
+
+jest.mock('@utils/db', () => ({
+  isDuplicateEntryError: jest.fn(),
+  withTransaction: jest.fn(),
+}));
+
+const connection = { id: 'connection' };
+
+const watchlistItem = (tmdbId: number, position: number) => ({
+  id: tmdbId * 10,
+  profileId: 123,
+  contentType: 'show',
+  tmdbId,
+  title: `Show ${tmdbId}`,
+  description: null,
+  posterImage: null,
+  releaseDate: null,
+  position,
+  addedAt: new Date('2025-06-15T12:00:00Z'),
+});
+
+describe('WatchlistService', () => {
+  const watchlist = [watchlistItem(1396, 1), watchlistItem(1399, 2)];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (withTransaction as jest.Mock).mockImplementation((work) => work(connection));
+    (watchlistDb.getWatchlistItems as jest.Mock).mockResolvedValue(watchlist);
+    (watchlistDb.getWatchlistItem as jest.Mock).mockResolvedValue(null);
+    (showsDb.findFavoritedShowTMDBIds as jest.Mock).mockResolvedValue([]);
+    (moviesDb.findFavoritedMovieTMDBIds as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('addToWatchlist', () => {
+    it('should add a show with its TMDB summary without favoriting it', async () => {
+      mockTMDBService.getShowDetails.mockResolvedValue({
+        name: 'Breaking Bad',
+        overview: 'A chemistry teacher turns to crime',
+        poster_path: '/bb.jpg',
+        first_air_date: '2008-01-20',
+      });
+
+      const result = await watchlistService.addToWatchlist(123, 'show', 1396);
+
+      expect(mockTMDBService.getShowDetails).toHaveBeenCalledWith(1396);
+      expect(watchlistDb.addWatchlistItem).toHaveBeenCalledWith(connection, 123, 'show', {
+        tmdbId: 1396,
+        title: 'Breaking Bad',
+        description: 'A chemistry teacher turns to crime',
+        posterImage: '/bb.jpg',
+        releaseDate: '2008-01-20',
+      });
+      expect(showService.addShowToFavorites).not.toHaveBeenCalled();
+      expect(result).toEqual(watchlist);
+    });
+
+    it('should add a movie with its TMDB summary', async () => {
+      mockTMDBService.getMovieDetails.mockResolvedValue({
+        title: 'Heat',
+        overview: '',
+        poster_path: null,
+        release_date: '1995-12-15',
+      });
+
+      await watchlistService.addToWatchlist(123, 'movie', 949);
+
+      expect(watchlistDb.addWatchlistItem).toHaveBeenCalledWith(connection, 123, 'movie', {
+        tmdbId: 949,
+        title: 'Heat',
+        description: null,
+        posterImage: null,
+        releaseDate: '1995-12-15',
+      });
+    });
+
+    it('should reject an item that is already on the watchlist', async () => {
+      (watchlistDb.getWatchlistItem as jest.Mock).mockResolvedValue(watchlist[0]);
+
+      await expect(watchlistService.addToWatchlist(123, 'show', 1396)).rejects.toThrow(BadRequestError);
+      expect(watchlistDb.addWatchlistItem).not.toHaveBeenCalled();
+    });
+
+    it('should reject an item another request added at the same time', async () => {
+      mockTMDBService.getShowDetails.mockResolvedValue({ name: 'Breaking Bad' });
+      const error = Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' });
+      (watchlistDb.addWatchlistItem as jest.Mock).mockRejectedValueOnce(error);
+      (isDuplicateEntryError as jest.Mock).mockReturnValueOnce(true);
+
+      await expect(watchlistService.addToWatchlist(123, 'show', 1396)).rejects.toThrow(BadRequestError);
+      expect(isDuplicateEntryError).toHaveBeenCalledWith(error);
+    });
+
+    it('should reject a show that is already in the favorites', async () => {
+      (showsDb.findFavoritedShowTMDBIds as jest.Mock).mockResolvedValue([1396]);
+
+      await expect(watchlistService.addToWatchlist(123, 'show', 1396)).rejects.toThrow(BadRequestError);
+      expect(showsDb.findFavoritedShowTMDBIds).toHaveBeenCalledWith(123, [1396]);
+      expect(mockTMDBService.getShowDetails).not.toHaveBeenCalled();
+    });
+
+    it('should reject a movie that is already in the favorites', async () => {
+      (moviesDb.findFavoritedMovieTMDBIds as jest.Mock).mockResolvedValue([949]);
+
+      await expect(watchlistService.addToWatchlist(123, 'movie', 949)).rejects.toThrow(BadRequestError);
+      expect(moviesDb.findFavoritedMovieTMDBIds).toHaveBeenCalledWith(123, [949]);
+    });
+  });
+
+  describe('removeFromWatchlist', () => {
+    it('should remove the item and return the remaining watchlist', async () => {
+      (watchlistDb.removeWatchlistItem as jest.Mock).mockResolvedValue(true);
+
+      const result = await watchlistService.removeFromWatchlist(123, 'show', 1396);
+
+      expect(watchlistDb.removeWatchlistItem).toHaveBeenCalledWith(123, 'show', 1396);
+      expect(result).toEqual(watchlist);
+    });
+
+    it('should throw NotFoundError when the item is not on the watchlist', async () => {
+      (watchlistDb.removeWatchlistItem as jest.Mock).mockResolvedValue(false);
+
+      await expect(watchlistService.removeFromWatchlist(123, 'show', 1)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('removeFavoritedItem', () => {
+    it('should quietly remove an item whether or not it was on the watchlist', async () => {
+      (watchlistDb.removeWatchlistItem as jest.Mock).mockResolvedValue(false);
+
+      await expect(watchlistService.removeFavoritedItem(123, 'movie', 949)).resolves.toBeUndefined();
+      expect(watchlistDb.removeWatchlistItem).toHaveBeenCalledWith(123, 'movie', 949);
+    });
+  });
+
+  describe('reorderWatchlist', () => {
+    it('should save the new order in a transaction', async () => {
+      await watchlistService.reorderWatchlist(123, 'show', [1399, 1396]);
+
+      expect(watchlistDb.updateWatchlistPositions).toHaveBeenCalledWith(connection, 123, 'show', [1399, 1396]);
+    });
+
+    it.each([
+      ['a missing item', [1399]],
+      ['an unknown item', [1399, 1396, 42]],
+      ['a repeated item', [1399, 1399]],
+    ])('should reject an order with %s', async (_description, tmdbIds) => {
+      await expect(watchlistService.reorderWatchlist(123, 'show', tmdbIds)).rejects.toThrow(BadRequestError);
+      expect(watchlistDb.updateWatchlistPositions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('promoteShow', () => {
+    it('should favorite the show and take it off the watchlist', async () => {
+      const favorite = { favoritedShow: { id: 5 }, episodes: {} };
+      (watchlistDb.getWatchlistItem as jest.Mock).mockResolvedValue(watchlist[0]);
+      (showService.addShowToFavorites as jest.Mock).mockResolvedValue(favorite);
+
+      const result = await watchlistService.promoteShow(1, 123, 1396);
+
+      expect(showService.addShowToFavorites).toHaveBeenCalledWith(1, 123, 1396);
+      expect(watchlistDb.removeWatchlistItem).toHaveBeenCalledWith(123, 'show', 1396);
+      expect(profileService.invalidateProfileCache).toHaveBeenCalledWith(123);
+      expect(result).toBe(favorite);
+    });
+
+    it('should throw NotFoundError when the show is not on the watchlist', async () => {
+      await expect(watchlistService.promoteShow(1, 123, 1396)).rejects.toThrow(NotFoundError);
+      expect(showService.addShowToFavorites).not.toHaveBeenCalled();
+    });
+
+    it('should keep the show on the watchlist when favoriting it fails', async () => {
+      (watchlistDb.getWatchlistItem as jest.Mock).mockResolvedValue(watchlist[0]);
+      (showService.addShowToFavorites as jest.Mock).mockRejectedValue(new Error('TMDB unavailable'));
+
+      await expect(watchlistService.promoteShow(1, 123, 1396)).rejects.toThrow('TMDB unavailable');
+      expect(watchlistDb.removeWatchlistItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('promoteMovie', () => {
+    it('should favorite the movie and take it off the watchlist', async () => {
+      const favorite = { favoritedMovie: { id: 7 }, recentUpcomingMovies: {} };
+      (watchlistDb.getWatchlistItem as jest.Mock).mockResolvedValue({ ...watchlist[0], contentType: 'movie' });
+      (moviesService.addMovieToFavorites as jest.Mock).mockResolvedValue(favorite);
+
+      const result = await watchlistService.promoteMovie(123, 949);
+
+      expect(moviesService.addMovieToFavorites).toHaveBeenCalledWith(123, 949);
+      expect(watchlistDb.removeWatchlistItem).toHaveBeenCalledWith(123, 'movie', 949);
+      expect(result).toBe(favorite);
+    });
+  });
+});
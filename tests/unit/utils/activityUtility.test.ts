@@ -0,0 +1,115 @@
+import {
+  WatchActivity,
+  buildActivitySeries,
+  calculateStreaks,
+  findBusiestHour,
+  findBusiestWeekday,
+  getPeriodKey,
+  listPeriods,
+} from '@utils/activityUtility';
+
+const watched = (
+  date: string,
+  hour: number,
+  contentType: 'episode' | 'movie' = 'episode',
+  minutes = 45,
+  watches = 1,
+): WatchActivity => ({ date, hour, contentType, watches, minutes });
+
+describe('activityUtility', () => {
+  describe('getPeriodKey', () => {
+    it('should key days, weeks (by Monday) and months', () => {
+      const date = new Date('2025-06-12T21:30:00Z'); // a Thursday
+      expect(getPeriodKey(date, 'day')).toBe('2025-06-12');
+      expect(getPeriodKey(date, 'week')).toBe('2025-06-09');
+      expect(getPeriodKey(date, 'month')).toBe('2025-06');
+    });
+
+    it('should key a Sunday into the week starting the previous Monday', () => {
+      expect(getPeriodKey(new Date('2025-06-15T10:00:00Z'), 'week')).toBe('2025-06-09');
+    });
+  });
+
+  describe('listPeriods', () => {
+    it('should list every period in the range', () => {
+      const from = new Date('2025-01-30');
+      const to = new Date('2025-04-02');
+      expect(listPeriods(from, to, 'month')).toEqual(['2025-01', '2025-02', '2025-03', '2025-04']);
+      expect(listPeriods(from, new Date('2025-02-02'), 'day')).toEqual([
+        '2025-01-30',
+        '2025-01-31',
+        '2025-02-01',
+        '2025-02-02',
+      ]);
+      expect(listPeriods(from, new Date('2025-02-10'), 'week')).toEqual(['2025-01-27', '2025-02-03', '2025-02-10']);
+    });
+  });
+
+  describe('buildActivitySeries', () => {
+    it('should total episodes, movies and minutes per period including empty periods', () => {
+      const activity = [
+        watched('2025-06-01', 20),
+        watched('2025-06-01', 21, 'episode', 30),
+        watched('2025-06-03', 19, 'movie', 120, 2),
+        watched('2025-05-31', 23),
+      ];
+
+      const series = buildActivitySeries(activity, 'day', new Date('2025-06-01'), new Date('2025-06-03'));
+
+      expect(series).toEqual([
+        { period: '2025-06-01', episodesWatched: 2, moviesWatched: 0, minutesWatched: 75 },
+        { period: '2025-06-02', episodesWatched: 0, moviesWatched: 0, minutesWatched: 0 },
+        { period: '2025-06-03', episodesWatched: 0, moviesWatched: 2, minutesWatched: 120 },
+      ]);
+    });
+
+    it('should group days into months', () => {
+      const activity = [watched('2025-06-01', 20, 'episode', 0), watched('2025-06-30', 8, 'episode', 60, 3)];
+
+      const series = buildActivitySeries(activity, 'month', new Date('2025-06-01'), new Date('2025-06-30'));
+
+      expect(series).toEqual([{ period: '2025-06', episodesWatched: 4, moviesWatched: 0, minutesWatched: 60 }]);
+    });
+  });
+
+  describe('calculateStreaks', () => {
+    const days = ['2025-05-01', '2025-05-02', '2025-05-03', '2025-05-10', '2025-05-11'];
+
+    it('should find the longest and current streaks', () => {
+      const { longest, current } = calculateStreaks(days, new Date('2025-05-12T08:00:00Z'));
+
+      expect(longest).toEqual({ days: 3, startDate: '2025-05-01', endDate: '2025-05-03' });
+      expect(current).toEqual({ days: 2, startDate: '2025-05-10', endDate: '2025-05-11' });
+    });
+
+    it('should have no current streak when the last activity was before yesterday', () => {
+      const { current } = calculateStreaks(days, new Date('2025-05-13T08:00:00Z'));
+
+      expect(current).toEqual({ days: 0, startDate: null, endDate: null });
+    });
+
+    it('should handle no activity', () => {
+      const empty = { days: 0, startDate: null, endDate: null };
+      expect(calculateStreaks([], new Date())).toEqual({ longest: empty, current: empty });
+    });
+  });
+
+  describe('findBusiestWeekday and findBusiestHour', () => {
+    it('should find the busiest weekday and hour', () => {
+      const activity = [
+        watched('2025-06-13', 21), // Friday
+        watched('2025-06-13', 22), // Friday
+        watched('2025-06-20', 21), // Friday
+        watched('2025-06-14', 21, 'movie', 120, 2), // Saturday
+      ];
+
+      expect(findBusiestWeekday(activity)).toEqual({ weekday: 'Friday', count: 3 });
+      expect(findBusiestHour(activity)).toEqual({ hour: 21, count: 4 });
+    });
+
+    it('should return null without activity', () => {
+      expect(findBusiestWeekday([])).toBeNull();
+      expect(findBusiestHour([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { buildCollectionProgress } from '@utils/collectionUtility';
+
+describe('collectionUtility', () => {
+  describe('buildCollectionProgress', () => {
+    const collection = { id: 10, name: 'Star Wars Collection', posterImage: null, backdropImage: null };
+    const part = (position: number, title: string, releaseDate: string | null, watchStatus: string | null = null) => ({
+      collectionId: 10,
+      tmdbId: 100 + position,
+      title,
+      releaseDate,
+      posterImage: null,
+      position,
+      movieId: watchStatus ? position : null,
+      watchStatus,
+    });
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    it('should count progress through the released movies and find the next one to watch', () => {
+      const parts = [
+        part(2, 'The Empire Strikes Back', '1980-05-20', 'NOT_WATCHED'),
+        part(1, 'A New Hope', '1977-05-25', 'WATCHED'),
+        part(3, 'Return of the Jedi', '1983-05-25'),
+        part(4, 'Episode X', null),
+      ];
+
+      const result = buildCollectionProgress(collection, parts, now);
+
+      expect(result).toMatchObject({
+        id: 10,
+        totalMovies: 4,
+        releasedMovies: 3,
+        favoritedMovies: 2,
+        watchedMovies: 1,
+        percentComplete: 33.3,
+      });
+      expect(result.movies.map((movie) => movie.title)).toEqual([
+        'A New Hope',
+        'The Empire Strikes Back',
+        'Return of the Jedi',
+        'Episode X',
+      ]);
+      expect(result.nextMovie).toMatchObject({ title: 'The Empire Strikes Back', inFavorites: true, released: true });
+    });
+
+    it('should have no next movie once every released movie is watched', () => {
+      const parts = [part(1, 'A New Hope', '1977-05-25', 'WATCHED'), part(2, 'Episode X', '2030-01-01')];
+
+      const result = buildCollectionProgress(collection, parts, now);
+
+      expect(result.percentComplete).toBe(100);
+      expect(result.nextMovie).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { DAY_IN_MS, addDays } from '@utils/dateUtility';
+
+describe('dateUtility', () => {
+  describe('addDays', () => {
+    it('should move a date forwards or backwards by whole days', () => {
+      const date = new Date('2025-06-15T12:00:00Z');
+
+      expect(addDays(date, 7)).toEqual(new Date('2025-06-22T12:00:00Z'));
+      expect(addDays(date, -30)).toEqual(new Date('2025-05-16T12:00:00Z'));
+      expect(addDays(date, 1).getTime() - date.getTime()).toBe(DAY_IN_MS);
+    });
+  });
+});
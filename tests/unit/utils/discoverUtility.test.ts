@@ -0,0 +1,95 @@
+import { DiscoverFilterQuery } from '@schema/discoverSchema';
+import { buildDiscoverParams, toDiscoverContent } from '@utils/discoverUtility';
+
+describe('discoverUtility', () => {
+  const filters = (overrides: Partial<DiscoverFilterQuery>): DiscoverFilterQuery => ({
+    showType: 'movie',
+    region: 'US',
+    sortBy: 'popularity',
+    page: 1,
+    ...overrides,
+  });
+
+  describe('buildDiscoverParams', () => {
+    it('should default to the most popular first', () => {
+      expect(buildDiscoverParams(filters({}))).toEqual({ page: 1, sort_by: 'popularity.desc' });
+    });
+
+    it('should translate every movie filter', () => {
+      const params = buildDiscoverParams(
+        filters({
+          genres: '28,878',
+          services: '8,337',
+          region: 'GB',
+          language: 'en',
+          runtimeMin: 90,
+          runtimeMax: 150,
+          minRating: 7.5,
+          releasedFrom: '2010-01-01',
+          releasedTo: '2019-12-31',
+          sortBy: 'releaseDate',
+          sortOrder: 'asc',
+          page: 3,
+        }),
+      );
+
+      expect(params).toEqual({
+        page: 3,
+        sort_by: 'primary_release_date.asc',
+        with_genres: '28|878',
+        with_watch_providers: '8|337',
+        watch_region: 'GB',
+        with_original_language: 'en',
+        'with_runtime.gte': 90,
+        'with_runtime.lte': 150,
+        'vote_average.gte': 7.5,
+        'primary_release_date.gte': '2010-01-01',
+        'primary_release_date.lte': '2019-12-31',
+      });
+    });
+
+    it('should translate series filters', () => {
+      const params = buildDiscoverParams(
+        filters({
+          showType: 'series',
+          networks: '49',
+          status: 'cancelled',
+          releasedFrom: '2020-01-01',
+          sortBy: 'title',
+        }),
+      );
+
+      expect(params).toEqual({
+        page: 1,
+        sort_by: 'name.asc',
+        with_networks: '49',
+        'first_air_date.gte': '2020-01-01',
+        with_status: 4,
+      });
+    });
+
+    it('should require a minimum number of votes when sorting by rating', () => {
+      expect(buildDiscoverParams(filters({ sortBy: 'rating' }))).toMatchObject({
+        sort_by: 'vote_average.desc',
+        'vote_count.gte': 50,
+      });
+    });
+  });
+
+  describe('toDiscoverContent', () => {
+    it('should use the show name as the title', () => {
+      expect(toDiscoverContent({ id: 1396, name: 'Breaking Bad', first_air_date: '2008-01-20' })).toEqual({
+        id: '1396',
+        title: 'Breaking Bad',
+        overview: '',
+        release_date: '2008-01-20',
+        vote_average: 0,
+        popularity: 0,
+        poster_path: null,
+        backdrop_path: null,
+        genre_ids: [],
+        original_language: null,
+      });
+    });
+  });
+});
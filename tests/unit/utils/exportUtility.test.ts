@@ -0,0 +1,104 @@
+import { CsvExportFormatter, JsonExportFormatter, createExportFormatter, toCsvField } from '@utils/exportUtility';
+
+describe('exportUtility', () => {
+  const account = { id: 1, name: 'Test User', email: 'test@example.com', image: 'account.png', defaultProfileId: 11 };
+  const profile = { id: 11, name: 'Main, Profile' };
+  const shows = [{ show_id: 5, tmdb_id: 1396, title: 'Breaking Bad', watchStatus: 'WATCHED' }];
+  const movies = [{ movie_id: 7, tmdb_id: 603, title: 'The "Matrix"', watchStatus: 'NOT_WATCHED' }];
+  const episode = (episodeId: number) => ({
+    episodeId,
+    showId: 5,
+    showTitle: 'Breaking Bad',
+    seasonNumber: 1,
+    episodeNumber: episodeId,
+    title: `Episode ${episodeId}`,
+    status: 'WATCHED',
+  });
+  const dismissals = [
+    { notificationId: 3, message: 'Welcome', startDate: new Date('2025-01-01'), endDate: new Date('2025-02-01') },
+  ];
+
+  describe('toCsvField', () => {
+    it('should leave plain values unquoted', () => {
+      expect(toCsvField('Breaking Bad')).toBe('Breaking Bad');
+      expect(toCsvField(42)).toBe('42');
+      expect(toCsvField(null)).toBe('');
+    });
+
+    it('should quote values holding commas, quotes or line breaks', () => {
+      expect(toCsvField('a, b')).toBe('"a, b"');
+      expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(toCsvField('line\nbreak')).toBe('"line\nbreak"');
+    });
+  });
+
+  describe('JsonExportFormatter', () => {
+    it('should build a single valid JSON document from its chunks', () => {
+      const formatter = new JsonExportFormatter();
+      const exportedAt = new Date('2025-06-15T12:00:00Z');
+      const output = [
+        formatter.start(account, exportedAt),
+        formatter.profile(profile, shows, movies),
+        formatter.episodes(profile, [episode(1), episode(2)]),
+        formatter.episodes(profile, [episode(3)]),
+        formatter.endProfile(),
+        formatter.profile({ id: 12, name: 'Kids' }, [], []),
+        formatter.endProfile(),
+        formatter.end(dismissals),
+      ].join('');
+
+      expect(JSON.parse(output)).toEqual({
+        exportedAt: '2025-06-15T12:00:00.000Z',
+        account,
+        profiles: [
+          {
+            profile,
+            shows,
+            movies,
+            episodes: [episode(1), episode(2), episode(3)],
+          },
+          { profile: { id: 12, name: 'Kids' }, shows: [], movies: [], episodes: [] },
+        ],
+        notificationDismissals: [
+          {
+            notificationId: 3,
+            message: 'Welcome',
+            startDate: '2025-01-01T00:00:00.000Z',
+            endDate: '2025-02-01T00:00:00.000Z',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('CsvExportFormatter', () => {
+    it('should write one row per record with a header', () => {
+      const formatter = new CsvExportFormatter();
+      const output = [
+        formatter.start(account),
+        formatter.profile(profile, shows, movies),
+        formatter.episodes(profile, [episode(1)]),
+        formatter.endProfile(),
+        formatter.end(dismissals),
+      ].join('');
+
+      expect(output.split('\n')).toEqual([
+        'record_type,profile_id,id,tmdb_id,name,detail,season_number,episode_number,status',
+        'account,,1,,Test User,test@example.com,,,',
+        'profile,11,11,,"Main, Profile",,,,',
+        'show,11,5,1396,Breaking Bad,,,,WATCHED',
+        'movie,11,7,603,"The ""Matrix""",,,,NOT_WATCHED',
+        'episode,11,1,,Episode 1,Breaking Bad,1,1,WATCHED',
+        'notification_dismissal,,3,,,Welcome,,,',
+        '',
+      ]);
+    });
+  });
+
+  describe('createExportFormatter', () => {
+    it('should create the formatter for the format', () => {
+      expect(createExportFormatter('csv')).toBeInstanceOf(CsvExportFormatter);
+      expect(createExportFormatter('json')).toBeInstanceOf(JsonExportFormatter);
+    });
+  });
+});
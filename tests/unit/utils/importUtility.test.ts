@@ -0,0 +1,165 @@
+import {
+  matchTitle,
+  normalizeTitle,
+  parseCsv,
+  parseImportFile,
+  parseLetterboxdExport,
+  parseTraktExport,
+  parseTvTimeExport,
+} from '@utils/importUtility';
+
+describe('importUtility', () => {
+  describe('parseCsv', () => {
+    it('should key each row by the header and handle quoted fields', () => {
+      const content = '\uFEFFName,Year\r\n"Crouching Tiger, Hidden Dragon",2000\r\n"The ""Best"" Film",\r\n\r\n';
+
+      expect(parseCsv(content)).toEqual([
+        { Name: 'Crouching Tiger, Hidden Dragon', Year: '2000' },
+        { Name: 'The "Best" Film', Year: '' },
+      ]);
+    });
+
+    it('should return no rows for empty content', () => {
+      expect(parseCsv('')).toEqual([]);
+    });
+  });
+
+  describe('parseTraktExport', () => {
+    it('should merge history entries and read watched seasons', () => {
+      const content = JSON.stringify([
+        {
+          watched_at: '2024-01-01T20:00:00.000Z',
+          type: 'episode',
+          episode: { season: 1, number: 1 },
+          show: { title: 'Breaking Bad', year: 2008, ids: { tmdb: 1396 } },
+        },
+        {
+          last_watched_at: '2024-01-02T20:00:00.000Z',
+          show: { title: 'Breaking Bad', year: 2008, ids: { tmdb: 1396 } },
+          seasons: [{ number: 1, episodes: [{ number: 1 }, { number: 2, last_watched_at: '2024-01-02T21:00:00Z' }] }],
+        },
+        { watched_at: '2024-01-03T20:00:00.000Z', type: 'movie', movie: { title: 'Heat', year: 1995, ids: {} } },
+        {
+          listed_at: '2024-01-04T20:00:00.000Z',
+          type: 'movie',
+          movie: { title: 'Dune', year: 2021, ids: { tmdb: 438631 } },
+        },
+      ]);
+
+      expect(parseTraktExport(content)).toEqual([
+        {
+          type: 'show',
+          title: 'Breaking Bad',
+          year: 2008,
+          tmdbId: 1396,
+          watched: false,
+          episodes: [
+            { seasonNumber: 1, episodeNumber: 1, watchedAt: '2024-01-01T20:00:00.000Z' },
+            { seasonNumber: 1, episodeNumber: 2, watchedAt: '2024-01-02T21:00:00.000Z' },
+          ],
+        },
+        {
+          type: 'movie',
+          title: 'Heat',
+          year: 1995,
+          tmdbId: null,
+          watched: true,
+          watchedAt: '2024-01-03T20:00:00.000Z',
+          episodes: [],
+        },
+        { type: 'movie', title: 'Dune', year: 2021, tmdbId: 438631, watched: false, episodes: [] },
+      ]);
+    });
+
+    it('should reject content that is not a JSON array', () => {
+      expect(() => parseTraktExport('{}')).toThrow('The Trakt export must be a JSON array');
+      expect(() => parseTraktExport('nope')).toThrow('The Trakt export is not valid JSON');
+    });
+  });
+
+  describe('parseTvTimeExport', () => {
+    it('should read followed shows and watched episodes', () => {
+      const content = [
+        'tv_show_name,episode_season_number,episode_number,created_at',
+        'Lost,1,1,2020-01-01',
+        'Lost,1,2,2020-01-02',
+        'Severance,,,2022-03-01',
+      ].join('\n');
+
+      expect(parseTvTimeExport(content)).toEqual([
+        {
+          type: 'show',
+          title: 'Lost',
+          year: null,
+          tmdbId: null,
+          watched: false,
+          episodes: [
+            { seasonNumber: 1, episodeNumber: 1 },
+            { seasonNumber: 1, episodeNumber: 2 },
+          ],
+        },
+        { type: 'show', title: 'Severance', year: null, tmdbId: null, watched: false, episodes: [] },
+      ]);
+    });
+
+    it('should reject files without a show name column', () => {
+      expect(() => parseTvTimeExport('Name,Year\nHeat,1995')).toThrow(
+        'The TV Time export must have a tv_show_name or series_name column',
+      );
+    });
+  });
+
+  describe('parseLetterboxdExport', () => {
+    it('should read every film as watched', () => {
+      const content = 'Date,Name,Year,Letterboxd URI\n2024-01-01,Heat,1995,https://boxd.it/abc\n';
+
+      expect(parseLetterboxdExport(content)).toEqual([
+        { type: 'movie', title: 'Heat', year: 1995, tmdbId: null, watched: true, episodes: [] },
+      ]);
+    });
+
+    it('should reject files without a Name column', () => {
+      expect(() => parseLetterboxdExport('Title\nHeat')).toThrow('The Letterboxd export must have a Name column');
+    });
+  });
+
+  describe('parseImportFile', () => {
+    it('should parse the file with the parser for its source', () => {
+      expect(parseImportFile('letterboxd', 'Name,Year\nHeat,1995')).toHaveLength(1);
+    });
+  });
+
+  describe('normalizeTitle', () => {
+    it('should ignore case, accents, punctuation and a leading article', () => {
+      expect(normalizeTitle('The Amélie: Story!')).toBe('amelie story');
+      expect(normalizeTitle('Law & Order')).toBe('law and order');
+    });
+  });
+
+  describe('matchTitle', () => {
+    const candidates = [
+      { tmdbId: 1, title: 'Crash', year: 2004 },
+      { tmdbId: 2, title: 'Crash', year: 1996 },
+      { tmdbId: 3, title: 'Crash Landing on You', year: 2019 },
+    ];
+
+    it('should match a single result with the same title and year', () => {
+      expect(matchTitle('Crash', 1996, candidates)).toEqual({ outcome: 'matched', candidate: candidates[1] });
+    });
+
+    it('should be ambiguous between results with the same title', () => {
+      expect(matchTitle('Crash', null, candidates)).toEqual({
+        outcome: 'ambiguous',
+        candidates: [candidates[0], candidates[1]],
+      });
+    });
+
+    it('should be ambiguous when no result has the same title', () => {
+      expect(matchTitle('Crash Landing', null, candidates)).toEqual({ outcome: 'ambiguous', candidates });
+    });
+
+    it('should be unmatched without any results', () => {
+      expect(matchTitle('Crash', null, [])).toEqual({ outcome: 'unmatched' });
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import { selectFields } from '@utils/libraryUtility';
+
+describe('libraryUtility', () => {
+  describe('selectFields', () => {
+    it('should keep the requested fields and the id', () => {
+      expect(selectFields({ movie_id: 1, title: 'Heat', runtime: 170 }, ['runtime'], 'movie_id')).toEqual({
+        movie_id: 1,
+        runtime: 170,
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { toCastMembers, toCrewMembers, toWatchProviders } from '@utils/movieDetailsUtility';
+
+describe('movieDetailsUtility', () => {
+  describe('toCastMembers', () => {
+    it('should order the cast by billing and limit it to the top 20', () => {
+      const cast = Array.from({ length: 25 }, (_, index) => ({
+        id: index,
+        name: `Actor ${index}`,
+        character: `Character ${index}`,
+        order: 24 - index,
+      }));
+
+      const result = toCastMembers(cast);
+
+      expect(result).toHaveLength(20);
+      expect(result[0]).toEqual({
+        personId: 24,
+        name: 'Actor 24',
+        character: 'Character 24',
+        profileImage: null,
+        order: 0,
+      });
+    });
+  });
+
+  describe('toCrewMembers', () => {
+    it('should keep only key jobs ordered by job', () => {
+      const crew = [
+        { id: 1, name: 'Art Linson', job: 'Producer', department: 'Production' },
+        { id: 2, name: 'Dante Spinotti', job: 'Director of Photography', department: 'Camera' },
+        { id: 3, name: 'Michael Mann', job: 'Director', department: 'Directing', profile_path: '/mann.jpg' },
+      ];
+
+      expect(toCrewMembers(crew)).toEqual([
+        { personId: 3, name: 'Michael Mann', job: 'Director', department: 'Directing', profileImage: '/mann.jpg' },
+        { personId: 1, name: 'Art Linson', job: 'Producer', department: 'Production', profileImage: null },
+      ]);
+    });
+  });
+
+  describe('toWatchProviders', () => {
+    it('should get the providers for the region in display order', () => {
+      const results = {
+        US: {
+          link: 'https://www.themoviedb.org/movie/949-heat/watch?locale=US',
+          flatrate: [
+            { provider_id: 337, provider_name: 'Disney Plus', logo_path: '/disney.jpg', display_priority: 2 },
+            { provider_id: 8, provider_name: 'Netflix', logo_path: '/netflix.jpg', display_priority: 1 },
+          ],
+        },
+        GB: { flatrate: [{ provider_id: 9, provider_name: 'Amazon Prime Video' }] },
+      };
+
+      expect(toWatchProviders(results, 'US')).toEqual({
+        region: 'US',
+        link: 'https://www.themoviedb.org/movie/949-heat/watch?locale=US',
+        flatrate: [
+          { id: 8, name: 'Netflix', logo: '/netflix.jpg' },
+          { id: 337, name: 'Disney Plus', logo: '/disney.jpg' },
+        ],
+        rent: [],
+        buy: [],
+      });
+    });
+
+    it('should return no providers when the region has none', () => {
+      expect(toWatchProviders(undefined, 'CA')).toEqual({ region: 'CA', link: null, flatrate: [], rent: [], buy: [] });
+    });
+  });
+});
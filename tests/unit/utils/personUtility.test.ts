@@ -0,0 +1,88 @@
+import { findNewCredits, formatNewCreditMessage, toPersonCredits } from '@utils/personUtility';
+
+describe('personUtility', () => {
+  describe('toPersonCredits', () => {
+    it('should combine cast and crew credits per title, newest first', () => {
+      const cast = [
+        {
+          id: 13,
+          media_type: 'movie' as const,
+          title: 'Forrest Gump',
+          character: 'Forrest Gump',
+          release_date: '1994-06-23',
+        },
+        {
+          id: 857,
+          media_type: 'movie' as const,
+          title: 'Saving Private Ryan',
+          character: 'Captain Miller',
+          release_date: '1998-07-24',
+        },
+        {
+          id: 4613,
+          media_type: 'tv' as const,
+          name: 'Band of Brothers',
+          character: 'Himself',
+          first_air_date: '2001-09-09',
+        },
+      ];
+      const crew = [
+        {
+          id: 4613,
+          media_type: 'tv' as const,
+          name: 'Band of Brothers',
+          job: 'Executive Producer',
+          first_air_date: '2001-09-09',
+        },
+        { id: 999, media_type: 'movie' as const, title: 'Untitled Project', job: 'Producer' },
+      ];
+
+      const result = toPersonCredits(cast, crew);
+
+      expect(result.map((credit) => credit.title)).toEqual([
+        'Untitled Project',
+        'Band of Brothers',
+        'Saving Private Ryan',
+        'Forrest Gump',
+      ]);
+      expect(result[1]).toEqual({
+        contentType: 'show',
+        tmdbId: 4613,
+        title: 'Band of Brothers',
+        roles: ['Himself', 'Executive Producer'],
+        releaseDate: '2001-09-09',
+        posterImage: null,
+        popularity: 0,
+      });
+    });
+  });
+
+  describe('findNewCredits', () => {
+    it('should leave out the known credits', () => {
+      const credits = toPersonCredits(
+        [
+          { id: 13, media_type: 'movie', title: 'Forrest Gump' },
+          { id: 13, media_type: 'tv', name: 'Same Id Show' },
+        ],
+        [],
+      );
+
+      const result = findNewCredits(credits, [{ contentType: 'movie', tmdbId: 13 }]);
+
+      expect(result.map((credit) => credit.title)).toEqual(['Same Id Show']);
+    });
+  });
+
+  describe('formatNewCreditMessage', () => {
+    it('should describe the new credit with its release date when known', () => {
+      const [credit] = toPersonCredits(
+        [{ id: 1, media_type: 'movie', title: 'Greyhound', release_date: '2020-07-10' }],
+        [],
+      );
+
+      expect(formatNewCreditMessage('Tom Hanks', credit)).toBe(
+        'Tom Hanks has a new movie announced: Greyhound (2020-07-10)',
+      );
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  buildEpisodeNotifications,
+  buildMovieReleaseNotification,
+  buildSeasonNotifications,
+  buildShowEndingNotifications,
+  buildStreamingArrivalNotifications,
+  filterOptedOut,
+  findEndedShows,
+  groupByAccountEvent,
+  nameProfiles,
+  toPreferences,
+} from '@utils/profileNotificationUtility';
+
+describe('profileNotificationUtility', () => {
+  const recipient = { accountId: 1, profileId: 10, profileName: 'Alex' };
+
+  describe('toPreferences', () => {
+    it('should enable every category without a saved preference', () => {
+      expect(toPreferences([{ category: 'newSeasons', enabled: false }])).toEqual({
+        newEpisodes: true,
+        newSeasons: false,
+        movieReleases: true,
+        showEndings: true,
+      });
+    });
+  });
+
+  describe('buildEpisodeNotifications', () => {
+    const episode = {
+      ...recipient,
+      showId: 5,
+      showTitle: 'The Bear',
+      episodeId: 100,
+      seasonNumber: 3,
+      episodeNumber: 4,
+      episodeTitle: 'Violet',
+      airDate: '2026-10-19',
+    };
+
+    it('should name the episode when only one airs today', () => {
+      expect(buildEpisodeNotifications([episode])).toEqual([
+        {
+          ...recipient,
+          category: 'newEpisodes',
+          eventKey: 'newEpisodes:5:2026-10-19',
+          message: 'A new episode of The Bear airs today: S3E4 Violet',
+          type: 'tv',
+        },
+      ]);
+    });
+
+    it('should combine the episodes of a show for each profile', () => {
+      const result = buildEpisodeNotifications([
+        episode,
+        { ...episode, episodeId: 101, episodeNumber: 5 },
+        { ...episode, profileId: 11 },
+      ]);
+
+      expect(result.map(({ profileId, message }) => ({ profileId, message }))).toEqual([
+        { profileId: 10, message: '2 new episodes of The Bear air today' },
+        { profileId: 11, message: 'A new episode of The Bear airs today: S3E4 Violet' },
+      ]);
+    });
+  });
+
+  describe('buildSeasonNotifications', () => {
+    const season = { showId: 5, showTitle: 'The Bear', seasonId: 50, seasonNumber: 4, upcoming: true };
+    const followers = [{ ...recipient, contentId: 5 }];
+
+    it('should include the premiere date when there is one', () => {
+      expect(buildSeasonNotifications([{ ...season, releaseDate: '2026-11-02' }], followers)).toEqual([
+        {
+          ...recipient,
+          category: 'newSeasons',
+          eventKey: 'newSeasons:50',
+          message: 'Season 4 of The Bear has been announced, premiering 2026-11-02',
+          type: 'tv',
+        },
+      ]);
+    });
+
+    it('should leave out the premiere date when there is none', () => {
+      expect(buildSeasonNotifications([{ ...season, releaseDate: null }], followers)[0].message).toBe(
+        'Season 4 of The Bear has been announced',
+      );
+    });
+
+    it('should only notify the followers of the show about upcoming seasons', () => {
+      const seasons = [
+        { ...season, releaseDate: null },
+        { ...season, seasonId: 51, seasonNumber: 5, releaseDate: null, upcoming: false },
+        { ...season, showId: 6, seasonId: 60, releaseDate: null },
+      ];
+
+      expect(buildSeasonNotifications(seasons, followers).map(({ eventKey }) => eventKey)).toEqual(['newSeasons:50']);
+    });
+  });
+
+  describe('buildMovieReleaseNotification', () => {
+    it('should build a release notification', () => {
+      expect(buildMovieReleaseNotification({ ...recipient, movieId: 7, title: 'Dune' })).toEqual({
+        ...recipient,
+        category: 'movieReleases',
+        eventKey: 'movieReleases:release:7',
+        message: 'Dune is released today',
+        type: 'movie',
+      });
+    });
+  });
+
+  describe('buildStreamingArrivalNotifications', () => {
+    it('should notify each profile with the movie as a favorite about each new service', () => {
+      const services = [
+        { movieId: 7, title: 'Dune', streamingServiceId: 8, serviceName: 'Max' },
+        { movieId: 9, title: 'Heat', streamingServiceId: 8, serviceName: 'Max' },
+      ];
+      const followers = [
+        { ...recipient, contentId: 7 },
+        { accountId: 2, profileId: 20, contentId: 7 },
+      ];
+
+      expect(buildStreamingArrivalNotifications(services, followers)).toEqual([
+        {
+          ...recipient,
+          category: 'movieReleases',
+          eventKey: 'movieReleases:streaming:7:8',
+          message: 'Dune is now streaming on Max',
+          type: 'movie',
+        },
+        {
+          accountId: 2,
+          profileId: 20,
+          category: 'movieReleases',
+          eventKey: 'movieReleases:streaming:7:8',
+          message: 'Dune is now streaming on Max',
+          type: 'movie',
+        },
+      ]);
+    });
+  });
+
+  describe('findEndedShows', () => {
+    it('should only include known shows that ended or were cancelled', () => {
+      const ended = { showId: 1, title: 'Ozark', status: 'Ended', previousStatus: 'Returning Series', isKnown: true };
+      const changes = [
+        ended,
+        { showId: 2, title: 'Dark', status: 'Ended', previousStatus: null, isKnown: false },
+        { showId: 3, title: 'Severance', status: 'Returning Series', previousStatus: 'In Production', isKnown: true },
+      ];
+
+      expect(findEndedShows(changes)).toEqual([ended]);
+    });
+  });
+
+  describe('buildShowEndingNotifications', () => {
+    it('should say whether a show ended or was cancelled', () => {
+      const shows = [
+        { showId: 1, title: 'Ozark', status: 'Ended', previousStatus: 'Returning Series', isKnown: true },
+        { showId: 2, title: 'Firefly', status: 'Canceled', previousStatus: 'Returning Series', isKnown: true },
+      ];
+      const followers = [
+        { ...recipient, contentId: 1 },
+        { ...recipient, contentId: 2 },
+      ];
+
+      expect(buildShowEndingNotifications(shows, followers)).toEqual([
+        {
+          ...recipient,
+          category: 'showEndings',
+          eventKey: 'showEndings:1:Ended',
+          message: 'Ozark has ended',
+          type: 'tv',
+        },
+        {
+          ...recipient,
+          category: 'showEndings',
+          eventKey: 'showEndings:2:Canceled',
+          message: 'Firefly has been cancelled',
+          type: 'tv',
+        },
+      ]);
+    });
+  });
+
+  describe('filterOptedOut', () => {
+    it('should drop notifications in categories the profile opted out of', () => {
+      const release = buildMovieReleaseNotification({ ...recipient, movieId: 7, title: 'Dune' });
+      const otherProfile = { ...release, profileId: 11 };
+      const [season] = buildSeasonNotifications(
+        [{ showId: 5, showTitle: 'The Bear', seasonId: 50, seasonNumber: 4, releaseDate: null, upcoming: true }],
+        [{ ...recipient, contentId: 5 }],
+      );
+
+      expect(filterOptedOut([release, otherProfile, season], [{ profileId: 10, category: 'movieReleases' }])).toEqual([
+        otherProfile,
+        season,
+      ]);
+    });
+  });
+
+  describe('groupByAccountEvent', () => {
+    it('should group the notifications for the same event on the same account', () => {
+      const release = buildMovieReleaseNotification({ ...recipient, movieId: 7, title: 'Dune' });
+      const sameAccount = { ...release, profileId: 11, profileName: 'Sam' };
+      const otherAccount = { ...release, accountId: 2, profileId: 20, profileName: 'Jo' };
+      const otherEvent = buildMovieReleaseNotification({ ...recipient, movieId: 8, title: 'Arrival' });
+
+      expect(groupByAccountEvent([release, otherAccount, sameAccount, otherEvent])).toEqual([
+        [release, sameAccount],
+        [otherAccount],
+        [otherEvent],
+      ]);
+    });
+  });
+
+  describe('nameProfiles', () => {
+    it('should name a single profile', () => {
+      expect(nameProfiles('Dune is released today', ['Alex'])).toBe('Dune is released today (for Alex)');
+    });
+
+    it('should name every profile, joining the last with and', () => {
+      expect(nameProfiles('Dune is released today', ['Alex', 'Sam', 'Jo'])).toBe(
+        'Dune is released today (for Alex, Sam and Jo)',
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  buildRatingDistribution,
+  toProfileRating,
+  toRatingMap,
+  toStoredRating,
+  withProfileRatings,
+  withSeasonRatings,
+} from '@utils/ratingUtility';
+
+describe('ratingUtility', () => {
+  const updatedAt = new Date('2025-06-01T12:00:00Z');
+
+  describe('toStoredRating', () => {
+    it('should keep ratings on the 1-10 scale', () => {
+      expect(toStoredRating(7, 'points')).toBe(7);
+    });
+
+    it('should double star ratings so each half star is one point', () => {
+      expect(toStoredRating(3.5, 'stars')).toBe(7);
+      expect(toStoredRating(0.5, 'stars')).toBe(1);
+    });
+  });
+
+  describe('toProfileRating', () => {
+    it('should return the rating on both scales', () => {
+      expect(
+        toProfileRating({
+          contentType: 'movie',
+          contentId: 1,
+          rating: 9,
+          review: 'Great',
+          createdAt: updatedAt,
+          updatedAt,
+        }),
+      ).toEqual({ rating: 9, stars: 4.5, review: 'Great', updatedAt });
+    });
+  });
+
+  describe('toRatingMap', () => {
+    it('should key the ratings of one type of content by id', () => {
+      const ratings = [
+        { contentType: 'season' as const, contentId: 1, rating: 6, review: null, createdAt: updatedAt, updatedAt },
+        { contentType: 'episode' as const, contentId: 1, rating: 8, review: null, createdAt: updatedAt, updatedAt },
+      ];
+
+      expect(toRatingMap(ratings, 'episode')).toEqual(new Map([[1, { rating: 8, stars: 4, review: null, updatedAt }]]));
+    });
+  });
+
+  describe('withProfileRatings', () => {
+    it('should add the rating to rated items and null to the rest', () => {
+      const rating = { rating: 8, stars: 4, review: null, updatedAt };
+
+      expect(withProfileRatings([{ movie_id: 1 }, { movie_id: 2 }], 'movie_id', new Map([[2, rating]]))).toEqual([
+        { movie_id: 1, profileRating: null },
+        { movie_id: 2, profileRating: rating },
+      ]);
+    });
+  });
+
+  describe('withSeasonRatings', () => {
+    const seasonRating = { rating: 7, stars: 3.5, review: null, updatedAt };
+    const episodeRating = { rating: 10, stars: 5, review: 'Wow', updatedAt };
+
+    it('should add ratings to seasons and their episodes', () => {
+      const seasons = [{ season_id: 1, episodes: [{ episode_id: 11 }, { episode_id: 12 }] }];
+
+      expect(withSeasonRatings(seasons, new Map([[1, seasonRating]]), new Map([[12, episodeRating]]))).toEqual([
+        {
+          season_id: 1,
+          profileRating: seasonRating,
+          episodes: [
+            { episode_id: 11, profileRating: null },
+            { episode_id: 12, profileRating: episodeRating },
+          ],
+        },
+      ]);
+    });
+
+    it('should leave out episodes when the seasons do not include them', () => {
+      expect(withSeasonRatings([{ season_id: 1 }], new Map(), new Map())).toEqual([
+        { season_id: 1, profileRating: null },
+      ]);
+    });
+  });
+
+  describe('buildRatingDistribution', () => {
+    it('should count every rating from 1 to 10 and average them', () => {
+      const result = buildRatingDistribution([
+        { rating: 7, count: 2 },
+        { rating: 10, count: 1 },
+      ]);
+
+      expect(result.ratedCount).toBe(3);
+      expect(result.averageRating).toBe(8);
+      expect(result.distribution).toHaveLength(10);
+      expect(result.distribution[0]).toEqual({ rating: 1, count: 0 });
+      expect(result.distribution[6]).toEqual({ rating: 7, count: 2 });
+      expect(result.distribution[9]).toEqual({ rating: 10, count: 1 });
+    });
+
+    it('should have no average without ratings', () => {
+      expect(buildRatingDistribution([]).averageRating).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { calculateSeedWeight, formatRecommendationReason, mergeRecommendations } from '@utils/recommendationUtility';
+
+describe('recommendationUtility', () => {
+  const seed = (tmdbId: number, title: string, status = 'WATCHED', rating: number | null = null) => ({
+    contentType: 'show' as const,
+    tmdbId,
+    title,
+    status,
+    rating,
+  });
+
+  describe('calculateSeedWeight', () => {
+    it('should weight started and finished titles above ones not started', () => {
+      expect(calculateSeedWeight(seed(1, 'A', 'WATCHING'))).toBeGreaterThan(
+        calculateSeedWeight(seed(1, 'A', 'NOT_WATCHED')),
+      );
+    });
+
+    it('should scale the weight by the rating', () => {
+      expect(calculateSeedWeight(seed(1, 'A', 'WATCHED', 10))).toBe(2);
+      expect(calculateSeedWeight(seed(1, 'A', 'WATCHED', 1))).toBe(0);
+      expect(calculateSeedWeight(seed(1, 'A', 'WATCHED'))).toBe(1);
+    });
+  });
+
+  describe('formatRecommendationReason', () => {
+    const source = (title: string) => ({ contentType: 'show' as const, tmdbId: 1, title });
+
+    it('should name one or two titles', () => {
+      expect(formatRecommendationReason([source('Dark')])).toBe('Because you watched Dark');
+      expect(formatRecommendationReason([source('Dark'), source('Lost')])).toBe('Because you watched Dark and Lost');
+    });
+
+    it('should count the titles beyond the first two', () => {
+      expect(formatRecommendationReason([source('Dark'), source('Lost'), source('Fringe')])).toBe(
+        'Because you watched Dark and Lost and 1 other title',
+      );
+    });
+  });
+
+  describe('mergeRecommendations', () => {
+    const excluded = () => ({ show: new Set<number>(), movie: new Set<number>() });
+
+    it('should combine duplicates and rank them by their combined score', () => {
+      const result = mergeRecommendations(
+        [
+          {
+            seed: seed(1, 'Dark'),
+            weight: 1,
+            results: [
+              { id: 10, name: 'Solo' },
+              { id: 20, name: 'Shared' },
+            ],
+          },
+          { seed: seed(2, 'Lost'), weight: 1, results: [{ id: 20, name: 'Shared' }] },
+        ],
+        excluded(),
+        10,
+      );
+
+      expect(result.map((recommendation) => recommendation.tmdbId)).toEqual([20, 10]);
+      expect(result[0]).toMatchObject({
+        contentType: 'show',
+        title: 'Shared',
+        score: 1.91,
+        reason: 'Because you watched Lost and Dark',
+        basedOn: [
+          { contentType: 'show', tmdbId: 2, title: 'Lost' },
+          { contentType: 'show', tmdbId: 1, title: 'Dark' },
+        ],
+      });
+    });
+
+    it('should leave out excluded titles and apply the limit', () => {
+      const excludedIds = excluded();
+      excludedIds.show.add(10);
+
+      const result = mergeRecommendations(
+        [{ seed: seed(1, 'Dark'), weight: 1, results: [{ id: 10 }, { id: 20 }, { id: 30 }] }],
+        excludedIds,
+        1,
+      );
+
+      expect(result.map((recommendation) => recommendation.tmdbId)).toEqual([20]);
+    });
+
+    it('should map the TMDB details of movies', () => {
+      const [result] = mergeRecommendations(
+        [
+          {
+            seed: { ...seed(1, 'Heat'), contentType: 'movie' },
+            weight: 1,
+            results: [{ id: 10, title: 'Ronin', release_date: '1998-09-25', vote_average: 7.1, poster_path: '/r.jpg' }],
+          },
+        ],
+        excluded(),
+        10,
+      );
+
+      expect(result).toMatchObject({
+        contentType: 'movie',
+        title: 'Ronin',
+        releaseDate: '1998-09-25',
+        averageRating: 7.1,
+        posterImage: '/r.jpg',
+        description: null,
+      });
+    });
+  });
+});
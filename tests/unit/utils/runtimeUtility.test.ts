@@ -0,0 +1,69 @@
+import {
+  calculatePercentComplete,
+  estimateFinishDate,
+  sumRuntimeTotals,
+  toRuntimeTotals,
+  withSeasonRuntimes,
+} from '@utils/runtimeUtility';
+
+describe('runtimeUtility', () => {
+  describe('toRuntimeTotals', () => {
+    it('should calculate the remaining runtime', () => {
+      expect(toRuntimeTotals(300, 120)).toEqual({ totalRuntime: 300, watchedRuntime: 120, remainingRuntime: 180 });
+    });
+
+    it('should never report a negative remaining runtime', () => {
+      expect(toRuntimeTotals(100, 150).remainingRuntime).toBe(0);
+    });
+  });
+
+  describe('sumRuntimeTotals', () => {
+    it('should add runtime totals together', () => {
+      expect(sumRuntimeTotals([toRuntimeTotals(300, 120), toRuntimeTotals(100, 100)])).toEqual({
+        totalRuntime: 400,
+        watchedRuntime: 220,
+        remainingRuntime: 180,
+      });
+    });
+  });
+
+  describe('calculatePercentComplete', () => {
+    it('should round to one decimal place', () => {
+      expect(calculatePercentComplete(1, 3)).toBe(33.3);
+    });
+
+    it('should return 0 when there is nothing to complete', () => {
+      expect(calculatePercentComplete(0, 0)).toBe(0);
+    });
+  });
+
+  describe('estimateFinishDate', () => {
+    const today = new Date('2025-06-15T12:00:00Z');
+
+    it('should estimate the finish date from the pace', () => {
+      expect(estimateFinishDate(250, 60, today)).toBe('2025-06-20');
+    });
+
+    it('should return today when nothing remains', () => {
+      expect(estimateFinishDate(0, 0, today)).toBe('2025-06-15');
+    });
+
+    it('should return null without a pace', () => {
+      expect(estimateFinishDate(250, 0, today)).toBeNull();
+    });
+  });
+
+  describe('withSeasonRuntimes', () => {
+    it('should add runtime totals to matching seasons and zero totals to the rest', () => {
+      const seasons = [
+        { season_id: 1, name: 'Season 1' },
+        { season_id: 2, name: 'Season 2' },
+      ];
+
+      expect(withSeasonRuntimes(seasons, [{ seasonId: 1, ...toRuntimeTotals(90, 45) }])).toEqual([
+        { season_id: 1, name: 'Season 1', totalRuntime: 90, watchedRuntime: 45, remainingRuntime: 45 },
+        { season_id: 2, name: 'Season 2', totalRuntime: 0, watchedRuntime: 0, remainingRuntime: 0 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { rankSearchResults, scoreTitleMatch, toMediaSearchResult, toPersonSearchResult } from '@utils/searchUtility';
+
+describe('searchUtility', () => {
+  describe('toMediaSearchResult', () => {
+    it('should convert summarized search results', () => {
+      const result = toMediaSearchResult('show', {
+        id: '1396',
+        title: 'Breaking Bad',
+        summary: 'A chemistry teacher...',
+        image: '/ggFHVNu6YYI5L9pCfOacjizRGt.jpg',
+        premiered: '2008-01-20',
+        rating: 8.9,
+        popularity: 300.5,
+      });
+
+      expect(result).toEqual({
+        type: 'show',
+        tmdbId: 1396,
+        title: 'Breaking Bad',
+        description: 'A chemistry teacher...',
+        image: '/ggFHVNu6YYI5L9pCfOacjizRGt.jpg',
+        releaseDate: '2008-01-20',
+        rating: 8.9,
+        popularity: 300.5,
+        inLibrary: false,
+      });
+    });
+
+    it('should convert TMDB search results', () => {
+      const result = toMediaSearchResult('movie', {
+        id: 27205,
+        title: 'Inception',
+        overview: 'Cobb, a skilled thief...',
+        poster_path: '/inception.jpg',
+        release_date: '2010-07-16',
+        vote_average: 8.4,
+      });
+
+      expect(result).toMatchObject({
+        type: 'movie',
+        tmdbId: 27205,
+        description: 'Cobb, a skilled thief...',
+        image: '/inception.jpg',
+        releaseDate: '2010-07-16',
+        rating: 8.4,
+        popularity: 0,
+      });
+    });
+  });
+
+  describe('toPersonSearchResult', () => {
+    it('should use the name as the title', () => {
+      const result = toPersonSearchResult({
+        id: 31,
+        name: 'Tom Hanks',
+        profileImage: null,
+        knownForDepartment: 'Acting',
+        knownFor: ['Big'],
+        popularity: 65.3,
+      });
+
+      expect(result).toMatchObject({ type: 'person', tmdbId: 31, title: 'Tom Hanks', knownFor: ['Big'] });
+    });
+  });
+
+  describe('scoreTitleMatch', () => {
+    it('should score exact, prefix and contained matches ignoring case and punctuation', () => {
+      expect(scoreTitleMatch('the office', 'The Office')).toBe(3);
+      expect(scoreTitleMatch('star wars', 'Star Wars: A New Hope')).toBe(2);
+      expect(scoreTitleMatch('wars', 'Star Wars')).toBe(1);
+      expect(scoreTitleMatch('wars', 'Dune')).toBe(0);
+    });
+  });
+
+  describe('rankSearchResults', () => {
+    it('should rank by title match and then popularity across types', () => {
+      const result = (type: 'show' | 'movie', title: string, popularity: number) => ({
+        ...toMediaSearchResult(type, { id: popularity, title }),
+        popularity,
+      });
+
+      const ranked = rankSearchResults('dune', [
+        result('movie', 'Dune: Part Two', 500),
+        result('show', 'Dune: Prophecy', 200),
+        result('movie', 'Dune', 100),
+        result('movie', 'Jodorowsky’s Dune', 900),
+      ]);
+
+      expect(ranked.map((entry) => entry.title)).toEqual([
+        'Dune',
+        'Dune: Part Two',
+        'Dune: Prophecy',
+        'Jodorowsky’s Dune',
+      ]);
+    });
+  });
+});
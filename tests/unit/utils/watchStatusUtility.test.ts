@@ -0,0 +1,21 @@
+import { deriveWatchStatus } from '@utils/watchStatusUtility';
+
+describe('watchStatusUtility', () => {
+  describe('deriveWatchStatus', () => {
+    it('should be NOT_WATCHED when nothing has been watched', () => {
+      expect(deriveWatchStatus({ total: 10, aired: 10, watched: 0 })).toBe('NOT_WATCHED');
+    });
+
+    it('should be WATCHED when every episode has been watched', () => {
+      expect(deriveWatchStatus({ total: 10, aired: 10, watched: 10 })).toBe('WATCHED');
+    });
+
+    it('should be UP_TO_DATE when every aired episode has been watched', () => {
+      expect(deriveWatchStatus({ total: 10, aired: 6, watched: 6 })).toBe('UP_TO_DATE');
+    });
+
+    it('should be WATCHING when some aired episodes are unwatched', () => {
+      expect(deriveWatchStatus({ total: 10, aired: 8, watched: 3 })).toBe('WATCHING');
+    });
+  });
+});